@@ -0,0 +1,164 @@
+/**
+ * Reminder Service Worker
+ *
+ * Shows reminders so they reach the user whether or not the app is open.
+ * The app posts the queue of upcoming reminders (built by
+ * buildReminderQueue in src/services/reminderService.ts) whenever reminders
+ * change; the worker keeps it in Cache storage and shows whatever has
+ * fallen due on each periodic background sync, and when an open tab pings
+ * it at the moment a reminder is due.
+ *
+ * A tap opens the entry form for the reminder's tracker, in an open tab or
+ * by opening the app with a query parameter. The snooze action is handled
+ * here without opening anything: the reminder is queued again for the
+ * user's snooze length and the snooze is handed to the app to save, at once
+ * if a tab is open or with the next queue it posts otherwise. Message types
+ * and parameters match REMINDER_MESSAGES and REMINDER_PARAMS in
+ * src/types/reminder.ts.
+ */
+
+const MESSAGES = {
+  open: 'reminder-open',
+  schedule: 'reminder-schedule',
+  due: 'reminder-due',
+  snoozed: 'reminder-snoozed',
+};
+const OPEN_PARAM = 'log';
+const SYNC_TAG = 'reminders';
+
+const STATE_CACHE = 'baseline-reminders';
+const STATE_KEY = '/reminder-state.json';
+const MINUTE = 60 * 1000;
+
+/**
+ * queue: upcoming reminders, oldest first ({ reminderId, trackerId, title, body, at })
+ * shownUntil: everything due up to here has been shown
+ * snoozes: reminders snoozed here that the app has not saved yet (queue items)
+ */
+const EMPTY_STATE = { queue: [], shownUntil: 0, snoozeMinutes: 30, snoozes: [] };
+
+async function loadState() {
+  const cache = await self.caches.open(STATE_CACHE);
+  const response = await cache.match(STATE_KEY);
+  return response ? { ...EMPTY_STATE, ...(await response.json()) } : { ...EMPTY_STATE };
+}
+
+async function saveState(state) {
+  const cache = await self.caches.open(STATE_CACHE);
+  await cache.put(STATE_KEY, new Response(JSON.stringify(state), { headers: { 'Content-Type': 'application/json' } }));
+}
+
+const byTime = (a, b) => a.at - b.at;
+
+function showReminder(item, snoozeMinutes) {
+  const { reminderId, trackerId, title, body } = item;
+  return self.registration.showNotification(title, {
+    body,
+    tag: `reminder-${reminderId}`,
+    data: { reminderId, trackerId, title, body },
+    actions: [{ action: 'snooze', title: `Snooze ${snoozeMinutes} min` }],
+  });
+}
+
+/**
+ * Show every reminder due since the last time, once each. When several
+ * firings of one reminder were missed (the device was asleep) only the
+ * latest is shown.
+ */
+async function showDue(now) {
+  const state = await loadState();
+  const latest = new Map();
+  for (const item of state.queue) {
+    if (item.at > state.shownUntil && item.at <= now) latest.set(item.reminderId, item);
+  }
+
+  await Promise.all([...latest.values()].map(item => showReminder(item, state.snoozeMinutes)));
+  await saveState({ ...state, queue: state.queue.filter(item => item.at > now), shownUntil: now });
+}
+
+async function windowClients() {
+  return self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+}
+
+const snoozeMessage = snoozes => ({
+  type: MESSAGES.snoozed,
+  snoozes: snoozes.map(item => ({ reminderId: item.reminderId, until: item.at })),
+});
+
+/**
+ * Hold a reminder for the snooze length: drop its firings until then, queue
+ * it again, and hand the snooze to an open tab to save (or keep it until the
+ * app next posts its queue)
+ */
+async function snooze(data, now) {
+  const state = await loadState();
+  const item = { ...data, at: now + state.snoozeMinutes * MINUTE };
+  const keep = other => other.reminderId !== item.reminderId || other.at > item.at;
+
+  const queue = [...state.queue.filter(keep), item].sort(byTime);
+  let snoozes = [...state.snoozes.filter(other => other.reminderId !== item.reminderId), item];
+
+  const windows = await windowClients();
+  if (windows.length > 0) {
+    windows.forEach(client => client.postMessage(snoozeMessage(snoozes)));
+    snoozes = [];
+  }
+  await saveState({ ...state, queue, snoozes });
+}
+
+/**
+ * Take a new queue from the app. Snoozes it has not saved yet stay queued
+ * and are sent back so it can save them.
+ */
+async function schedule(queue, snoozeMinutes, source, now) {
+  const state = await loadState();
+  const pending = state.snoozes;
+  const snoozed = new Map(pending.map(item => [item.reminderId, item.at]));
+  const keep = item => !snoozed.has(item.reminderId) || item.at > snoozed.get(item.reminderId);
+
+  await saveState({
+    queue: [...queue.filter(keep), ...pending].sort(byTime),
+    shownUntil: state.shownUntil || now,
+    snoozeMinutes,
+    snoozes: [],
+  });
+  if (pending.length > 0 && source) source.postMessage(snoozeMessage(pending));
+}
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', event => {
+  const { type, queue, snoozeMinutes } = event.data ?? {};
+  if (type === MESSAGES.schedule) event.waitUntil(schedule(queue ?? [], snoozeMinutes, event.source, Date.now()));
+  if (type === MESSAGES.due) event.waitUntil(showDue(Date.now()));
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === SYNC_TAG) event.waitUntil(showDue(Date.now()));
+});
+
+self.addEventListener('notificationclick', event => {
+  const data = event.notification.data ?? {};
+  event.notification.close();
+
+  if (event.action === 'snooze') {
+    event.waitUntil(snooze(data, Date.now()));
+    return;
+  }
+
+  event.waitUntil((async () => {
+    const windows = await windowClients();
+    const client = windows.find(w => w.focused) ?? windows[0];
+
+    if (client) {
+      client.postMessage({ type: MESSAGES.open, trackerId: data.trackerId });
+      await client.focus();
+      return;
+    }
+
+    const params = new URLSearchParams({ [OPEN_PARAM]: data.trackerId });
+    await self.clients.openWindow(`/?${params}`);
+  })());
+});
@@ -1,7 +1,7 @@
-import { db, auth, tracker as trackerService } from '@/runtime/appRuntime'
-import { useEffect, useState, useMemo, useCallback } from 'react'
+import { db, auth, tracker as trackerService, runtimeConfig } from '@/runtime/appRuntime'
+import { useEffect, useState, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Plus, List, Calendar, SignOut } from '@phosphor-icons/react'
+import { Plus, List, Calendar, SignOut, LockSimple, Key, FileText, ChartLine, Fire, Pill, ClipboardText, Bell } from '@phosphor-icons/react'
 
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
@@ -24,21 +24,38 @@ import { Toaster } from '@/components/ui/sonner'
 
 import { PainEntry, BODY_LOCATIONS } from '@/types/pain-entry'
 import type { Tracker, TrackerPresetId } from '@/types/tracker'
-import { PainEntryForm } from '@/components/PainEntryForm'
+import type { EntryRevision } from '@/types/entry-revision'
+import { PainEntryForm, type PainEntryFormData } from '@/components/PainEntryForm'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
-import { PainEntryCard } from '@/components/PainEntryCard'
+import { EntryTimeline } from '@/components/EntryTimeline'
 import { EmptyState } from '@/components/EmptyState'
 import { AuthForm } from '@/components/AuthForm'
+import { DeviceLockScreen } from '@/components/DeviceLockScreen'
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator'
 import { TrackerSelector } from '@/components/TrackerSelector'
 import { WelcomeScreen } from '@/components/WelcomeScreen'
 import { Dashboard } from '@/components/Dashboard'
-import { filterEntriesByDateRange, filterEntriesByLocation } from '@/lib/pain-utils'
+import { ReportDialog } from '@/components/ReportDialog'
+import { InsightsView } from '@/components/InsightsView'
+import { FlareTimeline } from '@/components/FlareTimeline'
+import { MedicationsView } from '@/components/MedicationsView'
+import { AssessmentsView } from '@/components/AssessmentsView'
+import { RemindersDialog } from '@/components/RemindersDialog'
+import { QuickEntryBox } from '@/components/QuickEntryBox'
+import { buildEntryFilterWhere } from '@/lib/pain-utils'
+import { restoreRevision } from '@/services/revisionService'
+import { NOT_TRASHED, purgeTrash, restoreEntry, trashEntry } from '@/services/trashService'
+import { useEntryTimeline } from '@/hooks/use-entry-timeline'
+import { useReminders } from '@/hooks/use-reminders'
 import { getTrackerConfig } from '@/types/tracker-config'
 import type { AuthUser } from '@/ports/AuthPort'
 
 /** View states for the main app */
 type AppView = 'welcome' | 'dashboard' | 'tracker';
 
+/** Device-only mode: no account, data stays in this browser */
+const isDeviceMode = runtimeConfig.mode === 'device';
+
 /**
  * Validates session against Supabase server before trusting any state.
  * This catches: deleted users, expired tokens, revoked sessions, etc.
@@ -83,8 +100,6 @@ function App() {
   // Only trust user state AFTER server validation completes
   const [user, setUser] = useState<AuthUser | null>(null)
   const [authLoading, setAuthLoading] = useState(true)
-  const [entries, setEntries] = useState<PainEntry[]>([])
-  const [loading, setLoading] = useState(true)
   const [emailConfirmed, setEmailConfirmed] = useState(false)
   const [passwordRecoveryOpen, setPasswordRecoveryOpen] = useState(false)
   const [newPassword, setNewPassword] = useState('')
@@ -92,6 +107,8 @@ function App() {
   const [updatingPassword, setUpdatingPassword] = useState(false)
   const [currentTracker, setCurrentTracker] = useState<Tracker | null>(null)
   const [aboutOpen, setAboutOpen] = useState(false)
+  const [reportOpen, setReportOpen] = useState(false)
+  const [remindersOpen, setRemindersOpen] = useState(false)
   
   // Multi-tracker and view state
   const [trackers, setTrackers] = useState<Tracker[]>([])
@@ -122,7 +139,6 @@ function App() {
         // Show reset password dialog when Supabase triggers recovery event
         setPasswordRecoveryOpen(true)
       } else if (event === 'SIGNED_OUT') {
-        setEntries([])
         setEmailConfirmed(false)
       }
     })
@@ -130,10 +146,17 @@ function App() {
     return () => unsubscribe()
   }, [])
 
+  // Empty out anything that has been in the trash for 30 days
+  useEffect(() => {
+    if (!user) return
+    purgeTrash(db, trackerService, user.id).then(({ error }) => {
+      if (error) console.error('Could not purge trash', error)
+    })
+  }, [user])
+
   // Load all trackers when user is authenticated
   useEffect(() => {
     if (!user) {
-      setLoading(false)
       setTrackersLoading(false)
       setTrackers([])
       setCurrentView('dashboard')
@@ -165,54 +188,57 @@ function App() {
     loadTrackers()
   }, [user])
 
-  // Load entries when tracker changes
+  const [showForm, setShowForm] = useState(false)
+  const [editingEntry, setEditingEntry] = useState<PainEntry | null>(null)
+  const [dateFilter, setDateFilter] = useState<string | null>(null)
+  const [locationFilter, setLocationFilter] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [matchingEntries, setMatchingEntries] = useState<PainEntry[]>([])
+  // Bumped on every entry write so database-side views re-query
+  const [entriesVersion, setEntriesVersion] = useState(0)
+
+  // Wait for a pause in typing before querying
   useEffect(() => {
-    if (!user || !currentTracker) {
-      return
-    }
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
 
-    const loadEntries = async () => {
-      setLoading(true)
+  const hasFilters = Boolean(dateFilter || locationFilter || debouncedSearch)
+
+  // Filters run in the database; re-query whenever they change or entries are written
+  useEffect(() => {
+    if (!currentTracker || !hasFilters) return
+
+    let cancelled = false
+    const loadMatchingEntries = async () => {
       const { data, error } = await db.select<PainEntry>('pain_entries', {
-        where: { tracker_id: currentTracker.id },
+        where: {
+          tracker_id: currentTracker.id,
+          ...NOT_TRASHED,
+          ...buildEntryFilterWhere({
+            days: dateFilter ? parseInt(dateFilter, 10) : null,
+            location: locationFilter,
+            search: debouncedSearch,
+          }),
+        },
         orderBy: { column: 'timestamp', ascending: false },
       })
+      if (cancelled) return
 
       if (error) {
         console.error(error)
-        
-        // Check for auth-related errors (deleted user, invalid token, etc.)
-        const errorMsg = error.message?.toLowerCase() ?? ''
-        if (
-          errorMsg.includes('jwt') ||
-          errorMsg.includes('token') ||
-          errorMsg.includes('unauthorized') ||
-          errorMsg.includes('auth') ||
-          errorMsg.includes('permission') ||
-          errorMsg.includes('row-level security')
-        ) {
-          toast.error('Session expired. Please sign in again.')
-          await auth.signOut()
-          setUser(null)
-          return
-        }
-        
-        toast.error('Could not load entries')
-        setLoading(false)
+        toast.error('Could not filter entries')
         return
       }
-
-      setEntries(data ?? [])
-      setLoading(false)
+      setMatchingEntries(data ?? [])
     }
 
-    loadEntries()
-  }, [user, currentTracker])
-  const [showForm, setShowForm] = useState(false)
-  const [editingEntry, setEditingEntry] = useState<PainEntry | null>(null)
-  const [dateFilter, setDateFilter] = useState<string | null>(null)
-  const [locationFilter, setLocationFilter] = useState<string | null>(null)
-  const [searchTerm, setSearchTerm] = useState('')
+    loadMatchingEntries()
+    return () => {
+      cancelled = true
+    }
+  }, [currentTracker, entriesVersion, hasFilters, dateFilter, locationFilter, debouncedSearch])
 
   // Helper to check if an error is auth-related
   const isAuthError = (error: Error | null): boolean => {
@@ -235,28 +261,89 @@ function App() {
     setUser(null)
   }
 
-  const handleAddEntry = async (data: {
-    intensity: number
-    locations: string[]
-    notes: string
-    triggers: string[]
-    hashtags: string[]
-  }) => {
+  const handleLoadError = async (error: Error) => {
+    console.error(error)
+    // Deleted user, invalid token, etc.
+    if (isAuthError(error)) {
+      await handleAuthError()
+      return
+    }
+    toast.error('Could not load entries')
+  }
+
+  // Newest-first pages of entries for the list
+  const {
+    timeline,
+    loading,
+    loadingMore,
+    loadMore,
+    jumpTo,
+    upsert: upsertTimelineEntry,
+    remove: removeTimelineEntry,
+  } = useEntryTimeline(user && currentTracker ? currentTracker.id : null, handleLoadError)
+
+  // Insights, flares, medications and reports need the whole history; load it the first time one opens
+  const [activeTab, setActiveTab] = useState('all')
+  const [historyEntries, setHistoryEntries] = useState<PainEntry[] | null>(null)
+  const needsHistory = activeTab === 'insights' || activeTab === 'flares' || activeTab === 'medications' || reportOpen
+
+  useEffect(() => {
+    setHistoryEntries(null)
+  }, [currentTracker])
+
+  useEffect(() => {
+    if (!user || !currentTracker || !needsHistory || historyEntries) return
+
+    let cancelled = false
+    const loadHistory = async () => {
+      const { data, error } = await db.select<PainEntry>('pain_entries', {
+        where: { tracker_id: currentTracker.id, ...NOT_TRASHED },
+        orderBy: { column: 'timestamp', ascending: false },
+      })
+      if (cancelled) return
+
+      if (error) {
+        await handleLoadError(error)
+        return
+      }
+      setHistoryEntries(data ?? [])
+    }
+
+    loadHistory()
+    return () => {
+      cancelled = true
+    }
+  }, [user, currentTracker, needsHistory, historyEntries])
+
+  // Apply a write to every loaded copy of the entries
+  const cacheEntry = (entry: PainEntry) => {
+    upsertTimelineEntry(entry)
+    setHistoryEntries(current => current && [entry, ...current.filter(e => e.id !== entry.id)]
+      .sort((a, b) => b.timestamp - a.timestamp))
+    setEntriesVersion(version => version + 1)
+  }
+
+  const uncacheEntry = (id: string) => {
+    removeTimelineEntry(id)
+    setHistoryEntries(current => current && current.filter(e => e.id !== id))
+    setEntriesVersion(version => version + 1)
+  }
+
+  const handleAddEntry = async (data: PainEntryFormData): Promise<boolean> => {
     if (!user) {
       toast.error('You must be signed in to add entries')
-      return
+      return false
     }
 
     if (!currentTracker) {
       toast.error('Please select a tracker first')
-      return
+      return false
     }
 
     const newEntry: PainEntry = {
       id: `${Date.now()}-${Math.random()}`,
       user_id: user.id,
       tracker_id: currentTracker.id,
-      timestamp: Date.now(),
       ...data,
     }
 
@@ -266,15 +353,16 @@ function App() {
       console.error(error)
       if (isAuthError(error)) {
         await handleAuthError()
-        return
+        return false
       }
       toast.error('Could not save entry')
-      return
+      return false
     }
 
-    setEntries(current => [newEntry, ...current])
+    cacheEntry(newEntry)
     setShowForm(false)
     toast.success('Entry saved')
+    return true
   }
 
   const handleEditEntry = (entry: PainEntry) => {
@@ -282,13 +370,7 @@ function App() {
     setShowForm(true)
   }
 
-  const handleUpdateEntry = async (data: {
-    intensity: number
-    locations: string[]
-    notes: string
-    triggers: string[]
-    hashtags: string[]
-  }) => {
+  const handleUpdateEntry = async (data: PainEntryFormData) => {
     if (!editingEntry) return
 
     const updatedEntry: PainEntry = {
@@ -296,10 +378,11 @@ function App() {
       ...data,
     }
 
-    const { error } = await db.update<PainEntry>('pain_entries', {
-      id: editingEntry.id,
-      ...data,
-    })
+    const { error } = await db.update<PainEntry>(
+      'pain_entries',
+      { id: editingEntry.id },
+      data
+    )
 
     if (error) {
       console.error(error)
@@ -311,18 +394,15 @@ function App() {
       return
     }
 
-    setEntries(current =>
-      current.map(entry =>
-        entry.id === editingEntry.id ? updatedEntry : entry
-      )
-    )
+    cacheEntry(updatedEntry)
     setShowForm(false)
     setEditingEntry(null)
     toast.success('Entry updated')
   }
 
-  const handleDeleteEntry = async (id: string) => {
-    const { error } = await db.delete('pain_entries', { id })
+  // Apply a few changes to an entry without opening the form
+  const patchEntry = async (entry: PainEntry, changes: Partial<PainEntry>, message?: string) => {
+    const { error } = await db.update<PainEntry>('pain_entries', { id: entry.id }, changes)
 
     if (error) {
       console.error(error)
@@ -330,49 +410,117 @@ function App() {
         await handleAuthError()
         return
       }
-      toast.error('Could not delete entry')
+      toast.error('Could not update entry')
       return
     }
 
-    setEntries(current => current.filter(entry => entry.id !== id))
-    toast.success('Entry deleted')
+    cacheEntry({ ...entry, ...changes })
+    if (message) toast.success(message)
   }
 
-  const filteredEntries = useMemo(() => {
-    if (!entries) return []
+  // Close an ongoing episode at the current time
+  const handleEndEntry = (entry: PainEntry) =>
+    patchEntry(entry, { ended_at: Math.max(Date.now(), entry.timestamp), ongoing: false }, 'Marked as ended')
 
-    let filtered = entries
+  // Answer (or skip) "how is it now?" on an entry with interventions
+  const handleFollowUp = (entry: PainEntry, changes: Partial<PainEntry>) =>
+    patchEntry(entry, changes, changes.followed_up_at ? 'Thanks, noted how it went' : undefined)
 
-    if (dateFilter) {
-      filtered = filterEntriesByDateRange(filtered, parseInt(dateFilter, 10))
+  // Put an entry back as it was before one of its edits
+  const handleRestoreRevision = async (entry: PainEntry, revision: EntryRevision) => {
+    const { data, error } = await restoreRevision(db, revision, entry)
+
+    if (error || !data) {
+      console.error(error)
+      if (error && isAuthError(error)) {
+        await handleAuthError()
+        return
+      }
+      toast.error('Could not restore entry')
+      return
     }
 
-    if (locationFilter) {
-      filtered = filterEntriesByLocation(filtered, locationFilter)
+    cacheEntry(data)
+    toast.success('Earlier version restored')
+  }
+
+  // Show an entry taken back out of the trash
+  const handleEntryRestored = (entry: PainEntry) => {
+    if (entry.tracker_id === currentTracker?.id) cacheEntry(entry)
+  }
+
+  const handleUndoDelete = async (id: string) => {
+    const { data, error } = await restoreEntry(db, id)
+
+    if (error || !data) {
+      console.error(error)
+      toast.error('Could not restore entry')
+      return
     }
 
-    if (searchTerm.trim()) {
-      const query = searchTerm.toLowerCase()
-
-      filtered = filtered.filter(entry => {
-        const text = [
-          entry.notes,
-          entry.triggers.join(' '),
-          entry.locations.join(' '),
-          (entry.hashtags ?? []).map(tag => `#${tag}`).join(' '),
-          String(entry.intensity),
-        ]
-          .join(' ')
-          .toLowerCase()
-
-        return text.includes(query)
-      })
+    handleEntryRestored(data)
+    toast.success('Entry restored')
+  }
+
+  // Deleting only moves the entry to the trash, so it can be undone
+  const handleDeleteEntry = async (id: string) => {
+    const { error } = await trashEntry(db, id)
+
+    if (error) {
+      console.error(error)
+      if (isAuthError(error)) {
+        await handleAuthError()
+        return
+      }
+      toast.error('Could not delete entry')
+      return
     }
 
-    return filtered
-  }, [entries, dateFilter, locationFilter, searchTerm])
+    uncacheEntry(id)
+    toast.success('Entry moved to trash', {
+      action: { label: 'Undo', onClick: () => handleUndoDelete(id) },
+    })
+  }
 
-  const entryCount = entries?.length ?? 0
+  const hasEntries = timeline.entries.length > 0 || timeline.anchor !== null
+
+  // With filters on, the list shows every match; otherwise it pages through the timeline
+  const renderEntryList = (tracker: Tracker) => hasFilters ? (
+    <EntryTimeline
+      tracker={tracker}
+      entries={matchingEntries}
+      hasMore={false}
+      loadingMore={false}
+      onLoadMore={loadMore}
+      anchor={null}
+      onEdit={handleEditEntry}
+      onEnd={handleEndEntry}
+      onFollowUp={handleFollowUp}
+      onRestore={handleRestoreRevision}
+      onDelete={handleDeleteEntry}
+    />
+  ) : (
+    <EntryTimeline
+      tracker={tracker}
+      entries={timeline.entries}
+      hasMore={timeline.hasMore}
+      loadingMore={loadingMore}
+      onLoadMore={loadMore}
+      anchor={timeline.anchor}
+      onJumpTo={jumpTo}
+      onEdit={handleEditEntry}
+      onEnd={handleEndEntry}
+      onFollowUp={handleFollowUp}
+      onRestore={handleRestoreRevision}
+      onDelete={handleDeleteEntry}
+    />
+  )
+
+  const historyLoader = (
+    <div className="flex justify-center py-12 text-muted-foreground">
+      Loading history…
+    </div>
+  )
 
   const handleSignOut = async () => {
     console.log('[App] Sign out clicked');
@@ -382,7 +530,7 @@ function App() {
       if (error) {
         toast.error('Could not sign out')
       } else {
-        toast.success('Signed out')
+        toast.success(isDeviceMode ? 'Diary locked' : 'Signed out')
       }
     } catch (err) {
       console.error('[App] Sign out exception:', err);
@@ -391,12 +539,13 @@ function App() {
   }
 
   const handlePasswordUpdate = async () => {
-    if (!newPassword || newPassword.length < 8) {
+    // Device passcodes may be short (or empty to remove), account passwords may not
+    if (!isDeviceMode && (!newPassword || newPassword.length < 8)) {
       toast.error('Password must be at least 8 characters')
       return
     }
     if (newPassword !== confirmPassword) {
-      toast.error('Passwords do not match')
+      toast.error(isDeviceMode ? 'Passcodes do not match' : 'Passwords do not match')
       return
     }
     setUpdatingPassword(true)
@@ -406,7 +555,11 @@ function App() {
       toast.error(error.message || 'Could not update password')
       return
     }
-    toast.success('Password updated successfully')
+    if (isDeviceMode) {
+      toast.success(newPassword ? 'Passcode set' : 'Passcode removed')
+    } else {
+      toast.success('Password updated successfully')
+    }
     setPasswordRecoveryOpen(false)
     setNewPassword('')
     setConfirmPassword('')
@@ -433,6 +586,15 @@ function App() {
     setCurrentView('tracker')
   }, [])
 
+  const handleTrackerUpdated = useCallback((tracker: Tracker) => {
+    setTrackers(prev => prev.map(t => (t.id === tracker.id ? tracker : t)))
+  }, [])
+
+  const handleTrackerRestored = useCallback((tracker: Tracker) => {
+    setTrackers(prev => [...prev.filter(t => t.id !== tracker.id), tracker]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at)))
+  }, [])
+
   const handleTrackerDeleted = useCallback((trackerId: string) => {
     setTrackers(prev => prev.filter(t => t.id !== trackerId))
     // If deleted the current tracker, reset
@@ -441,6 +603,24 @@ function App() {
     }
   }, [currentTracker?.id])
 
+  // Tapping a reminder opens a new entry for its tracker
+  const handleReminderOpen = useCallback((trackerId: string) => {
+    const tracker = trackers.find(t => t.id === trackerId)
+    if (!tracker) return
+    setCurrentTracker(tracker)
+    setCurrentView('tracker')
+    setEditingEntry(null)
+    setShowForm(true)
+  }, [trackers])
+
+  const {
+    reminders,
+    settings: reminderSettings,
+    setSettings: setReminderSettings,
+    upsertReminder,
+    removeReminder,
+  } = useReminders(user?.id ?? null, trackers, handleReminderOpen)
+
   // Show loading while validating auth with server
   if (authLoading) {
     return (
@@ -451,12 +631,12 @@ function App() {
     )
   }
 
-  // Show auth form if not signed in
+  // Show auth form (or the device lock screen) if not signed in
   if (!user) {
     return (
       <>
         <Toaster />
-        <AuthForm />
+        {isDeviceMode ? <DeviceLockScreen /> : <AuthForm />}
       </>
     )
   }
@@ -508,25 +688,31 @@ function App() {
       <Dialog open={passwordRecoveryOpen} onOpenChange={setPasswordRecoveryOpen}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>Reset your password</DialogTitle>
+            <DialogTitle>{isDeviceMode ? 'Device passcode' : 'Reset your password'}</DialogTitle>
           </DialogHeader>
           <div className="space-y-3">
+            {isDeviceMode && (
+              <p className="text-sm text-muted-foreground">
+                The passcode locks this diary on this device. Leave both fields blank to remove it.
+                It cannot be recovered if forgotten.
+              </p>
+            )}
             <Input
               type="password"
-              placeholder="New password"
+              placeholder={isDeviceMode ? 'New passcode' : 'New password'}
               value={newPassword}
               onChange={e => setNewPassword(e.target.value)}
             />
             <Input
               type="password"
-              placeholder="Confirm new password"
+              placeholder={isDeviceMode ? 'Confirm passcode' : 'Confirm new password'}
               value={confirmPassword}
               onChange={e => setConfirmPassword(e.target.value)}
             />
             <div className="flex gap-2 justify-end">
               <Button variant="ghost" onClick={() => setPasswordRecoveryOpen(false)}>Cancel</Button>
               <Button onClick={handlePasswordUpdate} disabled={updatingPassword}>
-                {updatingPassword ? 'Updating…' : 'Update password'}
+                {updatingPassword ? 'Updating…' : isDeviceMode ? 'Save passcode' : 'Update password'}
               </Button>
             </div>
           </div>
@@ -576,15 +762,29 @@ function App() {
                 Know your baseline, spot the changes
               </p>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleSignOut}
-              className="gap-2"
-            >
-              <SignOut size={18} />
-              Sign Out
-            </Button>
+            <div className="flex items-center gap-1">
+              <SyncStatusIndicator />
+              {isDeviceMode && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPasswordRecoveryOpen(true)}
+                  className="gap-2"
+                >
+                  <Key size={18} />
+                  Passcode
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleSignOut}
+                className="gap-2"
+              >
+                {isDeviceMode ? <LockSimple size={18} /> : <SignOut size={18} />}
+                {isDeviceMode ? 'Lock' : 'Sign Out'}
+              </Button>
+            </div>
           </div>
           
           {/* Tracker Selector - only show when in tracker view */}
@@ -629,6 +829,9 @@ function App() {
               onTrackerSelect={handleTrackerSelect}
               onTrackerCreated={handleTrackerCreated}
               onTrackerDeleted={handleTrackerDeleted}
+              onTrackerUpdated={handleTrackerUpdated}
+              onTrackerRestored={handleTrackerRestored}
+              onEntryRestored={handleEntryRestored}
             />
           </motion.div>
         )}
@@ -670,20 +873,49 @@ function App() {
                     exit={{ opacity: 0, scale: 0.95 }}
                     transition={{ duration: 0.2 }}
                   >
+                    <div className="flex flex-col sm:flex-row gap-3">
                     <Button
                       onClick={() => setShowForm(true)}
                       size="lg"
                       className="w-full sm:w-auto gap-2 bg-accent hover:bg-accent/90 text-accent-foreground shadow-lg"
                     >
                 <Plus size={20} weight="bold" />
-                {getTrackerConfig(currentTracker?.preset_id as TrackerPresetId | null, currentTracker?.generated_config).addButtonLabel}
+                {getTrackerConfig(currentTracker?.preset_id as TrackerPresetId | null, currentTracker?.generated_config, currentTracker?.scale).addButtonLabel}
+              </Button>
+              {hasEntries && (
+                <Button
+                  onClick={() => setReportOpen(true)}
+                  size="lg"
+                  variant="outline"
+                  className="w-full sm:w-auto gap-2"
+                >
+                  <FileText size={20} />
+                  Generate report
+                </Button>
+              )}
+              <Button
+                onClick={() => setRemindersOpen(true)}
+                size="lg"
+                variant="outline"
+                className="w-full sm:w-auto gap-2"
+              >
+                <Bell size={20} />
+                Reminders
               </Button>
+                    </div>
+                    <div className="mt-4">
+                      <QuickEntryBox
+                        tracker={currentTracker}
+                        onSubmit={handleAddEntry}
+                        onOpenForm={() => setShowForm(true)}
+                      />
+                    </div>
             </motion.div>
           )}
         </AnimatePresence>
 
-        {entryCount > 0 && (
-          <Tabs defaultValue="all" className="space-y-6">
+        {hasEntries && (
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
             <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
               <TabsList className="bg-muted">
                 <TabsTrigger value="all" className="gap-2">
@@ -694,6 +926,22 @@ function App() {
                   <Calendar size={18} />
                   Filter
                 </TabsTrigger>
+                <TabsTrigger value="insights" className="gap-2">
+                  <ChartLine size={18} />
+                  Insights
+                </TabsTrigger>
+                <TabsTrigger value="flares" className="gap-2">
+                  <Fire size={18} />
+                  Flares
+                </TabsTrigger>
+                <TabsTrigger value="medications" className="gap-2">
+                  <Pill size={18} />
+                  Meds
+                </TabsTrigger>
+                <TabsTrigger value="assessments" className="gap-2">
+                  <ClipboardText size={18} />
+                  Assess
+                </TabsTrigger>
               </TabsList>
 
               {/* Search box */}
@@ -707,20 +955,10 @@ function App() {
             </div>
 
             <TabsContent value="all" className="space-y-4 mt-6">
-              {filteredEntries.length === 0 ? (
+              {hasFilters && matchingEntries.length === 0 ? (
                 <EmptyState tracker={currentTracker} />
               ) : (
-                <div className="space-y-4">
-                  {filteredEntries.map(entry => (
-                    <PainEntryCard
-                      key={entry.id}
-                      entry={entry}
-                      tracker={currentTracker}
-                      onDelete={handleDeleteEntry}
-                      onEdit={handleEditEntry}
-                    />
-                  ))}
-                </div>
+                renderEntryList(currentTracker)
               )}
             </TabsContent>
 
@@ -770,7 +1008,7 @@ function App() {
                 </div>
               </div>
 
-              {filteredEntries.length === 0 ? (
+              {hasFilters && matchingEntries.length === 0 ? (
                 <div className="text-center py-12">
                   <p className="text-muted-foreground">
                     No entries match your filters. Try adjusting your criteria.
@@ -778,26 +1016,63 @@ function App() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  <p className="text-sm text-muted-foreground">
-                    Showing {filteredEntries.length}{' '}
-                    {filteredEntries.length === 1 ? 'entry' : 'entries'}
-                  </p>
-                  {filteredEntries.map(entry => (
-                    <PainEntryCard
-                      key={entry.id}
-                      entry={entry}
-                      tracker={currentTracker}
-                      onDelete={handleDeleteEntry}
-                      onEdit={handleEditEntry}
-                    />
-                  ))}
+                  {hasFilters && (
+                    <p className="text-sm text-muted-foreground">
+                      Showing {matchingEntries.length}{' '}
+                      {matchingEntries.length === 1 ? 'entry' : 'entries'}
+                    </p>
+                  )}
+                  {renderEntryList(currentTracker)}
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="insights" className="mt-6">
+              {hasFilters ? (
+                <InsightsView tracker={currentTracker} entries={matchingEntries} />
+              ) : historyEntries ? (
+                <InsightsView tracker={currentTracker} entries={historyEntries} />
+              ) : historyLoader}
+            </TabsContent>
+
+            <TabsContent value="flares" className="mt-6">
+              {historyEntries ? (
+                <FlareTimeline tracker={currentTracker} entries={historyEntries} userId={user.id} />
+              ) : historyLoader}
+            </TabsContent>
+
+            <TabsContent value="medications" className="mt-6">
+              {historyEntries ? (
+                <MedicationsView tracker={currentTracker} entries={historyEntries} userId={user.id} />
+              ) : historyLoader}
+            </TabsContent>
+
+            <TabsContent value="assessments" className="mt-6">
+              <AssessmentsView tracker={currentTracker} userId={user.id} />
+            </TabsContent>
           </Tabs>
         )}
 
-        {entryCount === 0 && !showForm && <EmptyState tracker={currentTracker} />}
+        {!hasEntries && !showForm && <EmptyState tracker={currentTracker} />}
+
+        <ReportDialog
+          open={reportOpen}
+          onOpenChange={setReportOpen}
+          tracker={currentTracker}
+          entries={historyEntries ?? []}
+        />
+
+        <RemindersDialog
+          open={remindersOpen}
+          onOpenChange={setRemindersOpen}
+          tracker={currentTracker}
+          userId={user.id}
+          reminders={reminders.filter(r => r.tracker_id === currentTracker.id)}
+          settings={reminderSettings}
+          onReminderSaved={upsertReminder}
+          onReminderDeleted={removeReminder}
+          onSettingsSaved={setReminderSettings}
+        />
             </main>
           </motion.div>
         )}
@@ -806,7 +1081,9 @@ function App() {
       <footer className="border-t mt-16">
         <div className="container max-w-4xl mx-auto px-6 py-6">
           <p className="text-sm text-muted-foreground text-center">
-            Your data is stored securely and privately.
+            {isDeviceMode
+              ? 'Your data is stored only on this device.'
+              : 'Your data is stored securely and privately.'}
           </p>
         </div>
       </footer>
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { localAuth, PASSCODE_ITERATIONS, type DeviceProfile } from '../localAuth'
+
+const PROFILE_KEY = 'app_kv:device_profile'
+
+/** In-memory Storage, enough for localKv and the unlock flag */
+function fakeStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    get length() { return items.size },
+    key: (i: number) => [...items.keys()][i] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value) },
+    removeItem: (key: string) => { items.delete(key) },
+    clear: () => items.clear(),
+  }
+}
+
+const storedProfile = () => JSON.parse(localStorage.getItem(PROFILE_KEY) as string) as DeviceProfile
+
+describe('localAuth', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', fakeStorage())
+    vi.stubGlobal('sessionStorage', fakeStorage())
+  })
+
+  it('stores the passcode as a salted PBKDF2 hash that unlocks the diary', async () => {
+    expect((await localAuth.signUp({ email: '', password: '2468' })).error).toBeNull()
+
+    const profile = storedProfile()
+    expect(profile.passcode_iterations).toBe(PASSCODE_ITERATIONS)
+    expect(profile.passcode_hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(profile.passcode_salt).toMatch(/^[0-9a-f]{32}$/)
+
+    await localAuth.signOut()
+    expect(await localAuth.getSession()).toBeNull()
+    expect((await localAuth.signIn({ email: '', password: '1357' })).error?.message).toBe('Incorrect passcode')
+    expect((await localAuth.signIn({ email: '', password: '2468' })).user?.id).toBe(profile.id)
+  }, 20_000)
+
+  it('never replaces an existing passcode by setting up again or while locked', async () => {
+    await localAuth.signUp({ email: '', password: '2468' })
+    const { passcode_hash } = storedProfile()
+    await localAuth.signOut()
+
+    expect((await localAuth.signUp({ email: '', password: '0000' })).error).not.toBeNull()
+    expect((await localAuth.updatePassword({ password: '0000' })).error).not.toBeNull()
+    expect((await localAuth.updatePassword({ password: '' })).error).not.toBeNull()
+    expect(storedProfile().passcode_hash).toBe(passcode_hash)
+
+    await localAuth.signIn({ email: '', password: '2468' })
+    expect((await localAuth.updatePassword({ password: '0000' })).error).toBeNull()
+    expect(storedProfile().passcode_hash).not.toBe(passcode_hash)
+  }, 20_000)
+
+  it('accepts a passcode stored as a single SHA-256 and moves it onto PBKDF2', async () => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode('salt:2468'))
+    const legacyHash = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+    localStorage.setItem(PROFILE_KEY, JSON.stringify({
+      id: 'device-1',
+      display_name: null,
+      passcode_hash: legacyHash,
+      passcode_salt: 'salt',
+      created_at: '2025-01-01T00:00:00Z',
+    }))
+
+    expect((await localAuth.signIn({ email: '', password: '2468' })).user?.id).toBe('device-1')
+    expect(storedProfile().passcode_iterations).toBe(PASSCODE_ITERATIONS)
+    expect(storedProfile().passcode_hash).not.toBe(legacyHash)
+  }, 20_000)
+})
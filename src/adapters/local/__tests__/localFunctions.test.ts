@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { LOCAL_FUNCTIONS } from '../localFunctions'
+import { toTrackerStats } from '@/services/trackerStatsService'
+
+const DAY = 24 * 60 * 60 * 1000
+const todayStart = new Date(2025, 5, 20).getTime()
+const now = todayStart + 15 * 60 * 60 * 1000
+
+const entry = (trackerId: string, daysAgo: number, intensity: number) => ({
+  id: `${trackerId}-${daysAgo}-${intensity}`,
+  tracker_id: trackerId,
+  timestamp: todayStart - daysAgo * DAY + 9 * 60 * 60 * 1000,
+  intensity,
+})
+
+const rows = {
+  trackers: [
+    { id: 't1', user_id: 'u1' },
+    { id: 't2', user_id: 'u1' },
+    { id: 'other', user_id: 'u2' },
+  ],
+  pain_entries: [
+    entry('t1', 0, 6),
+    entry('t1', 0, 8),
+    entry('t1', 3, 4),
+    entry('t1', 13, 2),
+    entry('t1', 20, 9),
+    entry('other', 0, 5),
+  ],
+}
+
+describe('localFunctions', () => {
+  it('computes tracker_stats per tracker of the user', () => {
+    const result = LOCAL_FUNCTIONS.tracker_stats.run(rows, {
+      p_user_id: 'u1',
+      p_now: now,
+      p_today_start: todayStart,
+    }) as Parameters<typeof toTrackerStats>[0][]
+
+    expect(result.map(r => r.tracker_id)).toEqual(['t1', 't2'])
+
+    const [t1, t2] = result.map(toTrackerStats)
+    expect(t1.entryCount).toBe(5)
+    expect(t1.lastEntryDate).toBe(entry('t1', 0, 6).timestamp)
+    expect(t1.averageLast7Days).toBe(6)
+    expect(t1.sparkline).toHaveLength(14)
+    expect(t1.sparkline[0]).toBe(2)
+    expect(t1.sparkline[10]).toBe(4)
+    expect(t1.sparkline[13]).toBe(7)
+    expect(t1.sparkline.filter(v => v === null)).toHaveLength(11)
+
+    expect(t2).toEqual({
+      entryCount: 0,
+      lastEntryDate: null,
+      averageLast7Days: null,
+      sparkline: Array(14).fill(null),
+    })
+  })
+
+  it('leaves trashed trackers and entries out of tracker_stats', () => {
+    const deleted_at = '2025-06-19T10:00:00Z'
+    const result = LOCAL_FUNCTIONS.tracker_stats.run({
+      trackers: [...rows.trackers, { id: 't3', user_id: 'u1', deleted_at }],
+      pain_entries: [...rows.pain_entries, { ...entry('t1', 0, 10), id: 'trashed', deleted_at }],
+    }, {
+      p_user_id: 'u1',
+      p_now: now,
+      p_today_start: todayStart,
+    }) as Parameters<typeof toTrackerStats>[0][]
+
+    expect(result.map(r => r.tracker_id)).toEqual(['t1', 't2'])
+    expect(toTrackerStats(result[0]).entryCount).toBe(5)
+  })
+
+  it('finds trackers from their entries when trackers are not stored locally', () => {
+    const ownEntry = (trackerId: string, daysAgo: number, intensity: number) => ({ ...entry(trackerId, daysAgo, intensity), user_id: 'u1' })
+    const result = LOCAL_FUNCTIONS.tracker_stats.run({
+      trackers: [],
+      pain_entries: [ownEntry('t1', 0, 6), ownEntry('t1', 1, 4), ownEntry('t2', 2, 3), { ...entry('other', 0, 5), user_id: 'u2' }],
+    }, {
+      p_user_id: 'u1',
+      p_now: now,
+      p_today_start: todayStart,
+    }) as Parameters<typeof toTrackerStats>[0][]
+
+    expect(result.map(r => r.tracker_id)).toEqual(['t1', 't2'])
+    expect(toTrackerStats(result[0])).toMatchObject({ entryCount: 2, averageLast7Days: 5 })
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applySelectOptions,
+  likePatternToRegExp,
+  matchesWhere,
+  prepareInsertRow,
+  prepareRevisionRow,
+  valuesEqual,
+} from '../localQuery'
+
+const rows = [
+  { id: 'a', tracker_id: 't1', timestamp: 300, intensity: 7, locations: ['head', 'neck'] },
+  { id: 'b', tracker_id: 't1', timestamp: 100, intensity: 3, locations: ['knees'] },
+  { id: 'c', tracker_id: 't2', timestamp: 200, intensity: 5, locations: [] },
+  { id: 'd', tracker_id: 't1', timestamp: 200, intensity: 9, locations: ['head'] },
+]
+
+describe('localQuery', () => {
+  it('compares array columns element-wise and in order', () => {
+    expect(valuesEqual(['head', 'neck'], ['head', 'neck'])).toBe(true)
+    expect(valuesEqual(['neck', 'head'], ['head', 'neck'])).toBe(false)
+    expect(valuesEqual([], [])).toBe(true)
+    expect(valuesEqual(['head'], 'head')).toBe(false)
+  })
+
+  it('matches every where condition', () => {
+    expect(matchesWhere(rows[0], { tracker_id: 't1', intensity: 7 })).toBe(true)
+    expect(matchesWhere(rows[0], { tracker_id: 't1', intensity: 3 })).toBe(false)
+    expect(matchesWhere(rows[2], { locations: [] })).toBe(true)
+    expect(matchesWhere(rows[2], undefined)).toBe(true)
+  })
+
+  it('applies comparison, range and list operators', () => {
+    const ids = (where: Record<string, unknown>) =>
+      applySelectOptions<{ id: string }>(rows, { where }).map(r => r.id)
+
+    expect(ids({ timestamp: { gte: 200 } })).toEqual(['a', 'c', 'd'])
+    expect(ids({ timestamp: { gt: 100, lt: 300 } })).toEqual(['c', 'd'])
+    expect(ids({ intensity: { between: [3, 7] } })).toEqual(['a', 'b', 'c'])
+    expect(ids({ id: { in: ['b', 'd'] }, tracker_id: 't1' })).toEqual(['b', 'd'])
+    expect(ids({ tracker_id: { neq: 't1' } })).toEqual(['c'])
+  })
+
+  it('tells null and missing columns from set ones', () => {
+    const trash = [{ id: 'kept' }, { id: 'restored', deleted_at: null }, { id: 'trashed', deleted_at: '2025-06-01T00:00:00Z' }]
+    const ids = (isNull: boolean) =>
+      applySelectOptions<{ id: string }>(trash, { where: { deleted_at: { isNull } } }).map(r => r.id)
+
+    expect(ids(true)).toEqual(['kept', 'restored'])
+    expect(ids(false)).toEqual(['trashed'])
+  })
+
+  it('applies array operators', () => {
+    const ids = (where: Record<string, unknown>) =>
+      applySelectOptions<{ id: string }>(rows, { where }).map(r => r.id)
+
+    expect(ids({ locations: { contains: ['head'] } })).toEqual(['a', 'd'])
+    expect(ids({ locations: { contains: ['head', 'neck'] } })).toEqual(['a'])
+    expect(ids({ locations: { overlaps: ['neck', 'knees'] } })).toEqual(['a', 'b'])
+  })
+
+  it('matches ilike patterns case-insensitively with escapes', () => {
+    expect(likePatternToRegExp('%HEAD%').test('a headache')).toBe(true)
+    expect(likePatternToRegExp('h_ad').test('head')).toBe(true)
+    expect(likePatternToRegExp('100\\%').test('100%')).toBe(true)
+    expect(likePatternToRegExp('100\\%').test('1000')).toBe(false)
+    expect(likePatternToRegExp('a.b').test('axb')).toBe(false)
+  })
+
+  it('requires at least one or clause to match', () => {
+    const result = applySelectOptions<{ id: string }>(rows, {
+      where: { tracker_id: 't1' },
+      or: [{ intensity: { gte: 8 } }, { locations: { contains: ['knees'] } }],
+    })
+    expect(result.map(r => r.id)).toEqual(['b', 'd'])
+  })
+
+  it('filters on computed search text', () => {
+    const entries = [
+      { id: 'x', notes: 'Bad night', triggers: ['Stress'], locations: ['lower_back'], hashtags: ['flareup'], intensity: 8 },
+      { id: 'y', notes: '', triggers: [], locations: [], hashtags: [], intensity: 2 },
+    ]
+    const search = (pattern: string) =>
+      applySelectOptions<{ id: string }>(entries, { where: { search_text: { ilike: pattern } } }, 'pain_entries')
+        .map(r => r.id)
+
+    expect(search('%stress%')).toEqual(['x'])
+    expect(search('%#flareup%')).toEqual(['x'])
+    expect(search('2')).toEqual(['y'])
+    expect(applySelectOptions<Record<string, unknown>>(entries, {}, 'pain_entries')[0].search_text).toBeUndefined()
+  })
+
+  it('applies where, orderBy, offset and limit', () => {
+    const result = applySelectOptions<{ id: string }>(rows, {
+      where: { tracker_id: 't1' },
+      orderBy: { column: 'timestamp', ascending: false },
+      offset: 1,
+      limit: 1,
+    })
+    expect(result.map(r => r.id)).toEqual(['d'])
+  })
+
+  it('projects requested columns only', () => {
+    const [first] = applySelectOptions<Record<string, unknown>>(rows, {
+      columns: ['id', 'intensity'],
+      limit: 1,
+    })
+    expect(first).toEqual({ id: 'a', intensity: 7 })
+  })
+
+  it('fills schema defaults and an id on insert', () => {
+    const row = prepareInsertRow('pain_entries', { intensity: 4 })
+    expect(row.locations).toEqual([])
+    expect(row.triggers).toEqual([])
+    expect(row.hashtags).toEqual([])
+    expect(typeof row.id).toBe('string')
+    expect(row.created_at).toBe(row.updated_at)
+  })
+
+  it('keeps the old row of a change, skipping updates that change nothing', () => {
+    const before = { ...rows[0], user_id: 'user-1', updated_at: '2025-06-01T00:00:00Z' }
+    const revision = prepareRevisionRow('update', before, { ...before, intensity: 4, updated_at: '2025-06-02T00:00:00Z' })
+
+    expect(revision).toMatchObject({ entry_id: 'a', user_id: 'user-1', operation: 'update', data: before })
+    expect(prepareRevisionRow('update', before, { ...before, updated_at: '2025-06-02T00:00:00Z' })).toBeNull()
+    expect(prepareRevisionRow('delete', before)).toMatchObject({ operation: 'delete', data: before })
+  })
+})
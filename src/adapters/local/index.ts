@@ -1,6 +1,9 @@
 /**
  * Local Adapters
- * Browser-based implementations using localStorage
+ * Browser-based implementations using localStorage and IndexedDB
  */
 
 export { localKv } from './localKv';
+export { indexedDbDb } from './indexedDbDb';
+export { localAuth } from './localAuth';
+export { localTracker } from './localTracker';
@@ -0,0 +1,245 @@
+/**
+ * IndexedDB Database Adapter
+ * Implements DbPort on the browser's IndexedDB for offline / local-only use
+ *
+ * All tables share one object store keyed by [table, id], so new tables
+ * need no schema upgrade. Queries are evaluated in memory per table.
+ */
+
+import type { DbPort, DbResult, SelectOptions } from '@/ports/DbPort';
+import {
+  applySelectOptions,
+  matchesWhere,
+  prepareInsertRow,
+  prepareRevisionRow,
+  REVISION_TABLES,
+  type Row,
+} from './localQuery';
+import { LOCAL_FUNCTIONS } from './localFunctions';
+
+const DB_NAME = 'baseline_local';
+const DB_VERSION = 1;
+const ROWS_STORE = 'rows';
+const TABLE_INDEX = 'by_table';
+
+interface StoredRow {
+  table: string;
+  id: string;
+  row: Row;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(ROWS_STORE)) {
+        const store = database.createObjectStore(ROWS_STORE, { keyPath: ['table', 'id'] });
+        store.createIndex(TABLE_INDEX, 'table');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('Could not open local database'));
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+async function readTable(store: IDBObjectStore, table: string): Promise<Row[]> {
+  const stored = await requestToPromise<StoredRow[]>(
+    store.index(TABLE_INDEX).getAll(table)
+  );
+  return stored.map(item => item.row);
+}
+
+/**
+ * Keep the old rows of an update, as the revision trigger does in Postgres
+ */
+function writeRevisions(store: IDBObjectStore, table: string, before: Row[], after: Row[]) {
+  const revisionTable = REVISION_TABLES[table];
+  if (!revisionTable) return;
+
+  before.forEach((row, i) => {
+    const revision = prepareRevisionRow('update', row, after[i]);
+    if (revision) store.add({ table: revisionTable, id: String(revision.id), row: revision } satisfies StoredRow);
+  });
+}
+
+/**
+ * Drop the history of rows deleted for good, as the revision trigger does in Postgres
+ */
+async function dropRevisions(store: IDBObjectStore, table: string, deleted: Row[]) {
+  const revisionTable = REVISION_TABLES[table];
+  if (!revisionTable || deleted.length === 0) return;
+
+  const ids = new Set(deleted.map(row => String(row.id)));
+  for (const revision of await readTable(store, revisionTable)) {
+    if (ids.has(String(revision.entry_id))) store.delete([revisionTable, String(revision.id)]);
+  }
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error('Unknown error');
+}
+
+export const indexedDbDb: DbPort = {
+  async select<T>(table: string, options?: SelectOptions): Promise<DbResult<T[]>> {
+    try {
+      const database = await openDatabase();
+      const tx = database.transaction(ROWS_STORE, 'readonly');
+      const rows = await readTable(tx.objectStore(ROWS_STORE), table);
+      return { data: applySelectOptions<T>(rows, options, table), error: null };
+    } catch (err) {
+      return { data: null, error: toError(err) };
+    }
+  },
+
+  async insert<T>(table: string, values: Partial<T> | Partial<T>[]): Promise<DbResult<T>> {
+    try {
+      const insertData = (Array.isArray(values) ? values : [values]) as Row[];
+      if (insertData.length === 0) {
+        return { data: null, error: new Error('No rows to insert') };
+      }
+
+      const database = await openDatabase();
+      const tx = database.transaction(ROWS_STORE, 'readwrite');
+      const store = tx.objectStore(ROWS_STORE);
+      const rows = insertData.map(value => prepareInsertRow(table, value));
+
+      for (const row of rows) {
+        // add() (not put) so a duplicate id fails like a primary key violation
+        store.add({ table, id: String(row.id), row } satisfies StoredRow);
+      }
+      await transactionDone(tx);
+
+      return { data: rows[0] as T, error: null };
+    } catch (err) {
+      return { data: null, error: toError(err) };
+    }
+  },
+
+  async update<T>(
+    table: string,
+    where: Record<string, unknown>,
+    values: Partial<T>
+  ): Promise<DbResult<T>> {
+    try {
+      const database = await openDatabase();
+      const tx = database.transaction(ROWS_STORE, 'readwrite');
+      const store = tx.objectStore(ROWS_STORE);
+      const matches = (await readTable(store, table)).filter(row => matchesWhere(row, where, table));
+
+      // Like the updated_at trigger, unless the caller (e.g. sync) supplies one
+      const updatedAt = (values as Row).updated_at ?? new Date().toISOString();
+      const updated = matches.map(row => ({
+        ...row,
+        ...(values as Row),
+        id: row.id,
+        updated_at: updatedAt,
+      }));
+      for (const row of updated) {
+        store.put({ table, id: String(row.id), row } satisfies StoredRow);
+      }
+      writeRevisions(store, table, matches, updated);
+      await transactionDone(tx);
+
+      if (updated.length === 0) {
+        return { data: null, error: new Error(`No rows in ${table} matched the update`) };
+      }
+      return { data: updated[0] as T, error: null };
+    } catch (err) {
+      return { data: null, error: toError(err) };
+    }
+  },
+
+  async delete(table: string, where: Record<string, unknown>): Promise<DbResult<null>> {
+    try {
+      const database = await openDatabase();
+      const tx = database.transaction(ROWS_STORE, 'readwrite');
+      const store = tx.objectStore(ROWS_STORE);
+      const matches = (await readTable(store, table)).filter(row => matchesWhere(row, where, table));
+
+      for (const row of matches) {
+        store.delete([table, String(row.id)]);
+      }
+      await dropRevisions(store, table, matches);
+      await transactionDone(tx);
+
+      return { data: null, error: null };
+    } catch (err) {
+      return { data: null, error: toError(err) };
+    }
+  },
+
+  async rpc<T>(fn: string, args?: Record<string, unknown>): Promise<DbResult<T>> {
+    const localFunction = LOCAL_FUNCTIONS[fn];
+    if (!localFunction) {
+      return { data: null, error: new Error(`Function ${fn} is not available offline`) };
+    }
+
+    try {
+      const database = await openDatabase();
+      const tx = database.transaction(ROWS_STORE, 'readonly');
+      const store = tx.objectStore(ROWS_STORE);
+      const rows: Record<string, Row[]> = {};
+      for (const table of localFunction.tables) {
+        rows[table] = await readTable(store, table);
+      }
+      return { data: localFunction.run(rows, args ?? {}) as T, error: null };
+    } catch (err) {
+      return { data: null, error: toError(err) };
+    }
+  },
+};
+
+/**
+ * Bulk upsert/delete rows by id in one transaction, keeping the rows as given
+ * (no defaults or timestamps). Used by sync to mirror backend rows locally.
+ */
+export async function replaceLocalRows(
+  table: string,
+  upserts: Row[],
+  deleteIds: string[] = []
+): Promise<DbResult<null>> {
+  try {
+    const database = await openDatabase();
+    const tx = database.transaction(ROWS_STORE, 'readwrite');
+    const store = tx.objectStore(ROWS_STORE);
+
+    for (const row of upserts) {
+      store.put({ table, id: String(row.id), row } satisfies StoredRow);
+    }
+    for (const id of deleteIds) {
+      store.delete([table, id]);
+    }
+    await transactionDone(tx);
+
+    return { data: null, error: null };
+  } catch (err) {
+    return { data: null, error: toError(err) };
+  }
+}
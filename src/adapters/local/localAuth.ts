@@ -0,0 +1,244 @@
+/**
+ * Local Authentication Adapter
+ * Implements AuthPort as a single-user device profile with an optional passcode
+ *
+ * There is no account or server: the first session creates a device profile.
+ * If a passcode is set (via updatePassword), signOut locks the diary and
+ * signIn with the passcode unlocks it for the rest of the browser session.
+ * Passcodes are short, so they are stored as a slow PBKDF2 hash.
+ */
+
+import type {
+  AuthPort,
+  AuthUser,
+  AuthSession,
+  SignUpParams,
+  SignInParams,
+  MagicLinkParams,
+  ResetPasswordParams,
+  UpdatePasswordParams,
+  ResendParams,
+  AuthStateChangeCallback,
+} from '@/ports/AuthPort';
+import { localKv } from './localKv';
+
+const PROFILE_KEY = 'device_profile';
+const UNLOCKED_KEY = 'baseline_device_unlocked';
+
+/** PBKDF2-HMAC-SHA256 iterations for new passcodes (OWASP's recommendation) */
+export const PASSCODE_ITERATIONS = 600_000;
+
+export interface DeviceProfile {
+  id: string;
+  display_name: string | null;
+  passcode_hash: string | null;
+  passcode_salt: string | null;
+  /** PBKDF2 iterations of passcode_hash; missing for passcodes set as a single SHA-256 */
+  passcode_iterations?: number | null;
+  created_at: string;
+}
+
+const notAvailableError = () => new Error('Not available in device-only mode');
+
+// Cached user - only set once the profile is loaded and unlocked
+let currentUser: AuthUser | null = null;
+const listeners = new Set<AuthStateChangeCallback>();
+
+function toAuthUser(profile: DeviceProfile): AuthUser {
+  return { id: profile.id, roles: ['device'] };
+}
+
+function toSession(user: AuthUser): AuthSession {
+  return { user };
+}
+
+function emit(event: Parameters<AuthStateChangeCallback>[0], user: AuthUser | null) {
+  const session = user ? toSession(user) : null;
+  for (const listener of listeners) {
+    listener(event, session);
+  }
+}
+
+function toHex(buffer: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function hashPasscode(passcode: string, salt: string, iterations: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(passcode), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+/** How passcodes were hashed before PBKDF2; only read to verify and upgrade them */
+async function legacyHashPasscode(passcode: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${passcode}`));
+  return toHex(digest);
+}
+
+async function passcodeFields(passcode: string): Promise<Pick<DeviceProfile, 'passcode_hash' | 'passcode_salt' | 'passcode_iterations'>> {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return {
+    passcode_hash: await hashPasscode(passcode, salt, PASSCODE_ITERATIONS),
+    passcode_salt: salt,
+    passcode_iterations: PASSCODE_ITERATIONS,
+  };
+}
+
+async function loadProfile(): Promise<DeviceProfile | null> {
+  return localKv.get<DeviceProfile>(PROFILE_KEY);
+}
+
+async function loadOrCreateProfile(displayName?: string | null): Promise<DeviceProfile> {
+  const existing = await loadProfile();
+  if (existing) return existing;
+
+  const profile: DeviceProfile = {
+    id: crypto.randomUUID(),
+    display_name: displayName ?? null,
+    passcode_hash: null,
+    passcode_salt: null,
+    created_at: new Date().toISOString(),
+  };
+  await localKv.set(PROFILE_KEY, profile);
+  return profile;
+}
+
+function isUnlocked(profile: DeviceProfile): boolean {
+  if (!profile.passcode_hash) {
+    // Without a passcode the diary is only "locked" after an explicit signOut
+    return sessionStorage.getItem(UNLOCKED_KEY) !== 'false';
+  }
+  return sessionStorage.getItem(UNLOCKED_KEY) === 'true';
+}
+
+async function verifyPasscode(profile: DeviceProfile, passcode: string): Promise<boolean> {
+  if (!profile.passcode_hash || !profile.passcode_salt) return true;
+  const hash = profile.passcode_iterations
+    ? await hashPasscode(passcode, profile.passcode_salt, profile.passcode_iterations)
+    : await legacyHashPasscode(passcode, profile.passcode_salt);
+  return hash === profile.passcode_hash;
+}
+
+/**
+ * Whether the device profile is protected by a passcode
+ */
+export async function hasDevicePasscode(): Promise<boolean> {
+  const profile = await loadProfile();
+  return Boolean(profile?.passcode_hash);
+}
+
+export const localAuth: AuthPort = {
+  async signUp(params: SignUpParams) {
+    const displayName = typeof params.metadata?.display_name === 'string'
+      ? params.metadata.display_name
+      : null;
+    const profile = await loadOrCreateProfile(displayName);
+    // Setting up again must not replace a passcode nobody has proven they know
+    if (profile.passcode_hash) {
+      return { user: null, error: new Error('This device already has a passcode. Unlock with it instead.') };
+    }
+    if (params.password) {
+      const { error } = await this.updatePassword({ password: params.password });
+      if (error) return { user: null, error };
+    }
+    sessionStorage.setItem(UNLOCKED_KEY, 'true');
+    currentUser = toAuthUser(profile);
+    emit('SIGNED_IN', currentUser);
+    return { user: currentUser, error: null };
+  },
+
+  async signIn(params: SignInParams) {
+    const profile = await loadOrCreateProfile();
+    if (!(await verifyPasscode(profile, params.password))) {
+      return { user: null, error: new Error('Incorrect passcode') };
+    }
+    // Move a passcode stored the old way onto PBKDF2 now that we have it
+    if (profile.passcode_hash && !profile.passcode_iterations) {
+      await localKv.set(PROFILE_KEY, { ...profile, ...(await passcodeFields(params.password)) });
+    }
+    sessionStorage.setItem(UNLOCKED_KEY, 'true');
+    currentUser = toAuthUser(profile);
+    emit('SIGNED_IN', currentUser);
+    return { user: currentUser, error: null };
+  },
+
+  async signInWithMagicLink(_params: MagicLinkParams) {
+    return { error: notAvailableError() };
+  },
+
+  async resetPassword(_params: ResetPasswordParams) {
+    return { error: notAvailableError() };
+  },
+
+  /**
+   * Set, change or (with an empty string) remove the device passcode. Only
+   * while unlocked, so a locked diary can't be opened by replacing it.
+   */
+  async updatePassword(params: UpdatePasswordParams) {
+    try {
+      const profile = await loadOrCreateProfile();
+      if (profile.passcode_hash && !isUnlocked(profile)) {
+        return { error: new Error('Unlock the diary before changing its passcode') };
+      }
+      if (!params.password) {
+        await localKv.set(PROFILE_KEY, { ...profile, passcode_hash: null, passcode_salt: null, passcode_iterations: null });
+        return { error: null };
+      }
+      await localKv.set(PROFILE_KEY, { ...profile, ...(await passcodeFields(params.password)) });
+      return { error: null };
+    } catch (err) {
+      return { error: err instanceof Error ? err : new Error('Could not update passcode') };
+    }
+  },
+
+  async resend(_params: ResendParams) {
+    return { error: notAvailableError() };
+  },
+
+  async signOut() {
+    sessionStorage.setItem(UNLOCKED_KEY, 'false');
+    currentUser = null;
+    emit('SIGNED_OUT', null);
+    return { error: null };
+  },
+
+  async getSession(): Promise<AuthSession | null> {
+    const profile = await loadOrCreateProfile();
+    if (!isUnlocked(profile)) {
+      currentUser = null;
+      return null;
+    }
+    currentUser = toAuthUser(profile);
+    return toSession(currentUser);
+  },
+
+  async waitForInitialValidation(): Promise<AuthUser | null> {
+    const session = await this.getSession();
+    return session?.user ?? null;
+  },
+
+  onAuthStateChange(callback: AuthStateChangeCallback) {
+    listeners.add(callback);
+    return {
+      unsubscribe: () => {
+        listeners.delete(callback);
+      },
+    };
+  },
+
+  getUser(): AuthUser | null {
+    return currentUser;
+  },
+
+  async checkUserExists(_email: string) {
+    const profile = await loadProfile();
+    return { exists: profile !== null, error: null };
+  },
+};
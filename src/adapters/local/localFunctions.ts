@@ -0,0 +1,80 @@
+/**
+ * Local Database Functions
+ * In-memory equivalents of the Postgres functions the app calls through
+ * DbPort.rpc, so local adapters answer the same calls with the same shape.
+ */
+
+import type { Row } from './localQuery';
+
+export interface LocalFunction {
+  /** Tables the function reads */
+  tables: string[];
+  run(rows: Record<string, Row[]>, args: Record<string, unknown>): unknown;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPARKLINE_DAYS = 14;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return round2(values.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+/**
+ * Mirrors tracker_stats(p_user_id, p_now, p_today_start): one row per
+ * tracker with its entry count, last timestamp, average over the last
+ * 7×24 hours and daily averages for the 14 days ending today. Trashed
+ * trackers and entries are left out.
+ *
+ * Trackers the local store doesn't hold (in cloud mode they are read
+ * straight from Supabase) are found from the tracker_id of their entries,
+ * so stats still come back offline.
+ */
+const trackerStats: LocalFunction = {
+  tables: ['trackers', 'pain_entries'],
+  run(rows, args) {
+    const userId = args.p_user_id;
+    const now = Number(args.p_now);
+    const todayStart = Number(args.p_today_start);
+    const sparklineStart = todayStart - (SPARKLINE_DAYS - 1) * DAY_MS;
+
+    const trashed = new Set(rows.trackers.filter(tracker => tracker.deleted_at != null).map(tracker => tracker.id));
+    const trackerIds = new Set(rows.trackers
+      .filter(tracker => tracker.user_id === userId && tracker.deleted_at == null)
+      .map(tracker => tracker.id));
+    const liveEntries = rows.pain_entries.filter(entry => entry.deleted_at == null);
+    for (const entry of liveEntries) {
+      if (entry.user_id === userId && !trashed.has(entry.tracker_id)) trackerIds.add(entry.tracker_id);
+    }
+
+    return [...trackerIds]
+      .map(trackerId => {
+        const entries = liveEntries.filter(entry => entry.tracker_id === trackerId);
+        const timestamps = entries.map(entry => Number(entry.timestamp));
+
+        const days: number[][] = Array.from({ length: SPARKLINE_DAYS }, () => []);
+        for (const entry of entries) {
+          const day = Math.floor((Number(entry.timestamp) - sparklineStart) / DAY_MS);
+          if (day >= 0 && day < SPARKLINE_DAYS) days[day].push(Number(entry.intensity));
+        }
+
+        return {
+          tracker_id: trackerId,
+          entry_count: entries.length,
+          last_timestamp: timestamps.length > 0 ? Math.max(...timestamps) : null,
+          average_7d: average(
+            entries
+              .filter(entry => Number(entry.timestamp) > now - 7 * DAY_MS)
+              .map(entry => Number(entry.intensity))
+          ),
+          sparkline: days.map(average),
+        };
+      });
+  },
+};
+
+export const LOCAL_FUNCTIONS: Record<string, LocalFunction> = {
+  tracker_stats: trackerStats,
+};
@@ -0,0 +1,266 @@
+/**
+ * Local Query Helpers
+ * In-memory evaluation of DbPort SelectOptions for browser-side adapters
+ */
+
+import { isColumnFilter, type ColumnFilter, type SelectOptions, type WhereClause } from '@/ports/DbPort';
+
+export type Row = Record<string, unknown>;
+
+/**
+ * Column defaults mirroring the Postgres schema (NOT NULL DEFAULT '{}' etc.)
+ * so rows written locally have the same shape as rows read from Supabase.
+ */
+export const TABLE_DEFAULTS: Record<string, Row> = {
+  pain_entries: {
+    locations: [],
+    triggers: [],
+    hashtags: [],
+    notes: '',
+    ended_at: null,
+    ongoing: false,
+    fields: {},
+    interventions: [],
+    follow_up_at: null,
+    relief: null,
+    relief_intensity: null,
+    followed_up_at: null,
+    deleted_at: null,
+  },
+  trackers: {
+    type: 'custom',
+    preset_id: null,
+    icon: 'activity',
+    color: '#6366f1',
+    is_default: false,
+    generated_config: null,
+    fields: null,
+    scale: null,
+    check_in: false,
+    user_description: null,
+    deleted_at: null,
+  },
+  reminders: {
+    enabled: true,
+    snoozed_until: null,
+  },
+  reminder_settings: {
+    quiet_start: '22:00',
+    quiet_end: '07:00',
+    snooze_minutes: 30,
+  },
+};
+
+/**
+ * Tables whose updates keep the old row in a history table and whose
+ * deletes drop that history, mirroring the record_entry_revision() trigger
+ * in Postgres.
+ */
+export const REVISION_TABLES: Record<string, string> = {
+  pain_entries: 'entry_revisions',
+};
+
+/**
+ * Columns that exist only for filtering, mirroring computed fields in the
+ * Postgres schema (functions taking the row, not returned by select *).
+ */
+export const COMPUTED_COLUMNS: Record<string, Record<string, (row: Row) => unknown>> = {
+  pain_entries: {
+    // Same text as the search_text(pain_entries) SQL function
+    search_text: row => [
+      row.notes,
+      ((row.triggers as string[] | undefined) ?? []).join(' '),
+      ((row.locations as string[] | undefined) ?? []).join(' '),
+      ((row.hashtags as string[] | undefined) ?? []).map(tag => `#${tag}`).join(' '),
+      row.intensity,
+    ]
+      .filter(part => part !== null && part !== undefined && part !== '')
+      .join(' '),
+  },
+};
+
+/**
+ * Compare two column values.
+ * Arrays (text[] columns such as locations/triggers/hashtags) compare
+ * element-wise in order, like Postgres array equality.
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b)) return false;
+    if (a.length !== b.length) return false;
+    return a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  return a === b;
+}
+
+/**
+ * Order two column values. Nulls sort last, as in Postgres ascending order.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a).localeCompare(String(b));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Turn a LIKE pattern into an anchored, case-insensitive RegExp
+ */
+export function likePatternToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '%') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 'is');
+}
+
+/**
+ * Check one column value against every operator in a ColumnFilter.
+ * Comparisons against NULL never match, as in SQL.
+ */
+function matchesFilter(value: unknown, filter: ColumnFilter): boolean {
+  const present = value !== null && value !== undefined;
+  const list = Array.isArray(value) ? value : [];
+
+  return Object.entries(filter).every(([operator, operand]) => {
+    switch (operator as keyof ColumnFilter) {
+      case 'eq':
+        return valuesEqual(value, operand);
+      case 'neq':
+        return present && !valuesEqual(value, operand);
+      case 'gt':
+        return present && compareValues(value, operand) > 0;
+      case 'gte':
+        return present && compareValues(value, operand) >= 0;
+      case 'lt':
+        return present && compareValues(value, operand) < 0;
+      case 'lte':
+        return present && compareValues(value, operand) <= 0;
+      case 'between': {
+        const [from, to] = operand as [unknown, unknown];
+        return present && compareValues(value, from) >= 0 && compareValues(value, to) <= 0;
+      }
+      case 'in':
+        return present && (operand as unknown[]).some(candidate => valuesEqual(value, candidate));
+      case 'contains':
+        return Array.isArray(value) && (operand as unknown[]).every(item => list.some(v => valuesEqual(v, item)));
+      case 'overlaps':
+        return Array.isArray(value) && (operand as unknown[]).some(item => list.some(v => valuesEqual(v, item)));
+      case 'ilike':
+        return typeof value === 'string' && likePatternToRegExp(operand as string).test(value);
+      case 'isNull':
+        return operand ? !present : present;
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Read a column, falling back to the table's computed columns
+ */
+function columnValue(row: Row, column: string, table?: string): unknown {
+  const computed = table ? COMPUTED_COLUMNS[table]?.[column] : undefined;
+  return computed ? computed(row) : row[column];
+}
+
+/**
+ * Check whether a row satisfies every condition in `where`.
+ * Plain values compare for equality; ColumnFilter objects apply their operators.
+ */
+export function matchesWhere(row: Row, where?: WhereClause, table?: string): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([column, condition]) => {
+    const value = columnValue(row, column, table);
+    return isColumnFilter(condition) ? matchesFilter(value, condition) : valuesEqual(value, condition);
+  });
+}
+
+/**
+ * Pick only the requested columns from a row
+ */
+function projectColumns(row: Row, columns?: string[]): Row {
+  if (!columns || columns.length === 0 || columns.includes('*')) return row;
+  const projected: Row = {};
+  for (const column of columns) {
+    projected[column] = row[column];
+  }
+  return projected;
+}
+
+/**
+ * Apply where/or, orderBy, offset/limit and column projection to a set of rows
+ */
+export function applySelectOptions<T>(rows: Row[], options?: SelectOptions, table?: string): T[] {
+  const anyOf = options?.or;
+  let result = rows.filter(row =>
+    matchesWhere(row, options?.where, table)
+    && (!anyOf || anyOf.length === 0 || anyOf.some(clause => matchesWhere(row, clause, table)))
+  );
+
+  const ordering = options?.orderBy ?? [];
+  const orderBy = Array.isArray(ordering) ? ordering : [ordering];
+  if (orderBy.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const { column, ascending = true } of orderBy) {
+        const order = compareValues(a[column], b[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+  }
+
+  const start = options?.offset ?? 0;
+  const end = options?.limit !== undefined ? start + options.limit : undefined;
+  result = result.slice(start, end);
+
+  return result.map(row => projectColumns(row, options?.columns)) as T[];
+}
+
+/**
+ * Fill in column defaults and timestamps for a row about to be inserted
+ */
+export function prepareInsertRow(table: string, values: Row): Row {
+  const now = new Date().toISOString();
+  return {
+    ...TABLE_DEFAULTS[table],
+    created_at: now,
+    updated_at: now,
+    ...values,
+    id: values.id ?? crypto.randomUUID(),
+  };
+}
+
+/**
+ * The history row the revision trigger would write for a change to `before`,
+ * or null when an update leaves every column but updated_at as it was
+ */
+export function prepareRevisionRow(operation: 'update' | 'delete', before: Row, after?: Row): Row | null {
+  if (operation === 'update' && after) {
+    const { updated_at: _before, ...oldColumns } = before;
+    const { updated_at: _after, ...newColumns } = after;
+    if (JSON.stringify(oldColumns) === JSON.stringify(newColumns)) return null;
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    entry_id: before.id,
+    user_id: before.user_id,
+    operation,
+    data: before,
+    changed_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Local Tracker Adapter
+ * Implements TrackerPort on the IndexedDB database for device-only mode
+ */
+
+import type { TrackerPort, TrackerResult } from '@/ports/TrackerPort';
+import type { Tracker, CreateTrackerInput, UpdateTrackerInput } from '@/types/tracker';
+import { indexedDbDb } from './indexedDbDb';
+import { localAuth } from './localAuth';
+
+const notAuthenticatedError = () => new Error('Not authenticated');
+
+/** Leaves out trackers in the trash */
+const NOT_TRASHED = { deleted_at: { isNull: true } };
+
+/** Tables with a tracker_id foreign key (ON DELETE CASCADE in Postgres) */
+const TRACKER_CHILD_TABLES = ['pain_entries', 'flare_episodes', 'assessment_results', 'assessment_schedules', 'reminders'];
+
+async function getUserId(): Promise<string | null> {
+  const session = await localAuth.getSession();
+  return session?.user.id ?? null;
+}
+
+export const localTracker: TrackerPort = {
+  async getTrackers(): Promise<TrackerResult<Tracker[]>> {
+    const userId = await getUserId();
+    if (!userId) {
+      return { data: null, error: notAuthenticatedError() };
+    }
+
+    return indexedDbDb.select<Tracker>('trackers', {
+      where: { user_id: userId, ...NOT_TRASHED },
+      orderBy: { column: 'created_at', ascending: true },
+    });
+  },
+
+  async getTracker(id: string): Promise<TrackerResult<Tracker>> {
+    const { data, error } = await indexedDbDb.select<Tracker>('trackers', {
+      where: { id, ...NOT_TRASHED },
+      limit: 1,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+    if (!data?.[0]) {
+      return { data: null, error: new Error('Tracker not found') };
+    }
+
+    return { data: data[0], error: null };
+  },
+
+  async getDefaultTracker(): Promise<TrackerResult<Tracker>> {
+    const userId = await getUserId();
+    if (!userId) {
+      return { data: null, error: notAuthenticatedError() };
+    }
+
+    const { data, error } = await indexedDbDb.select<Tracker>('trackers', {
+      where: { user_id: userId, is_default: true, ...NOT_TRASHED },
+      limit: 1,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+    if (!data?.[0]) {
+      return { data: null, error: new Error('No default tracker') };
+    }
+
+    return { data: data[0], error: null };
+  },
+
+  async createTracker(input: CreateTrackerInput): Promise<TrackerResult<Tracker>> {
+    const userId = await getUserId();
+    if (!userId) {
+      return { data: null, error: notAuthenticatedError() };
+    }
+
+    return indexedDbDb.insert<Tracker>('trackers', {
+      user_id: userId,
+      name: input.name,
+      type: input.type ?? 'custom',
+      preset_id: input.preset_id ?? null,
+      icon: input.icon ?? 'activity',
+      color: input.color ?? '#6366f1',
+      is_default: input.is_default ?? false,
+      generated_config: input.generated_config ?? null,
+      fields: input.fields ?? input.generated_config?.fields ?? null,
+      scale: input.scale ?? input.generated_config?.scale ?? null,
+      user_description: input.user_description ?? null,
+    });
+  },
+
+  async updateTracker(id: string, input: UpdateTrackerInput): Promise<TrackerResult<Tracker>> {
+    return indexedDbDb.update<Tracker>('trackers', { id }, input);
+  },
+
+  async trashTracker(id: string): Promise<TrackerResult<Tracker>> {
+    return indexedDbDb.update<Tracker>('trackers', { id }, { deleted_at: new Date().toISOString() });
+  },
+
+  async restoreTracker(id: string): Promise<TrackerResult<Tracker>> {
+    // A default trashed earlier was replaced by ensureDefaultTracker; the
+    // restored tracker comes back as an ordinary one so there is only one
+    const { data: currentDefault } = await this.getDefaultTracker();
+    return indexedDbDb.update<Tracker>(
+      'trackers',
+      { id },
+      currentDefault ? { deleted_at: null, is_default: false } : { deleted_at: null }
+    );
+  },
+
+  async getTrashedTrackers(): Promise<TrackerResult<Tracker[]>> {
+    const userId = await getUserId();
+    if (!userId) {
+      return { data: null, error: notAuthenticatedError() };
+    }
+
+    return indexedDbDb.select<Tracker>('trackers', {
+      where: { user_id: userId, deleted_at: { isNull: false } },
+      orderBy: { column: 'deleted_at', ascending: false },
+    });
+  },
+
+  async deleteTracker(id: string): Promise<TrackerResult<null>> {
+    // Mirror ON DELETE CASCADE from tables referencing trackers(id)
+    for (const table of TRACKER_CHILD_TABLES) {
+      const children = await indexedDbDb.delete(table, { tracker_id: id });
+      if (children.error) {
+        return { data: null, error: children.error };
+      }
+    }
+
+    return indexedDbDb.delete('trackers', { id });
+  },
+
+  async setDefaultTracker(id: string): Promise<TrackerResult<Tracker>> {
+    const userId = await getUserId();
+    if (!userId) {
+      return { data: null, error: notAuthenticatedError() };
+    }
+
+    // First, unset all other defaults for this user
+    await indexedDbDb.update<Tracker>('trackers', { user_id: userId, is_default: true }, { is_default: false });
+
+    // Then set the new default
+    return indexedDbDb.update<Tracker>('trackers', { id }, { is_default: true });
+  },
+
+  async ensureDefaultTracker(): Promise<TrackerResult<Tracker>> {
+    // Try to get existing default tracker
+    const existing = await this.getDefaultTracker();
+    if (existing.data) {
+      return existing;
+    }
+
+    // No default tracker exists, create a default Chronic Pain tracker
+    return this.createTracker({
+      name: 'Chronic Pain',
+      type: 'preset',
+      preset_id: 'chronic_pain',
+      icon: 'activity',
+      color: '#ef4444',
+      is_default: true,
+    });
+  },
+};
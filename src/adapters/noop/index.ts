@@ -5,3 +5,4 @@
 
 export { noopAuth } from './noopAuth';
 export { noopDb } from './noopDb';
+export { noopSync } from './noopSync';
@@ -23,4 +23,8 @@ export const noopDb: DbPort = {
   async delete(_table: string, _where: Record<string, unknown>): Promise<DbResult<null>> {
     return { data: null, error: notConfiguredError };
   },
+
+  async rpc<T>(_fn: string, _args?: Record<string, unknown>): Promise<DbResult<T>> {
+    return { data: null, error: notConfiguredError };
+  },
 };
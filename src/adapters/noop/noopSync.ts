@@ -0,0 +1,29 @@
+/**
+ * No-op Sync Adapter
+ * Used when there is no backend to sync with (device-only mode)
+ */
+
+import type { SyncPort, SyncStatus, SyncStatusCallback } from '@/ports/SyncPort';
+
+const localOnlyStatus: SyncStatus = {
+  state: 'local-only',
+  pending: 0,
+  failed: 0,
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+export const noopSync: SyncPort = {
+  getStatus(): SyncStatus {
+    return localOnlyStatus;
+  },
+
+  subscribe(_callback: SyncStatusCallback) {
+    // No-op: status never changes
+    return {
+      unsubscribe: () => {},
+    };
+  },
+
+  async syncNow(): Promise<void> {},
+};
@@ -8,8 +8,18 @@ import { createClient } from '@supabase/supabase-js';
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Supabase env vars are missing: VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY');
+/**
+ * Whether Supabase env vars are present.
+ * When false the runtime wires local adapters instead (see appRuntime).
+ */
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
+if (!isSupabaseConfigured) {
+  console.warn('Supabase env vars are missing: VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY. Running in local-only mode.');
 }
 
-export const supabaseClient = createClient(supabaseUrl, supabaseAnonKey);
+// In local-only mode a placeholder client keeps imports safe; nothing is wired to it.
+export const supabaseClient = createClient(
+  supabaseUrl || 'http://localhost:54321',
+  supabaseAnonKey || 'local-only-placeholder-key'
+);
@@ -3,9 +3,108 @@
  * Implements DbPort using Supabase
  */
 
-import type { DbPort, DbResult, SelectOptions } from '@/ports/DbPort';
+import { isColumnFilter, type ColumnFilter, type DbPort, type DbResult, type SelectOptions, type WhereClause } from '@/ports/DbPort';
 import { supabaseClient } from './supabaseClient';
 
+/** The filter methods shared by select, update and delete builders */
+interface FilterQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  neq(column: string, value: unknown): Q;
+  gt(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  lt(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  in(column: string, values: readonly unknown[]): Q;
+  contains(column: string, value: readonly unknown[]): Q;
+  overlaps(column: string, value: readonly unknown[]): Q;
+  ilike(column: string, pattern: string): Q;
+  is(column: string, value: null): Q;
+  not(column: string, operator: string, value: unknown): Q;
+  or(filters: string): Q;
+}
+
+/**
+ * Add one column's conditions to a query builder
+ */
+function applyColumnFilter<Q extends FilterQuery<Q>>(query: Q, column: string, filter: ColumnFilter): Q {
+  for (const [operator, operand] of Object.entries(filter)) {
+    switch (operator as keyof ColumnFilter) {
+      case 'eq': query = query.eq(column, operand); break;
+      case 'neq': query = query.neq(column, operand); break;
+      case 'gt': query = query.gt(column, operand); break;
+      case 'gte': query = query.gte(column, operand); break;
+      case 'lt': query = query.lt(column, operand); break;
+      case 'lte': query = query.lte(column, operand); break;
+      case 'between': {
+        const [from, to] = operand as [unknown, unknown];
+        query = query.gte(column, from).lte(column, to);
+        break;
+      }
+      case 'in': query = query.in(column, operand as unknown[]); break;
+      case 'contains': query = query.contains(column, operand as unknown[]); break;
+      case 'overlaps': query = query.overlaps(column, operand as unknown[]); break;
+      case 'ilike': query = query.ilike(column, operand as string); break;
+      case 'isNull': query = operand ? query.is(column, null) : query.not(column, 'is', null); break;
+    }
+  }
+  return query;
+}
+
+/**
+ * Apply where conditions (equality or ColumnFilter) to a query builder
+ */
+function applyWhere<Q extends FilterQuery<Q>>(query: Q, where?: WhereClause): Q {
+  for (const [column, condition] of Object.entries(where ?? {})) {
+    query = isColumnFilter(condition)
+      ? applyColumnFilter(query, column, condition)
+      : query.eq(column, condition);
+  }
+  return query;
+}
+
+// =============================================================================
+// PostgREST `or` filter strings
+// =============================================================================
+
+/** Quote a value when it holds characters PostgREST reserves */
+function formatFilterValue(value: unknown): string {
+  const text = String(value);
+  return /[,.:()"\\\s{}]/.test(text) ? `"${text.replace(/["\\]/g, '\\$&')}"` : text;
+}
+
+function formatCondition(column: string, condition: unknown): string[] {
+  if (!isColumnFilter(condition)) {
+    return [`${column}.eq.${formatFilterValue(condition)}`];
+  }
+  const list = (values: unknown) => (values as unknown[]).map(formatFilterValue).join(',');
+  return Object.entries(condition).flatMap(([operator, operand]) => {
+    switch (operator as keyof ColumnFilter) {
+      case 'between': {
+        const [from, to] = operand as [unknown, unknown];
+        return [`${column}.gte.${formatFilterValue(from)}`, `${column}.lte.${formatFilterValue(to)}`];
+      }
+      case 'in': return [`${column}.in.(${list(operand)})`];
+      case 'contains': return [`${column}.cs.{${list(operand)}}`];
+      case 'overlaps': return [`${column}.ov.{${list(operand)}}`];
+      case 'isNull': return [operand ? `${column}.is.null` : `${column}.not.is.null`];
+      default: return [`${column}.${operator}.${formatFilterValue(operand)}`];
+    }
+  });
+}
+
+/**
+ * Build the argument for `.or()`: one alternative per clause, with the
+ * conditions inside a clause ANDed together
+ */
+function formatOrFilter(clauses: WhereClause[]): string {
+  return clauses
+    .map(clause => {
+      const conditions = Object.entries(clause).flatMap(([column, condition]) => formatCondition(column, condition));
+      return conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`;
+    })
+    .join(',');
+}
+
 export const supabaseDb: DbPort = {
   async select<T>(table: string, options?: SelectOptions): Promise<DbResult<T[]>> {
     try {
@@ -14,17 +113,15 @@ export const supabaseDb: DbPort = {
       );
 
       // Apply where conditions
-      if (options?.where) {
-        for (const [key, value] of Object.entries(options.where)) {
-          query = query.eq(key, value);
-        }
+      query = applyWhere(query, options?.where);
+      if (options?.or && options.or.length > 0) {
+        query = query.or(formatOrFilter(options.or));
       }
 
       // Apply ordering
-      if (options?.orderBy) {
-        query = query.order(options.orderBy.column, {
-          ascending: options.orderBy.ascending ?? true,
-        });
+      const ordering = options?.orderBy ?? [];
+      for (const { column, ascending } of Array.isArray(ordering) ? ordering : [ordering]) {
+        query = query.order(column, { ascending: ascending ?? true });
       }
 
       // Apply limit
@@ -61,14 +158,14 @@ export const supabaseDb: DbPort = {
       const { data, error } = await supabaseClient
         .from(table)
         .insert(insertData)
-        .select()
-        .single();
+        .select();
 
       if (error) {
         return { data: null, error: new Error(error.message) };
       }
 
-      return { data: data as T, error: null };
+      // Batch inserts return the first row, like a single insert
+      return { data: (data?.[0] ?? null) as T, error: null };
     } catch (err) {
       return {
         data: null,
@@ -79,16 +176,11 @@ export const supabaseDb: DbPort = {
 
   async update<T>(
     table: string,
-    where: Record<string, unknown>,
+    where: WhereClause,
     values: Partial<T>
   ): Promise<DbResult<T>> {
     try {
-      let query = supabaseClient.from(table).update(values);
-
-      // Apply where conditions
-      for (const [key, value] of Object.entries(where)) {
-        query = query.eq(key, value);
-      }
+      const query = applyWhere(supabaseClient.from(table).update(values), where);
 
       const { data, error } = await query.select().single();
 
@@ -105,14 +197,9 @@ export const supabaseDb: DbPort = {
     }
   },
 
-  async delete(table: string, where: Record<string, unknown>): Promise<DbResult<null>> {
+  async delete(table: string, where: WhereClause): Promise<DbResult<null>> {
     try {
-      let query = supabaseClient.from(table).delete();
-
-      // Apply where conditions
-      for (const [key, value] of Object.entries(where)) {
-        query = query.eq(key, value);
-      }
+      const query = applyWhere(supabaseClient.from(table).delete(), where);
 
       const { error } = await query;
 
@@ -129,6 +216,23 @@ export const supabaseDb: DbPort = {
     }
   },
 
+  async rpc<T>(fn: string, args?: Record<string, unknown>): Promise<DbResult<T>> {
+    try {
+      const { data, error } = await supabaseClient.rpc(fn, args ?? {});
+
+      if (error) {
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as T, error: null };
+    } catch (err) {
+      return {
+        data: null,
+        error: err instanceof Error ? err : new Error('Unknown error'),
+      };
+    }
+  },
+
   // Optional raw SQL support via Supabase RPC
   async sql<T>(query: string, params?: unknown[]): Promise<DbResult<T>> {
     try {
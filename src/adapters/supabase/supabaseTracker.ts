@@ -7,6 +7,36 @@ import type { TrackerPort, TrackerResult } from '@/ports/TrackerPort';
 import type { Tracker, CreateTrackerInput, UpdateTrackerInput } from '@/types/tracker';
 import { supabaseClient } from './supabaseClient';
 
+/**
+ * Move a tracker into (a timestamp) or out of (null) the trash, along with
+ * any other changes to make at the same time
+ */
+async function setDeletedAt(
+  id: string,
+  deletedAt: string | null,
+  changes: UpdateTrackerInput = {}
+): Promise<TrackerResult<Tracker>> {
+  try {
+    const { data, error } = await supabaseClient
+      .from('trackers')
+      .update({ ...changes, deleted_at: deletedAt })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data as Tracker, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err : new Error('Unknown error'),
+    };
+  }
+}
+
 export const supabaseTracker: TrackerPort = {
   async getTrackers(): Promise<TrackerResult<Tracker[]>> {
     try {
@@ -23,6 +53,7 @@ export const supabaseTracker: TrackerPort = {
         .from('trackers')
         .select('*')
         .eq('user_id', session.user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: true });
 
       console.log('[supabaseTracker] Query result:', data?.length, 'trackers, error:', error?.message);
@@ -47,6 +78,7 @@ export const supabaseTracker: TrackerPort = {
         .from('trackers')
         .select('*')
         .eq('id', id)
+        .is('deleted_at', null)
         .single();
 
       if (error) {
@@ -74,6 +106,7 @@ export const supabaseTracker: TrackerPort = {
         .select('*')
         .eq('user_id', user.id)
         .eq('is_default', true)
+        .is('deleted_at', null)
         .single();
 
       if (error) {
@@ -107,6 +140,8 @@ export const supabaseTracker: TrackerPort = {
           color: input.color ?? '#6366f1',
           is_default: input.is_default ?? false,
           generated_config: input.generated_config ?? null,
+          fields: input.fields ?? input.generated_config?.fields ?? null,
+          scale: input.scale ?? input.generated_config?.scale ?? null,
           user_description: input.user_description ?? null,
         })
         .select()
@@ -147,6 +182,44 @@ export const supabaseTracker: TrackerPort = {
     }
   },
 
+  async trashTracker(id: string): Promise<TrackerResult<Tracker>> {
+    return setDeletedAt(id, new Date().toISOString());
+  },
+
+  async restoreTracker(id: string): Promise<TrackerResult<Tracker>> {
+    // A default trashed earlier was replaced by ensureDefaultTracker; the
+    // restored tracker comes back as an ordinary one so there is only one
+    const { data: currentDefault } = await this.getDefaultTracker();
+    return setDeletedAt(id, null, currentDefault ? { is_default: false } : {});
+  },
+
+  async getTrashedTrackers(): Promise<TrackerResult<Tracker[]>> {
+    try {
+      const { data: { user } } = await supabaseClient.auth.getUser();
+      if (!user) {
+        return { data: null, error: new Error('Not authenticated') };
+      }
+
+      const { data, error } = await supabaseClient
+        .from('trackers')
+        .select('*')
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) {
+        return { data: null, error: new Error(error.message) };
+      }
+
+      return { data: data as Tracker[], error: null };
+    } catch (err) {
+      return {
+        data: null,
+        error: err instanceof Error ? err : new Error('Unknown error'),
+      };
+    }
+  },
+
   async deleteTracker(id: string): Promise<TrackerResult<null>> {
     try {
       const { error } = await supabaseClient
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { getBackoffDelay, isNetworkError, outboxState, resolveConflict } from '../syncPolicy'
+import { pendingRowIds, type OutboxOp } from '../outbox'
+
+const op = (overrides: Partial<OutboxOp>): OutboxOp => ({
+  id: 'op',
+  seq: 1,
+  table: 'pain_entries',
+  op: 'insert',
+  where: null,
+  values: null,
+  written_at: '2025-01-01T00:00:00.000Z',
+  attempts: 0,
+  next_attempt_at: 0,
+  failed: false,
+  last_error: null,
+  ...overrides,
+})
+
+describe('syncPolicy', () => {
+  it('backs off exponentially and caps the delay', () => {
+    const noJitter = () => 0.5
+    expect(getBackoffDelay(1, noJitter)).toBe(2_000)
+    expect(getBackoffDelay(2, noJitter)).toBe(4_000)
+    expect(getBackoffDelay(3, noJitter)).toBe(8_000)
+    expect(getBackoffDelay(20, noJitter)).toBe(5 * 60_000)
+  })
+
+  it('classifies connectivity failures as network errors', () => {
+    expect(isNetworkError(new Error('TypeError: Failed to fetch'))).toBe(true)
+    expect(isNetworkError(new Error('Load failed'))).toBe(true)
+    expect(isNetworkError(new Error('new row violates row-level security policy'))).toBe(false)
+    expect(isNetworkError(null)).toBe(false)
+  })
+
+  it('reports an error only for writes the backend rejected', () => {
+    const waiting = op({})
+    const unreachable = op({ attempts: 2, last_error: 'TypeError: Failed to fetch' })
+    const rejected = op({ attempts: 1, last_error: 'new row violates row-level security policy' })
+
+    expect(outboxState([])).toBe('idle')
+    expect(outboxState([waiting])).toBe('pending')
+    expect(outboxState([unreachable, waiting])).toBe('offline')
+    expect(outboxState([rejected, unreachable])).toBe('error')
+    expect(outboxState([op({ failed: true })])).toBe('error')
+  })
+
+  it('resolves conflicts last-write-wins on updated_at', () => {
+    expect(resolveConflict('2025-01-02T00:00:00Z', '2025-01-01T00:00:00+00:00')).toBe('local')
+    expect(resolveConflict('2025-01-01T00:00:00Z', '2025-01-02T10:00:00.123456+00:00')).toBe('remote')
+    expect(resolveConflict('2025-01-01T00:00:00Z', '2025-01-01T00:00:00Z')).toBe('local')
+    expect(resolveConflict('2025-01-01T00:00:00Z', null)).toBe('local')
+  })
+})
+
+describe('pendingRowIds', () => {
+  it('collects row ids touched by pending ops for a table', () => {
+    const ids = pendingRowIds([
+      op({ op: 'insert', values: [{ id: 'a' }, { id: 'b' }] }),
+      op({ op: 'update', where: { id: 'c' } }),
+      op({ op: 'delete', where: { id: 'd' }, failed: true }),
+      op({ op: 'update', table: 'trackers', where: { id: 'e' } }),
+    ], 'pain_entries')
+
+    expect([...ids].sort()).toEqual(['a', 'b', 'c'])
+  })
+})
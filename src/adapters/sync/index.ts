@@ -0,0 +1,7 @@
+/**
+ * Sync Adapters
+ * Local-first database with an outbox replayed against Supabase
+ */
+
+export { syncedDb } from './syncedDb';
+export { syncEngine } from './syncEngine';
@@ -0,0 +1,88 @@
+/**
+ * Sync Outbox
+ * Persistent FIFO queue of local writes waiting to be replayed on the backend
+ */
+
+import { indexedDbDb } from '@/adapters/local/indexedDbDb';
+
+const OUTBOX_TABLE = 'sync_outbox';
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+export interface OutboxOp {
+  id: string;
+  /** Queue position - ops replay strictly in this order */
+  seq: number;
+  table: string;
+  op: OutboxOperation;
+  where: Record<string, unknown> | null;
+  values: Record<string, unknown>[] | Record<string, unknown> | null;
+  /** When the write happened locally; compared against the backend for last-write-wins */
+  written_at: string;
+  attempts: number;
+  next_attempt_at: number;
+  /** Rejected by the backend too many times; kept for inspection, no longer replayed */
+  failed: boolean;
+  last_error: string | null;
+}
+
+export type NewOutboxOp = Pick<OutboxOp, 'table' | 'op' | 'where' | 'values' | 'written_at'>;
+
+/**
+ * All queued ops (pending and failed), oldest first
+ */
+export async function listOutbox(): Promise<OutboxOp[]> {
+  const { data, error } = await indexedDbDb.select<OutboxOp>(OUTBOX_TABLE, {
+    orderBy: { column: 'seq', ascending: true },
+  });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function enqueue(op: NewOutboxOp): Promise<OutboxOp> {
+  const existing = await listOutbox();
+  const seq = existing.length > 0 ? existing[existing.length - 1].seq + 1 : 1;
+
+  const queued: OutboxOp = {
+    ...op,
+    id: crypto.randomUUID(),
+    seq,
+    attempts: 0,
+    next_attempt_at: 0,
+    failed: false,
+    last_error: null,
+  };
+
+  const { error } = await indexedDbDb.insert<OutboxOp>(OUTBOX_TABLE, queued);
+  if (error) throw error;
+  return queued;
+}
+
+export async function saveOp(op: OutboxOp): Promise<void> {
+  const { error } = await indexedDbDb.update<OutboxOp>(OUTBOX_TABLE, { id: op.id }, op);
+  if (error) throw error;
+}
+
+export async function removeOp(id: string): Promise<void> {
+  const { error } = await indexedDbDb.delete(OUTBOX_TABLE, { id });
+  if (error) throw error;
+}
+
+/**
+ * Ids of rows in `table` that have local writes not yet on the backend
+ */
+export function pendingRowIds(ops: OutboxOp[], table: string): Set<string> {
+  const ids = new Set<string>();
+  for (const op of ops) {
+    if (op.table !== table || op.failed) continue;
+    if (op.op === 'insert' && op.values) {
+      const rows = Array.isArray(op.values) ? op.values : [op.values];
+      for (const row of rows) {
+        if (row.id !== undefined) ids.add(String(row.id));
+      }
+    } else if (op.where?.id !== undefined) {
+      ids.add(String(op.where.id));
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,208 @@
+/**
+ * Sync Engine
+ * Implements SyncPort by replaying the outbox against Supabase
+ *
+ * Ops replay strictly in order. Network failures back off and retry
+ * (and resume immediately when the browser comes back online); writes the
+ * backend keeps rejecting are marked failed after MAX_ATTEMPTS.
+ * Updates use last-write-wins on updated_at: if the backend row changed
+ * after our local write, the backend row is kept and mirrored locally.
+ */
+
+import type { SyncPort, SyncStatus, SyncStatusCallback } from '@/ports/SyncPort';
+import { supabaseDb } from '@/adapters/supabase/supabaseDb';
+import { replaceLocalRows } from '@/adapters/local/indexedDbDb';
+import type { Row } from '@/adapters/local/localQuery';
+import { listOutbox, removeOp, saveOp, type OutboxOp } from './outbox';
+import { getBackoffDelay, isNetworkError, isOffline, MAX_ATTEMPTS, outboxState, resolveConflict } from './syncPolicy';
+
+const listeners = new Set<SyncStatusCallback>();
+let status: SyncStatus = {
+  state: 'idle',
+  pending: 0,
+  failed: 0,
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function setStatus(patch: Partial<SyncStatus>) {
+  status = { ...status, ...patch };
+  for (const listener of listeners) {
+    listener(status);
+  }
+}
+
+function scheduleRetry(at: number) {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void flush(false);
+  }, Math.max(at - Date.now(), 0));
+}
+
+/**
+ * Replay an update with last-write-wins per matching backend row
+ */
+async function replayUpdate(op: OutboxOp): Promise<Error | null> {
+  const where = op.where ?? {};
+  const remote = await supabaseDb.select<Row>(op.table, { where });
+  if (remote.error) return remote.error;
+
+  const keepRemote: Row[] = [];
+  for (const row of remote.data ?? []) {
+    if (resolveConflict(op.written_at, row.updated_at) === 'remote') {
+      keepRemote.push(row);
+      continue;
+    }
+    const { error } = await supabaseDb.update(op.table, { id: row.id }, op.values as Row);
+    if (error) return error;
+  }
+
+  // Backend was newer: overwrite our local copy with it
+  if (keepRemote.length > 0) {
+    const { error } = await replaceLocalRows(op.table, keepRemote);
+    if (error) return error;
+  }
+  return null;
+}
+
+async function replayInsert(op: OutboxOp): Promise<Error | null> {
+  const rows = (Array.isArray(op.values) ? op.values : [op.values ?? {}]) as Row[];
+  for (const row of rows) {
+    const { error } = await supabaseDb.insert(op.table, row);
+    if (!error) continue;
+
+    // Already there (e.g. a previous attempt succeeded but the response was lost)
+    if (error.message.toLowerCase().includes('duplicate key')) {
+      const retry = await replayUpdate({ ...op, op: 'update', where: { id: row.id }, values: row });
+      if (retry) return retry;
+      continue;
+    }
+    return error;
+  }
+  return null;
+}
+
+async function replay(op: OutboxOp): Promise<Error | null> {
+  switch (op.op) {
+    case 'insert':
+      return replayInsert(op);
+    case 'update':
+      return replayUpdate(op);
+    case 'delete': {
+      const { error } = await supabaseDb.delete(op.table, op.where ?? {});
+      return error;
+    }
+  }
+}
+
+async function flush(force: boolean): Promise<void> {
+  if (flushing) {
+    // A write landed mid-flush: go round once more when this pass ends
+    flushAgain = true;
+    return flushing;
+  }
+
+  flushing = (async () => {
+    try {
+      if (isOffline()) {
+        await refreshCounts('offline');
+        return;
+      }
+
+      const ops = (await listOutbox()).filter(op => !op.failed);
+      if (ops.length > 0) setStatus({ state: 'syncing', pending: ops.length });
+
+      for (const op of ops) {
+        if (!force && op.next_attempt_at > Date.now()) {
+          scheduleRetry(op.next_attempt_at);
+          break;
+        }
+
+        const error = await replay(op);
+        if (!error) {
+          await removeOp(op.id);
+          continue;
+        }
+
+        const attempts = op.attempts + 1;
+        const retryable = isNetworkError(error);
+        const failed = !retryable && attempts >= MAX_ATTEMPTS;
+        const next: OutboxOp = {
+          ...op,
+          attempts,
+          failed,
+          last_error: error.message,
+          next_attempt_at: Date.now() + getBackoffDelay(attempts),
+        };
+        await saveOp(next);
+        setStatus({ lastError: error.message });
+
+        if (failed) continue;
+        // Keep ordering: later ops wait behind this one
+        scheduleRetry(next.next_attempt_at);
+        break;
+      }
+
+      await refreshCounts();
+    } catch (err) {
+      setStatus({ state: 'error', lastError: err instanceof Error ? err.message : 'Sync failed' });
+    } finally {
+      flushing = null;
+      if (flushAgain) {
+        flushAgain = false;
+        void flush(false);
+      }
+    }
+  })();
+
+  return flushing;
+}
+
+async function refreshCounts(forceState?: SyncStatus['state']) {
+  const ops = await listOutbox();
+  const failed = ops.filter(op => op.failed).length;
+  const pending = ops.length - failed;
+  const state = forceState ?? outboxState(ops);
+
+  if (state === 'idle') {
+    setStatus({ state, pending, failed, lastSyncedAt: Date.now(), lastError: null });
+  } else {
+    setStatus({ state, pending, failed });
+  }
+}
+
+/**
+ * Ask the engine to replay the outbox soon (after a local write or read)
+ */
+export function requestFlush(): void {
+  void flush(false);
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => void flush(true));
+  window.addEventListener('offline', () => setStatus({ state: 'offline' }));
+}
+
+export const syncEngine: SyncPort = {
+  getStatus(): SyncStatus {
+    return status;
+  },
+
+  subscribe(callback: SyncStatusCallback) {
+    listeners.add(callback);
+    return {
+      unsubscribe: () => {
+        listeners.delete(callback);
+      },
+    };
+  },
+
+  async syncNow(): Promise<void> {
+    await flush(true);
+  },
+};
@@ -0,0 +1,79 @@
+/**
+ * Sync Policy
+ * Retry backoff, error classification, the state the outbox puts sync in,
+ * and last-write-wins conflict resolution
+ */
+
+import type { SyncState } from '@/ports/SyncPort';
+import type { OutboxOp } from './outbox';
+
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 5 * 60_000;
+
+/** Attempts after which a rejected (non-network) write is marked failed */
+export const MAX_ATTEMPTS = 5;
+
+/**
+ * Exponential backoff with jitter: 2s, 4s, 8s... capped at 5 minutes
+ */
+export function getBackoffDelay(attempts: number, random: () => number = Math.random): number {
+  const exponential = Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS);
+  // ±20% jitter so several tabs don't retry in lockstep
+  return Math.round(exponential * (0.8 + random() * 0.4));
+}
+
+/**
+ * Whether the browser knows it has no connection
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Whether an error means "couldn't reach the backend" (retry later)
+ * rather than "the backend rejected this write"
+ */
+export function isNetworkError(error: Error | null): boolean {
+  if (!error) return false;
+  if (isOffline()) return true;
+  const msg = error.message.toLowerCase();
+  return (
+    msg.includes('failed to fetch') ||
+    msg.includes('network') ||
+    msg.includes('load failed') ||
+    msg.includes('timeout') ||
+    msg.includes('timed out')
+  );
+}
+
+/**
+ * Sync state for what is left in the outbox after a pass: 'error' only when
+ * the backend rejected a write, 'offline' while writes are backing off after
+ * failing to reach it, 'pending' while they simply wait their turn
+ */
+export function outboxState(ops: OutboxOp[]): SyncState {
+  const rejected = ops.some(op => op.failed || (op.last_error !== null && !isNetworkError(new Error(op.last_error))));
+  if (rejected) return 'error';
+  if (isOffline() || ops.some(op => op.last_error !== null)) return 'offline';
+  return ops.length > 0 ? 'pending' : 'idle';
+}
+
+function toMillis(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? 0 : parsed;
+  }
+  return 0;
+}
+
+/**
+ * Last-write-wins on updated_at.
+ * Returns 'local' when the local write is at least as new as the remote row.
+ */
+export function resolveConflict(
+  localUpdatedAt: unknown,
+  remoteUpdatedAt: unknown
+): 'local' | 'remote' {
+  return toMillis(localUpdatedAt) >= toMillis(remoteUpdatedAt) ? 'local' : 'remote';
+}
@@ -0,0 +1,159 @@
+/**
+ * Synced Database Adapter
+ * Implements DbPort local-first: IndexedDB is the source the app reads and
+ * writes. Online, each read first mirrors the backend rows for its query so
+ * pages, exports and filtered views see the full history; offline (or when
+ * the backend can't be reached) it serves the local copy. Writes are pushed
+ * through the outbox.
+ *
+ * Writes succeed as soon as they land locally, so entries logged with no
+ * connection are kept and replayed by the sync engine later.
+ */
+
+import type { DbPort, DbResult, SelectOptions } from '@/ports/DbPort';
+import { indexedDbDb, replaceLocalRows } from '@/adapters/local/indexedDbDb';
+import type { Row } from '@/adapters/local/localQuery';
+import { supabaseDb } from '@/adapters/supabase/supabaseDb';
+import { enqueue, listOutbox, pendingRowIds, type NewOutboxOp } from './outbox';
+import { isNetworkError, isOffline } from './syncPolicy';
+import { requestFlush } from './syncEngine';
+
+/**
+ * Mirror backend rows for this query into the local store.
+ * Rows with unsynced local writes are left alone; the outbox resolves them.
+ */
+async function pullRemote(table: string, options?: SelectOptions): Promise<Error | null> {
+  const remote = await supabaseDb.select<Row>(table, {
+    where: options?.where,
+    or: options?.or,
+    orderBy: options?.orderBy,
+    limit: options?.limit,
+    offset: options?.offset,
+  });
+  if (remote.error) return remote.error;
+
+  const pending = pendingRowIds(await listOutbox(), table);
+  const remoteRows = remote.data ?? [];
+  const upserts = remoteRows.filter(row => !pending.has(String(row.id)));
+
+  // With an unbounded query, local rows missing remotely were deleted elsewhere
+  let deleteIds: string[] = [];
+  if (options?.limit === undefined && options?.offset === undefined) {
+    const remoteIds = new Set(remoteRows.map(row => String(row.id)));
+    const local = await indexedDbDb.select<Row>(table, { where: options?.where, or: options?.or });
+    if (local.error) return local.error;
+    deleteIds = (local.data ?? [])
+      .map(row => String(row.id))
+      .filter(id => !remoteIds.has(id) && !pending.has(id));
+  }
+
+  const { error } = await replaceLocalRows(table, upserts, deleteIds);
+  return error;
+}
+
+/** Pulls in flight, by query, so repeated reads share one */
+const pulling = new Map<string, Promise<Error | null>>();
+
+function pullOnce(table: string, options?: SelectOptions): Promise<Error | null> {
+  const key = JSON.stringify([table, options ?? null]);
+  let pull = pulling.get(key);
+  if (!pull) {
+    pull = pullRemote(table, options).finally(() => pulling.delete(key));
+    pulling.set(key, pull);
+  }
+  return pull;
+}
+
+/**
+ * Queue a local write for the backend and nudge the engine
+ */
+async function queueWrite(op: NewOutboxOp): Promise<Error | null> {
+  try {
+    await enqueue(op);
+    requestFlush();
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err : new Error('Could not queue write for sync');
+  }
+}
+
+export const syncedDb: DbPort = {
+  async select<T>(table: string, options?: SelectOptions): Promise<DbResult<T[]>> {
+    requestFlush();
+    // No connection: the local copy is all there is, don't wait on a request
+    if (isOffline()) {
+      return indexedDbDb.select<T>(table, options);
+    }
+
+    // A local page or list may be missing rows only the backend has
+    // (older history, entries from another device): read after the pull
+    const pullError = await pullOnce(table, options);
+    // Unreachable: serve the local copy. Anything else (auth, RLS) surfaces as before.
+    if (pullError && !isNetworkError(pullError)) {
+      return { data: null, error: pullError };
+    }
+    return indexedDbDb.select<T>(table, options);
+  },
+
+  async insert<T>(table: string, values: Partial<T> | Partial<T>[]): Promise<DbResult<T>> {
+    // Assign ids up front so the local row and the replayed backend row match
+    const rows: Row[] = (Array.isArray(values) ? values : [values]).map(value => ({
+      ...(value as Row),
+      id: (value as Row).id ?? crypto.randomUUID(),
+    }));
+
+    const result = await indexedDbDb.insert<T>(table, rows as Partial<T>[]);
+    if (result.error) return result;
+
+    const queueError = await queueWrite({
+      table,
+      op: 'insert',
+      where: null,
+      values: rows,
+      written_at: String((result.data as Row).updated_at ?? new Date().toISOString()),
+    });
+    return queueError ? { data: null, error: queueError } : result;
+  },
+
+  async update<T>(
+    table: string,
+    where: Record<string, unknown>,
+    values: Partial<T>
+  ): Promise<DbResult<T>> {
+    const result = await indexedDbDb.update<T>(table, where, values);
+    if (result.error) return result;
+
+    const queueError = await queueWrite({
+      table,
+      op: 'update',
+      where,
+      values: values as Row,
+      written_at: String((result.data as Row).updated_at ?? new Date().toISOString()),
+    });
+    return queueError ? { data: null, error: queueError } : result;
+  },
+
+  async delete(table: string, where: Record<string, unknown>): Promise<DbResult<null>> {
+    const result = await indexedDbDb.delete(table, where);
+    if (result.error) return result;
+
+    const queueError = await queueWrite({
+      table,
+      op: 'delete',
+      where,
+      values: null,
+      written_at: new Date().toISOString(),
+    });
+    return queueError ? { data: null, error: queueError } : result;
+  },
+
+  async rpc<T>(fn: string, args?: Record<string, unknown>): Promise<DbResult<T>> {
+    // Aggregates come from the backend; offline, compute them from the local copy.
+    // Trackers aren't stored locally in cloud mode; tracker_stats finds them from their entries.
+    const remote = await supabaseDb.rpc<T>(fn, args);
+    if (remote.error && isNetworkError(remote.error)) {
+      return indexedDbDb.rpc<T>(fn, args);
+    }
+    return remote;
+  },
+};
@@ -0,0 +1,190 @@
+/**
+ * Assessment Form Component
+ *
+ * Steps through a questionnaire one question at a time, then shows the
+ * score, severity band and any alerts before saving.
+ */
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { AlertTriangle, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import type { AssessmentAnswers, AssessmentDefinition, AssessmentQuestion } from '@/types/assessment';
+import { assessmentAlerts, scoreAssessment } from '@/services/assessmentService';
+
+interface AssessmentFormProps {
+  definition: AssessmentDefinition;
+  saving?: boolean;
+  onSubmit: (answers: AssessmentAnswers) => void;
+  onCancel: () => void;
+}
+
+/** Radio and toggle values are strings; '' is unanswered */
+type AnswerValues = Record<string, string>;
+
+const toAnswers = (values: AnswerValues): AssessmentAnswers =>
+  Object.fromEntries(
+    Object.entries(values)
+      .filter(([, value]) => value !== '' && value !== undefined)
+      .map(([id, value]) => [id, Number(value)])
+  );
+
+function QuestionInput({
+  question,
+  value,
+  onChange,
+}: Readonly<{ question: AssessmentQuestion; value: string; onChange: (value: string) => void }>) {
+  if (question.type === 'scale') {
+    return (
+      <div className="space-y-2">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={value}
+          onValueChange={onChange}
+          className="w-full flex-wrap"
+        >
+          {Array.from({ length: question.max - question.min + 1 }, (_, i) => String(question.min + i)).map(option => (
+            <ToggleGroupItem key={option} value={option} className="flex-1 min-w-9">
+              {option}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{question.min} · {question.minLabel}</span>
+          <span className="text-right">{question.max} · {question.maxLabel}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <RadioGroup value={value} onValueChange={onChange} className="gap-2">
+      {question.options.map(option => (
+        <label
+          key={option.value}
+          className="flex items-center gap-3 rounded-md border p-3 cursor-pointer hover:bg-muted/50 has-[[data-state=checked]]:border-primary"
+        >
+          <RadioGroupItem value={String(option.value)} />
+          <span className="text-sm">{option.label}</span>
+        </label>
+      ))}
+    </RadioGroup>
+  );
+}
+
+export function AssessmentForm({ definition, saving, onSubmit, onCancel }: Readonly<AssessmentFormProps>) {
+  const form = useForm<AnswerValues>({
+    defaultValues: Object.fromEntries(definition.questions.map(q => [q.id, ''])),
+  });
+  // One step per question, then the review
+  const [step, setStep] = useState(0);
+  const questions = definition.questions;
+  const reviewing = step === questions.length;
+  const question = questions[step];
+
+  // Questionnaires that score from fewer answers (ODI) let sections be skipped
+  const canSkip = (definition.scoring.minAnswered ?? questions.length) < questions.length;
+
+  const next = async () => {
+    if (canSkip || (await form.trigger(question.id))) setStep(step + 1);
+  };
+
+  const answers = toAnswers(form.watch());
+  const scored = reviewing ? scoreAssessment(definition, answers) : null;
+  const alerts = reviewing ? assessmentAlerts(definition, answers) : [];
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => onSubmit(toAnswers(values)))} className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>{definition.shortName}</span>
+            <span>{reviewing ? 'Review' : `Question ${step + 1} of ${questions.length}`}</span>
+          </div>
+          <Progress value={(step / questions.length) * 100} />
+        </div>
+
+        {step === 0 && <p className="text-sm text-muted-foreground">{definition.instructions}</p>}
+
+        {!reviewing && (
+          <FormField
+            key={question.id}
+            control={form.control}
+            name={question.id}
+            rules={{ required: canSkip ? false : 'Choose an answer to continue' }}
+            render={({ field }) => (
+              <FormItem className="space-y-3">
+                <FormLabel className="text-base font-medium leading-snug">{question.text}</FormLabel>
+                {canSkip && <FormDescription>Skip this if it doesn't apply to you.</FormDescription>}
+                <FormControl>
+                  <QuestionInput question={question} value={field.value} onChange={field.onChange} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {reviewing && (
+          <div className="space-y-4">
+            {scored ? (
+              <div className="rounded-md border p-4 space-y-1">
+                <p className="text-sm text-muted-foreground">{definition.scoreLabel}</p>
+                <p className="text-3xl font-semibold">{scored.score}</p>
+                <p className="font-medium">{scored.band}</p>
+                {definition.subscales?.map(subscale => (
+                  <p key={subscale.id} className="text-sm text-muted-foreground">
+                    {subscale.label}: {scored.subscales[subscale.id] ?? 'not enough answers'}
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-destructive">
+                Not enough questions answered to score the {definition.shortName}. Go back and answer a few more.
+              </p>
+            )}
+            {alerts.map(message => (
+              <Alert key={message} variant="destructive">
+                <AlertTriangle className="w-4 h-4" />
+                <AlertDescription>{message}</AlertDescription>
+              </Alert>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={step === 0 ? onCancel : () => setStep(step - 1)} className="gap-1">
+            {step > 0 && <ChevronLeft className="w-4 h-4" />}
+            {step === 0 ? 'Cancel' : 'Back'}
+          </Button>
+          <div className="flex-1" />
+          {reviewing ? (
+            <Button type="submit" disabled={!scored || saving} className="gap-2">
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save result
+            </Button>
+          ) : (
+            <Button type="button" onClick={next} className="gap-1">
+              {canSkip && form.watch(question.id) === '' ? 'Skip' : 'Next'}
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,257 @@
+/**
+ * Assessments View Component
+ *
+ * The standardized questionnaires for a tracker: latest score and band,
+ * score trend, recent results, and an optional repeat schedule. Taking one
+ * opens the stepper in a dialog.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Loader2, Play, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AssessmentForm } from '@/components/AssessmentForm';
+import type { Tracker } from '@/types/tracker';
+import {
+  ASSESSMENT_INTERVALS,
+  type AssessmentAnswers,
+  type AssessmentDefinition,
+  type AssessmentResult,
+  type AssessmentSchedule,
+} from '@/types/assessment';
+import { db } from '@/runtime/appRuntime';
+import {
+  assessmentsForTracker,
+  deleteResult,
+  loadResults,
+  loadSchedules,
+  nextDueAt,
+  saveResult,
+  scoreTrend,
+  setSchedule,
+  type ScorePoint,
+} from '@/services/assessmentService';
+import { toast } from 'sonner';
+
+interface AssessmentsViewProps {
+  tracker: Tracker;
+  userId: string;
+}
+
+const NO_SCHEDULE = 'off';
+const RECENT_RESULTS = 5;
+
+function ScoreTrendChart({ definition, points }: Readonly<{ definition: AssessmentDefinition; points: ScorePoint[] }>) {
+  const chartConfig = { score: { label: definition.shortName, color: 'var(--primary)' } } satisfies ChartConfig;
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+      <LineChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: -20 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="completed_at"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={24}
+          tickFormatter={(timestamp: number) => format(timestamp, 'MMM d')}
+        />
+        <YAxis domain={[0, definition.maxScore]} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) => {
+            const point = payload?.[0]?.payload as ScorePoint | undefined;
+            return point ? `${format(point.completed_at, 'MMM d, yyyy')} · ${point.band}` : '';
+          }} />}
+        />
+        <Line dataKey="score" stroke="var(--color-score)" strokeWidth={2} isAnimationActive={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+export function AssessmentsView({ tracker, userId }: Readonly<AssessmentsViewProps>) {
+  const definitions = useMemo(() => assessmentsForTracker(tracker), [tracker]);
+  const [results, setResults] = useState<AssessmentResult[]>([]);
+  const [schedules, setSchedules] = useState<AssessmentSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [taking, setTaking] = useState<AssessmentDefinition | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [now] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([loadResults(db, tracker.id), loadSchedules(db, tracker.id)]).then(([loaded, scheduled]) => {
+      if (cancelled) return;
+      const error = loaded.error ?? scheduled.error;
+      if (error) {
+        console.error('Error loading assessments:', error);
+        toast.error('Could not load assessments');
+      } else {
+        setResults(loaded.data ?? []);
+        setSchedules(scheduled.data ?? []);
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [tracker.id]);
+
+  async function handleSubmit(answers: AssessmentAnswers) {
+    if (!taking) return;
+    setSaving(true);
+    const { data, error } = await saveResult(db, userId, tracker.id, taking, answers);
+    setSaving(false);
+    if (error || !data) {
+      console.error('Error saving assessment:', error);
+      toast.error(error?.message ?? 'Could not save the assessment');
+      return;
+    }
+    setResults(current => [...current, data]);
+    setTaking(null);
+    toast.success(`${taking.shortName} saved: ${data.score} (${data.band})`);
+  }
+
+  async function handleDelete(result: AssessmentResult) {
+    const { error } = await deleteResult(db, result.id);
+    if (error) {
+      toast.error('Could not delete the result');
+      return;
+    }
+    setResults(current => current.filter(r => r.id !== result.id));
+  }
+
+  async function handleSchedule(definition: AssessmentDefinition, value: string) {
+    const existing = schedules.find(s => s.assessment_id === definition.id) ?? null;
+    const intervalDays = value === NO_SCHEDULE ? null : Number(value);
+    const { data, error } = await setSchedule(db, userId, tracker.id, definition.id, intervalDays, existing);
+    if (error) {
+      console.error('Error saving schedule:', error);
+      toast.error('Could not change the schedule');
+      return;
+    }
+    setSchedules(current => [...current.filter(s => s.assessment_id !== definition.id), ...(data ? [data] : [])]);
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Standard questionnaires your clinician may ask for. Scores and trends appear in your clinician report.
+      </p>
+
+      {definitions.map(definition => {
+        const points = scoreTrend(results, definition.id);
+        const latest = points.length > 0 ? points[points.length - 1] : null;
+        const schedule = schedules.find(s => s.assessment_id === definition.id) ?? null;
+        const dueAt = schedule ? nextDueAt(schedule, results) : null;
+        const recent = results
+          .filter(r => r.assessment_id === definition.id)
+          .sort((a, b) => b.completed_at - a.completed_at)
+          .slice(0, RECENT_RESULTS);
+
+        return (
+          <Card key={definition.id}>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {definition.name}
+                    {dueAt !== null && dueAt <= now && <Badge>Due</Badge>}
+                  </CardTitle>
+                  <CardDescription>
+                    {latest
+                      ? `Latest ${latest.score} (${latest.band}) on ${format(latest.completed_at, 'MMM d, yyyy')}`
+                      : 'Not taken yet'}
+                  </CardDescription>
+                </div>
+                <Button onClick={() => setTaking(definition)} className="gap-2">
+                  <Play className="w-4 h-4" />
+                  Start
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {points.length > 1 && <ScoreTrendChart definition={definition} points={points} />}
+
+              {recent.length > 0 && (
+                <ul className="space-y-1">
+                  {recent.map(result => (
+                    <li key={result.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-muted-foreground">{format(result.completed_at, 'EEE MMM d, h:mm a')}</span>
+                      <span className="flex items-center gap-2">
+                        <span className="tabular-nums font-medium">{result.score}</span>
+                        <span className="text-muted-foreground">{result.band}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          aria-label="Delete result"
+                          onClick={() => handleDelete(result)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 pt-2 border-t text-sm">
+                <span className="text-muted-foreground">Repeat</span>
+                <Select
+                  value={schedule ? String(schedule.interval_days) : NO_SCHEDULE}
+                  onValueChange={value => handleSchedule(definition, value)}
+                >
+                  <SelectTrigger className="w-40" aria-label={`Repeat ${definition.shortName}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SCHEDULE}>Off</SelectItem>
+                    {ASSESSMENT_INTERVALS.map(({ days, label }) => (
+                      <SelectItem key={days} value={String(days)}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {dueAt !== null && dueAt > now && (
+                  <span className="text-muted-foreground">Next due {format(dueAt, 'MMM d')}</span>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Dialog open={taking !== null} onOpenChange={open => !open && setTaking(null)}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{taking?.name}</DialogTitle>
+            <DialogDescription>Your answers are scored automatically.</DialogDescription>
+          </DialogHeader>
+          {taking && (
+            <AssessmentForm
+              key={taking.id}
+              definition={taking}
+              saving={saving}
+              onSubmit={handleSubmit}
+              onCancel={() => setTaking(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
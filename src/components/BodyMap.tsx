@@ -0,0 +1,155 @@
+/**
+ * Body Map Component
+ *
+ * Front and back outlines with a tappable region per body location, one
+ * per side for paired parts. Used as the location picker for trackers
+ * with `bodyMap` set, and as a heatmap when given per-region fills.
+ */
+
+import type { KeyboardEvent } from 'react';
+import type { BodyLocation } from '@/types/pain-entry';
+import { BODY_MAP_LOCATIONS, bodyLocationValue, type BodySide, type BodyView } from '@/types/body-map';
+import { isBodyLocationSelected } from '@/services/bodyMapService';
+
+/** x, y, width, height in the 120 × 256 view box */
+type Box = [number, number, number, number];
+
+interface RegionShape {
+  location: BodyLocation;
+  /** For paired parts, the boxes on the viewer's left; the right is mirrored */
+  boxes: Box[];
+}
+
+const VIEW_WIDTH = 120;
+const VIEW_HEIGHT = 256;
+
+const CENTRE_REGIONS: Record<BodyView, RegionShape[]> = {
+  front: [
+    { location: 'head', boxes: [[44, 4, 32, 36]] },
+    { location: 'neck', boxes: [[53, 40, 14, 10]] },
+    { location: 'chest', boxes: [[42, 52, 36, 30]] },
+    { location: 'abdomen', boxes: [[44, 84, 32, 28]] },
+  ],
+  back: [
+    { location: 'head', boxes: [[44, 4, 32, 36]] },
+    { location: 'neck', boxes: [[53, 40, 14, 10]] },
+    { location: 'upper-back', boxes: [[42, 52, 36, 32]] },
+    { location: 'lower-back', boxes: [[44, 86, 32, 26]] },
+  ],
+};
+
+// The same outline serves both views; only which side is which changes
+const PAIRED_REGIONS: RegionShape[] = [
+  { location: 'shoulders', boxes: [[28, 50, 14, 14]] },
+  { location: 'arms', boxes: [[22, 66, 12, 56]] },
+  { location: 'hands', boxes: [[20, 124, 14, 18]] },
+  { location: 'hips', boxes: [[44, 114, 15, 22]] },
+  { location: 'legs', boxes: [[44, 138, 15, 44], [45, 198, 13, 40]] },
+  { location: 'knees', boxes: [[44, 183, 15, 14]] },
+  { location: 'feet', boxes: [[42, 240, 17, 12]] },
+];
+
+/** Facing the viewer, the person's right is on the viewer's left */
+const VIEWER_LEFT_SIDE: Record<BodyView, BodySide> = { front: 'right', back: 'left' };
+
+const mirror = ([x, y, width, height]: Box): Box => [VIEW_WIDTH - x - width, y, width, height];
+
+const LABELS = new Map(BODY_MAP_LOCATIONS.map(l => [l.value, l.label]));
+
+interface DrawnRegion {
+  value: string;
+  boxes: Box[];
+}
+
+function regionsFor(view: BodyView): DrawnRegion[] {
+  const leftSide = VIEWER_LEFT_SIDE[view];
+  const rightSide: BodySide = leftSide === 'left' ? 'right' : 'left';
+  return [
+    ...CENTRE_REGIONS[view].map(({ location, boxes }) => ({ value: location, boxes })),
+    ...PAIRED_REGIONS.flatMap(({ location, boxes }) => [
+      { value: bodyLocationValue(location, leftSide), boxes },
+      { value: bodyLocationValue(location, rightSide), boxes: boxes.map(mirror) },
+    ]),
+  ];
+}
+
+export interface BodyMapHeatFill {
+  fill: string;
+  /** Tooltip, e.g. "Left knee: 4 entries" */
+  title: string;
+}
+
+interface BodyMapProps {
+  /** Selected location values; side-less ones highlight both sides */
+  selected?: string[];
+  /** Omit for a read-only map */
+  onToggle?: (value: string) => void;
+  /** Heatmap mode: fill per location value, replacing the selection colours */
+  heat?: Record<string, BodyMapHeatFill>;
+  className?: string;
+}
+
+export function BodyMap({ selected = [], onToggle, heat, className }: Readonly<BodyMapProps>) {
+  const handleKeyDown = (e: KeyboardEvent<SVGGElement>, value: string) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onToggle?.(value);
+    }
+  };
+
+  return (
+    <div className={`grid grid-cols-2 gap-4 ${className ?? ''}`}>
+      {(['front', 'back'] as const).map(view => (
+        <figure key={view} className="space-y-1">
+          <svg
+            viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+            className="w-full max-h-80"
+            role="group"
+            aria-label={`Body, ${view}`}
+          >
+            <text x={4} y={12} className="fill-muted-foreground text-[8px]">
+              {VIEWER_LEFT_SIDE[view] === 'left' ? 'L' : 'R'}
+            </text>
+            <text x={VIEW_WIDTH - 4} y={12} textAnchor="end" className="fill-muted-foreground text-[8px]">
+              {VIEWER_LEFT_SIDE[view] === 'left' ? 'R' : 'L'}
+            </text>
+            {regionsFor(view).map(({ value, boxes }) => {
+              const label = LABELS.get(value) ?? value;
+              const fill = heat?.[value];
+              const isSelected = !heat && isBodyLocationSelected(selected, value);
+              return (
+                <g
+                  key={value}
+                  role={onToggle ? 'button' : undefined}
+                  tabIndex={onToggle ? 0 : undefined}
+                  aria-label={label}
+                  aria-pressed={onToggle ? isSelected : undefined}
+                  onClick={() => onToggle?.(value)}
+                  onKeyDown={e => handleKeyDown(e, value)}
+                  className={`${onToggle ? 'cursor-pointer hover:opacity-80 focus:outline-none focus-visible:opacity-80' : ''} ${
+                    isSelected ? 'fill-primary' : 'fill-muted'
+                  } stroke-border`}
+                  style={fill ? { fill: fill.fill } : undefined}
+                >
+                  <title>{fill?.title ?? label}</title>
+                  {boxes.map(([x, y, width, height]) => (
+                    <rect
+                      key={`${x}-${y}`}
+                      x={x}
+                      y={y}
+                      width={width}
+                      height={height}
+                      rx={Math.min(width, height) / 2}
+                      strokeWidth={1}
+                    />
+                  ))}
+                </g>
+              );
+            })}
+          </svg>
+          <figcaption className="text-center text-xs text-muted-foreground capitalize">{view}</figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+}
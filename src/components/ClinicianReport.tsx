@@ -0,0 +1,294 @@
+/**
+ * Clinician Report Component
+ *
+ * Print-ready summary of one tracker over a date range. Uses fixed light
+ * colours so it reads the same on screen, on paper and in a saved PDF.
+ */
+
+import { format } from 'date-fns';
+import type { AssessmentTrend, ClinicianReportData, DailyPoint } from '@/services/reportService';
+import type { TrackerConfig } from '@/types/tracker-config';
+import type { PainEntry } from '@/types/pain-entry';
+import { formatDuration, getEntryDuration } from '@/lib/pain-utils';
+
+interface ClinicianReportProps {
+  data: ClinicianReportData;
+  patientName: string;
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 180;
+const AXIS_WIDTH = 24;
+const AXIS_HEIGHT = 18;
+
+function DailyChart({ daily, config }: Readonly<{ daily: DailyPoint[]; config: TrackerConfig }>) {
+  const plotWidth = CHART_WIDTH - AXIS_WIDTH;
+  const plotHeight = CHART_HEIGHT - AXIS_HEIGHT;
+  const slot = plotWidth / Math.max(daily.length, 1);
+  const barWidth = Math.max(slot * 0.7, 1);
+  const { scale } = config;
+  const y = (value: number) => plotHeight - (value / scale.max) * plotHeight;
+  const labelEvery = Math.max(1, Math.ceil(daily.length / 8));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Daily average ${config.intensityLabel.toLowerCase()}`}>
+      {[...scale.bands, scale.max].map(tick => (
+        <g key={tick}>
+          <line x1={AXIS_WIDTH} x2={CHART_WIDTH} y1={y(tick)} y2={y(tick)} stroke="#e5e5e5" strokeWidth={1} />
+          <text x={AXIS_WIDTH - 6} y={y(tick) + 4} textAnchor="end" fontSize={10} fill="#737373">{tick}</text>
+        </g>
+      ))}
+      {daily.map((point, i) => {
+        const x = AXIS_WIDTH + i * slot + (slot - barWidth) / 2;
+        return (
+          <g key={point.date}>
+            {point.average !== null && (
+              <>
+                <rect
+                  x={x}
+                  y={y(point.average)}
+                  width={barWidth}
+                  height={plotHeight - y(point.average)}
+                  fill={config.getIntensityColor(Math.round(point.average))}
+                />
+                {point.min !== point.max && point.min !== null && point.max !== null && (
+                  <line
+                    x1={x + barWidth / 2}
+                    x2={x + barWidth / 2}
+                    y1={y(point.max)}
+                    y2={y(point.min)}
+                    stroke="#404040"
+                    strokeWidth={1}
+                  />
+                )}
+              </>
+            )}
+            {i % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={CHART_HEIGHT - 4} textAnchor="middle" fontSize={10} fill="#737373">
+                {format(new Date(`${point.date}T00:00:00`), 'MMM d')}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+const SCORE_CHART_HEIGHT = 120;
+
+function ScoreChart({ trend }: Readonly<{ trend: AssessmentTrend }>) {
+  const { definition, points } = trend;
+  const plotWidth = CHART_WIDTH - AXIS_WIDTH;
+  const plotHeight = SCORE_CHART_HEIGHT - AXIS_HEIGHT;
+  const first = points[0].completed_at;
+  const span = Math.max(points[points.length - 1].completed_at - first, 1);
+  const x = (timestamp: number) => AXIS_WIDTH + 8 + ((timestamp - first) / span) * (plotWidth - 16);
+  const y = (score: number) => plotHeight - (score / definition.maxScore) * plotHeight;
+  const line = points.map(p => `${x(p.completed_at)},${y(p.score)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${SCORE_CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${definition.shortName} scores`}>
+      {definition.bands.map(band => (
+        <g key={band.label}>
+          <line x1={AXIS_WIDTH} x2={CHART_WIDTH} y1={y(band.min)} y2={y(band.min)} stroke="#e5e5e5" strokeWidth={1} />
+          <text x={AXIS_WIDTH - 6} y={y(band.min) + 4} textAnchor="end" fontSize={10} fill="#737373">{band.min}</text>
+        </g>
+      ))}
+      <polyline points={line} fill="none" stroke="#404040" strokeWidth={1.5} />
+      {points.map(point => (
+        <g key={point.completed_at}>
+          <circle cx={x(point.completed_at)} cy={y(point.score)} r={3} fill="#404040" />
+          <text x={x(point.completed_at)} y={SCORE_CHART_HEIGHT - 4} textAnchor="middle" fontSize={10} fill="#737373">
+            {format(point.completed_at, 'MMM d')}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+function FrequencyTable({ title, items }: Readonly<{ title: string; items: ClinicianReportData['topLocations'] }>) {
+  return (
+    <div className="break-inside-avoid">
+      <h3 className="text-sm font-semibold mb-2">{title}</h3>
+      {items.length === 0 ? (
+        <p className="text-xs text-neutral-500">None recorded</p>
+      ) : (
+        <table className="w-full text-xs">
+          <tbody>
+            {items.map(item => (
+              <tr key={item.label} className="border-b border-neutral-200">
+                <td className="py-1">{item.label}</td>
+                <td className="py-1 text-right tabular-nums">{item.count}</td>
+                <td className="py-1 text-right tabular-nums text-neutral-500 w-12">{Math.round(item.share * 100)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function entryDurationLabel(entry: PainEntry, generatedAt: Date): string {
+  const duration = getEntryDuration(entry, generatedAt.getTime());
+  if (duration === null) return '';
+  return entry.ongoing ? `${formatDuration(duration)}+ (ongoing)` : formatDuration(duration);
+}
+
+export function ClinicianReport({ data, patientName }: Readonly<ClinicianReportProps>) {
+  const { config, summary, durations } = data;
+  const hasDurations = durations.episodes > 0;
+  const maxBucket = Math.max(...data.distribution.map(d => d.count), 1);
+  const formatEntryDate = (timestamp: number) => format(timestamp, 'MMM d, yyyy h:mm a');
+  const locationLabel = (value: string) => config.locations.find(l => l.value === value)?.label ?? value;
+
+  const summaryTiles = [
+    { label: 'Entries', value: summary.entryCount },
+    { label: 'Days logged', value: `${summary.daysLogged} / ${summary.totalDays}` },
+    { label: `Average ${config.intensityLabel.toLowerCase()}`, value: summary.average ?? '—' },
+    { label: 'Range', value: summary.min === null ? '—' : `${summary.min} – ${summary.max}` },
+    ...(hasDurations
+      ? [{ label: 'Average duration', value: durations.averageMs === null ? '—' : formatDuration(durations.averageMs) }]
+      : []),
+  ];
+
+  return (
+    <article className="bg-white text-neutral-900 p-8 space-y-6 text-sm [print-color-adjust:exact]">
+      <header className="flex justify-between items-start gap-4 border-b border-neutral-300 pb-4">
+        <div>
+          <h1 className="text-xl font-semibold">{data.trackerName} report</h1>
+          <p className="text-neutral-600">
+            {format(data.from, 'MMM d, yyyy')} – {format(data.to, 'MMM d, yyyy')}
+          </p>
+        </div>
+        <dl className="text-right text-xs space-y-0.5">
+          <div><dt className="inline text-neutral-500">Patient: </dt><dd className="inline font-medium">{patientName || '—'}</dd></div>
+          <div><dt className="inline text-neutral-500">Generated: </dt><dd className="inline">{format(data.generatedAt, 'MMM d, yyyy')}</dd></div>
+          <div><dt className="inline text-neutral-500">Scale: </dt><dd className="inline">{config.intensityMinLabel} to {config.intensityMaxLabel}</dd></div>
+        </dl>
+      </header>
+
+      <section className={`grid ${summaryTiles.length > 4 ? 'grid-cols-5' : 'grid-cols-4'} gap-4 break-inside-avoid`}>
+        {summaryTiles.map(stat => (
+          <div key={stat.label} className="rounded border border-neutral-200 p-3">
+            <p className="text-xs text-neutral-500">{stat.label}</p>
+            <p className="text-lg font-semibold tabular-nums">{stat.value}</p>
+          </div>
+        ))}
+      </section>
+
+      <section className="break-inside-avoid">
+        <h2 className="text-base font-semibold mb-2">Daily {config.intensityLabel.toLowerCase()}</h2>
+        <DailyChart daily={data.daily} config={config} />
+        <p className="text-xs text-neutral-500 mt-1">Bars show the daily average; lines show the lowest and highest entry that day.</p>
+      </section>
+
+      <section className="grid grid-cols-3 gap-6">
+        <div className="break-inside-avoid">
+          <h3 className="text-sm font-semibold mb-2">Distribution</h3>
+          <div className="space-y-1">
+            {data.distribution.map(bucket => (
+              <div key={bucket.label} className="flex items-center gap-2 text-xs">
+                <span className="w-10 text-right tabular-nums">{bucket.label}</span>
+                <div className="flex-1 h-3 bg-neutral-100 rounded-sm">
+                  <div
+                    className="h-3 rounded-sm"
+                    style={{
+                      width: `${(bucket.count / maxBucket) * 100}%`,
+                      backgroundColor: config.getIntensityColor(bucket.intensity),
+                    }}
+                  />
+                </div>
+                <span className="w-6 text-right tabular-nums text-neutral-500">{bucket.count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <FrequencyTable title={`Top ${config.locationLabel.toLowerCase()}`} items={data.topLocations} />
+        <FrequencyTable title={`Top ${config.triggersLabel.toLowerCase()}`} items={data.topTriggers} />
+      </section>
+
+      {data.notableNotes.length > 0 && (
+        <section className="break-inside-avoid">
+          <h2 className="text-base font-semibold mb-2">Notable {config.notesLabel.toLowerCase()}</h2>
+          <ul className="space-y-2">
+            {data.notableNotes.map(entry => (
+              <li key={entry.id} className="border-l-4 pl-3" style={{ borderColor: config.getIntensityColor(entry.intensity) }}>
+                <p className="text-xs text-neutral-500">
+                  {formatEntryDate(entry.timestamp)} · {entry.intensity} ({config.getIntensityLabel(entry.intensity)})
+                </p>
+                <p className="whitespace-pre-wrap">{entry.notes}</p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {data.assessments.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="text-base font-semibold">Assessments</h2>
+          {data.assessments.map(trend => {
+            const latest = trend.points[trend.points.length - 1];
+            return (
+              <div key={trend.definition.id} className="break-inside-avoid space-y-1">
+                <div className="flex justify-between items-baseline gap-4">
+                  <h3 className="text-sm font-semibold">{trend.definition.name}</h3>
+                  <p className="text-xs text-neutral-600">
+                    Latest {latest.score} ({latest.band}) on {format(latest.completed_at, 'MMM d, yyyy')}
+                    {trend.change !== null && ` · ${trend.change > 0 ? '+' : ''}${trend.change} since ${format(trend.points[0].completed_at, 'MMM d')}`}
+                  </p>
+                </div>
+                {trend.points.length > 1 && <ScoreChart trend={trend} />}
+                <p className="text-xs text-neutral-500">
+                  {trend.definition.scoreLabel}; bands: {trend.definition.bands.map(b => `${b.label} from ${b.min}`).join(', ')}.
+                </p>
+              </div>
+            );
+          })}
+        </section>
+      )}
+
+      <section>
+        <h2 className="text-base font-semibold mb-2">All entries</h2>
+        {data.entries.length === 0 ? (
+          <p className="text-neutral-500">No entries in this date range.</p>
+        ) : (
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className="border-b border-neutral-400 text-left">
+                <th className="py-1 pr-2 font-medium">Date</th>
+                <th className="py-1 pr-2 font-medium">{config.intensityLabel}</th>
+                {hasDurations && <th className="py-1 pr-2 font-medium">Duration</th>}
+                <th className="py-1 pr-2 font-medium">{config.locationLabel}</th>
+                <th className="py-1 pr-2 font-medium">{config.triggersLabel}</th>
+                <th className="py-1 font-medium">{config.notesLabel}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.entries.map(entry => (
+                <tr key={entry.id} className="border-b border-neutral-200 align-top break-inside-avoid">
+                  <td className="py-1 pr-2 whitespace-nowrap">{formatEntryDate(entry.timestamp)}</td>
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    <span
+                      className="inline-block w-2 h-2 rounded-full mr-1"
+                      style={{ backgroundColor: config.getIntensityColor(entry.intensity) }}
+                    />
+                    {entry.intensity} {config.getIntensityLabel(entry.intensity)}
+                  </td>
+                  {hasDurations && (
+                    <td className="py-1 pr-2 whitespace-nowrap">{entryDurationLabel(entry, data.generatedAt)}</td>
+                  )}
+                  <td className="py-1 pr-2">{entry.locations.map(locationLabel).join(', ')}</td>
+                  <td className="py-1 pr-2">{entry.triggers.join(', ')}</td>
+                  <td className="py-1 whitespace-pre-wrap">{entry.notes}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </article>
+  );
+}
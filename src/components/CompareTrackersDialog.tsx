@@ -0,0 +1,258 @@
+/**
+ * Compare Trackers Dialog Component
+ *
+ * Puts two trackers side by side: daily averages on a dual-axis chart and
+ * correlations with the second tracker 0-3 days behind the first.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import { getTrackerConfig } from '@/types/tracker-config';
+import { db } from '@/runtime/appRuntime';
+import {
+  MIN_OVERLAP_DAYS,
+  alignDaily,
+  dailyAverages,
+  describeCorrelation,
+  laggedCorrelations,
+  toCommonScale,
+  type TrackerSide,
+} from '@/services/crossTrackerService';
+import { NOT_TRASHED } from '@/services/trashService';
+import { toast } from 'sonner';
+
+interface CompareTrackersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trackers: Tracker[];
+}
+
+const parseDay = (date: string) => new Date(`${date}T00:00:00`);
+
+function toSide(tracker: Tracker): TrackerSide {
+  const config = getTrackerConfig(tracker.preset_id, tracker.generated_config, tracker.scale);
+  return { name: tracker.name, intensityLabel: config.intensityLabel, intensityScale: config.intensityScale };
+}
+
+/** Entries as a percentage of the tracker's own scale, so 1-5 and 0-100 trackers line up */
+function onCommonScale(tracker: Tracker | undefined, entries: PainEntry[] | undefined): PainEntry[] | undefined {
+  if (!tracker || !entries) return undefined;
+  return toCommonScale(entries, getTrackerConfig(tracker.preset_id, tracker.generated_config, tracker.scale).scale);
+}
+
+function TrackerPicker({
+  id,
+  label,
+  value,
+  trackers,
+  onChange,
+}: Readonly<{ id: string; label: string; value: string; trackers: Tracker[]; onChange: (id: string) => void }>) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {trackers.map(t => (
+            <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function CompareTrackersDialog({ open, onOpenChange, trackers }: Readonly<CompareTrackersDialogProps>) {
+  const [trackerAId, setTrackerAId] = useState(trackers[0]?.id ?? '');
+  const [trackerBId, setTrackerBId] = useState(trackers[1]?.id ?? '');
+  const [entriesByTracker, setEntriesByTracker] = useState<Record<string, PainEntry[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [lag, setLag] = useState(0);
+
+  const trackerA = trackers.find(t => t.id === trackerAId);
+  const trackerB = trackers.find(t => t.id === trackerBId);
+
+  // Entries may change between openings, so start fresh each time
+  useEffect(() => {
+    if (!open) setEntriesByTracker({});
+  }, [open]);
+
+  // Load entries for any selected tracker we haven't fetched yet
+  useEffect(() => {
+    if (!open) return;
+    const missing = [trackerAId, trackerBId].filter(id => id && !entriesByTracker[id]);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(missing.map(id => db.select<PainEntry>('pain_entries', { where: { tracker_id: id, ...NOT_TRASHED } })))
+      .then(results => {
+        if (cancelled) return;
+        const failed = results.find(result => result.error);
+        if (failed?.error) {
+          console.error('Error loading entries to compare:', failed.error);
+          toast.error('Could not load entries');
+          return;
+        }
+        setEntriesByTracker(prev => ({
+          ...prev,
+          ...Object.fromEntries(missing.map((id, i) => [id, results[i].data ?? []])),
+        }));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, trackerAId, trackerBId, entriesByTracker]);
+
+  const aEntries = useMemo(() => onCommonScale(trackerA, entriesByTracker[trackerAId]), [trackerA, trackerAId, entriesByTracker]);
+  const bEntries = useMemo(() => onCommonScale(trackerB, entriesByTracker[trackerBId]), [trackerB, trackerBId, entriesByTracker]);
+
+  const correlations = useMemo(
+    () => (aEntries && bEntries ? laggedCorrelations(aEntries, bEntries) : []),
+    [aEntries, bEntries]
+  );
+
+  // B is plotted shifted back by the selected lag so related days line up
+  const series = useMemo(() => {
+    if (!aEntries || !bEntries) return [];
+    const bDaily = dailyAverages(bEntries);
+    return alignDaily(aEntries, bEntries).map(pair => ({
+      date: pair.date,
+      a: pair.a,
+      b: lag === 0 ? pair.b : bDaily.get(format(addDays(parseDay(pair.date), lag), 'yyyy-MM-dd')) ?? null,
+    }));
+  }, [aEntries, bEntries, lag]);
+
+  const selected = correlations.find(c => c.lag === lag);
+  const description = selected?.r != null && trackerA && trackerB
+    ? describeCorrelation(selected.r, lag, toSide(trackerA), toSide(trackerB))
+    : null;
+
+  const chartConfig = {
+    a: { label: trackerA?.name ?? 'A', color: trackerA?.color },
+    b: { label: lag === 0 ? trackerB?.name ?? 'B' : `${trackerB?.name ?? 'B'} (+${lag}d)`, color: trackerB?.color },
+  } satisfies ChartConfig;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare trackers</DialogTitle>
+          <DialogDescription>
+            See whether one tracker moves with another, on the same day or up to 3 days later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <TrackerPicker id="compare-a" label="First tracker" value={trackerAId} trackers={trackers} onChange={setTrackerAId} />
+          <TrackerPicker id="compare-b" label="Compared with" value={trackerBId} trackers={trackers} onChange={setTrackerBId} />
+        </div>
+
+        {trackerAId === trackerBId ? (
+          <p className="text-sm text-muted-foreground">Choose two different trackers.</p>
+        ) : loading || !aEntries || !bEntries ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap justify-center gap-4 text-xs">
+              {Object.entries(chartConfig).map(([key, item]) => (
+                <span key={key} className="flex items-center gap-1.5">
+                  <span className="w-3 h-0.5 rounded" style={{ backgroundColor: item.color }} />
+                  {item.label}
+                </span>
+              ))}
+            </div>
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={series} margin={{ top: 8, right: 0, bottom: 0, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                  tickFormatter={(date: string) => format(parseDay(date), 'MMM d')}
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  ticks={[0, 50, 100]}
+                  tickFormatter={(value: number) => `${value}%`}
+                  tickLine={false}
+                  axisLine={false}
+                  width={40}
+                />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(date: string) => format(parseDay(date), 'EEE, MMM d')} />}
+                />
+                <Line dataKey="a" stroke="var(--color-a)" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+                <Line dataKey="b" stroke="var(--color-b)" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+            <p className="text-xs text-muted-foreground -mt-2">Each tracker is shown as a percentage of its own scale.</p>
+
+            <div className="grid grid-cols-4 gap-2">
+              {correlations.map(c => (
+                <button
+                  key={c.lag}
+                  type="button"
+                  onClick={() => setLag(c.lag)}
+                  className={`rounded-md border p-2 text-left transition-colors ${c.lag === lag ? 'border-primary bg-primary/10' : 'hover:bg-muted'}`}
+                >
+                  <p className="text-xs text-muted-foreground">
+                    {c.lag === 0 ? 'Same day' : `${c.lag} day${c.lag === 1 ? '' : 's'} later`}
+                  </p>
+                  <p className="text-lg font-semibold tabular-nums">{c.r === null ? '—' : `r = ${c.r.toFixed(2)}`}</p>
+                  <p className="text-xs text-muted-foreground">{c.n} days</p>
+                </button>
+              ))}
+            </div>
+
+            {description ? (
+              <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+                <p>
+                  {description.strength !== 'none' && (
+                    <span className="font-medium capitalize">{description.strength} link: </span>
+                  )}
+                  {description.summary}.
+                </p>
+                {description.judgment && <p className="text-muted-foreground">{description.judgment}.</p>}
+                <p className="text-xs text-muted-foreground">Correlation shows things moving together, not that one causes the other.</p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Need at least {MIN_OVERLAP_DAYS} days logged in both trackers (with the chosen gap) to compare.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
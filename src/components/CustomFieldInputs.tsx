@@ -0,0 +1,171 @@
+/**
+ * Custom Field Inputs Component
+ *
+ * Renders a tracker's custom field definitions as form controls. Values are
+ * kept loosely typed while editing and checked with validateFieldValues on
+ * submit.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CustomFieldDefinition } from '@/types/custom-field';
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  values: Record<string, unknown>;
+  onChange: (key: string, value: unknown) => void;
+  /** Error message per field key */
+  errors?: Record<string, string>;
+}
+
+function DurationInput({ id, minutes, onChange }: Readonly<{
+  id: string;
+  minutes: number | undefined;
+  onChange: (minutes: number | undefined) => void;
+}>) {
+  const hours = minutes === undefined ? '' : Math.floor(minutes / 60);
+  const rest = minutes === undefined ? '' : minutes % 60;
+
+  const update = (nextHours: string, nextMinutes: string) => {
+    if (nextHours === '' && nextMinutes === '') {
+      onChange(undefined);
+      return;
+    }
+    onChange(Math.max(0, Number(nextHours || 0)) * 60 + Math.max(0, Number(nextMinutes || 0)));
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        value={hours}
+        onChange={e => update(e.target.value, String(rest))}
+        className="w-20"
+        aria-label="Hours"
+      />
+      <span>h</span>
+      <Input
+        type="number"
+        min={0}
+        max={59}
+        value={rest}
+        onChange={e => update(String(hours), e.target.value)}
+        className="w-20"
+        aria-label="Minutes"
+      />
+      <span>m</span>
+    </div>
+  );
+}
+
+function FieldControl({ field, value, onChange }: Readonly<{
+  field: CustomFieldDefinition;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}>) {
+  const id = `field-${field.key}`;
+
+  switch (field.type) {
+    case 'number':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            id={id}
+            type="number"
+            inputMode="decimal"
+            min={field.min}
+            max={field.max}
+            step={field.step ?? 'any'}
+            value={value === undefined || value === null ? '' : String(value)}
+            onChange={e => onChange(e.target.value)}
+            className="w-32"
+          />
+          {field.unit && <span className="text-sm text-muted-foreground">{field.unit}</span>}
+        </div>
+      );
+    case 'boolean':
+      return <Switch id={id} checked={value === true} onCheckedChange={onChange} />;
+    case 'single_select':
+      return (
+        <Select value={typeof value === 'string' ? value : ''} onValueChange={onChange}>
+          <SelectTrigger id={id} className="w-full sm:w-64">
+            <SelectValue placeholder="Choose…" />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? (value as string[]) : [];
+      const toggle = (option: string) =>
+        onChange(selected.includes(option) ? selected.filter(v => v !== option) : [...selected, option]);
+      return (
+        <div className="flex flex-wrap gap-2">
+          {field.options.map(option => (
+            <Badge
+              key={option.value}
+              variant={selected.includes(option.value) ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => toggle(option.value)}
+            >
+              {option.label}
+            </Badge>
+          ))}
+        </div>
+      );
+    }
+    case 'duration':
+      return (
+        <DurationInput
+          id={id}
+          minutes={typeof value === 'number' ? value : undefined}
+          onChange={onChange}
+        />
+      );
+    case 'time':
+      return (
+        <Input
+          id={id}
+          type="time"
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value)}
+          className="w-32"
+        />
+      );
+    case 'text':
+      return (
+        <Input
+          id={id}
+          value={typeof value === 'string' ? value : ''}
+          maxLength={field.maxLength}
+          onChange={e => onChange(e.target.value)}
+        />
+      );
+  }
+}
+
+export function CustomFieldInputs({ fields, values, onChange, errors = {} }: Readonly<CustomFieldInputsProps>) {
+  return (
+    <>
+      {fields.map(field => (
+        <div key={field.key} className="space-y-2">
+          <Label htmlFor={`field-${field.key}`} className="text-base font-medium">
+            {field.label}
+            {field.required ? <span className="text-accent"> *</span> : ' (Optional)'}
+          </Label>
+          <FieldControl field={field} value={values[field.key]} onChange={value => onChange(field.key, value)} />
+          {field.description && <p className="text-xs text-muted-foreground">{field.description}</p>}
+          {errors[field.key] && <p className="text-sm text-destructive">{errors[field.key]}</p>}
+        </div>
+      ))}
+    </>
+  );
+}
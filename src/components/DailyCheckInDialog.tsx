@@ -0,0 +1,411 @@
+/**
+ * Daily Check-in Dialog Component
+ *
+ * Steps through every tracker opted in to the check-in with a compact
+ * intensity, category and trigger step, plus the tracker's required custom
+ * fields (skip or "same as yesterday" on each), then saves everything at
+ * once and shows the day on one screen.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Check, ChevronLeft, Copy, Loader2, Settings2, SkipForward } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CustomFieldInputs } from '@/components/CustomFieldInputs';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import { getTrackerConfig } from '@/types/tracker-config';
+import { db, tracker as trackerService } from '@/runtime/appRuntime';
+import {
+  answerFromEntry,
+  blankAnswer,
+  buildCheckInEntries,
+  checkInTrackers,
+  loadYesterdayEntries,
+  locationOptions,
+  requiredFields,
+  saveCheckIn,
+  validateAnswer,
+  type CheckInAnswer,
+  type CheckInAnswers,
+} from '@/services/checkInService';
+import { formatIntensity } from '@/services/scaleService';
+import { toast } from 'sonner';
+
+interface DailyCheckInDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  trackers: Tracker[];
+  onTrackerUpdated: (tracker: Tracker) => void;
+  onSaved: () => void;
+}
+
+type Phase = 'choose' | 'steps' | 'summary';
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export function DailyCheckInDialog({
+  open,
+  onOpenChange,
+  userId,
+  trackers,
+  onTrackerUpdated,
+  onSaved,
+}: Readonly<DailyCheckInDialogProps>) {
+  const included = useMemo(() => checkInTrackers(trackers), [trackers]);
+  const [phase, setPhase] = useState<Phase>('steps');
+  const [chosen, setChosen] = useState<string[]>([]);
+  const [savingChoice, setSavingChoice] = useState(false);
+  const [index, setIndex] = useState(0);
+  // Unsaved changes on each step, by tracker id
+  const [drafts, setDrafts] = useState<Record<string, CheckInAnswer>>({});
+  const [answers, setAnswers] = useState<CheckInAnswers>({});
+  const [yesterday, setYesterday] = useState<Record<string, PainEntry>>({});
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  // Start over each time it opens; pick trackers first if none are in yet
+  useEffect(() => {
+    if (!open) return;
+    setPhase(included.length === 0 ? 'choose' : 'steps');
+    setChosen(included.length === 0 ? trackers.map(t => t.id) : included.map(t => t.id));
+    setIndex(0);
+    setAnswers({});
+    setDrafts({});
+    setErrors([]);
+    setSaved(false);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    loadYesterdayEntries(db, included.map(t => t.id)).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error('Error loading yesterday\'s entries:', error);
+      setYesterday(data ?? {});
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, included]);
+
+  const current = phase === 'steps' ? included[index] : undefined;
+  const config = useMemo(
+    () => current && getTrackerConfig(current.preset_id, current.generated_config, current.scale),
+    [current]
+  );
+
+  // A step starts from its earlier answer, or blank
+  const draft = current && config ? drafts[current.id] ?? answers[current.id] ?? blankAnswer(config) : null;
+  const fields = useMemo(() => (current ? requiredFields(current) : []), [current]);
+  const setDraft = (answer: CheckInAnswer) => current && setDrafts({ ...drafts, [current.id]: answer });
+
+  async function handleSaveChoice() {
+    setSavingChoice(true);
+    const changed = trackers.filter(t => Boolean(t.check_in) !== chosen.includes(t.id));
+    for (const tracker of changed) {
+      const { data, error } = await trackerService.updateTracker(tracker.id, { check_in: chosen.includes(tracker.id) });
+      if (error || !data) {
+        console.error('Error updating tracker:', error);
+        toast.error(`Could not update ${tracker.name}`);
+        setSavingChoice(false);
+        return;
+      }
+      onTrackerUpdated(data);
+    }
+    setSavingChoice(false);
+    setAnswers({});
+    setDrafts({});
+    setIndex(0);
+    setPhase('steps');
+  }
+
+  const advance = (next: CheckInAnswers) => {
+    setAnswers(next);
+    setErrors([]);
+    if (index + 1 < included.length) {
+      setIndex(index + 1);
+    } else {
+      setPhase('summary');
+    }
+  };
+
+  function handleNext() {
+    if (!current || !config || !draft) return;
+    const problems = validateAnswer(config, draft, fields);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    advance({ ...answers, [current.id]: draft });
+  }
+
+  // Yesterday's entry may predate a required field; stay on the step to fill it in
+  function handleSameAsYesterday() {
+    if (!current || !config) return;
+    const answer = answerFromEntry(yesterday[current.id]);
+    setDraft(answer);
+    const problems = validateAnswer(config, answer, fields);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    advance({ ...answers, [current.id]: answer });
+  }
+
+  function handleSkip() {
+    if (!current) return;
+    advance({ ...answers, [current.id]: null });
+  }
+
+  function handleBack() {
+    if (phase === 'summary') {
+      setPhase('steps');
+      setIndex(included.length - 1);
+    } else if (index > 0) {
+      setIndex(index - 1);
+      setErrors([]);
+    }
+  }
+
+  async function handleSave() {
+    const entries = buildCheckInEntries(userId, included, answers);
+    setSaving(true);
+    const { error } = await saveCheckIn(db, entries);
+    setSaving(false);
+    if (error) {
+      console.error('Error saving check-in:', error);
+      toast.error('Could not save check-in');
+      return;
+    }
+    setSaved(true);
+    toast.success(entries.length === 1 ? 'Saved 1 entry' : `Saved ${entries.length} entries`);
+    onSaved();
+  }
+
+  const loggedCount = included.filter(t => answers[t.id]).length;
+
+  const renderChoose = () => (
+    <>
+      <div className="space-y-3">
+        {trackers.map(tracker => (
+          <div key={tracker.id} className="flex items-center gap-3">
+            <Checkbox
+              id={`check-in-${tracker.id}`}
+              checked={chosen.includes(tracker.id)}
+              onCheckedChange={() => setChosen(toggle(chosen, tracker.id))}
+            />
+            <Label htmlFor={`check-in-${tracker.id}`} className="font-normal">{tracker.name}</Label>
+          </div>
+        ))}
+      </div>
+      <DialogFooter>
+        {included.length > 0 && (
+          <Button variant="ghost" onClick={() => setPhase('steps')}>Cancel</Button>
+        )}
+        <Button onClick={handleSaveChoice} disabled={savingChoice || chosen.length === 0}>
+          {savingChoice && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Start check-in
+        </Button>
+      </DialogFooter>
+    </>
+  );
+
+  const renderStep = (tracker: Tracker, trackerConfig: NonNullable<typeof config>, answer: CheckInAnswer) => {
+    const face = trackerConfig.getIntensityFace(answer.intensity);
+    return (
+      <>
+        <div className="space-y-1">
+          <Progress value={(index / included.length) * 100} />
+          <p className="text-xs text-muted-foreground">{index + 1} of {included.length}</p>
+        </div>
+
+        <div className="space-y-5">
+          <h3 className="text-lg font-medium" style={{ color: tracker.color }}>{tracker.name}</h3>
+
+          <div className="space-y-3">
+            <Label className="flex items-center justify-between">
+              <span>{trackerConfig.intensityLabel}</span>
+              <span className="text-muted-foreground font-normal">
+                {face && `${face} `}{formatIntensity(answer.intensity, trackerConfig.scale)} · {trackerConfig.getIntensityLabel(answer.intensity)}
+              </span>
+            </Label>
+            <Slider
+              value={[answer.intensity]}
+              onValueChange={([value]) => setDraft({ ...answer, intensity: value })}
+              min={trackerConfig.scale.min}
+              max={trackerConfig.scale.max}
+              step={trackerConfig.scale.step}
+              style={{ ['--slider-color' as string]: trackerConfig.getIntensityColor(answer.intensity) }}
+            />
+          </div>
+
+          {trackerConfig.locations.length > 0 && (
+            <div className="space-y-2">
+              <Label>{trackerConfig.locationLabel}</Label>
+              <div className="flex flex-wrap gap-2">
+                {locationOptions(trackerConfig, answer.locations).map(({ value, label }) => (
+                  <Badge
+                    key={value}
+                    variant={answer.locations.includes(value) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => setDraft({ ...answer, locations: toggle(answer.locations, value) })}
+                  >
+                    {label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {trackerConfig.triggers.length > 0 && (
+            <div className="space-y-2">
+              <Label>{trackerConfig.triggersLabel} (Optional)</Label>
+              <div className="flex flex-wrap gap-2">
+                {trackerConfig.triggers.map(trigger => (
+                  <Badge
+                    key={trigger}
+                    variant={answer.triggers.includes(trigger) ? 'secondary' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => setDraft({ ...answer, triggers: toggle(answer.triggers, trigger) })}
+                  >
+                    {trigger}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {fields.length > 0 && (
+            <CustomFieldInputs
+              fields={fields}
+              values={answer.fields}
+              onChange={(key, value) => setDraft({ ...answer, fields: { ...answer.fields, [key]: value } })}
+            />
+          )}
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-destructive list-disc pl-5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter className="flex-row flex-wrap gap-2 sm:justify-between">
+          <Button variant="ghost" size="sm" onClick={handleBack} disabled={index === 0} className="gap-1">
+            <ChevronLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={handleSkip} className="gap-1">
+              <SkipForward className="w-4 h-4" />
+              Skip
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSameAsYesterday}
+              disabled={!yesterday[tracker.id]}
+              className="gap-1"
+            >
+              <Copy className="w-4 h-4" />
+              Same as yesterday
+            </Button>
+            <Button size="sm" onClick={handleNext} className="gap-1">
+              <Check className="w-4 h-4" />
+              Next
+            </Button>
+          </div>
+        </DialogFooter>
+      </>
+    );
+  };
+
+  const renderSummary = () => (
+    <>
+      <ul className="divide-y rounded-md border">
+        {included.map(tracker => {
+          const answer = answers[tracker.id];
+          const trackerConfig = getTrackerConfig(tracker.preset_id, tracker.generated_config, tracker.scale);
+          const labelFor = (value: string) => trackerConfig.locations.find(l => l.value === value)?.label ?? value;
+          return (
+            <li key={tracker.id} className="p-3 space-y-1 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-medium">{tracker.name}</span>
+                {answer ? (
+                  <span style={{ color: trackerConfig.getIntensityColor(answer.intensity) }}>
+                    {trackerConfig.getIntensityFace(answer.intensity) ?? ''} {formatIntensity(answer.intensity, trackerConfig.scale)} · {trackerConfig.getIntensityLabel(answer.intensity)}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">Skipped</span>
+                )}
+              </div>
+              {answer && (answer.locations.length > 0 || answer.triggers.length > 0) && (
+                <p className="text-muted-foreground">
+                  {[...answer.locations.map(labelFor), ...answer.triggers].join(', ')}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <DialogFooter className="flex-row gap-2 sm:justify-between">
+        {saved ? (
+          <Button className="ml-auto" onClick={() => onOpenChange(false)}>Done</Button>
+        ) : (
+          <>
+            <Button variant="ghost" size="sm" onClick={handleBack} className="gap-1">
+              <ChevronLeft className="w-4 h-4" />
+              Back
+            </Button>
+            <Button onClick={handleSave} disabled={saving || loggedCount === 0}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {loggedCount === 1 ? 'Save 1 entry' : `Save ${loggedCount} entries`}
+            </Button>
+          </>
+        )}
+      </DialogFooter>
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center justify-between gap-2 pr-6">
+            <DialogTitle>{saved ? 'Checked in' : 'Daily check-in'}</DialogTitle>
+            {phase === 'steps' && (
+              <Button variant="ghost" size="sm" onClick={() => setPhase('choose')} className="gap-1 text-muted-foreground">
+                <Settings2 className="w-4 h-4" />
+                Trackers
+              </Button>
+            )}
+          </div>
+          <DialogDescription>
+            {phase === 'choose'
+              ? 'Choose the trackers to go through each day.'
+              : phase === 'summary'
+                ? saved ? 'Here is your day.' : 'Check your answers, then save them all at once.'
+                : 'A quick rating for each tracker, plus anything it requires. Add details later from the tracker.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {phase === 'choose' && renderChoose()}
+        {phase === 'steps' && current && config && draft && renderStep(current, config, draft)}
+        {phase === 'summary' && renderSummary()}
+      </DialogContent>
+    </Dialog>
+  );
+}
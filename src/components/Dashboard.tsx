@@ -6,7 +6,7 @@
  */
 
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { Activity, Plus, Loader2, Sparkles, Trash2 } from 'lucide-react';
+import { Activity, Plus, Loader2, Sparkles, Trash2, Download, Upload, GitCompareArrows, ListChecks, ArchiveRestore } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -28,25 +28,31 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { ExportDialog } from '@/components/ExportDialog';
+import { ImportDialog } from '@/components/ImportDialog';
+import { CompareTrackersDialog } from '@/components/CompareTrackersDialog';
+import { DailyCheckInDialog } from '@/components/DailyCheckInDialog';
+import { TrashDialog } from '@/components/TrashDialog';
 import type { Tracker, TrackerPresetId } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
 import { TRACKER_PRESETS } from '@/types/tracker';
 import type { GeneratedTrackerConfig } from '@/types/generated-config';
-import type { PainEntry } from '@/types/pain-entry';
-import { db, tracker as trackerService } from '@/runtime/appRuntime';
+import { auth, db, tracker as trackerService } from '@/runtime/appRuntime';
 import { generateTrackerConfig, getGenericConfig } from '@/services/configGenerationService';
+import { loadTrackerStats, type TrackerStats } from '@/services/trackerStatsService';
+import { TRASH_RETENTION_DAYS } from '@/services/trashService';
+import { TrackerSparkline } from '@/components/TrackerSparkline';
 import { formatDistanceToNow } from 'date-fns';
 import { toast } from 'sonner';
 
-interface TrackerStats {
-  entryCount: number;
-  lastEntryDate: number | null;
-}
-
 interface DashboardProps {
   trackers: Tracker[];
   onTrackerSelect: (tracker: Tracker) => void;
   onTrackerCreated: (tracker: Tracker) => void;
   onTrackerDeleted: (trackerId: string) => void;
+  onTrackerUpdated: (tracker: Tracker) => void;
+  onTrackerRestored: (tracker: Tracker) => void;
+  onEntryRestored: (entry: PainEntry) => void;
 }
 
 export function Dashboard({ 
@@ -54,6 +60,9 @@ export function Dashboard({
   onTrackerSelect,
   onTrackerCreated,
   onTrackerDeleted,
+  onTrackerUpdated,
+  onTrackerRestored,
+  onEntryRestored,
 }: Readonly<DashboardProps>) {
   const [stats, setStats] = useState<Record<string, TrackerStats>>({});
   const [loadingStats, setLoadingStats] = useState(true);
@@ -64,6 +73,13 @@ export function Dashboard({
   const [trackerToDelete, setTrackerToDelete] = useState<Tracker | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [compareDialogOpen, setCompareDialogOpen] = useState(false);
+  const [checkInOpen, setCheckInOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [statsVersion, setStatsVersion] = useState(0);
+  const userId = auth.getUser()?.id ?? null;
   
   // Touch visibility state for delete icons on mobile
   const [touchActive, setTouchActive] = useState(false);
@@ -97,41 +113,25 @@ export function Dashboard({
     };
   }, []);
 
-  // Load entry counts for each tracker
+  // Load counts and mini-trends for every tracker in one aggregate call
   useEffect(() => {
-    async function loadStats() {
+    async function loadStats(userId: string) {
       setLoadingStats(true);
-      const newStats: Record<string, TrackerStats> = {};
-
-      // Fetch stats for all trackers in parallel
-      await Promise.all(
-        trackers.map(async (tracker) => {
-          try {
-            const { data } = await db.select<PainEntry>('pain_entries', {
-              where: { tracker_id: tracker.id },
-              orderBy: { column: 'timestamp', ascending: false },
-            });
-
-            newStats[tracker.id] = {
-              entryCount: data?.length ?? 0,
-              lastEntryDate: data?.[0]?.timestamp ?? null,
-            };
-          } catch {
-            newStats[tracker.id] = { entryCount: 0, lastEntryDate: null };
-          }
-        })
-      );
-
-      setStats(newStats);
+      const { data, error } = await loadTrackerStats(db, userId);
+      if (error) {
+        console.error('Error loading tracker stats:', error);
+      }
+      setStats(data ?? {});
       setLoadingStats(false);
     }
 
-    if (trackers.length > 0) {
-      loadStats();
+    const user = auth.getUser();
+    if (trackers.length > 0 && user) {
+      loadStats(user.id);
     } else {
       setLoadingStats(false);
     }
-  }, [trackers]);
+  }, [trackers, statsVersion]);
 
   function formatLastEntry(timestamp: number | null): string {
     if (!timestamp) return 'No entries yet';
@@ -240,13 +240,16 @@ export function Dashboard({
     
     setDeleting(true);
     try {
-      const result = await trackerService.deleteTracker(trackerToDelete.id);
+      const { id, name } = trackerToDelete;
+      const result = await trackerService.trashTracker(id);
       
       if (result.error) {
         toast.error(`Failed to delete: ${result.error.message}`);
       } else {
-        toast.success(`Deleted "${trackerToDelete.name}" tracker`);
-        onTrackerDeleted(trackerToDelete.id);
+        toast.success(`Moved "${name}" to trash`, {
+          action: { label: 'Undo', onClick: () => handleUndoDeleteTracker(id) },
+        });
+        onTrackerDeleted(id);
       }
     } catch {
       toast.error('Something went wrong');
@@ -257,6 +260,21 @@ export function Dashboard({
     }
   }
 
+  async function handleUndoDeleteTracker(id: string) {
+    const { data, error } = await trackerService.restoreTracker(id);
+    if (error || !data) {
+      toast.error('Could not restore tracker');
+      return;
+    }
+    handleTrackerRestored(data);
+    toast.success(`Restored "${data.name}"`);
+  }
+
+  function handleTrackerRestored(tracker: Tracker) {
+    onTrackerRestored(tracker);
+    setStatsVersion(v => v + 1);
+  }
+
   function openDeleteDialog(e: React.MouseEvent, tracker: Tracker) {
     e.stopPropagation(); // Prevent card click
     setTrackerToDelete(tracker);
@@ -267,13 +285,69 @@ export function Dashboard({
     <div className="py-8 px-4">
       <div className="max-w-4xl mx-auto space-y-6">
         {/* Header */}
-        <div className="text-center sm:text-left">
-          <h2 className="text-2xl font-semibold text-foreground">
-            Your Trackers
-          </h2>
-          <p className="text-muted-foreground mt-1">
-            Select a tracker to view or add entries
-          </p>
+        <div className="flex flex-col sm:flex-row items-center sm:items-end justify-between gap-3">
+          <div className="text-center sm:text-left">
+            <h2 className="text-2xl font-semibold text-foreground">
+              Your Trackers
+            </h2>
+            <p className="text-muted-foreground mt-1">
+              Select a tracker to view or add entries
+            </p>
+          </div>
+          <div className="flex flex-wrap justify-center gap-2">
+            {trackers.length > 0 && (
+              <>
+                <Button
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setCheckInOpen(true)}
+                >
+                  <ListChecks className="w-4 h-4" />
+                  Daily check-in
+                </Button>
+                {trackers.length > 1 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => setCompareDialogOpen(true)}
+                  >
+                    <GitCompareArrows className="w-4 h-4" />
+                    Compare
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setImportDialogOpen(true)}
+                >
+                  <Upload className="w-4 h-4" />
+                  Import
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setExportDialogOpen(true)}
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+              </>
+            )}
+            {userId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-2"
+                onClick={() => setTrashOpen(true)}
+              >
+                <ArchiveRestore className="w-4 h-4" />
+                Trash
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Tracker cards grid */}
@@ -330,6 +404,16 @@ export function Dashboard({
                     </div>
                   </div>
 
+                  {/* Two-week trend */}
+                  {trackerStats?.sparkline.some(value => value !== null) && (
+                    <TrackerSparkline
+                      values={trackerStats.sparkline}
+                      color={tracker.color}
+                      min={tracker.scale?.min}
+                      max={tracker.scale?.max}
+                    />
+                  )}
+
                   {/* Stats and delete */}
                   <div className="flex items-end justify-between">
                     <div className="text-sm text-muted-foreground space-y-1">
@@ -346,6 +430,11 @@ export function Dashboard({
                           <p className="text-xs">
                             {formatLastEntry(trackerStats?.lastEntryDate ?? null)}
                           </p>
+                          {trackerStats && trackerStats.averageLast7Days !== null && (
+                            <p className="text-xs">
+                              7-day avg {trackerStats.averageLast7Days.toFixed(1)}
+                            </p>
+                          )}
                         </>
                       )}
                     </div>
@@ -444,18 +533,60 @@ export function Dashboard({
         </DialogContent>
       </Dialog>
 
+      <ExportDialog
+        open={exportDialogOpen}
+        onOpenChange={setExportDialogOpen}
+        trackers={trackers}
+      />
+
+      <ImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        trackers={trackers}
+        onImported={() => setStatsVersion(v => v + 1)}
+      />
+
+      {userId && (
+        <DailyCheckInDialog
+          open={checkInOpen}
+          onOpenChange={setCheckInOpen}
+          userId={userId}
+          trackers={trackers}
+          onTrackerUpdated={onTrackerUpdated}
+          onSaved={() => setStatsVersion(v => v + 1)}
+        />
+      )}
+
+      {userId && (
+        <TrashDialog
+          open={trashOpen}
+          onOpenChange={setTrashOpen}
+          userId={userId}
+          trackers={trackers}
+          onTrackerRestored={handleTrackerRestored}
+          onEntryRestored={(entry) => {
+            onEntryRestored(entry);
+            setStatsVersion(v => v + 1);
+          }}
+        />
+      )}
+
+      {trackers.length > 1 && (
+        <CompareTrackersDialog
+          open={compareDialogOpen}
+          onOpenChange={setCompareDialogOpen}
+          trackers={trackers}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>⚠️ Delete "{trackerToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogTitle>Delete "{trackerToDelete?.name}"?</AlertDialogTitle>
             <AlertDialogDescription className="space-y-2">
-              <p>This action <strong>cannot be undone</strong>. This will permanently delete:</p>
-              <ul className="list-disc list-inside space-y-1 text-sm">
-                <li>The "{trackerToDelete?.name}" tracker</li>
-                <li>All entries associated with this tracker</li>
-                <li>All notes, tags, and history data</li>
-              </ul>
+              <p>The tracker and all its entries will be moved to the trash.</p>
+              <p>You can restore them from the trash for {TRASH_RETENTION_DAYS} days, after which they are deleted for good.</p>
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -468,12 +599,12 @@ export function Dashboard({
               {deleting ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Deleting...
+                  Moving...
                 </>
               ) : (
                 <>
                   <Trash2 className="mr-2 h-4 w-4" />
-                  Yes, Delete Forever
+                  Move to trash
                 </>
               )}
             </AlertDialogAction>
@@ -0,0 +1,85 @@
+/**
+ * Date Time Picker Component
+ *
+ * A calendar popover for the day plus a time input, editing one timestamp.
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface DateTimePickerProps {
+  /** Timestamp in ms */
+  value: number;
+  onChange: (value: number) => void;
+  /** Latest selectable moment (ms), e.g. now */
+  max?: number;
+  /** Earliest selectable moment (ms) */
+  min?: number;
+  'aria-label'?: string;
+}
+
+export function DateTimePicker({ value, onChange, max, min, 'aria-label': ariaLabel }: Readonly<DateTimePickerProps>) {
+  const [open, setOpen] = useState(false);
+  const date = new Date(value);
+
+  const clamp = (next: number) => {
+    if (max !== undefined && next > max) return max;
+    if (min !== undefined && next < min) return min;
+    return next;
+  };
+
+  const handleDaySelect = (day: Date | undefined) => {
+    if (!day) return;
+    const next = new Date(day);
+    next.setHours(date.getHours(), date.getMinutes(), 0, 0);
+    onChange(clamp(next.getTime()));
+    setOpen(false);
+  };
+
+  const handleTimeChange = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return;
+    const next = new Date(date);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(clamp(next.getTime()));
+  };
+
+  const disabled = [
+    ...(max !== undefined ? [{ after: new Date(max) }] : []),
+    ...(min !== undefined ? [{ before: new Date(min) }] : []),
+  ];
+
+  return (
+    <div className="flex gap-2" role="group" aria-label={ariaLabel}>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" className="flex-1 justify-start gap-2 font-normal">
+            <CalendarIcon className="w-4 h-4" />
+            {format(date, 'EEE, MMM d, yyyy')}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={date}
+            defaultMonth={date}
+            disabled={disabled}
+            onSelect={handleDaySelect}
+          />
+        </PopoverContent>
+      </Popover>
+      <Input
+        type="time"
+        value={format(date, 'HH:mm')}
+        onChange={e => handleTimeChange(e.target.value)}
+        className="w-28"
+        aria-label="Time"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Device Lock Screen
+ * Unlock screen for device-only mode (no account, optional passcode)
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { auth } from '@/runtime/appRuntime';
+import { toast } from 'sonner';
+import { LockSimpleOpen } from '@phosphor-icons/react';
+
+export function DeviceLockScreen() {
+  const [passcode, setPasscode] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+
+  async function handleUnlock(e: React.FormEvent) {
+    e.preventDefault();
+    setUnlocking(true);
+    try {
+      const { error } = await auth.signIn({ email: '', password: passcode });
+      if (error) {
+        toast.error(error.message);
+        setPasscode('');
+      }
+    } finally {
+      setUnlocking(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-sm border-none shadow-lg">
+        <CardContent className="p-6 space-y-6">
+          <div className="text-center space-y-1">
+            <h1 className="text-3xl font-semibold text-foreground tracking-tight">Baseline</h1>
+            <p className="text-sm text-muted-foreground">
+              Your diary is stored on this device only.
+            </p>
+          </div>
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="device-passcode">Passcode</Label>
+              <Input
+                id="device-passcode"
+                type="password"
+                inputMode="numeric"
+                autoComplete="current-password"
+                placeholder="Leave blank if you haven't set one"
+                value={passcode}
+                onChange={e => setPasscode(e.target.value)}
+                disabled={unlocking}
+              />
+            </div>
+            <Button type="submit" className="w-full gap-2" disabled={unlocking}>
+              <LockSimpleOpen size={18} />
+              {unlocking ? 'Unlocking…' : 'Open diary'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ interface EmptyStateProps {
 }
 
 export function EmptyState({ tracker }: Readonly<EmptyStateProps>) {
-  const config = getTrackerConfig(tracker?.preset_id, tracker?.generated_config);
+  const config = getTrackerConfig(tracker?.preset_id, tracker?.generated_config, tracker?.scale);
   
   // For custom trackers, personalize the title with the tracker name
   const title = tracker && !tracker.preset_id 
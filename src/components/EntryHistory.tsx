@@ -0,0 +1,151 @@
+/**
+ * Entry History Component
+ *
+ * The "History" section of an entry's details: each edit with what it
+ * changed field by field, and a button to put the entry back as it was
+ * before that edit.
+ */
+
+import { useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { RELIEF_RATINGS, type PainEntry } from '@/types/pain-entry';
+import type { Tracker } from '@/types/tracker';
+import type { EntryRevision } from '@/types/entry-revision';
+import type { CustomFieldValues } from '@/types/custom-field';
+import { getTrackerConfig } from '@/types/tracker-config';
+import { db } from '@/runtime/appRuntime';
+import { formatDate } from '@/lib/pain-utils';
+import { formatFieldValue } from '@/services/customFieldService';
+import { formatIntensity } from '@/services/scaleService';
+import { loadRevisions, revisionChanges, type FieldChange } from '@/services/revisionService';
+
+interface EntryHistoryProps {
+  entry: PainEntry;
+  tracker: Tracker | null;
+  onRestore: (revision: EntryRevision) => Promise<void>;
+}
+
+export function EntryHistory({ entry, tracker, onRestore }: EntryHistoryProps) {
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Reload whenever the entry changes, including after a restore
+  useEffect(() => {
+    let cancelled = false;
+    loadRevisions(db, entry.id).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error(error);
+      setFailed(!!error);
+      setRevisions(data ?? []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [entry]);
+
+  const config = getTrackerConfig(tracker?.preset_id, tracker?.generated_config, tracker?.scale);
+
+  const fieldLabel = (change: FieldChange): string => {
+    switch (change.field) {
+      case 'intensity': return config.intensityLabel;
+      case 'locations': return config.locationLabel;
+      case 'triggers': return config.triggersLabel;
+      case 'notes': return config.notesLabel;
+      default: return change.label;
+    }
+  };
+
+  const formatValue = (field: FieldChange['field'], value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    switch (field) {
+      case 'intensity':
+      case 'relief_intensity':
+        return formatIntensity(value as number, config.scale);
+      case 'timestamp':
+      case 'ended_at':
+      case 'follow_up_at':
+      case 'followed_up_at':
+        return formatDate(value as number);
+      case 'ongoing':
+        return value ? 'Yes' : 'No';
+      case 'locations':
+        return (value as string[])
+          .map(v => config.locations.find(l => l.value === v)?.label ?? v)
+          .join(', ') || '—';
+      case 'hashtags':
+        return (value as string[]).map(tag => `#${tag}`).join(' ') || '—';
+      case 'relief':
+        return RELIEF_RATINGS.find(r => r.value === value)?.label ?? String(value);
+      case 'fields':
+        return (tracker?.fields ?? [])
+          .filter(f => (value as CustomFieldValues)[f.key] !== undefined)
+          .map(f => `${f.label}: ${formatFieldValue(f, (value as CustomFieldValues)[f.key])}`)
+          .join(', ') || '—';
+      default:
+        return Array.isArray(value) ? value.join(', ') || '—' : String(value);
+    }
+  };
+
+  const handleRestore = async (revision: EntryRevision) => {
+    setRestoringId(revision.id);
+    await onRestore(revision);
+    setRestoringId(null);
+  };
+
+  const history = revisions ? revisionChanges(revisions, entry).filter(r => r.changes.length > 0) : [];
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-muted-foreground mb-2 flex items-center gap-1">
+        <History className="h-4 w-4" />
+        History
+      </p>
+
+      {revisions === null ? (
+        <p className="text-sm text-muted-foreground">Loading history…</p>
+      ) : failed ? (
+        <p className="text-sm text-muted-foreground">Could not load the history of this entry.</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not edited since it was logged.</p>
+      ) : (
+        <ol className="space-y-3">
+          {history.map(({ revision, changes }) => (
+            <li key={revision.id} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">
+                  {revision.operation === 'delete' ? 'Deleted' : 'Edited'} {formatDate(Date.parse(revision.changed_at))}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1"
+                  disabled={restoringId !== null}
+                  onClick={() => handleRestore(revision)}
+                  title="Put the entry back as it was before this change"
+                >
+                  {restoringId === revision.id
+                    ? <Loader2 className="h-3 w-3 animate-spin" />
+                    : <RotateCcw className="h-3 w-3" />}
+                  Restore
+                </Button>
+              </div>
+              <dl className="space-y-1 text-sm">
+                {changes.map(change => (
+                  <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+                    <dt className="text-muted-foreground">{fieldLabel(change)}</dt>
+                    <dd>
+                      <span className="line-through text-muted-foreground">{formatValue(change.field, change.before)}</span>
+                      {revision.operation !== 'delete' && <> → {formatValue(change.field, change.after)}</>}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
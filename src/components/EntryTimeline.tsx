@@ -0,0 +1,264 @@
+/**
+ * Entry Timeline Component
+ *
+ * Virtualized, newest-first list of entries grouped under day headers.
+ * Only rows near the viewport are mounted; row heights are measured as they
+ * render. Scrolling near the end asks for the next page, and a date picker
+ * restarts the list at any day.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { format, isToday, isYesterday } from 'date-fns';
+import { CalendarSearch, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { PainEntryCard } from '@/components/PainEntryCard';
+import type { PainEntry } from '@/types/pain-entry';
+import type { Tracker } from '@/types/tracker';
+import type { EntryRevision } from '@/types/entry-revision';
+import { groupTimelineByDay, type TimelineRow } from '@/services/entryTimelineService';
+
+interface EntryTimelineProps {
+  tracker: Tracker;
+  entries: PainEntry[];
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  /** Day the list was jumped to, or null when it starts at the latest entry */
+  anchor: number | null;
+  /** Omit for filtered results: hides the "jump to date" control and words the empty list for filters */
+  onJumpTo?: (date: Date | null) => void;
+  onEdit: (entry: PainEntry) => void;
+  /** Close an ongoing episode now */
+  onEnd?: (entry: PainEntry) => void;
+  /** Answer or skip an entry's "how is it now?" follow-up */
+  onFollowUp?: (entry: PainEntry, changes: Partial<PainEntry>) => void;
+  /** Put an entry back as it was before one of its revisions */
+  onRestore?: (entry: PainEntry, revision: EntryRevision) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+/** Starting guesses until a row has been measured */
+const ESTIMATED_HEIGHT: Record<TimelineRow['type'], number> = { day: 44, entry: 180 };
+/** Extra height rendered above and below the viewport */
+const OVERSCAN_PX = 800;
+/** Fetch the next page once the end of the list is this close */
+const LOAD_MORE_THRESHOLD_PX = 1200;
+
+function formatDayHeader(date: number): string {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'EEEE, MMMM d, yyyy');
+}
+
+/**
+ * Visible window of the page, in pixels relative to the top of `element`
+ */
+function useViewportWindow(element: HTMLElement | null) {
+  const [viewport, setViewport] = useState({ top: 0, bottom: 0 });
+
+  useEffect(() => {
+    if (!element) return;
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      const listTop = element.getBoundingClientRect().top;
+      setViewport({ top: -listTop, bottom: window.innerHeight - listTop });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [element]);
+
+  return viewport;
+}
+
+/** Index of the last row starting at or before `position` */
+function findRowAt(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+export function EntryTimeline({
+  tracker,
+  entries,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  anchor,
+  onJumpTo,
+  onEdit,
+  onEnd,
+  onFollowUp,
+  onRestore,
+  onDelete,
+}: Readonly<EntryTimelineProps>) {
+  const [listElement, setListElement] = useState<HTMLDivElement | null>(null);
+  const [jumpOpen, setJumpOpen] = useState(false);
+  const viewport = useViewportWindow(listElement);
+
+  const rows = useMemo(() => groupTimelineByDay(entries), [entries]);
+
+  // Measured heights by row key; bumping the version recomputes offsets
+  const heightsRef = useRef(new Map<string, number>());
+  const [heightsVersion, setHeightsVersion] = useState(0);
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  // Created on first use: row refs attach before this component's effects run
+  const getObserver = useCallback(() => {
+    observerRef.current ??= new ResizeObserver(records => {
+      let changed = false;
+      for (const record of records) {
+        const key = (record.target as HTMLElement).dataset.rowKey;
+        const height = Math.round(record.borderBoxSize?.[0]?.blockSize ?? record.contentRect.height);
+        if (key && heightsRef.current.get(key) !== height) {
+          heightsRef.current.set(key, height);
+          changed = true;
+        }
+      }
+      if (changed) setHeightsVersion(v => v + 1);
+    });
+    return observerRef.current;
+  }, []);
+
+  useEffect(() => () => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+  }, []);
+
+  // Rows scrolled out of the window unmount; stop observing them so detached nodes aren't kept
+  const measureRow = useCallback((node: HTMLDivElement) => {
+    const observer = getObserver();
+    observer.observe(node);
+    return () => observer.unobserve(node);
+  }, [getObserver]);
+
+  const { offsets, totalHeight } = useMemo(() => {
+    const result: number[] = [];
+    let position = 0;
+    for (const row of rows) {
+      result.push(position);
+      position += heightsRef.current.get(row.key) ?? ESTIMATED_HEIGHT[row.type];
+    }
+    return { offsets: result, totalHeight: position };
+  }, [rows, heightsVersion]); // heightsVersion: recompute when measurements change
+
+  const first = rows.length ? findRowAt(offsets, viewport.top - OVERSCAN_PX) : 0;
+  const last = rows.length ? findRowAt(offsets, viewport.bottom + OVERSCAN_PX) : -1;
+
+  // Infinite scroll
+  useEffect(() => {
+    if (hasMore && !loadingMore && viewport.bottom + LOAD_MORE_THRESHOLD_PX >= totalHeight) {
+      onLoadMore();
+    }
+  }, [hasMore, loadingMore, viewport.bottom, totalHeight, onLoadMore]);
+
+  return (
+    <div className="space-y-4">
+      {onJumpTo && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {anchor === null ? 'Latest entries first' : `Showing entries up to ${format(anchor, 'MMM d, yyyy')}`}
+          </p>
+          <div className="flex items-center gap-2">
+            {anchor !== null && (
+              <Button variant="ghost" size="sm" onClick={() => onJumpTo(null)}>
+                Back to latest
+              </Button>
+            )}
+            <Popover open={jumpOpen} onOpenChange={setJumpOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2">
+                  <CalendarSearch className="w-4 h-4" />
+                  Jump to date
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="single"
+                  selected={anchor === null ? undefined : new Date(anchor)}
+                  defaultMonth={anchor === null ? undefined : new Date(anchor)}
+                  disabled={{ after: new Date() }}
+                  onSelect={date => {
+                    if (!date) return;
+                    setJumpOpen(false);
+                    onJumpTo(date);
+                    window.scrollTo({ top: window.scrollY + (listElement?.getBoundingClientRect().top ?? 0) - 120 });
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+        </div>
+      )}
+
+      {rows.length === 0 && !loadingMore ? (
+        <p className="text-sm text-muted-foreground text-center py-12">
+          {onJumpTo ? 'No entries on or before this date.' : 'No entries match these filters.'}
+        </p>
+      ) : (
+        <div ref={setListElement} className="relative" style={{ height: totalHeight }}>
+          {rows.slice(first, last + 1).map((row, i) => (
+            <div
+              key={row.key}
+              ref={measureRow}
+              data-row-key={row.key}
+              className="absolute inset-x-0"
+              style={{ top: offsets[first + i] }}
+            >
+              {row.type === 'day' ? (
+                <h3 className="flex items-baseline justify-between pt-4 pb-2 text-sm font-semibold text-muted-foreground">
+                  <span>{formatDayHeader(row.date)}</span>
+                  <span className="font-normal">
+                    {row.count} {row.count === 1 ? 'entry' : 'entries'}
+                  </span>
+                </h3>
+              ) : (
+                <div className="pb-4">
+                  <PainEntryCard
+                    entry={row.entry}
+                    tracker={tracker}
+                    onDelete={onDelete}
+                    onEdit={onEdit}
+                    onEnd={onEnd}
+                    onFollowUp={onFollowUp}
+                    onRestore={onRestore}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-center py-4 text-sm text-muted-foreground">
+        {loadingMore ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : hasMore ? (
+          <Button variant="ghost" size="sm" onClick={onLoadMore}>
+            Load older entries
+          </Button>
+        ) : rows.length > 0 ? (
+          'No earlier entries'
+        ) : null}
+      </div>
+    </div>
+  );
+}
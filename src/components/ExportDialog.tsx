@@ -0,0 +1,144 @@
+/**
+ * Export Dialog Component
+ *
+ * Lets the user download all trackers and entries as a JSON backup,
+ * a CSV spreadsheet, or a FHIR bundle for their healthcare provider.
+ * Backups and FHIR bundles include assessment scores.
+ */
+
+import { useState } from 'react';
+import { FileJson, FileSpreadsheet, Stethoscope, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import type { AssessmentResult } from '@/types/assessment';
+import { db } from '@/runtime/appRuntime';
+import { buildExportFile, downloadFile, type ExportFormat } from '@/services/exportService';
+import { loadResults } from '@/services/assessmentService';
+import { NOT_TRASHED } from '@/services/trashService';
+import { toast } from 'sonner';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trackers: Tracker[];
+}
+
+const FORMAT_OPTIONS: {
+  format: ExportFormat;
+  title: string;
+  description: string;
+  icon: typeof FileJson;
+}[] = [
+  {
+    format: 'json',
+    title: 'Full backup (JSON)',
+    description: 'Everything, including tracker settings and assessment scores. Entries can be imported again.',
+    icon: FileJson,
+  },
+  {
+    format: 'csv',
+    title: 'Spreadsheet (CSV)',
+    description: 'One row per entry for Excel, Numbers or Google Sheets.',
+    icon: FileSpreadsheet,
+  },
+  {
+    format: 'fhir',
+    title: 'Clinical (FHIR R4)',
+    description: 'A bundle of observations that health record systems can import.',
+    icon: Stethoscope,
+  },
+];
+
+/**
+ * Load every entry for the given trackers
+ */
+async function loadAllEntries(trackers: Tracker[]): Promise<PainEntry[]> {
+  const results = await Promise.all(
+    trackers.map(tracker =>
+      db.select<PainEntry>('pain_entries', {
+        where: { tracker_id: tracker.id, ...NOT_TRASHED },
+        orderBy: { column: 'timestamp', ascending: true },
+      })
+    )
+  );
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) throw failed.error;
+
+  return results.flatMap(result => result.data ?? []);
+}
+
+/**
+ * Load every assessment result for the given trackers
+ */
+async function loadAllAssessments(trackers: Tracker[]): Promise<AssessmentResult[]> {
+  const results = await Promise.all(trackers.map(tracker => loadResults(db, tracker.id)));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) throw failed.error;
+
+  return results.flatMap(result => result.data ?? []);
+}
+
+export function ExportDialog({ open, onOpenChange, trackers }: Readonly<ExportDialogProps>) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  async function handleExport(format: ExportFormat) {
+    setExporting(format);
+    try {
+      const [entries, assessments] = await Promise.all([loadAllEntries(trackers), loadAllAssessments(trackers)]);
+      const file = buildExportFile(format, trackers, entries, new Date(), assessments);
+      downloadFile(file.filename, file.content, file.mimeType);
+      toast.success(`Exported ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error('Could not export your data');
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export your data</DialogTitle>
+          <DialogDescription>
+            Download all {trackers.length} {trackers.length === 1 ? 'tracker' : 'trackers'} and their entries.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {FORMAT_OPTIONS.map(({ format, title, description, icon: Icon }) => (
+            <Button
+              key={format}
+              variant="outline"
+              className="w-full h-auto py-3 justify-start gap-3 text-left"
+              disabled={exporting !== null}
+              onClick={() => handleExport(format)}
+            >
+              {exporting === format ? (
+                <Loader2 className="w-5 h-5 animate-spin flex-shrink-0" />
+              ) : (
+                <Icon className="w-5 h-5 flex-shrink-0" />
+              )}
+              <span className="flex flex-col items-start whitespace-normal">
+                <span className="font-medium">{title}</span>
+                <span className="text-xs text-muted-foreground font-normal">{description}</span>
+              </span>
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
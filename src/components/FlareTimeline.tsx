@@ -0,0 +1,274 @@
+/**
+ * Flare Timeline Component
+ *
+ * Shows detected and confirmed flares for a tracker with per-flare stats,
+ * a "days since last flare" counter, and controls to confirm, dismiss,
+ * merge or split episodes.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { Check, Loader2, Merge, Undo2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import type { FlareEpisode, FlareStatus } from '@/types/flare';
+import { getTrackerConfig } from '@/types/tracker-config';
+import { db } from '@/runtime/appRuntime';
+import {
+  daysSinceLastFlare,
+  entriesInFlare,
+  loadFlareEpisodes,
+  mergeFlares,
+  refreshFlares,
+  setFlareStatus,
+  splitFlare,
+} from '@/services/flareService';
+import { toast } from 'sonner';
+
+interface FlareTimelineProps {
+  tracker: Tracker;
+  /** All of the tracker's entries (not filtered) */
+  entries: PainEntry[];
+  userId: string;
+}
+
+const flareDays = (episode: FlareEpisode) => differenceInCalendarDays(episode.ended_at, episode.started_at) + 1;
+
+function formatSpan(episode: FlareEpisode): string {
+  const start = format(episode.started_at, 'MMM d, yyyy');
+  const end = format(episode.ended_at, 'MMM d, yyyy');
+  return start === end ? start : `${format(episode.started_at, 'MMM d')} – ${end}`;
+}
+
+export function FlareTimeline({ tracker, entries, userId }: Readonly<FlareTimelineProps>) {
+  const config = getTrackerConfig(tracker.preset_id, tracker.generated_config, tracker.scale);
+  const [episodes, setEpisodes] = useState<FlareEpisode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Detect on open and whenever entries change
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    refreshFlares(db, tracker, entries, userId).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error detecting flares:', error);
+        toast.error('Could not load flares');
+      } else {
+        setEpisodes(data ?? []);
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [tracker, entries, userId]);
+
+  const reload = useCallback(async () => {
+    const { data, error } = await loadFlareEpisodes(db, tracker.id);
+    if (error) {
+      console.error('Error loading flares:', error);
+      return;
+    }
+    setEpisodes(data ?? []);
+  }, [tracker.id]);
+
+  async function runAction(id: string, action: () => Promise<{ error: Error | null }>, success: string) {
+    setBusyId(id);
+    const { error } = await action();
+    setBusyId(null);
+    if (error) {
+      console.error('Flare update failed:', error);
+      toast.error(error.message || 'Could not update flare');
+      return;
+    }
+    toast.success(success);
+    await reload();
+  }
+
+  const changeStatus = (episode: FlareEpisode, status: FlareStatus, message: string) =>
+    runAction(episode.id, () => setFlareStatus(db, episode.id, status), message);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const visible = episodes.filter(e => e.status !== 'dismissed').sort((a, b) => b.started_at - a.started_at);
+  const dismissed = episodes.filter(e => e.status === 'dismissed');
+  const daysSince = daysSinceLastFlare(episodes);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <p className="text-3xl font-semibold tabular-nums">
+              {daysSince === null ? '—' : daysSince}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {daysSince === null
+                ? 'No flares detected yet'
+                : daysSince === 0
+                  ? 'Flare logged today'
+                  : `${daysSince === 1 ? 'day' : 'days'} since last flare`}
+            </p>
+          </div>
+          <div className="text-right text-sm text-muted-foreground">
+            <p>{visible.length} {visible.length === 1 ? 'flare' : 'flares'}</p>
+            {visible.length > 0 && (
+              <p>
+                Average {Math.round((visible.reduce((sum, e) => sum + flareDays(e), 0) / visible.length) * 10) / 10} days
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          Flares appear here when several entries in a row sit well above your usual {config.intensityLabel.toLowerCase()},
+          or when you tag entries #flareup.
+        </p>
+      ) : (
+        <ol className="relative border-l-2 border-muted ml-2 space-y-4">
+          {visible.map((episode, i) => {
+            const older = visible[i + 1];
+            const covered = entriesInFlare(episode, entries);
+            const busy = busyId === episode.id;
+
+            return (
+              <li key={episode.id} className="ml-4 space-y-2">
+                <span
+                  className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border-2 border-background"
+                  style={{ backgroundColor: config.getIntensityColor(episode.peak_intensity) }}
+                />
+                <Card>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium">{formatSpan(episode)}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {flareDays(episode)} {flareDays(episode) === 1 ? 'day' : 'days'}
+                          {' · '}peak {episode.peak_intensity} ({config.getIntensityLabel(episode.peak_intensity)})
+                          {' · '}average {episode.average_intensity.toFixed(1)}
+                          {' · '}{episode.entry_count} {episode.entry_count === 1 ? 'entry' : 'entries'}
+                        </p>
+                      </div>
+                      <Badge variant={episode.status === 'confirmed' ? 'default' : 'secondary'}>
+                        {episode.status === 'confirmed' ? 'Confirmed' : 'Detected'}
+                      </Badge>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      {episode.status === 'detected' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1"
+                          disabled={busy}
+                          onClick={() => changeStatus(episode, 'confirmed', 'Flare confirmed')}
+                        >
+                          <Check className="w-4 h-4" />
+                          Confirm
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="gap-1"
+                        disabled={busy}
+                        onClick={() => changeStatus(episode, 'dismissed', 'Flare dismissed')}
+                      >
+                        <X className="w-4 h-4" />
+                        Not a flare
+                      </Button>
+                      {covered.length > 1 && (
+                        <Select
+                          value=""
+                          disabled={busy}
+                          onValueChange={value => runAction(
+                            episode.id,
+                            () => splitFlare(db, episode, entries, Number(value), config.intensityScale),
+                            'Flare split in two'
+                          )}
+                        >
+                          <SelectTrigger size="sm" className="w-auto">
+                            <SelectValue placeholder="Split before…" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {covered.slice(1).map(entry => (
+                              <SelectItem key={entry.id} value={String(entry.timestamp)}>
+                                {format(entry.timestamp, 'MMM d, h:mm a')} ({entry.intensity})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {older && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="gap-1 text-muted-foreground"
+                    disabled={busy || busyId === older.id}
+                    onClick={() => runAction(
+                      episode.id,
+                      () => mergeFlares(db, older, episode, entries, config.intensityScale),
+                      'Flares merged'
+                    )}
+                  >
+                    <Merge className="w-4 h-4" />
+                    Merge with the flare before
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {dismissed.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">
+            {dismissed.length} dismissed {dismissed.length === 1 ? 'flare' : 'flares'}
+          </summary>
+          <ul className="mt-2 space-y-1">
+            {dismissed.map(episode => (
+              <li key={episode.id} className="flex items-center justify-between gap-2">
+                <span>{formatSpan(episode)} · peak {episode.peak_intensity}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="gap-1"
+                  disabled={busyId === episode.id}
+                  onClick={() => changeStatus(episode, 'confirmed', 'Flare restored')}
+                >
+                  <Undo2 className="w-4 h-4" />
+                  Restore
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Follow-Up Prompt Component
+ *
+ * "How is it now?" for an entry whose interventions are due a rating:
+ * the current intensity plus how much it helped.
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { RELIEF_RATINGS, type PainEntry, type ReliefRating } from '@/types/pain-entry';
+import type { TrackerConfig } from '@/types/tracker-config';
+
+interface FollowUpPromptProps {
+  entry: PainEntry;
+  config: TrackerConfig;
+  onAnswer: (relief: ReliefRating, reliefIntensity: number) => void;
+  onSkip: () => void;
+}
+
+export function FollowUpPrompt({ entry, config, onAnswer, onSkip }: Readonly<FollowUpPromptProps>) {
+  const [intensity, setIntensity] = useState([entry.intensity]);
+
+  return (
+    // Clicks here shouldn't open the entry details behind it
+    <div className="rounded-md border bg-muted/40 p-3 space-y-3" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">
+          How is it now? <span className="text-muted-foreground font-normal">After {entry.interventions?.join(', ')}</span>
+        </p>
+        <Button variant="ghost" size="sm" className="h-7" onClick={onSkip}>
+          Skip
+        </Button>
+      </div>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">
+          {config.intensityLabel} now: {intensity[0]} - {config.getIntensityLabel(intensity[0])}
+        </p>
+        <Slider
+          value={intensity}
+          onValueChange={setIntensity}
+          min={config.scale.min}
+          max={config.scale.max}
+          step={config.scale.step}
+          style={{ ['--slider-color' as string]: config.getIntensityColor(intensity[0]) }}
+        />
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {RELIEF_RATINGS.map(({ value, label }) => (
+          <Button key={value} variant="outline" size="sm" onClick={() => onAnswer(value, intensity[0])}>
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
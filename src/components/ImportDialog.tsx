@@ -0,0 +1,388 @@
+/**
+ * Import Dialog Component
+ *
+ * Walks the user through bringing entries in from a JSON backup or a CSV
+ * file: pick a tracker and file, map columns, review a dry-run preview,
+ * then import the rows that passed validation.
+ */
+
+import { useState } from 'react';
+import { Upload, Loader2, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import type { BaselineBackup } from '@/services/exportService';
+import { NOT_TRASHED } from '@/services/trashService';
+import { auth, db } from '@/runtime/appRuntime';
+import {
+  IMPORT_FIELDS,
+  backupToRecords,
+  buildImportPreview,
+  commitImport,
+  csvToRecords,
+  parseBackup,
+  parseCsv,
+  suggestColumnMapping,
+  type ColumnMapping,
+  type ImportField,
+  type ImportPreview,
+  type ImportRowStatus,
+} from '@/services/importService';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trackers: Tracker[];
+  onImported: () => void;
+}
+
+type ImportStep = 'choose' | 'map' | 'preview';
+
+type ImportSource =
+  | { kind: 'csv'; rows: string[][] }
+  | { kind: 'backup'; backup: BaselineBackup };
+
+/** Radix Select items cannot have an empty value */
+const UNMAPPED = 'none';
+
+const STATUS_BADGE: Record<ImportRowStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  ready: { label: 'Ready', variant: 'default' },
+  duplicate: { label: 'Duplicate', variant: 'secondary' },
+  invalid: { label: 'Error', variant: 'destructive' },
+};
+
+export function ImportDialog({ open, onOpenChange, trackers, onImported }: Readonly<ImportDialogProps>) {
+  const [step, setStep] = useState<ImportStep>('choose');
+  const [targetTrackerId, setTargetTrackerId] = useState<string>(trackers[0]?.id ?? '');
+  const [fileName, setFileName] = useState('');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [sourceTrackerId, setSourceTrackerId] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const targetTracker = trackers.find(t => t.id === targetTrackerId) ?? trackers[0];
+
+  function reset() {
+    setStep('choose');
+    setFileName('');
+    setSource(null);
+    setMapping({});
+    setSourceTrackerId('');
+    setPreview(null);
+  }
+
+  function handleOpenChange(nextOpen: boolean) {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  }
+
+  async function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const looksLikeJson = file.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{');
+
+      if (looksLikeJson) {
+        const backup = parseBackup(text);
+        const sourceIds = new Set(backup.entries.map(e => e.tracker_id));
+        const candidates = backup.trackers.filter(t => sourceIds.has(t.id));
+        if (candidates.length === 0) {
+          throw new Error('Backup has no entries');
+        }
+        setSource({ kind: 'backup', backup });
+        setSourceTrackerId((candidates.find(t => t.id === targetTracker?.id) ?? candidates[0]).id);
+      } else {
+        const rows = parseCsv(text);
+        if (rows.length < 2) {
+          throw new Error('CSV file needs a header row and at least one entry');
+        }
+        setSource({ kind: 'csv', rows });
+        setMapping(suggestColumnMapping(rows[0]));
+      }
+
+      setFileName(file.name);
+      setStep('map');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read file');
+    }
+  }
+
+  function updateMapping(field: ImportField, value: string) {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === UNMAPPED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  }
+
+  const missingRequired = source?.kind === 'csv'
+    ? IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined)
+    : [];
+
+  async function handlePreview() {
+    const user = auth.getUser();
+    if (!source || !targetTracker || !user) return;
+
+    setLoadingPreview(true);
+    try {
+      const { data: existingEntries, error } = await db.select<PainEntry>('pain_entries', {
+        where: { tracker_id: targetTracker.id, ...NOT_TRASHED },
+      });
+      if (error) throw error;
+
+      const records = source.kind === 'csv'
+        ? csvToRecords(source.rows, mapping)
+        : backupToRecords(source.backup, sourceTrackerId);
+
+      setPreview(buildImportPreview(records, {
+        tracker: targetTracker,
+        userId: user.id,
+        existingEntries: existingEntries ?? [],
+      }));
+      setStep('preview');
+    } catch (error) {
+      console.error('Import preview failed:', error);
+      toast.error('Could not check the file against your entries');
+    } finally {
+      setLoadingPreview(false);
+    }
+  }
+
+  async function handleImport() {
+    if (!preview || preview.ready === 0) return;
+
+    setImporting(true);
+    const { imported, error } = await commitImport(db, preview);
+    setImporting(false);
+
+    if (imported > 0) onImported();
+
+    if (error) {
+      console.error('Import failed:', error);
+      toast.error(`Imported ${imported} of ${preview.ready} entries before an error occurred`);
+      return;
+    }
+
+    toast.success(`Imported ${imported} ${imported === 1 ? 'entry' : 'entries'} into ${targetTracker?.name}`);
+    handleOpenChange(false);
+  }
+
+  const headers = source?.kind === 'csv' ? source.rows[0] : [];
+  const backupTrackers = source?.kind === 'backup'
+    ? source.backup.trackers.filter(t => source.backup.entries.some(e => e.tracker_id === t.id))
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import entries</DialogTitle>
+          <DialogDescription>
+            {step === 'choose' && 'Bring in entries from a Baseline backup (JSON) or a CSV file.'}
+            {step === 'map' && (source?.kind === 'csv'
+              ? `Match the columns in ${fileName} to entry fields.`
+              : `Choose which tracker in ${fileName} to import from.`)}
+            {step === 'preview' && 'Nothing has been saved yet. Review the rows below, then import.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'choose' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-target">Import into</Label>
+              <Select value={targetTracker?.id} onValueChange={setTargetTrackerId}>
+                <SelectTrigger id="import-target">
+                  <SelectValue placeholder="Choose a tracker" />
+                </SelectTrigger>
+                <SelectContent>
+                  {trackers.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                onChange={handleFileChange}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && source?.kind === 'csv' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`import-map-${field}`}>
+                  {label}
+                  {required && <span className="text-destructive"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field] === undefined ? UNMAPPED : String(mapping[field])}
+                  onValueChange={value => updateMapping(field, value)}
+                >
+                  <SelectTrigger id={`import-map-${field}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header.trim() || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'map' && source?.kind === 'backup' && (
+          <div className="space-y-2">
+            <Label htmlFor="import-source">Tracker in backup</Label>
+            <Select value={sourceTrackerId} onValueChange={setSourceTrackerId}>
+              <SelectTrigger id="import-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {backupTrackers.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Entries will be added to {targetTracker?.name}.
+            </p>
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge>{preview.ready} ready</Badge>
+              <Badge variant="secondary">{preview.duplicates} duplicates</Badge>
+              <Badge variant="destructive">{preview.invalid} with errors</Badge>
+            </div>
+            <div className="max-h-72 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead className="w-24">Status</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="w-16">Level</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGE[row.status].variant}>
+                          {STATUS_BADGE[row.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {row.entry ? format(new Date(row.entry.timestamp), 'MMM d, yyyy h:mm a') : '—'}
+                      </TableCell>
+                      <TableCell>{row.entry?.intensity ?? '—'}</TableCell>
+                      <TableCell className="whitespace-normal text-xs">
+                        {row.errors.map(message => (
+                          <p key={message} className="text-destructive">{message}</p>
+                        ))}
+                        {row.warnings.map(message => (
+                          <p key={message} className="text-muted-foreground">{message}</p>
+                        ))}
+                        {row.status === 'duplicate' && (
+                          <p className="text-muted-foreground">Already logged at this time and level</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {step !== 'choose' && (
+          <DialogFooter className="gap-2 sm:justify-between">
+            <Button
+              variant="ghost"
+              className="gap-2"
+              disabled={importing}
+              onClick={() => setStep(step === 'preview' ? 'map' : 'choose')}
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </Button>
+            {step === 'map' ? (
+              <Button
+                onClick={handlePreview}
+                disabled={loadingPreview || missingRequired.length > 0}
+                className="gap-2"
+              >
+                {loadingPreview && <Loader2 className="w-4 h-4 animate-spin" />}
+                {missingRequired.length > 0
+                  ? `Map ${missingRequired.map(f => f.label.toLowerCase()).join(' and ')}`
+                  : 'Preview import'}
+              </Button>
+            ) : (
+              <Button
+                onClick={handleImport}
+                disabled={importing || !preview || preview.ready === 0}
+                className="gap-2"
+              >
+                {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Import {preview?.ready ?? 0} {preview?.ready === 1 ? 'entry' : 'entries'}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,428 @@
+/**
+ * Insights View Component
+ *
+ * Charts for one tracker: intensity over time with a rolling average,
+ * a calendar heatmap, a weekday × hour grid, episode durations,
+ * a body map heatmap (body map trackers), location/trigger bars,
+ * intervention effectiveness and the ranked trigger analysis.
+ * Every colour comes from the tracker's getIntensityColor so low_bad
+ * trackers (mood, sleep) read the right way round.
+ */
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import { getTrackerConfig, type TrackerConfig } from '@/types/tracker-config';
+import { TriggerAnalysisCard } from '@/components/TriggerAnalysisCard';
+import { BodyMap, type BodyMapHeatFill } from '@/components/BodyMap';
+import { formatDuration } from '@/lib/pain-utils';
+import {
+  ROLLING_WINDOW_DAYS,
+  buildCalendarHeatmap,
+  buildFrequencyBars,
+  buildTrendSeries,
+  buildWeekdayHourGrid,
+  summarizeDurations,
+  type FrequencyBar,
+  type TrendPoint,
+} from '@/services/insightsService';
+import { interventionEffectiveness } from '@/services/interventionService';
+import { bodyMapHeat } from '@/services/bodyMapService';
+import { scaleTicks } from '@/services/scaleService';
+
+interface InsightsViewProps {
+  tracker: Tracker;
+  /** Entries with the active filters already applied */
+  entries: PainEntry[];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const parseDay = (date: string) => new Date(`${date}T00:00:00`);
+
+type BodyHeatMetric = 'frequency' | 'intensity';
+
+/** Body map heatmap ranges in days; 0 is everything loaded */
+const BODY_HEAT_RANGES = [30, 90, 0];
+
+function IntensityLegend({ config }: Readonly<{ config: TrackerConfig }>) {
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span>{config.intensityMinLabel}</span>
+      <div className="flex">
+        {config.bandColors.map((color, i) => (
+          <div key={i} className="w-6 h-3" style={{ backgroundColor: color }} />
+        ))}
+      </div>
+      <span>{config.intensityMaxLabel}</span>
+    </div>
+  );
+}
+
+function TrendChart({ series, config }: Readonly<{ series: TrendPoint[]; config: TrackerConfig }>) {
+  const chartConfig = {
+    average: { label: 'Daily average' },
+    rollingAverage: { label: `${ROLLING_WINDOW_DAYS}-day average`, color: 'var(--foreground)' },
+  } satisfies ChartConfig;
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+      <LineChart data={series} margin={{ top: 8, right: 8, bottom: 0, left: -20 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={24}
+          tickFormatter={(date: string) => format(parseDay(date), 'MMM d')}
+        />
+        <YAxis domain={[config.scale.min, config.scale.max]} ticks={scaleTicks(config.scale)} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(date: string) => format(parseDay(date), 'EEE, MMM d')} />}
+        />
+        <Line
+          dataKey="average"
+          stroke="var(--muted-foreground)"
+          strokeOpacity={0.3}
+          strokeWidth={1}
+          connectNulls
+          isAnimationActive={false}
+          dot={({ cx, cy, payload, index }: { cx?: number; cy?: number; payload?: TrendPoint; index?: number }) =>
+            payload?.average == null || cx == null || cy == null ? (
+              <g key={index} />
+            ) : (
+              <circle key={index} cx={cx} cy={cy} r={3} fill={config.getIntensityColor(Math.round(payload.average))} />
+            )
+          }
+        />
+        <Line
+          dataKey="rollingAverage"
+          stroke="var(--color-rollingAverage)"
+          strokeWidth={2}
+          dot={false}
+          connectNulls
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+function CalendarHeatmap({ entries, config }: Readonly<{ entries: PainEntry[]; config: TrackerConfig }>) {
+  const weeks = useMemo(() => buildCalendarHeatmap(entries), [entries]);
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      <div className="flex flex-col gap-[3px] text-[10px] text-muted-foreground">
+        {WEEKDAYS.map((day, i) => (
+          <span key={day} className="h-3 leading-3">{i % 2 === 1 ? day : ''}</span>
+        ))}
+      </div>
+      {weeks.map(week => (
+        <div key={week[0].date} className="flex flex-col gap-[3px]">
+          {week.map(cell => (
+            <div
+              key={cell.date}
+              title={`${format(parseDay(cell.date), 'MMM d, yyyy')}: ${cell.max === null ? 'no entries' : `max ${cell.max}`}`}
+              className="w-3 h-3 rounded-sm bg-muted"
+              style={cell.max === null ? undefined : { backgroundColor: config.getIntensityColor(cell.max) }}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function WeekdayHourGrid({ entries, config }: Readonly<{ entries: PainEntry[]; config: TrackerConfig }>) {
+  const grid = useMemo(() => buildWeekdayHourGrid(entries), [entries]);
+  const maxCount = Math.max(1, ...grid.flat().map(cell => cell.count));
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid gap-[2px] min-w-[520px]" style={{ gridTemplateColumns: '2.5rem repeat(24, minmax(0, 1fr))' }}>
+        <span />
+        {Array.from({ length: 24 }, (_, hour) => (
+          <span key={hour} className="text-[10px] text-muted-foreground text-center">
+            {hour % 3 === 0 ? hour : ''}
+          </span>
+        ))}
+        {grid.map((hours, weekday) => (
+          <div key={weekday} className="contents">
+            <span className="text-[10px] text-muted-foreground leading-4">{WEEKDAYS[weekday]}</span>
+            {hours.map(cell => (
+              <div
+                key={cell.hour}
+                title={`${WEEKDAYS[weekday]} ${cell.hour}:00 – ${cell.count} ${cell.count === 1 ? 'entry' : 'entries'}${cell.average === null ? '' : `, average ${cell.average}`}`}
+                className="h-4 rounded-sm bg-muted"
+                style={cell.average === null ? undefined : {
+                  backgroundColor: config.getIntensityColor(Math.round(cell.average)),
+                  opacity: 0.35 + 0.65 * (cell.count / maxCount),
+                }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BodyHeatmap({ entries, config }: Readonly<{ entries: PainEntry[]; config: TrackerConfig }>) {
+  const [metric, setMetric] = useState<BodyHeatMetric>('frequency');
+  const [rangeDays, setRangeDays] = useState(90);
+  const [now] = useState(() => Date.now());
+
+  const inRange = useMemo(
+    () => (rangeDays ? entries.filter(e => e.timestamp >= now - rangeDays * 24 * 60 * 60 * 1000) : entries),
+    [entries, rangeDays, now]
+  );
+
+  const fills = useMemo(() => {
+    const heat = bodyMapHeat(inRange);
+    const maxCount = Math.max(1, ...[...heat.values()].map(h => h.count));
+    const labels = new Map(config.locations.map(l => [l.value, l.label]));
+    const result: Record<string, BodyMapHeatFill> = {};
+    for (const [value, { count, average }] of heat) {
+      const share = Math.round(20 + 80 * (count / maxCount));
+      result[value] = {
+        fill: metric === 'frequency'
+          ? `color-mix(in oklch, var(--primary) ${share}%, var(--muted))`
+          : config.getIntensityColor(Math.round(average)),
+        title: `${labels.get(value) ?? value}: ${count} ${count === 1 ? 'entry' : 'entries'}, average ${average}`,
+      };
+    }
+    return result;
+  }, [inRange, metric, config]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 justify-between">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={metric}
+          onValueChange={value => value && setMetric(value as BodyHeatMetric)}
+        >
+          <ToggleGroupItem value="frequency">How often</ToggleGroupItem>
+          <ToggleGroupItem value="intensity">Average {config.intensityLabel.toLowerCase()}</ToggleGroupItem>
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={String(rangeDays)}
+          onValueChange={value => value && setRangeDays(Number(value))}
+        >
+          {BODY_HEAT_RANGES.map(days => (
+            <ToggleGroupItem key={days} value={String(days)}>
+              {days ? `${days} days` : 'All'}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      {inRange.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-6 text-center">No entries in this range</p>
+      ) : (
+        <BodyMap heat={fills} className="max-w-sm mx-auto" />
+      )}
+    </div>
+  );
+}
+
+function FrequencyChart({ bars, config }: Readonly<{ bars: FrequencyBar[]; config: TrackerConfig }>) {
+  if (bars.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">Nothing recorded yet</p>;
+  }
+
+  const chartConfig = { count: { label: 'Entries' } } satisfies ChartConfig;
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: bars.length * 28 + 16 }}>
+      <BarChart data={bars} layout="vertical" margin={{ top: 0, right: 16, bottom: 0, left: 0 }}>
+        <XAxis type="number" hide allowDecimals={false} />
+        <YAxis type="category" dataKey="label" width={110} tickLine={false} axisLine={false} />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent hideIndicator />} />
+        <Bar dataKey="count" radius={4} isAnimationActive={false}>
+          {bars.map(bar => (
+            <Cell key={bar.key} fill={config.getIntensityColor(Math.round(bar.average))} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export function InsightsView({ tracker, entries }: Readonly<InsightsViewProps>) {
+  const config = useMemo(
+    () => getTrackerConfig(tracker.preset_id, tracker.generated_config, tracker.scale),
+    [tracker]
+  );
+
+  const series = useMemo(() => buildTrendSeries(entries), [entries]);
+  const locationBars = useMemo(() => {
+    const labels = new Map(config.locations.map(l => [l.value, l.label]));
+    return buildFrequencyBars(entries, 'locations', value => labels.get(value) ?? value);
+  }, [entries, config]);
+  const triggerBars = useMemo(() => buildFrequencyBars(entries, 'triggers'), [entries]);
+  const durations = useMemo(() => summarizeDurations(entries), [entries]);
+  const interventions = useMemo(() => interventionEffectiveness(entries), [entries]);
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">
+          No entries match your filters. Try adjusting your criteria.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Based on {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+        </p>
+        <IntensityLegend config={config} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{config.intensityLabel} over time</CardTitle>
+          <CardDescription>Daily average with a {ROLLING_WINDOW_DAYS}-day rolling average</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TrendChart series={series} config={config} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Calendar</CardTitle>
+          <CardDescription>Highest {config.intensityLabel.toLowerCase()} each day</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CalendarHeatmap entries={entries} config={config} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Day and time</CardTitle>
+          <CardDescription>Average by weekday and hour; fainter cells have fewer entries</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WeekdayHourGrid entries={entries} config={config} />
+        </CardContent>
+      </Card>
+
+      {durations.episodes > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Duration</CardTitle>
+            <CardDescription>
+              {durations.episodes} timed {durations.episodes === 1 ? 'episode' : 'episodes'}
+              {durations.ongoing > 0 && `, ${durations.ongoing} still going`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Average</p>
+              <p className="text-2xl font-semibold">
+                {durations.averageMs !== null ? formatDuration(durations.averageMs) : '—'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Longest</p>
+              <p className="text-2xl font-semibold">
+                {durations.longestMs !== null ? formatDuration(durations.longestMs) : '—'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {config.bodyMap && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Body map</CardTitle>
+            <CardDescription>Where it happens; entries without a side count for both</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BodyHeatmap entries={entries} config={config} />
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{config.locationLabel}</CardTitle>
+            <CardDescription>Most frequent, coloured by average</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FrequencyChart bars={locationBars} config={config} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{config.triggersLabel}</CardTitle>
+            <CardDescription>Most frequent, coloured by average</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FrequencyChart bars={triggerBars} config={config} />
+          </CardContent>
+        </Card>
+      </div>
+
+      {interventions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Interventions</CardTitle>
+            <CardDescription>
+              Drop in {config.intensityLabel.toLowerCase()} and how often it helped, from follow-up answers
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal pb-2">Intervention</th>
+                  <th className="font-normal pb-2 text-right">Used</th>
+                  <th className="font-normal pb-2 text-right">Avg. drop</th>
+                  <th className="font-normal pb-2 text-right">Helped</th>
+                </tr>
+              </thead>
+              <tbody>
+                {interventions.map(stat => (
+                  <tr key={stat.intervention} className="border-t">
+                    <td className="py-2">{stat.intervention}</td>
+                    <td className="py-2 text-right tabular-nums">
+                      {stat.uses}
+                      {stat.rated < stat.uses && (
+                        <span className="text-muted-foreground"> ({stat.rated} rated)</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right tabular-nums">{stat.averageDrop ?? '—'}</td>
+                    <td className="py-2 text-right tabular-nums">
+                      {stat.helpedRate === null ? '—' : `${Math.round(stat.helpedRate * 100)}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <TriggerAnalysisCard entries={entries} config={config} />
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+/**
+ * Medication Dialog Component
+ *
+ * Add or edit a medication: name, dose, unit and schedule (as needed,
+ * daily at set times, or on chosen weekdays).
+ */
+
+import { useEffect, useState } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Medication, MedicationSchedule } from '@/types/medication';
+import { db } from '@/runtime/appRuntime';
+import { saveMedication, validateMedication } from '@/services/medicationService';
+import { toast } from 'sonner';
+
+interface MedicationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  /** Medication to edit; a new one is created when null */
+  medication: Medication | null;
+  onSaved: (medication: Medication) => void;
+}
+
+type ScheduleType = MedicationSchedule['type'];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function MedicationDialog({ open, onOpenChange, userId, medication, onSaved }: Readonly<MedicationDialogProps>) {
+  const [name, setName] = useState('');
+  const [dose, setDose] = useState('');
+  const [unit, setUnit] = useState('mg');
+  const [notes, setNotes] = useState('');
+  const [scheduleType, setScheduleType] = useState<ScheduleType>('daily');
+  const [times, setTimes] = useState<string[]>(['08:00']);
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form each time it opens
+  useEffect(() => {
+    if (!open) return;
+    const schedule = medication?.schedule;
+    setName(medication?.name ?? '');
+    setDose(medication ? String(medication.dose) : '');
+    setUnit(medication?.unit ?? 'mg');
+    setNotes(medication?.notes ?? '');
+    setScheduleType(schedule?.type ?? 'daily');
+    setTimes(schedule && schedule.type !== 'as_needed' ? schedule.times : ['08:00']);
+    setWeekdays(schedule?.type === 'weekly' ? schedule.weekdays : [1, 2, 3, 4, 5]);
+    setErrors([]);
+  }, [open, medication]);
+
+  const buildSchedule = (): MedicationSchedule => {
+    if (scheduleType === 'as_needed') return { type: 'as_needed' };
+    if (scheduleType === 'daily') return { type: 'daily', times };
+    return { type: 'weekly', weekdays: [...weekdays].sort(), times };
+  };
+
+  async function handleSave() {
+    const input = { name, dose: Number(dose), unit, notes: notes.trim() || null, schedule: buildSchedule() };
+    const problems = validateMedication(input);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setSaving(true);
+    const { data, error } = await saveMedication(db, userId, input, medication);
+    setSaving(false);
+    if (error || !data) {
+      console.error('Error saving medication:', error);
+      toast.error('Could not save medication');
+      return;
+    }
+    toast.success(medication ? 'Medication updated' : 'Medication added');
+    onSaved(data);
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{medication ? 'Edit medication' : 'Add medication'}</DialogTitle>
+          <DialogDescription>Doses are expected from when it is added.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="medication-name">Name</Label>
+            <Input id="medication-name" value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Naproxen" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="medication-dose">Dose</Label>
+              <Input
+                id="medication-dose"
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="any"
+                value={dose}
+                onChange={e => setDose(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medication-unit">Unit</Label>
+              <Input id="medication-unit" value={unit} onChange={e => setUnit(e.target.value)} placeholder="mg, ml, tablet" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Schedule</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={scheduleType}
+              onValueChange={value => value && setScheduleType(value as ScheduleType)}
+              className="w-full"
+            >
+              <ToggleGroupItem value="daily" className="flex-1">Daily</ToggleGroupItem>
+              <ToggleGroupItem value="weekly" className="flex-1">Some days</ToggleGroupItem>
+              <ToggleGroupItem value="as_needed" className="flex-1">As needed</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          {scheduleType === 'weekly' && (
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              value={weekdays.map(String)}
+              onValueChange={values => setWeekdays(values.map(Number))}
+              className="w-full"
+              aria-label="Days"
+            >
+              {WEEKDAYS.map((day, i) => (
+                <ToggleGroupItem key={day} value={String(i)} className="flex-1">{day}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          {scheduleType !== 'as_needed' && (
+            <div className="space-y-2">
+              <Label>Times</Label>
+              <div className="flex flex-wrap gap-2">
+                {times.map((time, i) => (
+                  <div key={i} className="flex items-center gap-1">
+                    <Input
+                      type="time"
+                      value={time}
+                      onChange={e => setTimes(times.map((t, j) => (j === i ? e.target.value : t)))}
+                      className="w-28"
+                      aria-label={`Time ${i + 1}`}
+                    />
+                    {times.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setTimes(times.filter((_, j) => j !== i))}
+                        aria-label="Remove time"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => setTimes([...times, '20:00'])} className="gap-1">
+                  <Plus className="w-4 h-4" />
+                  Time
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="medication-notes">Notes (Optional)</Label>
+            <Textarea
+              id="medication-notes"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              rows={2}
+              className="resize-none"
+              placeholder="e.g. take with food"
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-destructive list-disc pl-5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,339 @@
+/**
+ * Medications View Component
+ *
+ * The user's medications with one-tap "taken" logging, the next dose due,
+ * missed doses, weekly adherence, and the current tracker's intensity
+ * before and after doses.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Check, Loader2, Pause, Pencil, Pill, Play, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { MedicationDialog } from '@/components/MedicationDialog';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import type { Medication, MedicationDose } from '@/types/medication';
+import { getTrackerConfig } from '@/types/tracker-config';
+import { db } from '@/runtime/appRuntime';
+import {
+  ADHERENCE_WEEKS,
+  DOSE_RESPONSE_WINDOW_MS,
+  deleteDose,
+  deleteMedication,
+  describeSchedule,
+  doseResponse,
+  loadDoses,
+  loadMedications,
+  logDose,
+  missedDoses,
+  nextDoseDue,
+  setMedicationActive,
+  weeklyAdherence,
+} from '@/services/medicationService';
+import { toast } from 'sonner';
+
+interface MedicationsViewProps {
+  /** Tracker whose entries are compared before and after doses */
+  tracker: Tracker;
+  /** All of the tracker's entries (not filtered) */
+  entries: PainEntry[];
+  userId: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const formatSlot = (timestamp: number) => format(timestamp, 'EEE MMM d, h:mm a');
+
+export function MedicationsView({ tracker, entries, userId }: Readonly<MedicationsViewProps>) {
+  const config = getTrackerConfig(tracker.preset_id, tracker.generated_config, tracker.scale);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [doses, setDoses] = useState<MedicationDose[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Medication | null>(null);
+  const [toDelete, setToDelete] = useState<Medication | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep "due" and "missed" current while the tab stays open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    // Enough history for the adherence weeks plus the week in progress
+    const since = Date.now() - (ADHERENCE_WEEKS + 1) * 7 * DAY;
+    Promise.all([loadMedications(db, userId), loadDoses(db, userId, since)]).then(([meds, taken]) => {
+      if (cancelled) return;
+      const error = meds.error ?? taken.error;
+      if (error) {
+        console.error('Error loading medications:', error);
+        toast.error('Could not load medications');
+      } else {
+        setMedications(meds.data ?? []);
+        setDoses(taken.data ?? []);
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const dosesByMedication = useMemo(() => {
+    const grouped = new Map<string, MedicationDose[]>();
+    for (const dose of doses) {
+      grouped.set(dose.medication_id, [...(grouped.get(dose.medication_id) ?? []), dose]);
+    }
+    return grouped;
+  }, [doses]);
+
+  async function handleUndo(dose: MedicationDose) {
+    const { error } = await deleteDose(db, dose.id);
+    if (error) {
+      toast.error('Could not undo');
+      return;
+    }
+    setDoses(current => current.filter(d => d.id !== dose.id));
+  }
+
+  async function handleTaken(medication: Medication, takenAt: number = Date.now()) {
+    setBusyId(medication.id);
+    const { data, error } = await logDose(db, medication, doses, takenAt);
+    setBusyId(null);
+    if (error || !data) {
+      console.error('Error logging dose:', error);
+      toast.error('Could not log dose');
+      return;
+    }
+    setDoses(current => [...current, data].sort((a, b) => a.taken_at - b.taken_at));
+    toast.success(`${medication.name} logged at ${format(data.taken_at, 'h:mm a')}`, {
+      action: { label: 'Undo', onClick: () => handleUndo(data) },
+    });
+  }
+
+  async function handleToggleActive(medication: Medication) {
+    setBusyId(medication.id);
+    const { data, error } = await setMedicationActive(db, medication.id, !medication.active);
+    setBusyId(null);
+    if (error || !data) {
+      toast.error('Could not update medication');
+      return;
+    }
+    setMedications(current => current.map(m => (m.id === data.id ? data : m)));
+    toast.success(data.active ? `${data.name} resumed` : `${data.name} stopped`);
+  }
+
+  async function handleDelete() {
+    if (!toDelete) return;
+    const medication = toDelete;
+    setToDelete(null);
+    const { error } = await deleteMedication(db, medication.id);
+    if (error) {
+      console.error('Error deleting medication:', error);
+      toast.error('Could not delete medication');
+      return;
+    }
+    setMedications(current => current.filter(m => m.id !== medication.id));
+    setDoses(current => current.filter(d => d.medication_id !== medication.id));
+    toast.success(`${medication.name} deleted`);
+  }
+
+  const handleSaved = (saved: Medication) =>
+    setMedications(current =>
+      current.some(m => m.id === saved.id) ? current.map(m => (m.id === saved.id ? saved : m)) : [...current, saved]
+    );
+
+  const openDialog = (medication: Medication | null) => {
+    setEditing(medication);
+    setDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {config.intensityLabel} is compared {DOSE_RESPONSE_WINDOW_MS / (60 * 60 * 1000)} hours either side of each dose.
+        </p>
+        <Button onClick={() => openDialog(null)} className="gap-2 shrink-0">
+          <Plus className="w-4 h-4" />
+          Add medication
+        </Button>
+      </div>
+
+      {medications.length === 0 && (
+        <div className="text-center py-12">
+          <Pill className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-muted-foreground">No medications yet. Add one to log doses and track adherence.</p>
+        </div>
+      )}
+
+      {medications.map(medication => {
+        const own = dosesByMedication.get(medication.id) ?? [];
+        const nextDue = nextDoseDue(medication, own, now);
+        const missed = missedDoses(medication, own, now);
+        const weeks = weeklyAdherence(medication, own, now);
+        const thisWeek = weeks[weeks.length - 1];
+        const response = doseResponse(own, entries);
+        const lastDose = own.length > 0 ? own[own.length - 1] : null;
+
+        return (
+          <Card key={medication.id} className={medication.active ? undefined : 'opacity-70'}>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {medication.name}
+                    {!medication.active && <Badge variant="secondary">Stopped</Badge>}
+                  </CardTitle>
+                  <CardDescription>
+                    {medication.dose} {medication.unit} · {describeSchedule(medication.schedule)}
+                  </CardDescription>
+                </div>
+                <Button
+                  onClick={() => handleTaken(medication)}
+                  disabled={busyId === medication.id}
+                  className="gap-2"
+                >
+                  {busyId === medication.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                  Taken
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Next due</p>
+                  <p className="font-medium">{nextDue === null ? '—' : formatSlot(nextDue)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Last taken</p>
+                  <p className="font-medium">{lastDose ? formatSlot(lastDose.taken_at) : '—'}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Adherence this week</p>
+                  <p className="font-medium">{thisWeek.percentage === null ? '—' : `${thisWeek.percentage}%`}</p>
+                </div>
+              </div>
+
+              {medication.schedule.type !== 'as_needed' && (
+                <div className="flex items-end gap-2" aria-label="Weekly adherence">
+                  {weeks.map(week => (
+                    <div key={week.weekStart} className="flex-1 text-center">
+                      <div className="h-12 bg-muted rounded-sm flex items-end overflow-hidden">
+                        <div
+                          className="w-full bg-primary"
+                          style={{ height: `${week.percentage ?? 0}%` }}
+                          title={`${week.taken} of ${week.expected} doses`}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">{format(new Date(`${week.weekStart}T00:00`), 'MMM d')}</p>
+                      <p className="text-xs tabular-nums">{week.percentage === null ? '—' : `${week.percentage}%`}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {missed.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Missed in the last 7 days</p>
+                  <ul className="space-y-1">
+                    {missed.map(slot => (
+                      <li key={slot} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="text-muted-foreground">{formatSlot(slot)}</span>
+                        <Button variant="ghost" size="sm" onClick={() => handleTaken(medication, slot)}>
+                          I took it
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="text-sm">
+                <p className="text-muted-foreground">{config.intensityLabel} around doses</p>
+                {response.doses === 0 ? (
+                  <p>Not enough {tracker.name} entries around doses yet.</p>
+                ) : (
+                  <p className="font-medium">
+                    {response.before} before → {response.after} after
+                    <span className="text-muted-foreground font-normal">
+                      {' '}({response.doses} {response.doses === 1 ? 'dose' : 'doses'})
+                    </span>
+                  </p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2 pt-2 border-t">
+                <Button variant="ghost" size="sm" className="gap-1" onClick={() => openDialog(medication)}>
+                  <Pencil className="w-4 h-4" />
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => handleToggleActive(medication)}
+                  disabled={busyId === medication.id}
+                >
+                  {medication.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  {medication.active ? 'Stop' : 'Resume'}
+                </Button>
+                <Button variant="ghost" size="sm" className="gap-1 text-destructive" onClick={() => setToDelete(medication)}>
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <MedicationDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        userId={userId}
+        medication={editing}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog open={toDelete !== null} onOpenChange={open => !open && setToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {toDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its dose history is deleted too. To keep the history, stop the medication instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
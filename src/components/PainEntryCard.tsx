@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -16,11 +16,17 @@ import {
   DrawerTitle,
   DrawerFooter,
 } from '@/components/ui/drawer'
-import { Trash, NotePencil, Hash } from '@phosphor-icons/react'
-import { PainEntry } from '@/types/pain-entry'
+import { Trash, NotePencil, Hash, Timer, StopCircle, FirstAidKit } from '@phosphor-icons/react'
+import { FollowUpPrompt } from '@/components/FollowUpPrompt'
+import { EntryHistory } from '@/components/EntryHistory'
+import { PainEntry, RELIEF_RATINGS } from '@/types/pain-entry'
 import type { Tracker } from '@/types/tracker'
-import { formatDate } from '@/lib/pain-utils'
+import type { EntryRevision } from '@/types/entry-revision'
+import { formatDate, formatDuration, getEntryDuration } from '@/lib/pain-utils'
 import { getTrackerConfig } from '@/types/tracker-config'
+import { formatFieldValue } from '@/services/customFieldService'
+import { formatIntensity } from '@/services/scaleService'
+import { followUpAnswer, isFollowUpDue } from '@/services/interventionService'
 import { motion } from 'framer-motion'
 import { useIsMobile } from '@/hooks/use-mobile'
 
@@ -29,16 +35,38 @@ interface PainEntryCardProps {
   tracker?: Tracker | null
   onDelete: (id: string) => void
   onEdit: (entry: PainEntry) => void
+  onEnd?: (entry: PainEntry) => void // Close an ongoing episode now
+  onFollowUp?: (entry: PainEntry, changes: Partial<PainEntry>) => void // Answer or skip "how is it now?"
+  onRestore?: (entry: PainEntry, revision: EntryRevision) => Promise<void> // Put back an earlier version
 }
 
-export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<PainEntryCardProps>) {
+export function PainEntryCard({ entry, tracker, onDelete, onEdit, onEnd, onFollowUp, onRestore }: Readonly<PainEntryCardProps>) {
   const [showDetails, setShowDetails] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
   const isMobile = useIsMobile()
+
+  // Re-render when a pending follow-up comes due
+  const pendingFollowUp = entry.followed_up_at == null ? entry.follow_up_at : null
+  useEffect(() => {
+    if (pendingFollowUp == null || pendingFollowUp <= now) return
+    const timer = setTimeout(() => setNow(Date.now()), pendingFollowUp - now)
+    return () => clearTimeout(timer)
+  }, [pendingFollowUp, now])
   
-  const config = getTrackerConfig(tracker?.preset_id, tracker?.generated_config)
+  const config = getTrackerConfig(tracker?.preset_id, tracker?.generated_config, tracker?.scale)
   const intensityColor = config.getIntensityColor(entry.intensity)
   const intensityLabel = config.getIntensityLabel(entry.intensity)
+  const intensityFace = config.getIntensityFace(entry.intensity)
+  const duration = getEntryDuration(entry)
+  const fieldValues = (tracker?.fields ?? [])
+    .filter(field => entry.fields?.[field.key] !== undefined)
+    .map(field => ({ key: field.key, label: field.label, value: formatFieldValue(field, entry.fields?.[field.key]) }))
+  const locationLabel = (value: string) =>
+    config.locations.find(l => l.value === value)?.label ?? value.replace('-', ' ')
+  const interventions = entry.interventions ?? []
+  const relief = entry.relief ? RELIEF_RATINGS.find(r => r.value === entry.relief)?.label : null
+  const followUpDue = !!onFollowUp && isFollowUpDue(entry, now)
 
   const handleDelete = () => {
     onDelete(entry.id)
@@ -46,6 +74,11 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
     setShowDetails(false)
   }
 
+  const handleEnd = () => {
+    setShowDetails(false)
+    onEnd?.(entry)
+  }
+
   const handleEdit = () => {
     setShowDetails(false)
     onEdit(entry)
@@ -61,7 +94,8 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
             className="text-2xl font-semibold"
             style={{ color: intensityColor }}
           >
-            {entry.intensity}/10
+            {intensityFace && <span className="mr-1" aria-hidden>{intensityFace}</span>}
+            {formatIntensity(entry.intensity, config.scale)}
           </span>
           <span className="text-base text-muted-foreground">
             ({intensityLabel})
@@ -76,15 +110,40 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
             dateStyle: 'full',
             timeStyle: 'short',
           })}
+          {entry.ended_at && (
+            <>
+              {' – '}
+              {new Date(entry.ended_at).toLocaleString('en-US', {
+                dateStyle: 'full',
+                timeStyle: 'short',
+              })}
+            </>
+          )}
         </p>
+        {duration !== null && (
+          <p className="text-sm text-muted-foreground mt-1">
+            {entry.ongoing ? `Still going · ${formatDuration(duration)} so far` : `Lasted ${formatDuration(duration)}`}
+          </p>
+        )}
       </div>
 
+      {fieldValues.length > 0 && (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
+          {fieldValues.map(field => (
+            <div key={field.key}>
+              <dt className="text-sm font-medium text-muted-foreground">{field.label}</dt>
+              <dd className="text-base">{field.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
       <div>
         <p className="text-sm font-medium text-muted-foreground mb-2">{config.locationLabel}</p>
         <div className="flex flex-wrap gap-2">
           {entry.locations.map(location => (
             <Badge key={location} variant="secondary" className="capitalize">
-              {location.replace('-', ' ')}
+              {locationLabel(location)}
             </Badge>
           ))}
         </div>
@@ -103,6 +162,28 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
         </div>
       )}
 
+      {interventions.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">What helped?</p>
+          <div className="flex flex-wrap gap-2">
+            {interventions.map(intervention => (
+              <Badge key={intervention} variant="outline">
+                {intervention}
+              </Badge>
+            ))}
+          </div>
+          {relief && (
+            <p className="text-sm mt-2">
+              {relief}
+              {entry.relief_intensity != null && ` · ${entry.intensity} → ${formatIntensity(entry.relief_intensity, config.scale)}`}
+              {entry.followed_up_at && (
+                <span className="text-muted-foreground"> at {formatDate(entry.followed_up_at)}</span>
+              )}
+            </p>
+          )}
+        </div>
+      )}
+
       {entry.hashtags && entry.hashtags.length > 0 && (
         <div>
           <p className="text-sm font-medium text-muted-foreground mb-2">Hashtags</p>
@@ -127,12 +208,30 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
           </div>
         </div>
       )}
+
+      {onRestore && (
+        <EntryHistory
+          entry={entry}
+          tracker={tracker ?? null}
+          onRestore={revision => onRestore(entry, revision)}
+        />
+      )}
     </div>
   )
 
   // Shared action buttons for both Dialog and Drawer
   const actionButtons = (
     <>
+      {entry.ongoing && onEnd && (
+        <Button
+          variant="outline"
+          onClick={handleEnd}
+          className="gap-2"
+        >
+          <StopCircle size={16} />
+          Ended now
+        </Button>
+      )}
       <Button
         variant="outline"
         onClick={handleEdit}
@@ -173,7 +272,8 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
                       className="text-lg font-semibold"
                       style={{ color: intensityColor }}
                     >
-                      {entry.intensity}/10
+                      {intensityFace && <span className="mr-1" aria-hidden>{intensityFace}</span>}
+                      {formatIntensity(entry.intensity, config.scale)}
                     </span>
                     <span className="text-sm text-muted-foreground">
                       {intensityLabel}
@@ -183,16 +283,43 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
                     {formatDate(entry.timestamp)}
                   </p>
                 </div>
+                {duration !== null && (
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.ongoing ? 'default' : 'outline'} className="gap-1">
+                      <Timer size={12} />
+                      {entry.ongoing ? 'Still going' : formatDuration(duration)}
+                    </Badge>
+                    {entry.ongoing && onEnd && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7"
+                        onClick={e => {
+                          e.stopPropagation()
+                          onEnd(entry)
+                        }}
+                      >
+                        Ended now
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="flex flex-wrap gap-2">
                 {entry.locations.map(location => (
                   <Badge key={location} variant="secondary" className="capitalize">
-                    {location.replace('-', ' ')}
+                    {locationLabel(location)}
                   </Badge>
                 ))}
               </div>
 
+              {fieldValues.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {fieldValues.map(field => `${field.label}: ${field.value}`).join(' · ')}
+                </p>
+              )}
+
               {entry.notes && (
                 <p className="text-sm text-foreground/80 line-clamp-2">
                   {entry.notes}
@@ -209,6 +336,24 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
                 </div>
               )}
 
+              {interventions.length > 0 && (
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <FirstAidKit size={14} />
+                  {interventions.join(', ')}
+                  {relief && ` · ${relief}`}
+                  {entry.relief_intensity != null && ` (${entry.intensity} → ${entry.relief_intensity})`}
+                </p>
+              )}
+
+              {followUpDue && onFollowUp && (
+                <FollowUpPrompt
+                  entry={entry}
+                  config={config}
+                  onAnswer={(rating, reliefIntensity) => onFollowUp(entry, followUpAnswer(rating, reliefIntensity))}
+                  onSkip={() => onFollowUp(entry, { follow_up_at: null })}
+                />
+              )}
+
               {entry.hashtags && entry.hashtags.length > 0 && (
                 <div className="flex flex-wrap gap-1.5">
                   {entry.hashtags.map(tag => (
@@ -257,7 +402,7 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
       <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete Entry?</DialogTitle>
+            <DialogTitle>Move to trash?</DialogTitle>
           </DialogHeader>
           <p className="text-sm text-muted-foreground py-4">
             {config.deleteConfirmMessage}
@@ -267,7 +412,7 @@ export function PainEntryCard({ entry, tracker, onDelete, onEdit }: Readonly<Pai
               Cancel
             </Button>
             <Button variant="destructive" onClick={handleDelete}>
-              Delete
+              Move to trash
             </Button>
           </DialogFooter>
         </DialogContent>
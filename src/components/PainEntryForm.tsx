@@ -1,4 +1,4 @@
-import { useState, KeyboardEvent } from 'react'
+import { useEffect, useState, KeyboardEvent } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
@@ -6,34 +6,103 @@ import { Textarea } from '@/components/ui/textarea'
 import { Input } from '@/components/ui/input'
 import { Slider } from '@/components/ui/slider'
 import { Badge } from '@/components/ui/badge'
-import { X, Check, Hash } from '@phosphor-icons/react'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { X, Check, Hash, Clock, FirstAidKit } from '@phosphor-icons/react'
+import { DateTimePicker } from '@/components/DateTimePicker'
+import { CustomFieldInputs } from '@/components/CustomFieldInputs'
+import { BodyMap } from '@/components/BodyMap'
 import type { Tracker, TrackerPresetId } from '@/types/tracker'
-import type { PainEntry } from '@/types/pain-entry'
+import { COMMON_INTERVENTIONS, type PainEntry } from '@/types/pain-entry'
 import { getTrackerConfig } from '@/types/tracker-config'
+import type { CustomFieldValues } from '@/types/custom-field'
+import { formatDuration } from '@/lib/pain-utils'
+import { validateFieldValues } from '@/services/customFieldService'
+import { toggleBodyLocation } from '@/services/bodyMapService'
+import { scaleMidpoint } from '@/services/scaleService'
+import { DEFAULT_FOLLOW_UP_MINUTES, FOLLOW_UP_DELAYS, FOLLOW_UP_DELAY_KEY } from '@/services/interventionService'
+import { kv } from '@/runtime/appRuntime'
+
+export interface PainEntryFormData {
+  timestamp: number
+  ended_at: number | null
+  ongoing: boolean
+  intensity: number
+  locations: string[]
+  notes: string
+  triggers: string[]
+  hashtags: string[]
+  fields: CustomFieldValues
+  interventions: string[]
+  follow_up_at: number | null
+}
+
+// A single moment, a finished episode, or one that is still going
+type TimingMode = 'moment' | 'ended' | 'ongoing'
+
+const HOUR = 60 * 60 * 1000
+const NO_FOLLOW_UP = 'none'
 
 interface PainEntryFormProps {
   tracker: Tracker | null
   editEntry?: PainEntry | null // If provided, we're editing
-  onSubmit: (data: {
-    intensity: number
-    locations: string[]
-    notes: string
-    triggers: string[]
-    hashtags: string[]
-  }) => void
+  onSubmit: (data: PainEntryFormData) => void
   onCancel: () => void
 }
 
 export function PainEntryForm({ tracker, editEntry, onSubmit, onCancel }: Readonly<PainEntryFormProps>) {
-  const config = getTrackerConfig(tracker?.preset_id as TrackerPresetId | null, tracker?.generated_config)
+  const config = getTrackerConfig(tracker?.preset_id as TrackerPresetId | null, tracker?.generated_config, tracker?.scale)
   const isEditing = !!editEntry
   
-  const [intensity, setIntensity] = useState([editEntry?.intensity ?? 5])
+  const [intensity, setIntensity] = useState([editEntry?.intensity ?? scaleMidpoint(config.scale)])
+  const face = config.getIntensityFace(intensity[0])
   const [selectedLocations, setSelectedLocations] = useState<string[]>(editEntry?.locations ?? [])
   const [notes, setNotes] = useState(editEntry?.notes ?? '')
   const [selectedTriggers, setSelectedTriggers] = useState<string[]>(editEntry?.triggers ?? [])
   const [hashtags, setHashtags] = useState<string[]>(editEntry?.hashtags ?? [])
   const [hashtagInput, setHashtagInput] = useState('')
+  const [interventions, setInterventions] = useState<string[]>(editEntry?.interventions ?? [])
+  const [interventionInput, setInterventionInput] = useState('')
+  const [followUpDelay, setFollowUpDelay] = useState(String(DEFAULT_FOLLOW_UP_MINUTES))
+  const customFields = tracker?.fields ?? []
+  const [fieldValues, setFieldValues] = useState<Record<string, unknown>>(editEntry?.fields ?? {})
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [now] = useState(() => Date.now())
+  const [startedAt, setStartedAt] = useState(editEntry?.timestamp ?? now)
+  const [timingMode, setTimingMode] = useState<TimingMode>(() => {
+    if (editEntry?.ongoing) return 'ongoing'
+    return editEntry?.ended_at ? 'ended' : 'moment'
+  })
+  const [endedAt, setEndedAt] = useState(editEntry?.ended_at ?? Math.min(startedAt + HOUR, now))
+
+  // An entry already scheduled (or answered) keeps its follow-up when edited
+  const hasFollowUp = editEntry?.follow_up_at != null || editEntry?.followed_up_at != null
+
+  useEffect(() => {
+    kv.get<number>(FOLLOW_UP_DELAY_KEY).then(minutes => {
+      if (minutes !== null) {
+        setFollowUpDelay(minutes > 0 ? String(minutes) : NO_FOLLOW_UP)
+      }
+    })
+  }, [])
+
+  const durationMs = endedAt - startedAt
+  const durationHours = Math.floor(Math.max(durationMs, 0) / HOUR)
+  const durationMinutes = Math.round((Math.max(durationMs, 0) % HOUR) / 60000)
+  const invalidRange = timingMode === 'ended' && durationMs < 0
+
+  const changeTimingMode = (mode: TimingMode) => {
+    // Give a fresh range a sensible end instead of a zero-length one
+    if (mode === 'ended' && endedAt <= startedAt) {
+      setEndedAt(Math.max(startedAt, Math.min(startedAt + HOUR, now)))
+    }
+    setTimingMode(mode)
+  }
+
+  const setDuration = (hours: number, minutes: number) => {
+    const total = (Math.max(hours, 0) * 60 + Math.max(minutes, 0)) * 60000
+    setEndedAt(startedAt + total)
+  }
 
   const toggleLocation = (location: string) => {
     setSelectedLocations(prev =>
@@ -43,6 +112,9 @@ export function PainEntryForm({ tracker, editEntry, onSubmit, onCancel }: Readon
     )
   }
 
+  const locationLabel = (value: string) =>
+    config.locations.find(l => l.value === value)?.label ?? value
+
   const toggleTrigger = (trigger: string) => {
     setSelectedTriggers(prev =>
       prev.includes(trigger)
@@ -63,6 +135,28 @@ export function PainEntryForm({ tracker, editEntry, onSubmit, onCancel }: Readon
     setHashtags(prev => prev.filter(t => t !== tag))
   }
 
+  const toggleIntervention = (intervention: string) => {
+    setInterventions(prev =>
+      prev.includes(intervention)
+        ? prev.filter(i => i !== intervention)
+        : [...prev, intervention]
+    )
+  }
+
+  const addIntervention = (intervention: string) => {
+    const clean = intervention.trim()
+    if (clean && !interventions.some(i => i.toLowerCase() === clean.toLowerCase())) {
+      setInterventions(prev => [...prev, clean])
+    }
+    setInterventionInput('')
+  }
+
+  const followUpAt = (): number | null => {
+    if (interventions.length === 0) return null
+    if (hasFollowUp) return editEntry?.follow_up_at ?? null
+    return followUpDelay === NO_FOLLOW_UP ? null : Date.now() + Number(followUpDelay) * 60000
+  }
+
   const handleHashtagKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' || e.key === ',') {
       e.preventDefault()
@@ -74,16 +168,40 @@ export function PainEntryForm({ tracker, editEntry, onSubmit, onCancel }: Readon
   }
 
   const handleSubmit = () => {
-    if (selectedLocations.length === 0) {
+    if (selectedLocations.length === 0 || invalidRange) {
+      return
+    }
+
+    const { values: fields, errors } = validateFieldValues(customFields, fieldValues)
+    setFieldErrors(errors)
+    if (Object.keys(errors).length > 0) {
       return
     }
 
     onSubmit({
+      timestamp: startedAt,
+      ended_at: timingMode === 'ended' ? endedAt : null,
+      ongoing: timingMode === 'ongoing',
       intensity: intensity[0],
       locations: selectedLocations,
       notes,
       triggers: selectedTriggers,
       hashtags,
+      fields,
+      interventions,
+      follow_up_at: followUpAt(),
+    })
+    if (interventions.length > 0 && !hasFollowUp) {
+      kv.set(FOLLOW_UP_DELAY_KEY, followUpDelay === NO_FOLLOW_UP ? 0 : Number(followUpDelay))
+    }
+  }
+
+  const setFieldValue = (key: string, value: unknown) => {
+    setFieldValues(prev => ({ ...prev, [key]: value }))
+    setFieldErrors(prev => {
+      const next = { ...prev }
+      delete next[key]
+      return next
     })
   }
 
@@ -97,15 +215,84 @@ export function PainEntryForm({ tracker, editEntry, onSubmit, onCancel }: Readon
       <CardContent className="space-y-6">
         <div className="space-y-3">
           <Label className="text-base font-medium">
+            <Clock size={16} className="inline mr-1" />
+            When
+          </Label>
+          <DateTimePicker
+            value={startedAt}
+            onChange={setStartedAt}
+            max={Math.max(now, startedAt)}
+            aria-label="Started at"
+          />
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={timingMode}
+            onValueChange={value => value && changeTimingMode(value as TimingMode)}
+            className="w-full"
+          >
+            <ToggleGroupItem value="moment" className="flex-1">Single moment</ToggleGroupItem>
+            <ToggleGroupItem value="ended" className="flex-1">Lasted</ToggleGroupItem>
+            <ToggleGroupItem value="ongoing" className="flex-1">Still going</ToggleGroupItem>
+          </ToggleGroup>
+
+          {timingMode === 'ended' && (
+            <div className="space-y-2">
+              <Label className="text-sm text-muted-foreground">Ended at</Label>
+              <DateTimePicker
+                value={endedAt}
+                onChange={setEndedAt}
+                min={startedAt}
+                max={Math.max(now, endedAt)}
+                aria-label="Ended at"
+              />
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Duration</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={durationHours}
+                  onChange={e => setDuration(Number(e.target.value), durationMinutes)}
+                  className="w-20"
+                  aria-label="Duration hours"
+                />
+                <span>h</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={59}
+                  value={durationMinutes}
+                  onChange={e => setDuration(durationHours, Number(e.target.value))}
+                  className="w-20"
+                  aria-label="Duration minutes"
+                />
+                <span>m</span>
+              </div>
+              {invalidRange && (
+                <p className="text-sm text-destructive">The end must be after the start.</p>
+              )}
+            </div>
+          )}
+
+          {timingMode === 'ongoing' && (
+            <p className="text-sm text-muted-foreground">
+              Going for {formatDuration(Math.max(now - startedAt, 0))} so far. Mark it ended from the entry card.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <Label className="text-base font-medium">
+            {face && <span className="text-2xl leading-none" aria-hidden>{face}</span>}
             {config.intensityLabel}: {intensity[0]} - {config.getIntensityLabel(intensity[0])}
           </Label>
           <div className="px-2">
             <Slider
               value={intensity}
               onValueChange={setIntensity}
-              min={1}
-              max={10}
-              step={1}
+              min={config.scale.min}
+              max={config.scale.max}
+              step={config.scale.step}
               className="w-full"
               style={{
                 ['--slider-color' as string]: config.getIntensityColor(intensity[0]),
@@ -118,28 +305,64 @@ export function PainEntryForm({ tracker, editEntry, onSubmit, onCancel }: Readon
           </div>
         </div>
 
+        {customFields.length > 0 && (
+          <CustomFieldInputs
+            fields={customFields}
+            values={fieldValues}
+            onChange={setFieldValue}
+            errors={fieldErrors}
+          />
+        )}
+
         <div className="space-y-3">
           <Label className="text-base font-medium">
             {config.locationLabel} {selectedLocations.length === 0 && <span className="text-accent">*</span>}
           </Label>
-          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-            {config.locations.map(({ value, label }) => (
-              <Button
-                key={value}
-                type="button"
-                variant={selectedLocations.includes(value) ? 'default' : 'outline'}
-                className={`justify-start ${
-                  selectedLocations.includes(value)
-                    ? 'bg-primary text-primary-foreground'
-                    : ''
-                }`}
-                onClick={() => toggleLocation(value)}
-              >
-                {selectedLocations.includes(value) && <Check className="mr-2" size={16} />}
-                {label}
-              </Button>
-            ))}
-          </div>
+          {config.bodyMap ? (
+            <>
+              <BodyMap
+                selected={selectedLocations}
+                onToggle={value => setSelectedLocations(prev => toggleBodyLocation(prev, value))}
+              />
+              <div className="flex flex-wrap gap-2 min-h-[26px]">
+                {selectedLocations.length === 0 && (
+                  <p className="text-sm text-muted-foreground">{config.locationPlaceholder} Tap the map.</p>
+                )}
+                {selectedLocations.map(location => (
+                  <Badge key={location} variant="secondary" className="gap-1 pl-2 pr-1">
+                    {locationLabel(location)}
+                    <button
+                      type="button"
+                      onClick={() => toggleLocation(location)}
+                      className="hover:bg-muted rounded-full p-0.5"
+                      aria-label={`Remove ${locationLabel(location)}`}
+                    >
+                      <X size={12} />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {config.locations.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  type="button"
+                  variant={selectedLocations.includes(value) ? 'default' : 'outline'}
+                  className={`justify-start ${
+                    selectedLocations.includes(value)
+                      ? 'bg-primary text-primary-foreground'
+                      : ''
+                  }`}
+                  onClick={() => toggleLocation(value)}
+                >
+                  {selectedLocations.includes(value) && <Check className="mr-2" size={16} />}
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
         </div>
 
         <div className="space-y-3">
@@ -162,6 +385,58 @@ export function PainEntryForm({ tracker, editEntry, onSubmit, onCancel }: Readon
           </div>
         </div>
 
+        <div className="space-y-3">
+          <Label className="text-base font-medium">
+            <FirstAidKit size={16} className="inline mr-1" />
+            What did you do? (Optional)
+          </Label>
+          <div className="flex flex-wrap gap-2">
+            {[...COMMON_INTERVENTIONS, ...interventions.filter(i => !COMMON_INTERVENTIONS.includes(i))].map(intervention => (
+              <Badge
+                key={intervention}
+                variant={interventions.includes(intervention) ? 'default' : 'outline'}
+                className={`cursor-pointer transition-all ${
+                  interventions.includes(intervention)
+                    ? 'bg-secondary text-secondary-foreground'
+                    : 'hover:bg-muted'
+                }`}
+                onClick={() => toggleIntervention(intervention)}
+              >
+                {intervention}
+              </Badge>
+            ))}
+          </div>
+          <Input
+            type="text"
+            placeholder="Something else? Type it and press Enter..."
+            value={interventionInput}
+            onChange={e => setInterventionInput(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                addIntervention(interventionInput)
+              }
+            }}
+            onBlur={() => interventionInput && addIntervention(interventionInput)}
+          />
+          {interventions.length > 0 && !hasFollowUp && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Ask how it's going in</span>
+              <Select value={followUpDelay} onValueChange={setFollowUpDelay}>
+                <SelectTrigger className="w-40" aria-label="Follow-up delay">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FOLLOW_UP_DELAYS.map(({ minutes, label }) => (
+                    <SelectItem key={minutes} value={String(minutes)}>{label}</SelectItem>
+                  ))}
+                  <SelectItem value={NO_FOLLOW_UP}>Don't ask</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
         <div className="space-y-3">
           <Label htmlFor="notes" className="text-base font-medium">
             {config.notesLabel} (Optional)
@@ -238,7 +513,7 @@ export function PainEntryForm({ tracker, editEntry, onSubmit, onCancel }: Readon
         <div className="flex gap-3 pt-2">
           <Button
             onClick={handleSubmit}
-            disabled={selectedLocations.length === 0}
+            disabled={selectedLocations.length === 0 || invalidRange}
             className="flex-1 bg-accent hover:bg-accent/90 text-accent-foreground"
           >
             {isEditing ? 'Save Changes' : 'Save Entry'}
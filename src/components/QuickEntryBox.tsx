@@ -0,0 +1,168 @@
+/**
+ * Quick Entry Box Component
+ *
+ * One line of text ("lower back 7 after gardening #flareup since 2pm")
+ * parsed on the device as you type. What was understood shows as chips that
+ * can be removed before saving; entries needing more go to the full form.
+ */
+
+import { useMemo, useState, type FormEvent } from 'react';
+import { format, isToday, isYesterday } from 'date-fns';
+import { Clock, Hash, MapPin, StickyNote, Zap, Gauge, X, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import type { Tracker, TrackerPresetId } from '@/types/tracker';
+import type { PainEntryFormData } from '@/components/PainEntryForm';
+import { getTrackerConfig } from '@/types/tracker-config';
+import { parseQuickEntry, type QuickEntry } from '@/services/quickEntryService';
+import { validateAnswer } from '@/services/checkInService';
+import { validateFieldValues } from '@/services/customFieldService';
+import { formatIntensity } from '@/services/scaleService';
+
+interface QuickEntryBoxProps {
+  tracker: Tracker | null;
+  /** Resolves true once the entry is saved */
+  onSubmit: (data: PainEntryFormData) => Promise<boolean>;
+  onOpenForm: () => void;
+}
+
+interface Chip {
+  key: string;
+  icon: typeof Clock;
+  label: string;
+}
+
+function describeTime(entry: QuickEntry): string {
+  const day = isToday(entry.timestamp) ? '' : isYesterday(entry.timestamp) ? 'Yesterday ' : format(entry.timestamp, 'EEE ');
+  return `${entry.ongoing ? 'Since ' : ''}${day}${format(entry.timestamp, 'p')}`;
+}
+
+/** The parsed entry with the chips the user removed taken out */
+function withoutRemoved(entry: QuickEntry, removed: Set<string>): QuickEntry {
+  const timeRemoved = removed.has('time');
+  return {
+    intensity: removed.has('intensity') ? null : entry.intensity,
+    locations: entry.locations.filter(l => !removed.has(`location:${l}`)),
+    triggers: entry.triggers.filter(t => !removed.has(`trigger:${t}`)),
+    hashtags: entry.hashtags.filter(h => !removed.has(`hashtag:${h}`)),
+    timestamp: timeRemoved ? Date.now() : entry.timestamp,
+    timeGiven: entry.timeGiven && !timeRemoved,
+    ongoing: entry.ongoing && !timeRemoved,
+    notes: removed.has('notes') ? '' : entry.notes,
+  };
+}
+
+export function QuickEntryBox({ tracker, onSubmit, onOpenForm }: QuickEntryBoxProps) {
+  const [text, setText] = useState('');
+  const [removed, setRemoved] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+
+  const config = useMemo(
+    () => getTrackerConfig(tracker?.preset_id as TrackerPresetId | null, tracker?.generated_config, tracker?.scale),
+    [tracker]
+  );
+  const parsed = useMemo(() => parseQuickEntry(text, config), [text, config]);
+  const entry = withoutRemoved(parsed, removed);
+
+  const chips: Chip[] = [];
+  if (entry.intensity !== null) {
+    chips.push({
+      key: 'intensity',
+      icon: Gauge,
+      label: `${formatIntensity(entry.intensity, config.scale)} ${config.getIntensityLabel(entry.intensity)}`,
+    });
+  }
+  for (const value of entry.locations) {
+    chips.push({ key: `location:${value}`, icon: MapPin, label: config.locations.find(l => l.value === value)?.label ?? value });
+  }
+  for (const trigger of entry.triggers) chips.push({ key: `trigger:${trigger}`, icon: Zap, label: trigger });
+  for (const tag of entry.hashtags) chips.push({ key: `hashtag:${tag}`, icon: Hash, label: tag });
+  if (entry.timeGiven) chips.push({ key: 'time', icon: Clock, label: describeTime(entry) });
+  if (entry.notes) chips.push({ key: 'notes', icon: StickyNote, label: `“${entry.notes}”` });
+
+  const needsForm = Object.keys(validateFieldValues(tracker?.fields ?? [], {}).errors).length > 0;
+  const problems = entry.intensity === null
+    ? [`Add a number from ${config.scale.min} to ${config.scale.max}`]
+    : validateAnswer(config, { intensity: entry.intensity, locations: entry.locations, triggers: entry.triggers, fields: {} });
+
+  const remove = (key: string) => setRemoved(current => new Set(current).add(key));
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    if (!value.trim()) setRemoved(new Set());
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (entry.intensity === null || problems.length > 0 || needsForm || saving) return;
+
+    setSaving(true);
+    const saved = await onSubmit({
+      timestamp: entry.timestamp,
+      ended_at: null,
+      ongoing: entry.ongoing,
+      intensity: entry.intensity,
+      locations: entry.locations,
+      notes: entry.notes,
+      triggers: entry.triggers,
+      hashtags: entry.hashtags,
+      fields: {},
+      interventions: [],
+      follow_up_at: null,
+    });
+    setSaving(false);
+    if (saved) {
+      setText('');
+      setRemoved(new Set());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          value={text}
+          onChange={e => handleTextChange(e.target.value)}
+          placeholder="Quick entry, e.g. lower back 7 after gardening #flareup since 2pm"
+          aria-label="Quick entry"
+        />
+        <Button type="submit" disabled={!text.trim() || problems.length > 0 || needsForm || saving}>
+          {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+
+      {text.trim() && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {chips.map(chip => (
+              <Badge key={chip.key} variant="secondary" className="gap-1 py-1">
+                <chip.icon />
+                {chip.label}
+                <button
+                  type="button"
+                  onClick={() => remove(chip.key)}
+                  className="ml-1 rounded-full hover:text-destructive"
+                  aria-label={`Remove ${chip.label}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          {needsForm ? (
+            <p className="text-sm text-muted-foreground">
+              This tracker has required fields.{' '}
+              <button type="button" className="underline" onClick={onOpenForm}>Use the full form</button>
+            </p>
+          ) : (
+            problems.map(problem => (
+              <p key={problem} className="text-sm text-muted-foreground">{problem}</p>
+            ))
+          )}
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,415 @@
+/**
+ * Reminders Dialog Component
+ *
+ * A tracker's reminders to log (on set times, or every few hours while
+ * awake), plus the quiet hours and snooze length shared by every tracker.
+ * Asks for notification permission the first time a reminder is saved.
+ */
+
+import { useEffect, useState } from 'react';
+import { Bell, BellOff, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Tracker } from '@/types/tracker';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  SNOOZE_OPTIONS,
+  type Reminder,
+  type ReminderSchedule,
+  type ReminderSettings,
+} from '@/types/reminder';
+import { db } from '@/runtime/appRuntime';
+import {
+  deleteReminder,
+  describeReminder,
+  enableNotifications,
+  nextReminderAt,
+  notificationsSupported,
+  saveReminder,
+  saveReminderSettings,
+  setReminderEnabled,
+  snoozeReminder,
+  validateReminder,
+  validateReminderSettings,
+} from '@/services/reminderService';
+import { toast } from 'sonner';
+
+interface RemindersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tracker: Tracker;
+  userId: string;
+  /** This tracker's reminders */
+  reminders: Reminder[];
+  settings: ReminderSettings | null;
+  onReminderSaved: (reminder: Reminder) => void;
+  onReminderDeleted: (id: string) => void;
+  onSettingsSaved: (settings: ReminderSettings) => void;
+}
+
+type ScheduleType = ReminderSchedule['type'];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+const INTERVAL_HOURS = [1, 2, 3, 4, 6, 8, 12];
+
+const currentPermission = (): NotificationPermission | null =>
+  notificationsSupported() ? Notification.permission : null;
+
+export function RemindersDialog({
+  open,
+  onOpenChange,
+  tracker,
+  userId,
+  reminders,
+  settings,
+  onReminderSaved,
+  onReminderDeleted,
+  onSettingsSaved,
+}: Readonly<RemindersDialogProps>) {
+  const [permission, setPermission] = useState(currentPermission);
+  // The reminder being edited; null while adding one, undefined when the form is closed
+  const [editing, setEditing] = useState<Reminder | null | undefined>(undefined);
+  const [scheduleType, setScheduleType] = useState<ScheduleType>('daily');
+  const [weekdays, setWeekdays] = useState<number[]>(EVERY_DAY);
+  const [times, setTimes] = useState<string[]>(['20:00']);
+  const [everyHours, setEveryHours] = useState(3);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [quietHours, setQuietHours] = useState(true);
+  const [quietStart, setQuietStart] = useState(DEFAULT_REMINDER_SETTINGS.quiet_start as string);
+  const [quietEnd, setQuietEnd] = useState(DEFAULT_REMINDER_SETTINGS.quiet_end as string);
+  const [snoozeMinutes, setSnoozeMinutes] = useState(DEFAULT_REMINDER_SETTINGS.snooze_minutes);
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPermission(currentPermission());
+    setEditing(reminders.length === 0 ? null : undefined);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !settings) return;
+    setQuietHours(settings.quiet_start !== null);
+    setQuietStart(settings.quiet_start ?? DEFAULT_REMINDER_SETTINGS.quiet_start as string);
+    setQuietEnd(settings.quiet_end ?? DEFAULT_REMINDER_SETTINGS.quiet_end as string);
+    setSnoozeMinutes(settings.snooze_minutes);
+  }, [open, settings]);
+
+  // Fill the form from the reminder being edited
+  useEffect(() => {
+    if (editing === undefined) return;
+    const schedule = editing?.schedule;
+    setScheduleType(schedule?.type ?? 'daily');
+    setWeekdays(schedule?.weekdays ?? EVERY_DAY);
+    setTimes(schedule?.type === 'daily' ? schedule.times : ['20:00']);
+    setEveryHours(schedule?.type === 'interval' ? schedule.every_hours : 3);
+    setErrors([]);
+  }, [editing]);
+
+  const buildSchedule = (): ReminderSchedule => scheduleType === 'daily'
+    ? { type: 'daily', weekdays, times }
+    : { type: 'interval', weekdays, every_hours: everyHours };
+
+  async function handleEnableNotifications() {
+    setPermission(await enableNotifications());
+  }
+
+  async function handleSave() {
+    const schedule = buildSchedule();
+    const problems = validateReminder(schedule);
+    setErrors(problems);
+    if (problems.length > 0 || editing === undefined) return;
+
+    setSaving(true);
+    const { data, error } = await saveReminder(db, userId, tracker.id, schedule, editing);
+    setSaving(false);
+    if (error || !data) {
+      console.error('Error saving reminder:', error);
+      toast.error('Could not save reminder');
+      return;
+    }
+    onReminderSaved(data);
+    setEditing(undefined);
+    toast.success(editing ? 'Reminder updated' : 'Reminder added');
+    if (permission === 'default') await handleEnableNotifications();
+  }
+
+  async function handleToggle(reminder: Reminder, enabled: boolean) {
+    const { data, error } = await setReminderEnabled(db, reminder.id, enabled);
+    if (error || !data) {
+      console.error('Error updating reminder:', error);
+      toast.error('Could not update reminder');
+      return;
+    }
+    onReminderSaved(data);
+  }
+
+  async function handleResume(reminder: Reminder) {
+    const { data, error } = await snoozeReminder(db, reminder.id, null);
+    if (error || !data) {
+      console.error('Error updating reminder:', error);
+      toast.error('Could not update reminder');
+      return;
+    }
+    onReminderSaved(data);
+  }
+
+  async function handleDelete(reminder: Reminder) {
+    const { error } = await deleteReminder(db, reminder.id);
+    if (error) {
+      console.error('Error deleting reminder:', error);
+      toast.error('Could not delete reminder');
+      return;
+    }
+    onReminderDeleted(reminder.id);
+    if (editing?.id === reminder.id) setEditing(undefined);
+  }
+
+  async function handleSaveSettings() {
+    const values = {
+      quiet_start: quietHours ? quietStart : null,
+      quiet_end: quietHours ? quietEnd : null,
+      snooze_minutes: snoozeMinutes,
+    };
+    const problems = validateReminderSettings(values);
+    if (problems.length > 0) {
+      toast.error(problems[0]);
+      return;
+    }
+
+    setSavingSettings(true);
+    const { data, error } = await saveReminderSettings(db, { ...settings, ...values, user_id: userId });
+    setSavingSettings(false);
+    if (error || !data) {
+      console.error('Error saving reminder settings:', error);
+      toast.error('Could not save reminder settings');
+      return;
+    }
+    onSettingsSaved(data);
+    toast.success('Reminder settings saved');
+  }
+
+  const describeNext = (reminder: Reminder): string => {
+    if (!reminder.enabled) return 'Paused';
+    const at = settings && nextReminderAt(reminder, settings);
+    if (!at) return 'Not scheduled';
+    const when = format(at, 'EEE h:mm a');
+    return reminder.snoozed_until !== null && reminder.snoozed_until > Date.now()
+      ? `Snoozed until ${when}`
+      : `Next ${when}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reminders</DialogTitle>
+          <DialogDescription>
+            Get a nudge to log {tracker.name}. Reminders follow your account and arrive while Baseline is open, or even when it's closed if it's installed as an app.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {permission === null ? (
+            <p className="text-sm text-muted-foreground">This browser can't show notifications.</p>
+          ) : permission === 'denied' ? (
+            <p className="text-sm text-muted-foreground">
+              Notifications are blocked for this site. Allow them in your browser settings to get reminders.
+            </p>
+          ) : permission === 'default' && (
+            <div className="flex items-center justify-between gap-3 rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">Allow notifications so reminders can reach you.</p>
+              <Button size="sm" variant="outline" onClick={handleEnableNotifications} className="gap-1 shrink-0">
+                <Bell className="w-4 h-4" />
+                Allow
+              </Button>
+            </div>
+          )}
+
+          {reminders.length > 0 && (
+            <ul className="space-y-2">
+              {reminders.map(reminder => (
+                <li key={reminder.id} className="flex items-center gap-3 rounded-md border p-3">
+                  <Switch
+                    checked={reminder.enabled}
+                    onCheckedChange={checked => handleToggle(reminder, checked)}
+                    aria-label={reminder.enabled ? 'Pause reminder' : 'Resume reminder'}
+                  />
+                  <div className="flex-1 min-w-0 text-sm">
+                    <p className="font-medium">{describeReminder(reminder.schedule)}</p>
+                    <p className="text-muted-foreground">{describeNext(reminder)}</p>
+                  </div>
+                  {reminder.snoozed_until !== null && reminder.snoozed_until > Date.now() && (
+                    <Button variant="ghost" size="icon" onClick={() => handleResume(reminder)} aria-label="Cancel snooze">
+                      <BellOff className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(reminder)} aria-label="Edit reminder">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(reminder)} aria-label="Delete reminder">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {editing === undefined ? (
+            <Button variant="outline" onClick={() => setEditing(null)} className="w-full gap-2">
+              <Plus className="w-4 h-4" />
+              Add reminder
+            </Button>
+          ) : (
+            <div className="space-y-4 rounded-md border p-3">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={scheduleType}
+                onValueChange={value => value && setScheduleType(value as ScheduleType)}
+                className="w-full"
+              >
+                <ToggleGroupItem value="daily" className="flex-1">At set times</ToggleGroupItem>
+                <ToggleGroupItem value="interval" className="flex-1">Every few hours</ToggleGroupItem>
+              </ToggleGroup>
+
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                value={weekdays.map(String)}
+                onValueChange={values => setWeekdays(values.map(Number))}
+                className="w-full"
+                aria-label="Days"
+              >
+                {WEEKDAYS.map((day, i) => (
+                  <ToggleGroupItem key={day} value={String(i)} className="flex-1">{day}</ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+
+              {scheduleType === 'daily' ? (
+                <div className="space-y-2">
+                  <Label>Times</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {times.map((time, i) => (
+                      <div key={i} className="flex items-center gap-1">
+                        <Input
+                          type="time"
+                          value={time}
+                          onChange={e => setTimes(times.map((t, j) => (j === i ? e.target.value : t)))}
+                          className="w-28"
+                          aria-label={`Time ${i + 1}`}
+                        />
+                        {times.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setTimes(times.filter((_, j) => j !== i))}
+                            aria-label="Remove time"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <Button type="button" variant="outline" size="sm" onClick={() => setTimes([...times, '09:00'])} className="gap-1">
+                      <Plus className="w-4 h-4" />
+                      Time
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Repeat</Label>
+                  <Select value={String(everyHours)} onValueChange={value => setEveryHours(Number(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVAL_HOURS.map(hours => (
+                        <SelectItem key={hours} value={String(hours)}>
+                          {hours === 1 ? 'Every hour' : `Every ${hours} hours`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Counted from the end of quiet hours, stopping when they start.</p>
+                </div>
+              )}
+
+              {errors.length > 0 && (
+                <ul className="text-sm text-destructive list-disc pl-5">
+                  {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setEditing(undefined)}>Cancel</Button>
+                <Button size="sm" onClick={handleSave} disabled={saving}>
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-4 border-t pt-4">
+            <div>
+              <h3 className="text-sm font-medium">For all trackers</h3>
+              <p className="text-xs text-muted-foreground">Reminders due in quiet hours wait until they end.</p>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="quiet-hours">Quiet hours</Label>
+              <Switch id="quiet-hours" checked={quietHours} onCheckedChange={setQuietHours} />
+            </div>
+            {quietHours && (
+              <div className="flex items-center gap-2 text-sm">
+                <Input type="time" value={quietStart} onChange={e => setQuietStart(e.target.value)} className="w-28" aria-label="Quiet hours start" />
+                <span className="text-muted-foreground">to</span>
+                <Input type="time" value={quietEnd} onChange={e => setQuietEnd(e.target.value)} className="w-28" aria-label="Quiet hours end" />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-3">
+              <Label>Snooze for</Label>
+              <Select value={String(snoozeMinutes)} onValueChange={value => setSnoozeMinutes(Number(value))}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([...SNOOZE_OPTIONS, snoozeMinutes])].sort((a, b) => a - b).map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes < 60 ? `${minutes} min` : minutes === 60 ? '1 hour' : `${minutes / 60} hours`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end">
+              <Button size="sm" variant="outline" onClick={handleSaveSettings} disabled={savingSettings || !settings}>
+                {savingSettings && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save settings
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Report Dialog Component
+ *
+ * Picks the date range and patient name for a clinician report, previews it,
+ * and prints it (or saves it as PDF from the browser's print dialog).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Printer } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ClinicianReport } from '@/components/ClinicianReport';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import type { AssessmentResult } from '@/types/assessment';
+import { auth, db } from '@/runtime/appRuntime';
+import { buildReportData } from '@/services/reportService';
+import { loadResults } from '@/services/assessmentService';
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tracker: Tracker;
+  entries: PainEntry[];
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+
+/** Date input values are yyyy-MM-dd in local time */
+const toInputValue = (date: Date) => format(date, 'yyyy-MM-dd');
+const fromInputValue = (value: string) => new Date(`${value}T00:00:00`);
+
+export function ReportDialog({ open, onOpenChange, tracker, entries }: Readonly<ReportDialogProps>) {
+  const [fromDate, setFromDate] = useState(() => toInputValue(subDays(new Date(), DEFAULT_RANGE_DAYS - 1)));
+  const [toDate, setToDate] = useState(() => toInputValue(new Date()));
+  const [patientName, setPatientName] = useState('');
+  const [assessmentResults, setAssessmentResults] = useState<AssessmentResult[]>([]);
+
+  // Prefill the patient name from the user's profile
+  useEffect(() => {
+    if (!open) return;
+    const user = auth.getUser();
+    if (!user) return;
+
+    let cancelled = false;
+    db.select<{ display_name: string | null }>('profiles', {
+      columns: ['display_name'],
+      where: { id: user.id },
+    }).then(({ data }) => {
+      if (cancelled) return;
+      setPatientName(current => current || data?.[0]?.display_name || user.email || '');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    loadResults(db, tracker.id).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error('Error loading assessments:', error);
+      setAssessmentResults(data ?? []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, tracker.id]);
+
+  const rangeValid = fromDate !== '' && toDate !== '' && fromDate <= toDate;
+
+  const report = useMemo(
+    () => rangeValid
+      ? buildReportData(
+        tracker,
+        entries,
+        { from: fromInputValue(fromDate), to: fromInputValue(toDate) },
+        new Date(),
+        assessmentResults
+      )
+      : null,
+    [tracker, entries, fromDate, toDate, rangeValid, assessmentResults]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Clinician report</DialogTitle>
+          <DialogDescription>
+            A printable summary of {tracker.name} to share with your healthcare provider.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="report-patient">Patient name</Label>
+            <Input
+              id="report-patient"
+              value={patientName}
+              onChange={e => setPatientName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-from">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={e => setFromDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-to">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={e => setToDate(e.target.value)}
+            />
+          </div>
+          <Button className="gap-2" disabled={!report} onClick={() => window.print()}>
+            <Printer className="w-4 h-4" />
+            Print / Save PDF
+          </Button>
+        </div>
+
+        {report ? (
+          <div className="rounded-md border overflow-hidden">
+            <ClinicianReport data={report} patientName={patientName} />
+          </div>
+        ) : (
+          <p className="text-sm text-destructive">Choose a start date on or before the end date.</p>
+        )}
+
+        {/* Printed copy lives outside the dialog so it isn't clipped by its scroll area */}
+        {report && createPortal(
+          <div className="clinician-report-print hidden print:block">
+            <ClinicianReport data={report} patientName={patientName} />
+          </div>,
+          document.body
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
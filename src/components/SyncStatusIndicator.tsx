@@ -0,0 +1,100 @@
+/**
+ * Sync Status Indicator
+ * Header badge showing whether local writes have reached the backend
+ */
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CloudCheck, CloudArrowUp, CloudSlash, CloudWarning } from '@phosphor-icons/react';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { sync } from '@/runtime/appRuntime';
+import type { SyncStatus } from '@/ports/SyncPort';
+
+function describeStatus(status: SyncStatus): { label: string; detail: string } {
+  const pendingText = `${status.pending} ${status.pending === 1 ? 'change' : 'changes'} waiting to sync`;
+
+  switch (status.state) {
+    case 'syncing':
+      return { label: 'Syncing…', detail: pendingText };
+    case 'pending':
+      return { label: `Waiting · ${status.pending}`, detail: `${pendingText}. They'll sync shortly.` };
+    case 'offline':
+      return {
+        label: status.pending > 0 ? `Offline · ${status.pending}` : 'Offline',
+        detail: status.pending > 0
+          ? `${pendingText}. They're saved on this device and will sync when you're back online.`
+          : 'You can keep logging; entries will sync when you\'re back online.',
+      };
+    case 'error':
+      return {
+        label: 'Sync issue',
+        detail: [
+          status.pending > 0 ? `${pendingText}, retrying.` : null,
+          status.failed > 0 ? `${status.failed} could not be synced.` : null,
+          status.lastError,
+        ].filter(Boolean).join(' '),
+      };
+    default:
+      return {
+        label: 'Synced',
+        detail: status.lastSyncedAt
+          ? `Last synced ${formatDistanceToNow(status.lastSyncedAt, { addSuffix: true })}`
+          : 'All changes are saved',
+      };
+  }
+}
+
+function StatusIcon({ state }: Readonly<{ state: SyncStatus['state'] }>) {
+  switch (state) {
+    case 'syncing':
+      return <CloudArrowUp size={16} className="animate-pulse" />;
+    case 'pending':
+      return <CloudArrowUp size={16} />;
+    case 'offline':
+      return <CloudSlash size={16} />;
+    case 'error':
+      return <CloudWarning size={16} className="text-destructive" />;
+    default:
+      return <CloudCheck size={16} />;
+  }
+}
+
+export function SyncStatusIndicator() {
+  const [status, setStatus] = useState<SyncStatus>(() => sync.getStatus());
+
+  useEffect(() => {
+    const { unsubscribe } = sync.subscribe(setStatus);
+    return () => unsubscribe();
+  }, []);
+
+  // Nothing to sync in device-only mode
+  if (status.state === 'local-only') return null;
+
+  const { label, detail } = describeStatus(status);
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <button
+            type="button"
+            onClick={() => void sync.syncNow()}
+            className="flex items-center gap-1.5 rounded-md px-2 py-1 text-xs text-muted-foreground hover:bg-muted transition-colors"
+            aria-label={`Sync status: ${label}`}
+          >
+            <StatusIcon state={status.state} />
+            <span>{label}</span>
+          </button>
+        </TooltipTrigger>
+        <TooltipContent side="bottom" className="max-w-[240px] text-xs">
+          <p>{detail}</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
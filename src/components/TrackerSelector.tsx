@@ -47,10 +47,13 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { tracker as trackerService } from '@/runtime/appRuntime';
 import type { Tracker } from '@/types/tracker';
 import { TRACKER_PRESETS } from '@/types/tracker';
+import { SCALE_PRESETS, type ScaleDefinition } from '@/types/scale';
 import { generateTrackerConfig, getGenericConfig } from '@/services/configGenerationService';
+import { TRASH_RETENTION_DAYS } from '@/services/trashService';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
@@ -62,6 +65,16 @@ interface TrackerSelectorProps {
 
 type GenerationStep = 'input' | 'generating' | 'needs-description' | 'error';
 
+/** Scale picker value that leaves the choice to the preset or generated config */
+const SUGGESTED_SCALE = 'suggested';
+
+/**
+ * The scale picked in the create dialog, or undefined for the suggested one
+ */
+function chosenScale(choice: string): ScaleDefinition | undefined {
+  return SCALE_PRESETS.find(p => p.id === choice)?.scale;
+}
+
 /**
  * Get dialog title based on generation step
  */
@@ -205,6 +218,8 @@ interface DialogContentAreaProps {
   userDescription: string;
   setUserDescription: (value: string) => void;
   setNewTrackerName: (value: string) => void;
+  scaleChoice: string;
+  setScaleChoice: (value: string) => void;
   creating: boolean;
   handleCreateTracker: () => void;
   trackers: Tracker[];
@@ -225,6 +240,8 @@ function DialogContentArea({
   userDescription,
   setUserDescription,
   setNewTrackerName,
+  scaleChoice,
+  setScaleChoice,
   creating,
   handleCreateTracker,
   trackers,
@@ -306,6 +323,23 @@ function DialogContentArea({
           }}
         />
       </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="tracker-scale">Rating scale</Label>
+        <Select value={scaleChoice} onValueChange={setScaleChoice}>
+          <SelectTrigger id="tracker-scale">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SUGGESTED_SCALE}>Suggested for this tracker</SelectItem>
+            {SCALE_PRESETS.map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.label} · {preset.description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
       
       {/* Quick preset suggestions */}
       <div className="grid gap-2">
@@ -326,6 +360,7 @@ function DialogContentArea({
                   preset_id: preset.id,
                   icon: preset.icon,
                   color: preset.color,
+                  scale: chosenScale(scaleChoice),
                 });
                 if (result.data) {
                   toast.success(`Created "${preset.name}" tracker`);
@@ -357,6 +392,7 @@ export function TrackerSelector({
   const [loading, setLoading] = useState(true);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [newTrackerName, setNewTrackerName] = useState('');
+  const [scaleChoice, setScaleChoice] = useState(SUGGESTED_SCALE);
   const [creating, setCreating] = useState(false);
   
   // AI generation states
@@ -445,6 +481,7 @@ export function TrackerSelector({
         name: trackerName,
         type: 'custom',
         generated_config: genResult.config,
+        scale: chosenScale(scaleChoice),
         user_description: userDescription || undefined,
       });
 
@@ -504,6 +541,7 @@ export function TrackerSelector({
         name: newTrackerName.trim(),
         type: 'custom',
         generated_config: genResult.config,
+        scale: chosenScale(scaleChoice),
         user_description: userDescription.trim(),
       });
 
@@ -547,6 +585,7 @@ export function TrackerSelector({
       name: trackerName,
       type: 'custom',
       generated_config: genericConfig,
+      scale: chosenScale(scaleChoice),
     });
 
     if (result.error) {
@@ -577,6 +616,7 @@ export function TrackerSelector({
   function resetCreateDialog() {
     setCreateDialogOpen(false);
     setNewTrackerName('');
+    setScaleChoice(SUGGESTED_SCALE);
     setUserDescription('');
     setGenerationStep('input');
     setGenerationStatus('');
@@ -587,12 +627,15 @@ export function TrackerSelector({
     if (!trackerToDelete) return;
     
     setDeleting(true);
-    const result = await trackerService.deleteTracker(trackerToDelete.id);
+    const result = await trackerService.trashTracker(trackerToDelete.id);
     
     if (result.error) {
       toast.error(`Failed to delete: ${result.error.message}`);
     } else {
-      toast.success(`Deleted "${trackerToDelete.name}" tracker`);
+      const { id, name } = trackerToDelete;
+      toast.success(`Moved "${name}" to trash`, {
+        action: { label: 'Undo', onClick: () => handleUndoDeleteTracker(id) },
+      });
       setTrackers(prev => prev.filter(t => t.id !== trackerToDelete.id));
       
       // If we deleted the current tracker, switch to another one
@@ -610,6 +653,17 @@ export function TrackerSelector({
     setTrackerToDelete(null);
   }
 
+  async function handleUndoDeleteTracker(id: string) {
+    const { data, error } = await trackerService.restoreTracker(id);
+    if (error || !data) {
+      toast.error('Could not restore tracker');
+      return;
+    }
+    setTrackers(prev => [...prev.filter(t => t.id !== id), data]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at)));
+    toast.success(`Restored "${data.name}"`);
+  }
+
   function getTrackerIcon(tracker: Tracker) {
     // Map icon names to Lucide icons - for now just use Activity
     // In future phases, we'll have a proper icon picker
@@ -754,6 +808,8 @@ export function TrackerSelector({
             userDescription={userDescription}
             setUserDescription={setUserDescription}
             setNewTrackerName={setNewTrackerName}
+            scaleChoice={scaleChoice}
+            setScaleChoice={setScaleChoice}
             creating={creating}
             handleCreateTracker={handleCreateTracker}
             trackers={trackers}
@@ -788,14 +844,10 @@ export function TrackerSelector({
       }}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>⚠️ Delete "{trackerToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogTitle>Delete "{trackerToDelete?.name}"?</AlertDialogTitle>
             <AlertDialogDescription className="space-y-2">
-              <p>This action <strong>cannot be undone</strong>. This will permanently delete:</p>
-              <ul className="list-disc list-inside space-y-1 text-sm">
-                <li>The "{trackerToDelete?.name}" tracker</li>
-                <li>All entries associated with this tracker</li>
-                <li>All notes, tags, and history data</li>
-              </ul>
+              <p>The tracker and all its entries will be moved to the trash.</p>
+              <p>You can restore them from the trash for {TRASH_RETENTION_DAYS} days, after which they are deleted for good.</p>
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -808,12 +860,12 @@ export function TrackerSelector({
               {deleting ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Deleting...
+                  Moving...
                 </>
               ) : (
                 <>
                   <Trash2 className="mr-2 h-4 w-4" />
-                  Yes, Delete Forever
+                  Move to trash
                 </>
               )}
             </AlertDialogAction>
@@ -0,0 +1,67 @@
+/**
+ * Tracker Sparkline Component
+ *
+ * Tiny line of daily average intensity for a dashboard card. Days without
+ * entries leave a gap; a lone day shows as a dot.
+ */
+
+interface TrackerSparklineProps {
+  /** Daily values, oldest first; null for days without entries */
+  values: (number | null)[];
+  color: string;
+  /** Intensity range the y axis spans */
+  min?: number;
+  max?: number;
+}
+
+const WIDTH = 100;
+const HEIGHT = 24;
+const PADDING = 2;
+
+export function TrackerSparkline({ values, color, min = 1, max = 10 }: Readonly<TrackerSparklineProps>) {
+  const step = values.length > 1 ? WIDTH / (values.length - 1) : 0;
+  const y = (value: number) =>
+    PADDING + (1 - (value - min) / (max - min)) * (HEIGHT - PADDING * 2);
+
+  // Consecutive days with data form one segment
+  const segments: { x: number; y: number }[][] = [];
+  let current: { x: number; y: number }[] = [];
+  values.forEach((value, i) => {
+    if (value === null) {
+      if (current.length) segments.push(current);
+      current = [];
+    } else {
+      current.push({ x: i * step, y: y(value) });
+    }
+  });
+  if (current.length) segments.push(current);
+
+  if (segments.length === 0) return null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-6 overflow-visible"
+      role="img"
+      aria-label="Daily average over the last two weeks"
+    >
+      {segments.map((points, i) =>
+        points.length === 1 ? (
+          <circle key={i} cx={points[0].x} cy={points[0].y} r={1.5} fill={color} />
+        ) : (
+          <polyline
+            key={i}
+            points={points.map(p => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={1.5}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        )
+      )}
+    </svg>
+  );
+}
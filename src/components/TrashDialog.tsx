@@ -0,0 +1,306 @@
+/**
+ * Trash Dialog Component
+ *
+ * Trackers and entries moved to the trash, with how long each has left
+ * before it is purged. Anything can be restored or deleted for good, and
+ * the whole trash emptied at once.
+ */
+
+import { useEffect, useState } from 'react';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import { getTrackerConfig } from '@/types/tracker-config';
+import { db, tracker as trackerService } from '@/runtime/appRuntime';
+import { formatDate } from '@/lib/pain-utils';
+import { formatIntensity } from '@/services/scaleService';
+import {
+  TRASH_RETENTION_DAYS,
+  daysUntilPurge,
+  deleteEntryForever,
+  loadTrashedEntries,
+  restoreEntry,
+} from '@/services/trashService';
+import { toast } from 'sonner';
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  /** Trackers not in the trash, to name the tracker of each entry */
+  trackers: Tracker[];
+  onTrackerRestored: (tracker: Tracker) => void;
+  onEntryRestored: (entry: PainEntry) => void;
+}
+
+/** What the confirmation dialog is about to delete for good */
+type PendingDelete =
+  | { kind: 'tracker'; tracker: Tracker }
+  | { kind: 'entry'; entry: PainEntry }
+  | { kind: 'all' };
+
+export function TrashDialog({
+  open,
+  onOpenChange,
+  userId,
+  trackers,
+  onTrackerRestored,
+  onEntryRestored,
+}: Readonly<TrashDialogProps>) {
+  const [trashedTrackers, setTrashedTrackers] = useState<Tracker[]>([]);
+  const [trashedEntries, setTrashedEntries] = useState<PainEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([trackerService.getTrashedTrackers(), loadTrashedEntries(db, userId)]).then(([trackersResult, entriesResult]) => {
+      if (cancelled) return;
+      const error = trackersResult.error ?? entriesResult.error;
+      if (error) {
+        console.error(error);
+        toast.error('Could not load the trash');
+      }
+      setTrashedTrackers(trackersResult.data ?? []);
+      setTrashedEntries(entriesResult.data ?? []);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId]);
+
+  const trackerOf = (entry: PainEntry) =>
+    trackers.find(t => t.id === entry.tracker_id) ?? trashedTrackers.find(t => t.id === entry.tracker_id) ?? null;
+
+  const describeEntry = (entry: PainEntry) => {
+    const tracker = trackerOf(entry);
+    const config = getTrackerConfig(tracker?.preset_id, tracker?.generated_config, tracker?.scale);
+    return `${tracker?.name ?? 'Entry'} · ${formatIntensity(entry.intensity, config.scale)} · ${formatDate(entry.timestamp)}`;
+  };
+
+  async function handleRestoreTracker(tracker: Tracker) {
+    setBusyId(tracker.id);
+    const { data, error } = await trackerService.restoreTracker(tracker.id);
+    setBusyId(null);
+    if (error || !data) {
+      toast.error('Could not restore tracker');
+      return;
+    }
+    setTrashedTrackers(current => current.filter(t => t.id !== tracker.id));
+    onTrackerRestored(data);
+    toast.success(`Restored "${tracker.name}"`);
+  }
+
+  async function handleRestoreEntry(entry: PainEntry) {
+    setBusyId(entry.id);
+    const { data, error } = await restoreEntry(db, entry.id);
+    setBusyId(null);
+    if (error || !data) {
+      toast.error('Could not restore entry');
+      return;
+    }
+    setTrashedEntries(current => current.filter(e => e.id !== entry.id));
+    onEntryRestored(data);
+    toast.success('Entry restored');
+  }
+
+  async function deleteForever(pending: PendingDelete): Promise<Error | null> {
+    if (pending.kind === 'tracker') {
+      const { error } = await trackerService.deleteTracker(pending.tracker.id);
+      if (!error) setTrashedTrackers(current => current.filter(t => t.id !== pending.tracker.id));
+      return error;
+    }
+    if (pending.kind === 'entry') {
+      const { error } = await deleteEntryForever(db, pending.entry.id);
+      if (!error) setTrashedEntries(current => current.filter(e => e.id !== pending.entry.id));
+      return error;
+    }
+
+    for (const tracker of trashedTrackers) {
+      const error = await deleteForever({ kind: 'tracker', tracker });
+      if (error) return error;
+    }
+    for (const entry of trashedEntries) {
+      const error = await deleteForever({ kind: 'entry', entry });
+      if (error) return error;
+    }
+    return null;
+  }
+
+  async function handleConfirmDelete() {
+    if (!pendingDelete) return;
+    setBusyId('delete');
+    const error = await deleteForever(pendingDelete);
+    setBusyId(null);
+    setPendingDelete(null);
+    if (error) {
+      console.error(error);
+      toast.error('Could not delete for good');
+      return;
+    }
+    toast.success(pendingDelete.kind === 'all' ? 'Trash emptied' : 'Deleted for good');
+  }
+
+  const isEmpty = trashedTrackers.length === 0 && trashedEntries.length === 0;
+
+  const itemActions = (id: string, onRestore: () => void, onDelete: () => void) => (
+    <div className="flex shrink-0 gap-1">
+      <Button variant="ghost" size="sm" className="gap-1" disabled={busyId !== null} onClick={onRestore}>
+        {busyId === id ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+        Restore
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-destructive"
+        disabled={busyId !== null}
+        onClick={onDelete}
+        aria-label="Delete for good"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  const purgeNote = (deletedAt: string | null | undefined) => {
+    if (!deletedAt) return null;
+    const days = daysUntilPurge(deletedAt);
+    return days === 0 ? 'Deleted for good today' : `Deleted for good in ${days} ${days === 1 ? 'day' : 'days'}`;
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              Deleted trackers and entries stay here for {TRASH_RETENTION_DAYS} days before they are removed for good.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : isEmpty ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">The trash is empty.</p>
+          ) : (
+            <div className="space-y-6">
+              {trashedTrackers.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Trackers</h3>
+                  <ul className="space-y-2">
+                    {trashedTrackers.map(tracker => (
+                      <li key={tracker.id} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                        <div className="min-w-0">
+                          <p className="truncate font-medium">{tracker.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            With all its entries · {purgeNote(tracker.deleted_at)}
+                          </p>
+                        </div>
+                        {itemActions(
+                          tracker.id,
+                          () => handleRestoreTracker(tracker),
+                          () => setPendingDelete({ kind: 'tracker', tracker })
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {trashedEntries.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">Entries</h3>
+                  <ul className="space-y-2">
+                    {trashedEntries.map(entry => (
+                      <li key={entry.id} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                        <div className="min-w-0">
+                          <p className="truncate text-sm font-medium">{describeEntry(entry)}</p>
+                          {entry.notes && <p className="truncate text-xs text-muted-foreground">{entry.notes}</p>}
+                          <p className="text-xs text-muted-foreground">{purgeNote(entry.deleted_at)}</p>
+                        </div>
+                        {itemActions(
+                          entry.id,
+                          () => handleRestoreEntry(entry),
+                          () => setPendingDelete({ kind: 'entry', entry })
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="gap-2 text-destructive"
+              disabled={isEmpty || loading || busyId !== null}
+              onClick={() => setPendingDelete({ kind: 'all' })}
+            >
+              <Trash2 className="h-4 w-4" />
+              Empty trash
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={isOpen => !isOpen && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.kind === 'all'
+                ? 'Empty the trash?'
+                : pendingDelete?.kind === 'tracker'
+                  ? `Delete "${pendingDelete.tracker.name}" for good?`
+                  : 'Delete this entry for good?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.kind === 'tracker'
+                ? 'The tracker and all its entries will be gone. This cannot be undone.'
+                : 'This cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busyId === 'delete'}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              disabled={busyId === 'delete'}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {busyId === 'delete' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete for good
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
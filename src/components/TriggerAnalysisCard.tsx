@@ -0,0 +1,129 @@
+/**
+ * Trigger Analysis Card Component
+ *
+ * Ranked list of triggers and hashtags by how much intensity differs when
+ * they are present, on the same entry or in the 24 hours after.
+ */
+
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { PainEntry } from '@/types/pain-entry';
+import type { TrackerConfig } from '@/types/tracker-config';
+import {
+  LAG_HOURS,
+  MIN_SAMPLE,
+  analyzeTriggers,
+  formatDifference,
+  type TriggerEffect,
+} from '@/services/triggerAnalysisService';
+
+interface TriggerAnalysisCardProps {
+  entries: PainEntry[];
+  config: TrackerConfig;
+}
+
+const displayName = (effect: { kind: TriggerEffect['kind']; name: string }) =>
+  effect.kind === 'hashtag' ? `#${effect.name}` : effect.name;
+
+function EffectList({
+  effects,
+  config,
+  describe,
+}: Readonly<{
+  effects: TriggerEffect[];
+  config: TrackerConfig;
+  describe: (effect: TriggerEffect) => string;
+}>) {
+  if (effects.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-4 text-center">
+        Not enough entries yet to compare. Each needs at least {MIN_SAMPLE} entries with and without it.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="divide-y">
+      {effects.map(effect => (
+        <li
+          key={`${effect.kind}:${effect.name}`}
+          className={`flex items-start gap-3 py-3 ${effect.significant ? '' : 'opacity-60'}`}
+        >
+          <span
+            className="mt-1.5 w-2.5 h-2.5 rounded-full flex-shrink-0"
+            style={{ backgroundColor: config.getIntensityColor(Math.round(effect.meanWith)) }}
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{displayName(effect)}</span>
+              {effect.kind === 'hashtag' && <Badge variant="secondary">hashtag</Badge>}
+            </div>
+            <p className="text-sm">{describe(effect)}</p>
+            <p className="text-xs text-muted-foreground">
+              95% CI {formatDifference(effect.ciLow)} to {formatDifference(effect.ciHigh)}
+              {' · '}{effect.withCount} vs {effect.withoutCount} entries
+              {!effect.significant && ' · may be chance'}
+            </p>
+          </div>
+          <span className="text-sm font-semibold tabular-nums whitespace-nowrap">
+            {formatDifference(effect.difference)}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function TriggerAnalysisCard({ entries, config }: Readonly<TriggerAnalysisCardProps>) {
+  const analysis = useMemo(
+    () => analyzeTriggers(entries, { scale: config.intensityScale }),
+    [entries, config.intensityScale]
+  );
+  const level = config.intensityLabel.toLowerCase();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{config.triggersLabel} and {level}</CardTitle>
+        <CardDescription>
+          Average {level} with versus without each one, most concerning first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Tabs defaultValue="same">
+          <TabsList>
+            <TabsTrigger value="same">Same entry</TabsTrigger>
+            <TabsTrigger value="lagged">Next {LAG_HOURS} hours</TabsTrigger>
+          </TabsList>
+          <TabsContent value="same">
+            <EffectList
+              effects={analysis.sameEntry}
+              config={config}
+              describe={effect =>
+                `Entries with ${displayName(effect)} average ${effect.meanWith.toFixed(1)} vs ${effect.meanWithout.toFixed(1)} without (×${effect.lift.toFixed(2)})`
+              }
+            />
+          </TabsContent>
+          <TabsContent value="lagged">
+            <EffectList
+              effects={analysis.lagged}
+              config={config}
+              describe={effect =>
+                `Entries ${LAG_HOURS}h after ${displayName(effect)} average ${formatDifference(effect.difference)} (${effect.meanWith.toFixed(1)} vs ${effect.meanWithout.toFixed(1)})`
+              }
+            />
+          </TabsContent>
+        </Tabs>
+
+        {analysis.insufficient.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Too few entries to judge yet:{' '}
+            {analysis.insufficient.map(item => `${displayName(item)} (${item.withCount})`).join(', ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { db } from "@/runtime/appRuntime"
+import type { PainEntry } from "@/types/pain-entry"
+import {
+  EMPTY_TIMELINE,
+  TIMELINE_PAGE_SIZE,
+  appendPage,
+  cursorOf,
+  removeTimelineEntry,
+  timelinePageQuery,
+  upsertTimelineEntry,
+  type TimelineState,
+} from "@/services/entryTimelineService"
+
+/**
+ * Paged, newest-first entries for one tracker. Loads the first page when the
+ * tracker changes and more on demand; writes made elsewhere are applied with
+ * upsert/remove so the loaded pages stay in sync without a reload.
+ */
+export function useEntryTimeline(
+  trackerId: string | null,
+  onError: (error: Error) => void
+) {
+  const [timeline, setTimeline] = useState<TimelineState>(EMPTY_TIMELINE)
+  // First page for a tracker vs. further pages or a jump within the list
+  const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+
+  // Responses from an older tracker or anchor are dropped
+  const requestRef = useRef(0)
+  const onErrorRef = useRef(onError)
+  onErrorRef.current = onError
+
+  const loadFirstPage = useCallback(async (anchor: number | null, setBusy: (busy: boolean) => void) => {
+    if (!trackerId) return
+    const request = ++requestRef.current
+    setBusy(true)
+
+    const { data, error } = await db.select<PainEntry>(
+      "pain_entries",
+      timelinePageQuery(trackerId, { anchor })
+    )
+    if (request !== requestRef.current) return
+
+    if (error) {
+      onErrorRef.current(error)
+    } else {
+      setTimeline(appendPage({ ...EMPTY_TIMELINE, anchor }, data ?? []))
+    }
+    setBusy(false)
+  }, [trackerId])
+
+  useEffect(() => {
+    setTimeline(EMPTY_TIMELINE)
+    setLoadingMore(false)
+    loadFirstPage(null, setLoading)
+  }, [loadFirstPage])
+
+  const loadMore = useCallback(async () => {
+    if (!trackerId || loading || loadingMore || !timeline.hasMore) return
+    const request = requestRef.current
+    setLoadingMore(true)
+
+    const { data, error } = await db.select<PainEntry>(
+      "pain_entries",
+      timelinePageQuery(trackerId, { after: cursorOf(timeline.entries), anchor: timeline.anchor })
+    )
+    setLoadingMore(false)
+    if (request !== requestRef.current) return
+
+    if (error) {
+      onErrorRef.current(error)
+      return
+    }
+    setTimeline(current => appendPage(current, data ?? [], TIMELINE_PAGE_SIZE))
+  }, [trackerId, loading, loadingMore, timeline])
+
+  /** Start the list at a day (null returns to the latest entries) */
+  const jumpTo = useCallback((date: Date | null) => {
+    loadFirstPage(date ? date.getTime() : null, setLoadingMore)
+  }, [loadFirstPage])
+
+  const upsert = useCallback((entry: PainEntry) => {
+    setTimeline(current => upsertTimelineEntry(current, entry))
+  }, [])
+
+  const remove = useCallback((id: string) => {
+    setTimeline(current => removeTimelineEntry(current, id))
+  }, [])
+
+  const clear = useCallback(() => {
+    requestRef.current++
+    setTimeline(EMPTY_TIMELINE)
+    setLoading(false)
+    setLoadingMore(false)
+  }, [])
+
+  return { timeline, loading, loadingMore, loadMore, jumpTo, upsert, remove, clear }
+}
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { db } from "@/runtime/appRuntime"
+import type { Tracker } from "@/types/tracker"
+import {
+  REMINDER_MESSAGES,
+  REMINDER_PARAMS,
+  type Reminder,
+  type ReminderSettings,
+} from "@/types/reminder"
+import {
+  REMINDER_WORKER_URL,
+  buildReminderQueue,
+  loadReminderSettings,
+  loadReminders,
+  nextReminder,
+  notificationsSupported,
+  notifyReminderDue,
+  scheduleReminders,
+  snoozeReminder,
+} from "@/services/reminderService"
+
+/** Timers are re-armed at least this often, so a device waking from sleep catches up promptly */
+const MAX_WAIT_MS = 60 * 60 * 1000
+
+/**
+ * The user's reminders and reminder settings. Whenever they change the
+ * upcoming reminders are handed to the reminder worker, which shows them
+ * even with the app closed; while it is open the worker is also pinged the
+ * moment one is due. Taps come back from the worker as messages, or as a
+ * query parameter when it had to open the app, and snoozes taken in the
+ * worker come back to be saved.
+ */
+export function useReminders(
+  userId: string | null,
+  trackers: Tracker[],
+  onOpenTracker: (trackerId: string) => void
+) {
+  const [reminders, setReminders] = useState<Reminder[]>([])
+  const [settings, setSettings] = useState<ReminderSettings | null>(null)
+  // Bumped when a timer fires so the next reminder is worked out again
+  const [tick, setTick] = useState(0)
+  // Whether the reminder worker is active, so there is somewhere to send the queue
+  const [workerReady, setWorkerReady] = useState(false)
+  // The last reminder due; the next one must come after it
+  const lastDueRef = useRef(0)
+  const onOpenTrackerRef = useRef(onOpenTracker)
+  onOpenTrackerRef.current = onOpenTracker
+
+  useEffect(() => {
+    setReminders([])
+    setSettings(null)
+    if (!userId) return
+
+    let cancelled = false
+    const load = async () => {
+      const [list, saved] = await Promise.all([loadReminders(db, userId), loadReminderSettings(db, userId)])
+      if (cancelled) return
+
+      if (list.error || saved.error) {
+        console.error("[Reminders] Could not load reminders:", list.error ?? saved.error)
+        return
+      }
+      setReminders(list.data ?? [])
+      setSettings(saved.data)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  // The worker has to be registered on every visit, not just when permission is first given
+  useEffect(() => {
+    if (!userId || !notificationsSupported() || Notification.permission !== "granted") return
+    navigator.serviceWorker.register(REMINDER_WORKER_URL).catch(error => {
+      console.error("[Reminders] Could not register the reminder worker:", error)
+    })
+  }, [userId])
+
+  // Also resolves when the worker is first registered after permission is given
+  useEffect(() => {
+    if (!userId || !notificationsSupported()) return
+    let cancelled = false
+    navigator.serviceWorker.ready.then(() => {
+      if (!cancelled) setWorkerReady(true)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const upsertReminder = useCallback((reminder: Reminder) => {
+    setReminders(current => current.some(r => r.id === reminder.id)
+      ? current.map(r => (r.id === reminder.id ? reminder : r))
+      : [...current, reminder])
+  }, [])
+
+  const removeReminder = useCallback((id: string) => {
+    setReminders(current => current.filter(r => r.id !== id))
+  }, [])
+
+  // Save snoozes the worker took from a notification
+  const saveSnoozes = useCallback(async (snoozes: { reminderId: string; until: number }[]) => {
+    for (const { reminderId, until } of snoozes) {
+      const { data, error } = await snoozeReminder(db, reminderId, until)
+      if (error || !data) {
+        console.error("[Reminders] Could not snooze reminder:", error)
+        continue
+      }
+      upsertReminder(data)
+    }
+  }, [upsertReminder])
+
+  // Hand the worker every upcoming reminder so it can show them with the app closed
+  useEffect(() => {
+    if (!settings || !workerReady) return
+    scheduleReminders(buildReminderQueue(reminders, trackers, settings), settings).catch(error => {
+      console.error("[Reminders] Could not schedule reminders:", error)
+    })
+  }, [reminders, settings, trackers, workerReady])
+
+  // While the app is open, have the worker show the next reminder the moment it falls due
+  useEffect(() => {
+    if (!settings || !workerReady) return
+
+    const trackerIds = new Set(trackers.map(t => t.id))
+    const next = nextReminder(
+      reminders.filter(r => trackerIds.has(r.tracker_id)),
+      settings,
+      Math.max(Date.now(), lastDueRef.current)
+    )
+    if (!next) return
+
+    const timer = setTimeout(() => {
+      if (Date.now() >= next.at) {
+        lastDueRef.current = next.at
+        notifyReminderDue().catch(error => {
+          console.error("[Reminders] Could not show reminder:", error)
+        })
+      }
+      setTick(t => t + 1)
+    }, Math.min(Math.max(next.at - Date.now(), 0), MAX_WAIT_MS))
+
+    return () => clearTimeout(timer)
+  }, [reminders, settings, trackers, workerReady, tick])
+
+  // Taps and snoozes on notifications, from the worker
+  useEffect(() => {
+    if (!userId || !notificationsSupported()) return
+
+    const handleMessage = (event: MessageEvent) => {
+      const { type, trackerId, snoozes } = event.data ?? {}
+      if (type === REMINDER_MESSAGES.open && trackerId) onOpenTrackerRef.current(trackerId)
+      if (type === REMINDER_MESSAGES.snoozed && Array.isArray(snoozes)) saveSnoozes(snoozes)
+    }
+
+    navigator.serviceWorker.addEventListener("message", handleMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage)
+  }, [userId, saveSnoozes])
+
+  // ...and taps that opened the app, once there are trackers to open
+  useEffect(() => {
+    if (!userId || !settings || trackers.length === 0) return
+
+    const params = new URLSearchParams(globalThis.location.search)
+    const trackerId = params.get(REMINDER_PARAMS.open)
+    if (!trackerId) return
+
+    globalThis.history.replaceState(null, "", globalThis.location.pathname)
+    onOpenTrackerRef.current(trackerId)
+  }, [userId, settings, trackers.length])
+
+  return { reminders, settings, setSettings, upsertReminder, removeReminder }
+}
@@ -1,4 +1,6 @@
-import { PainEntry } from '@/types/pain-entry'
+import type { WhereClause } from '@/ports/DbPort'
+import type { PainEntry } from '@/types/pain-entry'
+import { locationVariants } from '@/types/body-map'
 
 export const getPainColor = (intensity: number): string => {
   if (intensity <= 3) return 'oklch(0.75 0.12 145)'
@@ -31,23 +33,73 @@ export const formatDate = (timestamp: number): string => {
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
 }
 
-export const filterEntriesByDateRange = (
-  entries: PainEntry[],
-  days: number | null
-): PainEntry[] => {
-  if (!days) return entries
-  
-  const cutoffDate = new Date()
-  cutoffDate.setDate(cutoffDate.getDate() - days)
-  
-  return entries.filter(entry => entry.timestamp >= cutoffDate.getTime())
+/**
+ * How long an entry lasted in ms: up to now while ongoing,
+ * null for a single moment
+ */
+export const getEntryDuration = (
+  entry: Pick<PainEntry, 'timestamp' | 'ended_at' | 'ongoing'>,
+  now: number = Date.now()
+): number | null => {
+  if (entry.ongoing) return Math.max(0, now - entry.timestamp)
+  if (entry.ended_at === null || entry.ended_at === undefined) return null
+  return Math.max(0, entry.ended_at - entry.timestamp)
 }
 
-export const filterEntriesByLocation = (
-  entries: PainEntry[],
-  location: string | null
-): PainEntry[] => {
-  if (!location) return entries
-  
-  return entries.filter(entry => entry.locations.includes(location))
+/**
+ * Compact duration such as "45m", "2h 30m" or "3d 4h"
+ */
+export const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.round(ms / 60000)
+  if (totalMinutes < 60) return `${totalMinutes}m`
+
+  const days = Math.floor(totalMinutes / 1440)
+  const hours = Math.floor((totalMinutes % 1440) / 60)
+  const minutes = totalMinutes % 60
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`
+}
+
+export interface EntryFilters {
+  /** Only entries from the last N days */
+  days?: number | null
+  location?: string | null
+  /** Free text matched against notes, triggers, locations, #hashtags and intensity */
+  search?: string
+}
+
+/**
+ * Escape LIKE wildcards so user text matches literally
+ */
+export const escapeLikePattern = (text: string): string =>
+  text.replace(/[\\%_]/g, '\\$&')
+
+/**
+ * Build the DbPort where conditions for the entry list filters,
+ * so the database does the filtering
+ */
+export const buildEntryFilterWhere = (
+  { days, location, search }: EntryFilters,
+  now: Date = new Date()
+): WhereClause => {
+  const where: WhereClause = {}
+
+  if (days) {
+    const cutoffDate = new Date(now)
+    cutoffDate.setDate(cutoffDate.getDate() - days)
+    where.timestamp = { gte: cutoffDate.getTime() }
+  }
+
+  if (location) {
+    // "knees" also finds entries logged on one side ("knees:left")
+    where.locations = { overlaps: locationVariants(location) }
+  }
+
+  const term = search?.trim()
+  if (term) {
+    where.search_text = { ilike: `%${escapeLikePattern(term)}%` }
+  }
+
+  return where
 }
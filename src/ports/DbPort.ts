@@ -3,14 +3,66 @@
  * Defines the contract for database providers
  */
 
+/**
+ * Comparison operators for a single column. Several operators on one column
+ * all have to hold, e.g. `{ gte: from, lt: to }`.
+ */
+export interface ColumnFilter {
+  eq?: unknown;
+  neq?: unknown;
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+  /** Inclusive range, shorthand for gte + lte */
+  between?: [number | string, number | string];
+  /** Column value is one of these */
+  in?: unknown[];
+  /** Array column holds every one of these */
+  contains?: unknown[];
+  /** Array column holds at least one of these */
+  overlaps?: unknown[];
+  /** Case-insensitive LIKE pattern (`%` any run, `_` one character, `\` escapes) */
+  ilike?: string;
+  /** `true` for IS NULL, `false` for IS NOT NULL */
+  isNull?: boolean;
+}
+
+/**
+ * Conditions ANDed together. A plain value means equality; an object made of
+ * ColumnFilter keys applies those operators.
+ */
+export type WhereClause = Record<string, unknown>;
+
+export interface OrderBy {
+  column: string;
+  ascending?: boolean;
+}
+
 export interface SelectOptions {
   columns?: string[];
-  where?: Record<string, unknown>;
-  orderBy?: { column: string; ascending?: boolean };
+  where?: WhereClause;
+  /** Rows must also match at least one of these clauses */
+  or?: WhereClause[];
+  /** One column, or several applied in turn to break ties */
+  orderBy?: OrderBy | OrderBy[];
   limit?: number;
   offset?: number;
 }
 
+export const FILTER_OPERATORS = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'contains', 'overlaps', 'ilike', 'isNull',
+] as const satisfies readonly (keyof ColumnFilter)[];
+
+/**
+ * Whether a where value is a ColumnFilter rather than a value to compare with
+ */
+export function isColumnFilter(value: unknown): value is ColumnFilter {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => (FILTER_OPERATORS as readonly string[]).includes(key));
+}
+
 export interface DbResult<T> {
   data: T | null;
   error: Error | null;
@@ -19,8 +71,14 @@ export interface DbResult<T> {
 export interface DbPort {
   select<T>(table: string, options?: SelectOptions): Promise<DbResult<T[]>>;
   insert<T>(table: string, values: Partial<T> | Partial<T>[]): Promise<DbResult<T>>;
-  update<T>(table: string, where: Record<string, unknown>, values: Partial<T>): Promise<DbResult<T>>;
-  delete(table: string, where: Record<string, unknown>): Promise<DbResult<null>>;
+  update<T>(table: string, where: WhereClause, values: Partial<T>): Promise<DbResult<T>>;
+  delete(table: string, where: WhereClause): Promise<DbResult<null>>;
+
+  /**
+   * Call a named database function (Postgres RPC, or its local equivalent)
+   * for aggregates that would otherwise mean fetching every row
+   */
+  rpc<T>(fn: string, args?: Record<string, unknown>): Promise<DbResult<T>>;
   
   /**
    * Execute raw SQL query (optional, only for SQL backends)
@@ -0,0 +1,35 @@
+/**
+ * Sync Port
+ * Defines the contract for background sync between local storage and the backend
+ */
+
+/**
+ * - 'local-only': no backend, nothing to sync (device-only mode)
+ * - 'idle': everything is synced
+ * - 'syncing': outbox is being replayed
+ * - 'pending': writes are queued and waiting for their turn or next retry
+ * - 'offline': writes are queued until the backend can be reached again
+ * - 'error': the backend rejected some writes
+ */
+export type SyncState = 'local-only' | 'idle' | 'syncing' | 'pending' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Writes waiting in the outbox */
+  pending: number;
+  /** Writes that were rejected by the backend and gave up retrying */
+  failed: number;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+export type SyncStatusCallback = (status: SyncStatus) => void;
+
+export interface SyncPort {
+  getStatus(): SyncStatus;
+  subscribe(callback: SyncStatusCallback): { unsubscribe: () => void };
+  /**
+   * Replay the outbox now, ignoring any backoff delay
+   */
+  syncNow(): Promise<void>;
+}
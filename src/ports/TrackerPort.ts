@@ -12,7 +12,8 @@ export interface TrackerResult<T> {
 
 export interface TrackerPort {
   /**
-   * Get all trackers for the current user
+   * Get all trackers for the current user (trashed ones excluded, as in
+   * every getter below)
    */
   getTrackers(): Promise<TrackerResult<Tracker[]>>;
   
@@ -37,7 +38,22 @@ export interface TrackerPort {
   updateTracker(id: string, input: UpdateTrackerInput): Promise<TrackerResult<Tracker>>;
   
   /**
-   * Delete a tracker (and all its entries)
+   * Move a tracker to the trash, hiding it (and its entries) until restored
+   */
+  trashTracker(id: string): Promise<TrackerResult<Tracker>>;
+  
+  /**
+   * Take a tracker back out of the trash
+   */
+  restoreTracker(id: string): Promise<TrackerResult<Tracker>>;
+  
+  /**
+   * Get the current user's trashed trackers, most recently trashed first
+   */
+  getTrashedTrackers(): Promise<TrackerResult<Tracker[]>>;
+  
+  /**
+   * Permanently delete a tracker (and all its entries)
    */
   deleteTracker(id: string): Promise<TrackerResult<null>>;
   
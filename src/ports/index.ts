@@ -6,3 +6,4 @@ export * from './AuthPort';
 export * from './KvPort';
 export * from './DbPort';
 export * from './TrackerPort';
+export * from './SyncPort';
@@ -8,8 +8,12 @@
  */
 
 import { localKv } from '@/adapters/local/localKv';
-import { noopAuth } from '@/adapters/noop/noopAuth';
-import { supabaseDb } from '@/adapters/supabase/supabaseDb';
+import { indexedDbDb } from '@/adapters/local/indexedDbDb';
+import { localAuth } from '@/adapters/local/localAuth';
+import { localTracker } from '@/adapters/local/localTracker';
+import { noopSync } from '@/adapters/noop/noopSync';
+import { syncedDb } from '@/adapters/sync/syncedDb';
+import { syncEngine } from '@/adapters/sync/syncEngine';
 import { supabaseAuth } from '@/adapters/supabase/supabaseAuth';
 import { supabaseTracker } from '@/adapters/supabase/supabaseTracker';
 
@@ -17,6 +21,7 @@ import type { KvPort } from '@/ports/KvPort';
 import type { AuthPort } from '@/ports/AuthPort';
 import type { DbPort } from '@/ports/DbPort';
 import type { TrackerPort } from '@/ports/TrackerPort';
+import type { SyncPort } from '@/ports/SyncPort';
 
 // =============================================================================
 // Environment Detection
@@ -30,19 +35,30 @@ const hasSupabaseEnv = Boolean(
 // Runtime Configuration
 // =============================================================================
 
+/**
+ * Runtime mode:
+ * - 'cloud': Supabase account, data synced to the backend
+ * - 'device': device-only diary, single local profile, data never leaves the browser
+ */
+export type RuntimeMode = 'cloud' | 'device';
+
 export interface RuntimeConfig {
+  mode: RuntimeMode;
   kvProvider: 'local' | 'supabase';
-  authProvider: 'noop' | 'supabase';
-  dbProvider: 'noop' | 'supabase';
+  authProvider: 'noop' | 'supabase' | 'local';
+  dbProvider: 'noop' | 'supabase' | 'indexeddb' | 'synced';
+  trackerProvider: 'supabase' | 'local';
 }
 
 /**
  * Current runtime configuration (determined by environment)
  */
 export const runtimeConfig: RuntimeConfig = {
+  mode: hasSupabaseEnv ? 'cloud' : 'device',
   kvProvider: 'local',
-  authProvider: hasSupabaseEnv ? 'supabase' : 'noop',
-  dbProvider: hasSupabaseEnv ? 'supabase' : 'noop',
+  authProvider: hasSupabaseEnv ? 'supabase' : 'local',
+  dbProvider: hasSupabaseEnv ? 'synced' : 'indexeddb',
+  trackerProvider: hasSupabaseEnv ? 'supabase' : 'local',
 };
 
 // =============================================================================
@@ -57,21 +73,28 @@ export const kv: KvPort = localKv;
 
 /**
  * Authentication
- * Uses Supabase if env vars present, otherwise no-op
+ * Uses Supabase if env vars present, otherwise a local device profile
  */
-export const auth: AuthPort = hasSupabaseEnv ? supabaseAuth : noopAuth;
+export const auth: AuthPort = hasSupabaseEnv ? supabaseAuth : localAuth;
 
 /**
  * Database
- * Uses Supabase if env vars present
+ * Local-first IndexedDB synced to Supabase if env vars present,
+ * otherwise the on-device IndexedDB store alone
+ */
+export const db: DbPort = hasSupabaseEnv ? syncedDb : indexedDbDb;
+
+/**
+ * Sync
+ * Outbox replay status for the header indicator (no-op in device-only mode)
  */
-export const db: DbPort = supabaseDb;
+export const sync: SyncPort = hasSupabaseEnv ? syncEngine : noopSync;
 
 /**
  * Tracker Service
  * Manages user trackers (multiple tracking types per user)
  */
-export const tracker: TrackerPort = supabaseTracker;
+export const tracker: TrackerPort = hasSupabaseEnv ? supabaseTracker : localTracker;
 
 // =============================================================================
 // Diagnostics Helpers
@@ -79,9 +102,11 @@ export const tracker: TrackerPort = supabaseTracker;
 
 export function getRuntimeStatus() {
   return {
+    mode: runtimeConfig.mode,
     kv: runtimeConfig.kvProvider,
     auth: runtimeConfig.authProvider,
     db: runtimeConfig.dbProvider,
+    tracker: runtimeConfig.trackerProvider,
     user: auth.getUser(),
   };
 }
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for assessmentService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assessmentAlerts,
+  assessmentsForTracker,
+  getAssessment,
+  nextDueAt,
+  scoreAssessment,
+  severityBand,
+} from '../assessmentService';
+import type { AssessmentDefinition, AssessmentResult, AssessmentSchedule } from '@/types/assessment';
+
+const definition = (id: string) => getAssessment(id) as AssessmentDefinition;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const result = (completedAt: number): AssessmentResult => ({
+  id: `result-${completedAt}`,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  assessment_id: 'phq9',
+  answers: {},
+  score: 5,
+  band: 'Mild',
+  subscales: {},
+  completed_at: completedAt,
+});
+
+describe('assessmentService', () => {
+  it('links assessments to presets, offering all of them to custom trackers', () => {
+    expect(assessmentsForTracker({ preset_id: 'chronic_pain' }).map(a => a.id)).toEqual(['bpi', 'odi']);
+    expect(assessmentsForTracker({ preset_id: 'mood' }).map(a => a.id)).toEqual(['phq9', 'gad7']);
+    expect(assessmentsForTracker({ preset_id: null })).toHaveLength(4);
+  });
+
+  it('sums PHQ-9 items into a banded total and flags item 9', () => {
+    const phq9 = definition('phq9');
+    const answers = { q1: 2, q2: 2, q3: 1, q4: 3, q5: 0, q6: 1, q7: 1, q8: 0, q9: 1 };
+
+    expect(scoreAssessment(phq9, answers)).toEqual({ score: 11, band: 'Moderate', subscales: {} });
+    const { q9: _unanswered, ...eight } = answers;
+    expect(scoreAssessment(phq9, eight)).toBeNull();
+    expect(assessmentAlerts(phq9, answers)).toHaveLength(1);
+    expect(assessmentAlerts(phq9, { ...answers, q9: 0 })).toEqual([]);
+    expect(severityBand(phq9, 4)).toBe('Minimal');
+    expect(severityBand(phq9, 20)).toBe('Severe');
+  });
+
+  it('averages BPI severity and interference separately', () => {
+    const scored = scoreAssessment(definition('bpi'), {
+      worst: 8, least: 3, average: 5, now: 6,
+      activity: 7, mood: 5, walking: 4, work: 6,
+    });
+
+    expect(scored).toEqual({ score: 5.5, band: 'Moderate', subscales: { interference: 5.5 } });
+  });
+
+  it('scores ODI as a percentage of the sections answered', () => {
+    const odi = definition('odi');
+    const eight = { pain: 2, care: 1, lifting: 3, walking: 1, sitting: 2, standing: 2, sleeping: 1, social: 2 };
+
+    // 14 of a possible 40 with two sections skipped
+    expect(scoreAssessment(odi, eight)).toEqual({ score: 35, band: 'Moderate disability', subscales: {} });
+    const { social: _skipped, ...seven } = eight;
+    expect(scoreAssessment(odi, seven)).toBeNull();
+  });
+
+  it('is due an interval after the latest result, or from its start', () => {
+    const schedule: AssessmentSchedule = {
+      id: 'schedule-1',
+      user_id: 'user-1',
+      tracker_id: 'tracker-1',
+      assessment_id: 'phq9',
+      interval_days: 14,
+      starts_at: 1_000,
+    };
+
+    expect(nextDueAt(schedule, [])).toBe(1_000);
+    expect(nextDueAt(schedule, [result(5 * DAY), result(2 * DAY)])).toBe(19 * DAY);
+    expect(nextDueAt({ ...schedule, assessment_id: 'gad7' }, [result(5 * DAY)])).toBe(1_000);
+  });
+});
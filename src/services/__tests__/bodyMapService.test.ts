@@ -0,0 +1,47 @@
+/**
+ * Unit tests for bodyMapService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bodyMapHeat, isBodyLocationSelected, toggleBodyLocation } from '../bodyMapService';
+import { locationVariants } from '@/types/body-map';
+import type { PainEntry } from '@/types/pain-entry';
+
+const entry = (id: string, intensity: number, locations: string[]): PainEntry => ({
+  id,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  timestamp: 1_000,
+  intensity,
+  locations,
+  notes: '',
+  triggers: [],
+  hashtags: [],
+});
+
+describe('bodyMapService', () => {
+  it('treats side-less values from older entries as both sides', () => {
+    expect(isBodyLocationSelected(['knees'], 'knees:left')).toBe(true);
+    expect(isBodyLocationSelected(['knees:right'], 'knees:left')).toBe(false);
+    expect(locationVariants('knees')).toEqual(['knees', 'knees:left', 'knees:right']);
+    expect(locationVariants('head')).toEqual(['head']);
+  });
+
+  it('toggles regions, splitting a side-less selection when one side is tapped', () => {
+    expect(toggleBodyLocation([], 'knees:left')).toEqual(['knees:left']);
+    expect(toggleBodyLocation(['knees:left'], 'knees:left')).toEqual([]);
+    expect(toggleBodyLocation(['head', 'knees'], 'knees:left')).toEqual(['head', 'knees:right']);
+  });
+
+  it('counts entries and averages intensity per region', () => {
+    const heat = bodyMapHeat([
+      entry('a', 8, ['knees', 'knees:left']),
+      entry('b', 4, ['knees:left', 'lower-back']),
+    ]);
+
+    expect(heat.get('knees:left')).toEqual({ count: 2, average: 6 });
+    expect(heat.get('knees:right')).toEqual({ count: 1, average: 8 });
+    expect(heat.get('lower-back')).toEqual({ count: 1, average: 4 });
+    expect(heat.has('knees')).toBe(false);
+  });
+});
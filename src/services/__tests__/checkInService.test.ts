@@ -0,0 +1,153 @@
+/**
+ * Unit tests for checkInService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  answerFromEntry,
+  blankAnswer,
+  buildCheckInEntries,
+  checkInTrackers,
+  loadYesterdayEntries,
+  locationOptions,
+  requiredFields,
+  saveCheckIn,
+  validateAnswer,
+} from '../checkInService';
+import { applySelectOptions, type Row } from '@/adapters/local/localQuery';
+import type { DbPort } from '@/ports/DbPort';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import { getTrackerConfig } from '@/types/tracker-config';
+import { SCALE_PRESETS } from '@/types/scale';
+
+const at = (day: number, hour: number) => new Date(2025, 5, day, hour).getTime();
+
+const tracker = (id: string, overrides: Partial<Tracker> = {}): Tracker => ({
+  id,
+  user_id: 'user-1',
+  name: id,
+  type: 'preset',
+  preset_id: 'mood',
+  icon: 'activity',
+  color: '#6366f1',
+  is_default: false,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  check_in: true,
+  ...overrides,
+});
+
+const entry = (trackerId: string, timestamp: number, intensity: number): PainEntry => ({
+  id: `${trackerId}-${timestamp}`,
+  user_id: 'user-1',
+  tracker_id: trackerId,
+  timestamp,
+  intensity,
+  locations: ['work'],
+  notes: '',
+  triggers: ['Stress'],
+  hashtags: [],
+});
+
+/** Reads from the given rows and records inserts */
+function fakeDb(rows: PainEntry[]) {
+  const inserts: unknown[] = [];
+  const db = {
+    select: async (_table: string, options = {}) => ({
+      data: applySelectOptions(rows as unknown as Row[], options),
+      error: null,
+    }),
+    insert: async (_table: string, values: unknown) => {
+      inserts.push(values);
+      return { data: null, error: null };
+    },
+  } as unknown as DbPort;
+  return { db, inserts };
+}
+
+describe('checkInService', () => {
+  it('includes only opted-in trackers', () => {
+    const trackers = [tracker('mood'), tracker('sleep', { check_in: false }), tracker('pain', { check_in: undefined })];
+    expect(checkInTrackers(trackers).map(t => t.id)).toEqual(['mood']);
+  });
+
+  it('starts blank answers mid-scale and copies earlier entries', () => {
+    const likert = SCALE_PRESETS.find(p => p.id === 'likert_1_5')!.scale;
+    expect(blankAnswer(getTrackerConfig('mood'))).toEqual({ intensity: 5, locations: [], triggers: [], fields: {} });
+    expect(blankAnswer(getTrackerConfig('mood', null, likert)).intensity).toBe(3);
+    expect(answerFromEntry(entry('mood', at(1, 9), 7))).toEqual({ intensity: 7, locations: ['work'], triggers: ['Stress'], fields: {} });
+  });
+
+  it('offers coarse body regions and keeps sided choices listed', () => {
+    const pain = getTrackerConfig('chronic_pain');
+    const options = locationOptions(pain, ['knees:left']);
+
+    expect(options.some(o => o.value === 'shoulders:right')).toBe(false);
+    expect(options[options.length - 1]).toEqual({ value: 'knees:left', label: 'Left knee' });
+  });
+
+  it('validates answers against the tracker', () => {
+    const pain = getTrackerConfig('chronic_pain');
+    expect(validateAnswer(pain, { intensity: 11, locations: ['head'], triggers: [], fields: {} })).toEqual(['Pick a value from 1 to 10']);
+    expect(validateAnswer(pain, { intensity: 4, locations: [], triggers: [], fields: {} })).toHaveLength(1);
+    expect(validateAnswer(pain, { intensity: 4, locations: ['head'], triggers: [], fields: {} })).toEqual([]);
+  });
+
+  it("asks for the tracker's required fields and checks them like the entry form", () => {
+    const sleep = tracker('sleep', {
+      fields: [
+        { key: 'hours_slept', label: 'Hours slept', type: 'number', min: 0, max: 24, required: true },
+        { key: 'woke_up', label: 'Woke up', type: 'boolean' },
+      ],
+    });
+    const fields = requiredFields(sleep);
+    const config = getTrackerConfig('mood');
+    const answer = { ...blankAnswer(config), locations: ['work'] };
+
+    expect(fields.map(f => f.key)).toEqual(['hours_slept']);
+    expect(validateAnswer(config, answer, fields)).toEqual(['Hours slept: Required']);
+    expect(validateAnswer(config, { ...answer, fields: { hours_slept: 30 } }, fields)).toHaveLength(1);
+    expect(validateAnswer(config, { ...answer, fields: { hours_slept: '7' } }, fields)).toEqual([]);
+
+    const [built] = buildCheckInEntries('user-1', [sleep], {
+      sleep: { ...answer, fields: { hours_slept: '7', woke_up: true, removed: 'x' } },
+    });
+    expect(built.fields).toEqual({ hours_slept: 7, woke_up: true });
+  });
+
+  it("finds each tracker's latest entry from yesterday", async () => {
+    const { db } = fakeDb([
+      entry('mood', at(1, 9), 4),
+      entry('mood', at(1, 20), 6),
+      entry('mood', at(2, 8), 8),
+      entry('sleep', at(1, 7), 3),
+      entry('pain', at(1, 10), 5),
+    ]);
+
+    const { data } = await loadYesterdayEntries(db, ['mood', 'sleep'], at(2, 12));
+
+    expect(Object.keys(data ?? {}).sort()).toEqual(['mood', 'sleep']);
+    expect(data?.mood.intensity).toBe(6);
+  });
+
+  it('builds one entry per answered tracker and saves them in one insert', async () => {
+    const trackers = [tracker('mood'), tracker('sleep'), tracker('pain')];
+    const entries = buildCheckInEntries('user-1', trackers, {
+      mood: { intensity: 6, locations: ['work'], triggers: [], fields: {} },
+      sleep: null,
+      pain: { intensity: 3, locations: ['head'], triggers: ['Stress'], fields: {} },
+    }, at(2, 21));
+
+    expect(entries.map(e => [e.tracker_id, e.intensity, e.timestamp])).toEqual([
+      ['mood', 6, at(2, 21)],
+      ['pain', 3, at(2, 21)],
+    ]);
+    expect(new Set(entries.map(e => e.id)).size).toBe(2);
+
+    const { db, inserts } = fakeDb([]);
+    expect(await saveCheckIn(db, entries)).toEqual({ error: null });
+    expect(await saveCheckIn(db, [])).toEqual({ error: null });
+    expect(inserts).toEqual([entries]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for crossTrackerService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  alignDaily,
+  describeCorrelation,
+  laggedCorrelations,
+  pearson,
+  type TrackerSide,
+} from '../crossTrackerService';
+import type { PainEntry } from '@/types/pain-entry';
+
+const entry = (trackerId: string, day: number, intensity: number, hour = 9): PainEntry => ({
+  id: `${trackerId}-${day}-${hour}`,
+  user_id: 'user-1',
+  tracker_id: trackerId,
+  timestamp: new Date(2025, 0, day, hour).getTime(),
+  intensity,
+  locations: [],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+});
+
+const sleep: TrackerSide = { name: 'Sleep', intensityLabel: 'Sleep Quality', intensityScale: 'low_bad' };
+const pain: TrackerSide = { name: 'Chronic Pain', intensityLabel: 'Pain Intensity', intensityScale: 'high_bad' };
+const exercise: TrackerSide = { name: 'Exercise', intensityLabel: 'Workout Intensity', intensityScale: 'neutral' };
+
+describe('crossTrackerService', () => {
+  it('computes Pearson correlation and rejects undefined cases', () => {
+    expect(pearson([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(pearson([1, 2, 3], [6, 4, 2])).toBeCloseTo(-1);
+    expect(pearson([1, 1, 1], [1, 2, 3])).toBeNull();
+    expect(pearson([1], [1])).toBeNull();
+  });
+
+  it('aligns both trackers into daily averages', () => {
+    const pairs = alignDaily(
+      [entry('sleep', 1, 4), entry('sleep', 1, 6, 21)],
+      [entry('pain', 3, 7)]
+    );
+
+    expect(pairs).toEqual([
+      { date: '2025-01-01', a: 5, b: null },
+      { date: '2025-01-02', a: null, b: null },
+      { date: '2025-01-03', a: null, b: 7 },
+    ]);
+  });
+
+  it('finds poor sleep predicting next-day pain', () => {
+    const sleepQuality = [8, 3, 7, 2, 9, 4, 6, 2, 8, 3, 7];
+    const sleepEntries = sleepQuality.map((q, i) => entry('sleep', i + 1, q));
+    // Pain the day after mirrors the night's sleep
+    const painEntries = sleepQuality.map((q, i) => entry('pain', i + 2, 11 - q));
+
+    const [sameDay, nextDay, , threeDays] = laggedCorrelations(sleepEntries, painEntries);
+
+    expect(nextDay).toEqual({ lag: 1, r: -1, n: 11 });
+    expect(Math.abs(sameDay.r ?? 0)).toBeLessThan(0.9);
+    expect(threeDays.n).toBe(9);
+  });
+
+  it('reports no coefficient with too few overlapping days', () => {
+    const result = laggedCorrelations([entry('a', 1, 3), entry('a', 2, 5)], [entry('b', 1, 4), entry('b', 2, 6)]);
+    expect(result[0]).toEqual({ lag: 0, r: null, n: 2 });
+  });
+
+  it('describes relationships in terms of each scale direction', () => {
+    const nextDay = describeCorrelation(-0.6, 1, sleep, pain);
+    expect(nextDay.strength).toBe('strong');
+    expect(nextDay.summary).toBe('Higher Sleep Quality goes with lower Pain Intensity the next day');
+    expect(nextDay.judgment).toBe('Worse Sleep tends to come before worse Chronic Pain');
+
+    expect(describeCorrelation(0.35, 0, sleep, pain).judgment).toBe('Worse Sleep goes with better Chronic Pain');
+    expect(describeCorrelation(0.4, 2, exercise, pain).judgment).toBeNull();
+    expect(describeCorrelation(0.05, 0, sleep, pain).summary).toContain('No clear link');
+  });
+});
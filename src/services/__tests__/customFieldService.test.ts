@@ -0,0 +1,116 @@
+/**
+ * Unit tests for customFieldService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_CUSTOM_FIELDS,
+  formatFieldValue,
+  parseFieldDefinitions,
+  toFieldKey,
+  validateFieldValues,
+} from '../customFieldService';
+import type { CustomFieldDefinition } from '@/types/custom-field';
+
+const bloodPressure: CustomFieldDefinition[] = [
+  { key: 'systolic', label: 'Systolic', type: 'number', unit: 'mmHg', min: 50, max: 250, required: true },
+  { key: 'took_meds', label: 'Took medication', type: 'boolean' },
+  { key: 'position', label: 'Position', type: 'single_select', options: [
+    { value: 'sitting', label: 'Sitting' },
+    { value: 'standing', label: 'Standing' },
+  ] },
+  { key: 'symptoms', label: 'Symptoms', type: 'multi_select', options: [
+    { value: 'dizzy', label: 'Dizzy' },
+    { value: 'headache', label: 'Headache' },
+  ] },
+  { key: 'slept', label: 'Slept', type: 'duration' },
+  { key: 'measured_at', label: 'Measured at', type: 'time' },
+];
+
+describe('customFieldService', () => {
+  describe('definitions', () => {
+    it('derives keys from labels', () => {
+      expect(toFieldKey('  Hours slept (total) ')).toBe('hours_slept_total');
+    });
+
+    it('keeps well-formed proposals and reports the rest', () => {
+      const { fields, errors } = parseFieldDefinitions([
+        { label: 'Systolic', type: 'number', unit: ' mmHg ', min: 50, max: 250, step: 0 },
+        { label: 'Position', type: 'single_select', options: ['Sitting', { value: 'standing', label: 'Standing' }] },
+        { label: 'Mood', type: 'single_select', options: ['Only one'] },
+        { label: 'Weight', type: 'number', min: 10, max: 5 },
+        { label: 'Colour', type: 'colour' },
+        { key: 'systolic', label: 'Systolic again', type: 'number' },
+        { type: 'text' },
+        'not a field',
+      ]);
+
+      expect(fields).toEqual([
+        { key: 'systolic', label: 'Systolic', type: 'number', unit: 'mmHg', min: 50, max: 250 },
+        { key: 'position', label: 'Position', type: 'single_select', options: [
+          { value: 'sitting', label: 'Sitting' },
+          { value: 'standing', label: 'Standing' },
+        ] },
+      ]);
+      expect(errors).toHaveLength(6);
+      expect(parseFieldDefinitions(undefined)).toEqual({ fields: [], errors: [] });
+      expect(parseFieldDefinitions({}).errors).toEqual(['Fields must be a list']);
+    });
+
+    it('caps the number of fields', () => {
+      const raw = Array.from({ length: MAX_CUSTOM_FIELDS + 2 }, (_, i) => ({ label: `Field ${i}`, type: 'boolean' }));
+      const { fields, errors } = parseFieldDefinitions(raw);
+
+      expect(fields).toHaveLength(MAX_CUSTOM_FIELDS);
+      expect(errors).toHaveLength(2);
+    });
+  });
+
+  describe('values', () => {
+    it('cleans valid values and leaves unset fields out', () => {
+      const { values, errors } = validateFieldValues(bloodPressure, {
+        systolic: '128',
+        took_meds: false,
+        position: 'sitting',
+        symptoms: ['headache', 'dizzy'],
+        slept: 450.4,
+        measured_at: '',
+        unknown: 'ignored',
+      });
+
+      expect(errors).toEqual({});
+      expect(values).toEqual({
+        systolic: 128,
+        took_meds: false,
+        position: 'sitting',
+        symptoms: ['dizzy', 'headache'],
+        slept: 450,
+      });
+    });
+
+    it('reports missing, out-of-range and unknown values per field', () => {
+      expect(validateFieldValues(bloodPressure, {}).errors).toEqual({ systolic: 'Required' });
+
+      const { values, errors } = validateFieldValues(bloodPressure, {
+        systolic: 300,
+        position: 'lying',
+        symptoms: ['nausea'],
+        measured_at: '25:00',
+      });
+
+      expect(values).toEqual({});
+      expect(Object.keys(errors)).toEqual(['systolic', 'position', 'symptoms', 'measured_at']);
+      expect(errors.systolic).toBe('Must be at most 250');
+    });
+
+    it('formats values for display', () => {
+      const [systolic, tookMeds, position, symptoms, slept] = bloodPressure;
+      expect(formatFieldValue(systolic, 128)).toBe('128 mmHg');
+      expect(formatFieldValue(tookMeds, true)).toBe('Yes');
+      expect(formatFieldValue(position, 'standing')).toBe('Standing');
+      expect(formatFieldValue(symptoms, ['dizzy', 'headache'])).toBe('Dizzy, Headache');
+      expect(formatFieldValue(slept, 450)).toBe('7h 30m');
+      expect(formatFieldValue(slept, 45)).toBe('45m');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for entryTimelineService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_TIMELINE,
+  appendPage,
+  cursorOf,
+  groupTimelineByDay,
+  removeTimelineEntry,
+  timelinePageQuery,
+  upsertTimelineEntry,
+} from '../entryTimelineService';
+import { applySelectOptions, type Row } from '@/adapters/local/localQuery';
+import type { SelectOptions } from '@/ports/DbPort';
+import type { PainEntry } from '@/types/pain-entry';
+
+/** Run a page query the way the local adapter would */
+const runQuery = (rows: PainEntry[], options: SelectOptions) =>
+  applySelectOptions<PainEntry>(rows as unknown as Row[], options);
+
+const entry = (id: string, day: number, hour = 9): PainEntry => ({
+  id,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  timestamp: new Date(2025, 0, day, hour).getTime(),
+  intensity: 5,
+  locations: [],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+});
+
+describe('entryTimelineService', () => {
+  it('pages through entries sharing a timestamp without gaps or repeats', () => {
+    const rows = [entry('a', 3), entry('b', 2), entry('c', 2), entry('d', 2), entry('e', 1)];
+    let state = EMPTY_TIMELINE;
+
+    for (let page = 0; page < 3; page++) {
+      const options = timelinePageQuery('tracker-1', { after: cursorOf(state.entries) }, 2);
+      state = appendPage(state, runQuery(rows, options), 2);
+    }
+
+    expect(state.entries.map(e => e.id)).toEqual(['a', 'd', 'c', 'b', 'e']);
+    expect(state.hasMore).toBe(false);
+  });
+
+  it('starts at the end of the anchor day', () => {
+    const rows = [entry('a', 5), entry('b', 3, 23), entry('c', 2)];
+    const options = timelinePageQuery('tracker-1', { anchor: new Date(2025, 0, 3, 8).getTime() }, 10);
+
+    expect(runQuery(rows, options).map(e => e.id)).toEqual(['b', 'c']);
+  });
+
+  it('keeps loaded pages consistent after writes', () => {
+    let state = appendPage(EMPTY_TIMELINE, [entry('a', 5), entry('b', 4)], 2);
+
+    state = upsertTimelineEntry(state, entry('new', 6));
+    expect(state.entries.map(e => e.id)).toEqual(['new', 'a', 'b']);
+
+    // Older than anything loaded while more pages remain: left for a later page
+    state = upsertTimelineEntry(state, entry('old', 1));
+    expect(state.entries.map(e => e.id)).not.toContain('old');
+
+    // Edited entry moves to its new position
+    state = upsertTimelineEntry(state, { ...entry('b', 4), timestamp: new Date(2025, 0, 7).getTime() });
+    expect(state.entries.map(e => e.id)).toEqual(['b', 'new', 'a']);
+
+    // ...or out of the loaded range
+    state = upsertTimelineEntry(state, { ...entry('new', 6), timestamp: new Date(2025, 0, 2).getTime() });
+    expect(state.entries.map(e => e.id)).toEqual(['b', 'a']);
+
+    state = removeTimelineEntry(state, 'b');
+    expect(state.entries.map(e => e.id)).toEqual(['a']);
+  });
+
+  it('breaks timestamp ties between UUIDs in the same order as the page query and Postgres', () => {
+    const ids = [
+      '0f8e2c1a-0000-4000-8000-000000000000',
+      'a0b1c2d3-0000-4000-8000-000000000000',
+      '9c0d1e2f-0000-4000-8000-000000000000',
+      'f0000000-0000-4000-8000-000000000000',
+      'a0b1c2d3-0000-4000-8000-00000000000b',
+    ];
+    const rows = ids.map(id => entry(id, 2));
+
+    // Descending byte order, as Postgres sorts uuid columns
+    const expected = [...ids].sort().reverse();
+    const cached = upsertTimelineEntry(appendPage(EMPTY_TIMELINE, rows.slice(1), 10), rows[0]);
+
+    expect(cached.entries.map(e => e.id)).toEqual(expected);
+    expect(runQuery(rows, timelinePageQuery('tracker-1')).map(e => e.id)).toEqual(expected);
+  });
+
+  it('skips entries newer than the anchor', () => {
+    const anchored = { ...EMPTY_TIMELINE, anchor: new Date(2025, 0, 3).getTime() };
+    expect(upsertTimelineEntry(anchored, entry('later', 4)).entries).toEqual([]);
+    expect(upsertTimelineEntry(anchored, entry('same-day', 3, 22)).entries).toHaveLength(1);
+  });
+
+  it('groups entries under day headers', () => {
+    const rows = groupTimelineByDay([entry('a', 2, 18), entry('b', 2, 8), entry('c', 1)]);
+
+    expect(rows.map(row => (row.type === 'day' ? `${row.key}:${row.count}` : row.key))).toEqual([
+      'day-2025-01-02:2',
+      'a',
+      'b',
+      'day-2025-01-01:1',
+      'c',
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for exportService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildBackup,
+  backupToJson,
+  entriesToCsv,
+  entriesToFhirBundle,
+  escapeCsvCell,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+} from '../exportService';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+
+const painTracker: Tracker = {
+  id: 'tracker-pain',
+  user_id: 'user-1',
+  name: 'Chronic Pain',
+  type: 'preset',
+  preset_id: 'chronic_pain',
+  icon: 'activity',
+  color: '#ef4444',
+  is_default: true,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  generated_config: null,
+};
+
+const moodTracker: Tracker = {
+  ...painTracker,
+  id: 'tracker-mood',
+  name: 'Mood',
+  preset_id: 'mood',
+  is_default: false,
+};
+
+const entries: PainEntry[] = [
+  {
+    id: 'entry-2',
+    user_id: 'user-1',
+    tracker_id: 'tracker-pain',
+    timestamp: Date.UTC(2025, 0, 3, 9, 30),
+    intensity: 8,
+    locations: ['lower-back', 'hips'],
+    notes: 'After gardening, "bad" day',
+    triggers: ['Physical Activity'],
+    hashtags: ['flareup'],
+  },
+  {
+    id: 'entry-1',
+    user_id: 'user-1',
+    tracker_id: 'tracker-mood',
+    timestamp: Date.UTC(2025, 0, 2, 20, 0),
+    intensity: 3,
+    locations: ['anxiety'],
+    notes: '',
+    triggers: [],
+    hashtags: [],
+  },
+];
+
+describe('exportService', () => {
+  describe('JSON backup', () => {
+    it('round-trips trackers and entries losslessly', () => {
+      const backup = buildBackup([painTracker, moodTracker], entries, new Date('2025-02-01T00:00:00Z'));
+      const parsed = JSON.parse(backupToJson(backup));
+
+      expect(parsed.format).toBe(BACKUP_FORMAT);
+      expect(parsed.version).toBe(BACKUP_VERSION);
+      expect(parsed.exported_at).toBe('2025-02-01T00:00:00.000Z');
+      expect(parsed.trackers).toEqual([painTracker, moodTracker]);
+      expect(parsed.entries).toEqual(entries);
+    });
+  });
+
+  describe('CSV', () => {
+    it('escapes cells containing delimiters, quotes and newlines', () => {
+      expect(escapeCsvCell('plain')).toBe('plain');
+      expect(escapeCsvCell('a,b')).toBe('"a,b"');
+      expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvCell('line\nbreak')).toBe('"line\nbreak"');
+    });
+
+    it('writes one row per entry in time order with joined arrays', () => {
+      const lines = entriesToCsv([painTracker, moodTracker], entries).split('\r\n');
+
+      expect(lines[0]).toBe(
+        'entry_id,tracker_id,tracker_name,date,timestamp,ended_at,ongoing,intensity,intensity_label,'
+        + 'locations,location_labels,triggers,hashtags,notes,interventions,follow_up_at,relief,relief_intensity,followed_up_at'
+      );
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toContain('entry-1,tracker-mood,Mood,2025-01-02T20:00:00.000Z');
+      expect(lines[1]).toContain(',Low,');
+      expect(lines[2]).toContain('lower-back; hips,Lower Back; Hips,Physical Activity,flareup,"After gardening, ""bad"" day"');
+      expect(lines[2]).toContain(',Severe,');
+    });
+
+    it('writes episode, body map, follow-up and custom field columns', () => {
+      const sleepTracker: Tracker = {
+        ...moodTracker,
+        id: 'tracker-sleep',
+        name: 'Sleep',
+        fields: [
+          { key: 'hours_slept', label: 'Hours slept', type: 'number' },
+          { key: 'woke_by', label: 'Woke by', type: 'multi_select', options: [{ value: 'noise', label: 'Noise' }, { value: 'pain', label: 'Pain' }] },
+        ],
+      };
+      const csv = entriesToCsv([painTracker, sleepTracker], [
+        {
+          ...entries[0],
+          locations: ['knees:left'],
+          ended_at: Date.UTC(2025, 0, 3, 11, 0),
+          interventions: ['Heat pack'],
+          follow_up_at: Date.UTC(2025, 0, 3, 10, 30),
+          relief: 'a_lot',
+          relief_intensity: 3,
+          followed_up_at: Date.UTC(2025, 0, 3, 10, 45),
+        },
+        { ...entries[1], tracker_id: 'tracker-sleep', ongoing: true, fields: { hours_slept: 6.5, woke_by: ['noise', 'pain'] } },
+      ]);
+      const [header, sleep, pain] = csv.split('\r\n');
+
+      expect(header.endsWith(',followed_up_at,field:hours_slept,field:woke_by')).toBe(true);
+      expect(sleep).toContain(',,true,3,');
+      expect(sleep.endsWith(',6.5,noise; pain')).toBe(true);
+      expect(pain).toContain('2025-01-03T11:00:00.000Z,false,8,');
+      expect(pain).toContain('knees:left,Left knee,');
+      expect(pain).toContain('Heat pack,2025-01-03T10:30:00.000Z,a_lot,3,2025-01-03T10:45:00.000Z,,');
+    });
+  });
+
+  describe('FHIR bundle', () => {
+    it('creates an Observation per entry', () => {
+      const bundle = entriesToFhirBundle([painTracker, moodTracker], entries);
+
+      expect(bundle.resourceType).toBe('Bundle');
+      expect(bundle.type).toBe('collection');
+      expect(bundle.entry).toHaveLength(2);
+
+      const pain = bundle.entry[0].resource;
+      expect(pain.resourceType).toBe('Observation');
+      expect(pain.code.coding?.[0].code).toBe('72514-3');
+      expect(pain.valueInteger).toBe(8);
+      expect(pain.subject.reference).toBe('Patient/user-1');
+      expect(pain.effectiveDateTime).toBe('2025-01-03T09:30:00.000Z');
+      expect(pain.component?.map(c => c.valueString)).toEqual(['Lower Back', 'Hips', 'Physical Activity']);
+      expect(pain.note?.[0].text).toBe('After gardening, "bad" day');
+      expect(pain.meta?.tag[0].code).toBe('flareup');
+    });
+
+    it('codes non-pain trackers by tracker, not LOINC pain severity', () => {
+      const mood = entriesToFhirBundle([painTracker, moodTracker], entries).entry[1].resource;
+
+      expect(mood.code.coding?.[0].code).toBe('tracker-mood');
+      expect(mood.code.text).toBe('Mood - Mood Level');
+      expect(mood.note).toBeUndefined();
+    });
+
+    it('gives episodes with an end a period instead of a moment', () => {
+      const episode = { ...entries[0], ended_at: Date.UTC(2025, 0, 3, 11, 0) };
+      const [observation] = entriesToFhirBundle([painTracker], [episode]).entry.map(e => e.resource);
+
+      expect(observation.effectiveDateTime).toBeUndefined();
+      expect(observation.effectivePeriod).toEqual({ start: '2025-01-03T09:30:00.000Z', end: '2025-01-03T11:00:00.000Z' });
+    });
+  });
+});
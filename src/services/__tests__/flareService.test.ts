@@ -0,0 +1,112 @@
+/**
+ * Unit tests for flareService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { daysSinceLastFlare, detectFlares, reconcileFlares, type FlareStats } from '../flareService';
+import type { PainEntry } from '@/types/pain-entry';
+import type { FlareEpisode } from '@/types/flare';
+
+const entry = (day: number, intensity: number, hashtags: string[] = []): PainEntry => ({
+  id: `entry-${day}`,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  timestamp: new Date(2025, 0, day, 9).getTime(),
+  intensity,
+  locations: [],
+  notes: '',
+  triggers: [],
+  hashtags,
+});
+
+const at = (day: number) => new Date(2025, 0, day, 9).getTime();
+
+const episode = (id: string, startDay: number, endDay: number, status: FlareEpisode['status']): FlareEpisode => ({
+  id,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  started_at: at(startDay),
+  ended_at: at(endDay),
+  peak_intensity: 8,
+  average_intensity: 7,
+  entry_count: 3,
+  status,
+});
+
+describe('flareService', () => {
+  it('detects a run of entries well above the baseline', () => {
+    const entries = [3, 4, 3, 3, 4, 3, 7, 8, 7, 3, 4].map((v, i) => entry(i + 1, v));
+
+    const flares = detectFlares(entries, { scale: 'high_bad' });
+
+    expect(flares).toEqual([{
+      started_at: at(7),
+      ended_at: at(9),
+      peak_intensity: 8,
+      average_intensity: 7.33,
+      entry_count: 3,
+    }]);
+  });
+
+  it('needs a baseline unless entries are tagged #flareup', () => {
+    expect(detectFlares([entry(1, 9), entry(2, 9), entry(3, 9)], { scale: 'high_bad' })).toEqual([]);
+
+    const tagged = detectFlares([entry(1, 6, ['flareup']), entry(2, 7, ['flareup'])], { scale: 'high_bad' });
+    expect(tagged).toHaveLength(1);
+    expect(tagged[0].entry_count).toBe(2);
+  });
+
+  it('treats drops as flares on low_bad scales', () => {
+    const entries = [7, 8, 7, 7, 8, 3, 2, 3, 8].map((v, i) => entry(i + 1, v));
+
+    const [flare] = detectFlares(entries, { scale: 'low_bad' });
+
+    expect(flare.started_at).toBe(at(6));
+    expect(flare.ended_at).toBe(at(8));
+    expect(flare.peak_intensity).toBe(2);
+  });
+
+  it('scales the threshold to the tracker range', () => {
+    const vas = { min: 0, max: 100, step: 1, bands: [20, 40, 60, 80] as [number, number, number, number] };
+    // 20 points is under 2 points of 1-10 on a 0-100 range; 30 is over
+    const slight = [30, 35, 30, 30, 35, 50, 50, 50].map((v, i) => entry(i + 1, v));
+    const sharp = [30, 35, 30, 30, 35, 60, 65, 60].map((v, i) => entry(i + 1, v));
+
+    expect(detectFlares(slight, { scale: 'high_bad', range: vas })).toEqual([]);
+    expect(detectFlares(sharp, { scale: 'high_bad', range: vas })).toHaveLength(1);
+  });
+
+  it('ends a run after a long gap between entries', () => {
+    const entries = [entry(1, 6, ['flareup']), entry(2, 6, ['flareup']), entry(10, 6, ['flareup'])];
+
+    const flares = detectFlares(entries, { scale: 'high_bad', minEntries: 2 });
+
+    expect(flares).toHaveLength(1);
+    expect(flares[0].ended_at).toBe(at(2));
+  });
+
+  it('reconciles detections with stored episodes', () => {
+    const grown: FlareStats = { started_at: at(1), ended_at: at(4), peak_intensity: 9, average_intensity: 7.5, entry_count: 4 };
+    const reviewedOverlap: FlareStats = { started_at: at(10), ended_at: at(13), peak_intensity: 8, average_intensity: 7, entry_count: 4 };
+    const fresh: FlareStats = { started_at: at(20), ended_at: at(22), peak_intensity: 7, average_intensity: 7, entry_count: 3 };
+
+    const changes = reconcileFlares([grown, reviewedOverlap, fresh], [
+      episode('growing', 1, 3, 'detected'),
+      episode('dismissed', 11, 12, 'dismissed'),
+      episode('stale', 15, 16, 'detected'),
+      episode('confirmed-old', 25, 27, 'confirmed'),
+    ]);
+
+    expect(changes.inserts).toEqual([fresh]);
+    expect(changes.updates).toEqual([{ id: 'growing', stats: grown }]);
+    expect(changes.deletes).toEqual(['stale']);
+  });
+
+  it('counts days since the last flare that was not dismissed', () => {
+    const now = new Date(2025, 0, 20, 18);
+
+    expect(daysSinceLastFlare([], now)).toBeNull();
+    expect(daysSinceLastFlare([episode('a', 1, 5, 'confirmed'), episode('b', 15, 18, 'dismissed')], now)).toBe(15);
+    expect(daysSinceLastFlare([episode('c', 18, 20, 'detected')], now)).toBe(0);
+  });
+});
@@ -8,6 +8,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock the supabase client
 vi.mock('@/adapters/supabase/supabaseClient', () => ({
+  isSupabaseConfigured: true,
   supabaseClient: {
     functions: {
       invoke: vi.fn(),
@@ -0,0 +1,218 @@
+/**
+ * Unit tests for importService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildImportPreview,
+  csvToRecords,
+  parseBackup,
+  parseCsv,
+  parseTimestamp,
+  resolveLocation,
+  suggestColumnMapping,
+} from '../importService';
+import { backupToJson, buildBackup, entriesToCsv } from '../exportService';
+import { getTrackerConfig } from '@/types/tracker-config';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+
+const painTracker: Tracker = {
+  id: 'tracker-pain',
+  user_id: 'user-1',
+  name: 'Chronic Pain',
+  type: 'preset',
+  preset_id: 'chronic_pain',
+  icon: 'activity',
+  color: '#ef4444',
+  is_default: true,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  generated_config: null,
+};
+
+const existing: PainEntry = {
+  id: 'entry-1',
+  user_id: 'user-1',
+  tracker_id: 'tracker-pain',
+  timestamp: Date.UTC(2025, 0, 3, 9, 30),
+  intensity: 8,
+  locations: ['lower-back'],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+};
+
+const ctx = { tracker: painTracker, userId: 'user-1', existingEntries: [existing] };
+
+describe('importService', () => {
+  describe('CSV parsing', () => {
+    it('handles quoted cells, escaped quotes, CRLF and blank lines', () => {
+      const rows = parseCsv('\uFEFFdate,notes\r\n2025-01-01,"a, ""b""\nc"\r\n\r\n2025-01-02,plain');
+
+      expect(rows).toEqual([
+        ['date', 'notes'],
+        ['2025-01-01', 'a, "b"\nc'],
+        ['2025-01-02', 'plain'],
+      ]);
+    });
+
+    it('suggests a column mapping from common header names', () => {
+      expect(suggestColumnMapping(['Date Time', 'Pain Level', 'Body Area', 'Tags', 'Comment'])).toEqual({
+        timestamp: 0,
+        intensity: 1,
+        locations: 2,
+        hashtags: 3,
+        notes: 4,
+      });
+    });
+
+    it('re-imports its own CSV export', () => {
+      const rows = parseCsv(entriesToCsv([painTracker], [existing]));
+      const preview = buildImportPreview(csvToRecords(rows, suggestColumnMapping(rows[0])), ctx);
+
+      expect(preview.duplicates).toBe(1);
+      expect(preview.rows[0].entry?.locations).toEqual(['lower-back']);
+    });
+
+    it('reads back episodes, follow-ups, body map sides and custom fields from its CSV export', () => {
+      const tracker: Tracker = {
+        ...painTracker,
+        fields: [
+          { key: 'flare', label: 'Flare', type: 'boolean' },
+          { key: 'woke_by', label: 'Woke by', type: 'multi_select', options: [{ value: 'noise', label: 'Noise' }, { value: 'pain', label: 'Pain' }] },
+        ],
+      };
+      const exported: PainEntry[] = [
+        {
+          ...existing,
+          id: 'entry-2',
+          timestamp: Date.UTC(2025, 0, 4, 9, 0),
+          ended_at: Date.UTC(2025, 0, 4, 11, 0),
+          locations: ['knees:left', 'lower-back'],
+          interventions: ['Heat pack', 'Rest'],
+          follow_up_at: Date.UTC(2025, 0, 4, 10, 0),
+          relief: 'a_little',
+          relief_intensity: 6,
+          followed_up_at: Date.UTC(2025, 0, 4, 10, 5),
+          fields: { flare: true, woke_by: ['noise', 'pain'] },
+        },
+        { ...existing, id: 'entry-3', timestamp: Date.UTC(2025, 0, 5, 9, 0), ongoing: true, fields: { flare: false } },
+      ];
+
+      const rows = parseCsv(entriesToCsv([tracker], exported));
+      const preview = buildImportPreview(csvToRecords(rows, suggestColumnMapping(rows[0])), { ...ctx, tracker });
+
+      expect(preview.rows.map(r => r.warnings)).toEqual([[], []]);
+      expect(preview.rows[0].entry).toMatchObject({
+        ended_at: Date.UTC(2025, 0, 4, 11, 0),
+        ongoing: false,
+        locations: ['knees:left', 'lower-back'],
+        interventions: ['Heat pack', 'Rest'],
+        relief: 'a_little',
+        relief_intensity: 6,
+        followed_up_at: Date.UTC(2025, 0, 4, 10, 5),
+        fields: { flare: true, woke_by: ['noise', 'pain'] },
+      });
+      expect(preview.rows[1].entry).toMatchObject({ ended_at: null, ongoing: true, fields: { flare: false } });
+    });
+  });
+
+  describe('value parsing', () => {
+    it('accepts ISO dates and epoch milliseconds or seconds', () => {
+      expect(parseTimestamp('2025-01-03T09:30:00.000Z')).toBe(existing.timestamp);
+      expect(parseTimestamp(String(existing.timestamp))).toBe(existing.timestamp);
+      expect(parseTimestamp(existing.timestamp / 1000)).toBe(existing.timestamp);
+      expect(parseTimestamp('yesterday-ish')).toBeNull();
+      expect(parseTimestamp('')).toBeNull();
+    });
+
+    it('resolves locations by value or label', () => {
+      const { locations } = getTrackerConfig('chronic_pain');
+
+      expect(resolveLocation('Lower Back', locations)).toBe('lower-back');
+      expect(resolveLocation('lower_back', locations)).toBe('lower-back');
+      expect(resolveLocation('elbow of destiny', locations)).toBeNull();
+    });
+  });
+
+  describe('preview', () => {
+    it('flags invalid rows, duplicates and unknown locations without saving', () => {
+      const preview = buildImportPreview([
+        { line: 2, timestamp: '2025-01-04T10:00:00Z', intensity: '5', locations: 'Neck; Elbow of destiny', triggers: 'stress', hashtags: '#Rainy' },
+        { line: 3, timestamp: '2025-01-04T11:00:00Z', intensity: '11' },
+        { line: 4, timestamp: 'not a date', intensity: 'high' },
+        { line: 5, timestamp: '2025-01-03T09:30:00Z', intensity: 8 },
+        { line: 6, timestamp: '2025-01-04T10:00:00Z', intensity: 5 },
+      ], ctx);
+
+      expect(preview.rows.map(r => r.status)).toEqual(['ready', 'invalid', 'invalid', 'duplicate', 'duplicate']);
+      expect({ ready: preview.ready, duplicates: preview.duplicates, invalid: preview.invalid })
+        .toEqual({ ready: 1, duplicates: 2, invalid: 2 });
+
+      const [ready, outOfRange, unparsable] = preview.rows;
+      expect(ready.entry).toMatchObject({
+        tracker_id: 'tracker-pain',
+        intensity: 5,
+        locations: ['neck'],
+        triggers: ['Stress'],
+        hashtags: ['rainy'],
+      });
+      expect(ready.warnings).toHaveLength(1);
+      expect(outOfRange.errors[0]).toContain('from 1 to 10');
+      expect(unparsable.errors).toHaveLength(2);
+    });
+
+    it('checks intensities against the tracker scale', () => {
+      const likertCtx = { ...ctx, tracker: { ...ctx.tracker, scale: { min: 1, max: 5, step: 1, bands: [1, 2, 3, 4] as [number, number, number, number] } } };
+      const preview = buildImportPreview([
+        { line: 2, timestamp: '2025-02-01T10:00:00Z', intensity: 4 },
+        { line: 3, timestamp: '2025-02-02T10:00:00Z', intensity: 8 },
+      ], likertCtx);
+
+      expect(preview.rows.map(r => r.status)).toEqual(['ready', 'invalid']);
+      expect(preview.rows[1].errors[0]).toContain('from 1 to 5');
+    });
+
+    it('reads end times and rejects ones before the start', () => {
+      const preview = buildImportPreview([
+        { line: 2, timestamp: '2025-01-05T10:00:00Z', ended_at: '2025-01-05T12:30:00Z', intensity: 6 },
+        { line: 3, timestamp: '2025-01-06T10:00:00Z', ended_at: '2025-01-06T09:00:00Z', intensity: 6 },
+        { line: 4, timestamp: '2025-01-07T10:00:00Z', ended_at: 'soon', intensity: 6 },
+        { line: 5, timestamp: '2025-01-08T10:00:00Z', ongoing: true, intensity: 6 },
+      ], ctx);
+
+      expect(preview.rows.map(r => r.status)).toEqual(['ready', 'invalid', 'invalid', 'ready']);
+      expect(preview.rows[0].entry).toMatchObject({ ended_at: Date.UTC(2025, 0, 5, 12, 30), ongoing: false });
+      expect(preview.rows[1].errors[0]).toContain('before the start');
+      expect(preview.rows[3].entry).toMatchObject({ ended_at: null, ongoing: true });
+    });
+
+    it('keeps interventions and only complete follow-up answers', () => {
+      const preview = buildImportPreview([
+        { line: 1, timestamp: 1_000, intensity: 7, interventions: ['Heat pack', 'Heat pack'], relief: 'a_lot', relief_intensity: 3, followed_up_at: 2_000 },
+        { line: 2, timestamp: 3_000, intensity: 7, interventions: ['Rest'], relief: 'sort of', relief_intensity: 3, followed_up_at: 4_000 },
+      ], ctx);
+
+      expect(preview.rows[0].entry).toMatchObject({
+        interventions: ['Heat pack'],
+        relief: 'a_lot',
+        relief_intensity: 3,
+        followed_up_at: 2_000,
+      });
+      expect(preview.rows[1].entry).toMatchObject({ interventions: ['Rest'], relief: null, relief_intensity: null });
+      expect(preview.rows[1].warnings[0]).toContain('follow-up answer');
+    });
+  });
+
+  describe('backup parsing', () => {
+    it('accepts backups from the exporter and rejects other files', () => {
+      const backup = parseBackup(backupToJson(buildBackup([painTracker], [existing])));
+      expect(backup.entries).toEqual([existing]);
+
+      expect(() => parseBackup('not json')).toThrow('not valid JSON');
+      expect(() => parseBackup('{"format":"other"}')).toThrow('Not a Baseline backup');
+      expect(() => parseBackup('{"format":"baseline-backup","version":99,"trackers":[],"entries":[]}')).toThrow('newer version');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for insightsService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCalendarHeatmap,
+  buildFrequencyBars,
+  buildTrendSeries,
+  buildWeekdayHourGrid,
+  summarizeDurations,
+} from '../insightsService';
+import type { PainEntry } from '@/types/pain-entry';
+
+const entry = (id: string, day: number, hour: number, intensity: number, overrides: Partial<PainEntry> = {}): PainEntry => ({
+  id,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  timestamp: new Date(2025, 0, day, hour).getTime(),
+  intensity,
+  locations: [],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+  ...overrides,
+});
+
+describe('insightsService', () => {
+  it('builds a daily series with a trailing rolling average that skips empty days', () => {
+    const series = buildTrendSeries([
+      entry('a', 1, 9, 2),
+      entry('b', 1, 20, 4),
+      entry('c', 3, 9, 9),
+      entry('d', 10, 9, 5),
+    ]);
+
+    expect(series).toHaveLength(10);
+    expect(series[0]).toEqual({ date: '2025-01-01', average: 3, rollingAverage: 3 });
+    expect(series[1]).toEqual({ date: '2025-01-02', average: null, rollingAverage: 3 });
+    expect(series[2].rollingAverage).toBe(5);
+    // Jan 1 has left the 7-day window by Jan 8
+    expect(series[7].rollingAverage).toBe(9);
+    expect(series[9].rollingAverage).toBe(5);
+  });
+
+  it('lays out the calendar heatmap in whole Sunday-first weeks with daily maxima', () => {
+    // Jan 1 2025 is a Wednesday
+    const weeks = buildCalendarHeatmap([entry('a', 1, 9, 2), entry('b', 1, 20, 7), entry('c', 6, 9, 4)]);
+
+    expect(weeks).toHaveLength(2);
+    expect(weeks[0][0].date).toBe('2024-12-29');
+    expect(weeks[0][3]).toEqual({ date: '2025-01-01', max: 7 });
+    expect(weeks[1][1]).toEqual({ date: '2025-01-06', max: 4 });
+    expect(weeks[1][2].max).toBeNull();
+  });
+
+  it('buckets entries by weekday and hour', () => {
+    const grid = buildWeekdayHourGrid([entry('a', 1, 9, 2), entry('b', 8, 9, 6), entry('c', 2, 23, 5)]);
+
+    expect(grid).toHaveLength(7);
+    expect(grid[3][9]).toEqual({ weekday: 3, hour: 9, count: 2, average: 4 });
+    expect(grid[4][23].count).toBe(1);
+    expect(grid[0][0].average).toBeNull();
+  });
+
+  it('ranks frequencies and averages intensity per item', () => {
+    const bars = buildFrequencyBars([
+      entry('a', 1, 9, 2, { locations: ['neck', 'neck'] }),
+      entry('b', 2, 9, 8, { locations: ['neck', 'hips'] }),
+    ], 'locations', value => value.toUpperCase());
+
+    expect(bars).toEqual([
+      { key: 'neck', label: 'NECK', count: 2, average: 5 },
+      { key: 'hips', label: 'HIPS', count: 1, average: 8 },
+    ]);
+  });
+
+  it('summarizes ended episodes and counts ongoing ones', () => {
+    const hour = 60 * 60 * 1000;
+    const start = new Date(2025, 0, 5, 9).getTime();
+    const summary = summarizeDurations([
+      entry('a', 5, 9, 6, { ended_at: start + 2 * hour }),
+      entry('b', 5, 9, 7, { ended_at: start + 4 * hour }),
+      entry('c', 5, 9, 8, { ongoing: true }),
+      entry('d', 5, 9, 3),
+    ], start + 10 * hour);
+
+    expect(summary).toEqual({ episodes: 3, ongoing: 1, averageMs: 3 * hour, longestMs: 4 * hour });
+    expect(summarizeDurations([entry('d', 5, 9, 3)])).toEqual({ episodes: 0, ongoing: 0, averageMs: null, longestMs: null });
+  });
+});
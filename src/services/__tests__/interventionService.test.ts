@@ -0,0 +1,46 @@
+/**
+ * Unit tests for interventionService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { followUpAnswer, interventionEffectiveness, isFollowUpDue } from '../interventionService';
+import type { PainEntry } from '@/types/pain-entry';
+
+const entry = (id: string, intensity: number, overrides: Partial<PainEntry> = {}): PainEntry => ({
+  id,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  timestamp: 1_000,
+  intensity,
+  locations: [],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+  ...overrides,
+});
+
+describe('interventionService', () => {
+  it('is due once the follow-up time passes until it is answered', () => {
+    const pending = entry('a', 7, { follow_up_at: 5_000 });
+
+    expect(isFollowUpDue(pending, 4_999)).toBe(false);
+    expect(isFollowUpDue(pending, 5_000)).toBe(true);
+    expect(isFollowUpDue({ ...pending, ...followUpAnswer('a_lot', 3, 6_000) }, 7_000)).toBe(false);
+    expect(isFollowUpDue(entry('b', 7), 7_000)).toBe(false);
+  });
+
+  it('averages the intensity drop and how often each intervention helped', () => {
+    const stats = interventionEffectiveness([
+      entry('a', 8, { interventions: ['Heat pack', 'Rest'], relief: 'a_lot', relief_intensity: 4 }),
+      entry('b', 6, { interventions: ['Heat pack'], relief: 'none', relief_intensity: 6 }),
+      entry('c', 7, { interventions: ['Heat pack'] }),
+      entry('d', 5, { interventions: ['Rest', 'Rest'], relief: 'a_little', relief_intensity: 4 }),
+      entry('e', 5),
+    ]);
+
+    expect(stats).toEqual([
+      { intervention: 'Heat pack', uses: 3, rated: 2, averageDrop: 2, helpedRate: 0.5 },
+      { intervention: 'Rest', uses: 2, rated: 2, averageDrop: 2.5, helpedRate: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for medicationService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeSchedule,
+  doseResponse,
+  matchDoses,
+  missedDoses,
+  nextDoseDue,
+  scheduledDoses,
+  slotForDose,
+  weeklyAdherence,
+} from '../medicationService';
+import type { Medication, MedicationDose } from '@/types/medication';
+import type { PainEntry } from '@/types/pain-entry';
+
+const HOUR = 60 * 60 * 1000;
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 5, day, hour, minute).getTime();
+
+const medication: Medication = {
+  id: 'med-1',
+  user_id: 'user-1',
+  name: 'Naproxen',
+  dose: 250,
+  unit: 'mg',
+  schedule: { type: 'daily', times: ['20:00', '08:00'] },
+  started_at: at(2, 0),
+  active: true,
+};
+
+let doseId = 0;
+const dose = (takenAt: number, scheduledFor: number | null = null): MedicationDose => ({
+  id: `dose-${++doseId}`,
+  user_id: 'user-1',
+  medication_id: 'med-1',
+  taken_at: takenAt,
+  scheduled_for: scheduledFor,
+  dose: 250,
+});
+
+const entry = (timestamp: number, intensity: number): PainEntry => ({
+  id: `entry-${timestamp}`,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  timestamp,
+  intensity,
+  locations: [],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+});
+
+describe('medicationService', () => {
+  it('describes schedules', () => {
+    expect(describeSchedule(medication.schedule)).toBe('Daily at 08:00, 20:00');
+    expect(describeSchedule({ type: 'weekly', weekdays: [4, 1], times: ['09:00'] })).toBe('Mon, Thu at 09:00');
+    expect(describeSchedule({ type: 'as_needed' })).toBe('As needed');
+  });
+
+  it('expands schedules from the start date, skipping other weekdays', () => {
+    expect(scheduledDoses(medication, at(1, 0), at(3, 12))).toEqual([at(2, 8), at(2, 20), at(3, 8)]);
+
+    // June 2 2025 is a Monday
+    const weekly: Medication = { ...medication, schedule: { type: 'weekly', weekdays: [1, 3], times: ['09:00'] } };
+    expect(scheduledDoses(weekly, at(1, 0), at(8, 23))).toEqual([at(2, 9), at(4, 9)]);
+
+    expect(scheduledDoses({ ...medication, active: false }, at(1, 0), at(8, 0))).toEqual([]);
+    expect(scheduledDoses({ ...medication, schedule: { type: 'as_needed' } }, at(1, 0), at(8, 0))).toEqual([]);
+  });
+
+  it('matches logged slots first, then the closest dose in the window', () => {
+    const logged = dose(at(2, 21), at(2, 20));
+    const near = dose(at(2, 9, 30));
+    const far = dose(at(3, 13));
+
+    expect(matchDoses([at(2, 8), at(2, 20), at(3, 8)], [far, near, logged])).toEqual([
+      { scheduled_for: at(2, 8), dose: near },
+      { scheduled_for: at(2, 20), dose: logged },
+      { scheduled_for: at(3, 8), dose: null },
+    ]);
+  });
+
+  it('attaches a new dose to the open slot it covers', () => {
+    expect(slotForDose(medication, [], at(3, 7))).toBe(at(3, 8));
+    expect(slotForDose(medication, [dose(at(3, 8), at(3, 8))], at(3, 9))).toBeNull();
+    expect(slotForDose(medication, [], at(3, 14))).toBeNull();
+  });
+
+  it('finds missed doses once their window has closed', () => {
+    const doses = [dose(at(2, 8), at(2, 8)), dose(at(3, 20, 30))];
+
+    expect(missedDoses(medication, doses, at(4, 9))).toEqual([at(3, 8), at(2, 20)]);
+    // The 08:00 dose on the 4th is still within its window
+    expect(nextDoseDue(medication, doses, at(4, 9))).toBe(at(4, 8));
+  });
+
+  it('computes weekly adherence over due slots only', () => {
+    const now = at(4, 9); // Wednesday
+    const doses = [dose(at(2, 8), at(2, 8)), dose(at(2, 20)), dose(at(3, 8, 15))];
+    const weeks = weeklyAdherence(medication, doses, now, 2);
+
+    expect(weeks).toEqual([
+      { weekStart: '2025-05-25', expected: 0, taken: 0, percentage: null },
+      // Jun 2 08/20, Jun 3 08/20 are due; Jun 4 08:00 is still open
+      { weekStart: '2025-06-01', expected: 4, taken: 3, percentage: 75 },
+    ]);
+  });
+
+  it('compares intensity before and after doses that have entries on both sides', () => {
+    const doses = [dose(at(2, 8)), dose(at(3, 8)), dose(at(4, 8))];
+    const entries = [
+      entry(at(2, 6), 8), entry(at(2, 7), 6), entry(at(2, 10), 4),
+      entry(at(3, 7), 6), entry(at(3, 11), 2),
+      entry(at(4, 9), 1), // nothing before this dose
+      entry(at(4, 8) + 5 * HOUR, 9), // outside the window
+    ];
+
+    expect(doseResponse(doses, entries)).toEqual({ doses: 2, before: 6.5, after: 3 });
+  });
+});
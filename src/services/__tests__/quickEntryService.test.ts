@@ -0,0 +1,94 @@
+/**
+ * Unit tests for quickEntryService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseQuickEntry } from '../quickEntryService';
+import { getTrackerConfig } from '@/types/tracker-config';
+import { SCALE_PRESETS } from '@/types/scale';
+
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 5, day, hour, minute).getTime();
+const NOW = at(2, 17, 30);
+
+const pain = getTrackerConfig('chronic_pain');
+
+describe('quickEntryService', () => {
+  it('parses a full line into entry parts', () => {
+    expect(parseQuickEntry('lower back 7 after gardening #flareup since 2pm', pain, NOW)).toEqual({
+      intensity: 7,
+      locations: ['lower-back'],
+      triggers: ['Gardening'],
+      hashtags: ['flareup'],
+      timestamp: at(2, 14),
+      timeGiven: true,
+      ongoing: true,
+      notes: '',
+    });
+  });
+
+  it('matches locations by label, longest first, including sides', () => {
+    expect(parseQuickEntry('Left knee and neck 4', pain, NOW).locations).toEqual(['knees:left', 'neck']);
+    expect(parseQuickEntry('upper-back 3', pain, NOW).locations).toEqual(['upper-back']);
+  });
+
+  it('matches triggers loosely and keeps the rest as a note', () => {
+    const entry = parseQuickEntry('stresed and sitting all day, bad headache 6', pain, NOW);
+
+    expect(entry.triggers).toEqual(['Stress', 'Prolonged Sitting']);
+    expect(entry.intensity).toBe(6);
+    expect(entry.notes).toBe('and all day bad headache');
+  });
+
+  it('reads intensity as N/max, N out of max, or a band name', () => {
+    expect(parseQuickEntry('neck 3/10 2 hours ago', pain, NOW)).toMatchObject({ intensity: 3, timestamp: at(2, 15, 30) });
+    expect(parseQuickEntry('neck five out of 10', pain, NOW).intensity).toBe(5);
+    expect(parseQuickEntry('severe neck', pain, NOW).intensity).toBe(7);
+    expect(parseQuickEntry('neck 12', pain, NOW)).toMatchObject({ intensity: null, notes: '12' });
+
+    const likert = getTrackerConfig('mood', null, SCALE_PRESETS.find(p => p.id === 'likert_1_5')!.scale);
+    expect(parseQuickEntry('7/10', likert, NOW).intensity).toBeNull();
+    expect(parseQuickEntry('4', likert, NOW).intensity).toBe(4);
+  });
+
+  it('reads relative times without going past now', () => {
+    const time = (text: string) => parseQuickEntry(`neck 4 ${text}`, pain, NOW).timestamp;
+
+    expect(time('30 min ago')).toBe(at(2, 17));
+    expect(time('half an hour ago')).toBe(at(2, 17));
+    expect(time('at 9:15')).toBe(at(2, 9, 15));
+    expect(time('since 8pm')).toBe(at(1, 20));
+    expect(time('since 3')).toBe(at(2, 15));
+    expect(time('this morning')).toBe(at(2, 9));
+    expect(time('tonight')).toBe(NOW);
+    expect(time('last night')).toBe(at(1, 22));
+    expect(time('yesterday 11 am')).toBe(at(1, 11));
+    expect(parseQuickEntry('neck 4', pain, NOW)).toMatchObject({ timestamp: NOW, timeGiven: false, ongoing: false });
+  });
+
+  it('skips amounts when looking for the intensity and prefers a number beside the pain', () => {
+    expect(parseQuickEntry('slept 5 hours, pain 6', pain, NOW)).toMatchObject({ intensity: 6, notes: 'slept 5 hours' });
+    expect(parseQuickEntry('walked 3 days in a row, knee 4', pain, NOW).intensity).toBe(4);
+    expect(parseQuickEntry('at 7', pain, NOW)).toMatchObject({ intensity: 7, timeGiven: false });
+  });
+
+  it('marks times after "since" or "started" as ongoing, including named times', () => {
+    expect(parseQuickEntry('pain 7/10 since this morning', pain, NOW)).toMatchObject({
+      intensity: 7,
+      timestamp: at(2, 9),
+      ongoing: true,
+      notes: '',
+    });
+    expect(parseQuickEntry('neck 4 started 20 min ago', pain, NOW)).toMatchObject({ timestamp: at(2, 17, 10), ongoing: true });
+    expect(parseQuickEntry('neck 4 since yesterday', pain, NOW)).toMatchObject({ timestamp: at(1, 17, 30), ongoing: true });
+    expect(parseQuickEntry('neck 4 this morning', pain, NOW).ongoing).toBe(false);
+  });
+
+  it('reads a bare hour after "at" as the time once the intensity is taken', () => {
+    expect(parseQuickEntry('head 5 at 10', pain, NOW)).toMatchObject({
+      intensity: 5,
+      timestamp: at(2, 10),
+      timeGiven: true,
+      notes: '',
+    });
+  });
+});
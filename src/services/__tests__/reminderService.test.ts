@@ -0,0 +1,114 @@
+/**
+ * Unit tests for reminderService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  afterQuietHours,
+  buildReminderQueue,
+  describeReminder,
+  isQuietTime,
+  nextReminder,
+  nextReminderAt,
+  reminderTimes,
+  validateReminder,
+  validateReminderSettings,
+} from '../reminderService';
+import type { Reminder, ReminderSchedule } from '@/types/reminder';
+
+// June 2, 2025 is a Monday
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 5, day, hour, minute).getTime();
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+const quiet = { quiet_start: '22:00', quiet_end: '07:00' };
+const noQuiet = { quiet_start: null, quiet_end: null };
+
+const reminder = (schedule: ReminderSchedule, overrides: Partial<Reminder> = {}): Reminder => ({
+  id: 'reminder-1',
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  schedule,
+  enabled: true,
+  snoozed_until: null,
+  ...overrides,
+});
+
+describe('reminderService', () => {
+  it('describes schedules', () => {
+    expect(describeReminder({ type: 'daily', weekdays: EVERY_DAY, times: ['21:00', '09:00'] }))
+      .toBe('Every day at 09:00, 21:00');
+    expect(describeReminder({ type: 'interval', weekdays: [5, 1], every_hours: 3 }))
+      .toBe('Mon, Fri every 3 hours while awake');
+  });
+
+  it('validates schedules and settings', () => {
+    expect(validateReminder({ type: 'daily', weekdays: [], times: ['9:00'] }))
+      .toEqual(['Pick at least one day', 'Times must be HH:mm']);
+    expect(validateReminder({ type: 'interval', weekdays: [1], every_hours: 0 })).toEqual(['Repeat every 1 to 12 hours']);
+    expect(validateReminderSettings({ quiet_start: '22:00', quiet_end: null, snooze_minutes: 30 }))
+      .toEqual(['Set both ends of quiet hours, or neither']);
+    expect(validateReminderSettings({ ...noQuiet, snooze_minutes: 10 })).toEqual([]);
+  });
+
+  it('finds quiet hours across midnight and when they end', () => {
+    expect(isQuietTime(at(2, 23), quiet)).toBe(true);
+    expect(isQuietTime(at(3, 6, 59), quiet)).toBe(true);
+    expect(isQuietTime(at(3, 7), quiet)).toBe(false);
+    expect(isQuietTime(at(3, 13), { quiet_start: '12:00', quiet_end: '14:00' })).toBe(true);
+    expect(isQuietTime(at(2, 23), noQuiet)).toBe(false);
+
+    expect(afterQuietHours(at(2, 23), quiet)).toBe(at(3, 7));
+    expect(afterQuietHours(at(3, 5), quiet)).toBe(at(3, 7));
+    expect(afterQuietHours(at(3, 9), quiet)).toBe(at(3, 9));
+  });
+
+  it('fires daily times on the chosen weekdays, holding quiet ones until morning', () => {
+    const schedule: ReminderSchedule = { type: 'daily', weekdays: [1, 3], times: ['09:00', '23:00'] };
+
+    expect(reminderTimes(schedule, quiet, at(2, 0), at(5, 8))).toEqual([at(2, 9), at(3, 7), at(4, 9), at(5, 7)]);
+    expect(reminderTimes(schedule, noQuiet, at(2, 10), at(4, 10))).toEqual([at(2, 23), at(4, 9)]);
+  });
+
+  it('repeats interval reminders from waking until quiet hours', () => {
+    const schedule: ReminderSchedule = { type: 'interval', weekdays: EVERY_DAY, every_hours: 4 };
+
+    expect(reminderTimes(schedule, quiet, at(2, 0), at(2, 23, 59))).toEqual([at(2, 11), at(2, 15), at(2, 19)]);
+    expect(reminderTimes({ ...schedule, every_hours: 8 }, noQuiet, at(2, 0), at(2, 23, 59))).toEqual([at(2, 8), at(2, 16)]);
+  });
+
+  it('uses a pending snooze instead of the schedule, and nothing while paused', () => {
+    const daily: ReminderSchedule = { type: 'daily', weekdays: EVERY_DAY, times: ['09:00', '12:00'] };
+
+    expect(nextReminderAt(reminder(daily), quiet, at(2, 9))).toBe(at(2, 12));
+    expect(nextReminderAt(reminder(daily, { snoozed_until: at(2, 9, 30) }), quiet, at(2, 9))).toBe(at(2, 9, 30));
+    expect(nextReminderAt(reminder(daily, { snoozed_until: at(2, 22, 30) }), quiet, at(2, 21))).toBe(at(3, 7));
+    expect(nextReminderAt(reminder(daily, { snoozed_until: at(2, 8) }), quiet, at(2, 9))).toBe(at(2, 12));
+    expect(nextReminderAt(reminder(daily, { enabled: false }), quiet, at(2, 9))).toBeNull();
+  });
+
+  it('picks the soonest reminder across trackers', () => {
+    const morning = reminder({ type: 'daily', weekdays: EVERY_DAY, times: ['08:00'] });
+    const hourly = reminder({ type: 'interval', weekdays: EVERY_DAY, every_hours: 1 }, { id: 'reminder-2' });
+
+    expect(nextReminder([morning, hourly], quiet, at(2, 6))).toEqual({ reminder: morning, at: at(2, 8) });
+    expect(nextReminder([morning, hourly], quiet, at(2, 8))).toEqual({ reminder: hourly, at: at(2, 9) });
+    expect(nextReminder([], quiet, at(2, 8))).toBeNull();
+  });
+
+  it('queues every firing for the worker, with snoozes in place of the schedule', () => {
+    const daily = reminder({ type: 'daily', weekdays: EVERY_DAY, times: ['09:00', '18:00'] }, { snoozed_until: at(2, 10) });
+    const paused = reminder({ type: 'daily', weekdays: EVERY_DAY, times: ['12:00'] }, { id: 'reminder-2', enabled: false });
+    const orphan = reminder({ type: 'daily', weekdays: EVERY_DAY, times: ['12:00'] }, { id: 'reminder-3', tracker_id: 'gone' });
+
+    const queue = buildReminderQueue([daily, paused, orphan], [{ id: 'tracker-1', name: 'Migraine' }], quiet, at(2, 8), at(3, 12));
+
+    expect(queue.map(q => q.at)).toEqual([at(2, 10), at(2, 18), at(3, 9)]);
+    expect(queue[0]).toEqual({
+      reminderId: 'reminder-1',
+      trackerId: 'tracker-1',
+      title: 'Time to log Migraine',
+      body: 'Tap to add an entry.',
+      at: at(2, 10),
+    });
+  });
+});
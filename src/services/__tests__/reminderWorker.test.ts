@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the reminder service worker (public/reminder-sw.js),
+ * run against fake worker globals
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { QueuedReminder } from '../reminderService';
+
+const WORKER_SOURCE = readFileSync(new URL('../../../public/reminder-sw.js', import.meta.url), 'utf8');
+
+const at = (hour: number, minute = 0) => Date.UTC(2025, 5, 2, hour, minute);
+
+const queued = (reminderId: string, time: number): QueuedReminder => ({
+  reminderId,
+  trackerId: `tracker-of-${reminderId}`,
+  title: `Time to log ${reminderId}`,
+  body: 'Tap to add an entry.',
+  at: time,
+});
+
+interface FakeWindow {
+  focused: boolean;
+  messages: unknown[];
+  postMessage: (message: unknown) => void;
+  focus: () => Promise<void>;
+}
+
+const fakeWindow = (): FakeWindow => {
+  const messages: unknown[] = [];
+  return { focused: true, messages, postMessage: message => messages.push(message), focus: async () => {} };
+};
+
+/** Runs the worker script and returns a way to send it events, plus what it did */
+function loadWorker(windows: FakeWindow[] = []) {
+  const listeners: Record<string, (event: Record<string, unknown>) => void> = {};
+  const stored = new Map<string, string>();
+  const shown: { title: string; options: { data: Record<string, unknown> } }[] = [];
+  const opened: string[] = [];
+
+  const self = {
+    addEventListener: (type: string, listener: (event: Record<string, unknown>) => void) => {
+      listeners[type] = listener;
+    },
+    skipWaiting: () => {},
+    caches: {
+      open: async () => ({
+        match: async (key: string) => (stored.has(key) ? new Response(stored.get(key)) : undefined),
+        put: async (key: string, response: Response) => {
+          stored.set(key, await response.text());
+        },
+      }),
+    },
+    registration: {
+      showNotification: async (title: string, options: { data: Record<string, unknown> }) => {
+        shown.push({ title, options });
+      },
+    },
+    clients: {
+      claim: async () => {},
+      matchAll: async () => windows,
+      openWindow: async (url: string) => {
+        opened.push(url);
+      },
+    },
+  };
+  new Function('self', WORKER_SOURCE)(self);
+
+  const dispatch = async (type: string, event: Record<string, unknown>) => {
+    const pending: Promise<unknown>[] = [];
+    listeners[type]({ ...event, waitUntil: (promise: Promise<unknown>) => pending.push(promise) });
+    await Promise.all(pending);
+  };
+  const message = (data: Record<string, unknown>, source?: FakeWindow) => dispatch('message', { data, source });
+  const click = (data: Record<string, unknown>, action = '') =>
+    dispatch('notificationclick', { action, notification: { data, close: () => {} } });
+
+  return { dispatch, message, click, shown, opened };
+}
+
+describe('reminder worker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows queued reminders as they fall due, once each and only the latest of missed ones', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const worker = loadWorker();
+
+    vi.setSystemTime(at(8));
+    await worker.message({
+      type: 'reminder-schedule',
+      queue: [queued('r1', at(9)), queued('r1', at(10)), queued('r2', at(12))],
+      snoozeMinutes: 30,
+    });
+
+    vi.setSystemTime(at(10, 30));
+    await worker.dispatch('periodicsync', { tag: 'reminders' });
+    await worker.message({ type: 'reminder-due' });
+    expect(worker.shown.map(s => s.title)).toEqual(['Time to log r1']);
+    expect(worker.shown[0].options).toMatchObject({ tag: 'reminder-r1', data: { reminderId: 'r1', trackerId: 'tracker-of-r1' } });
+
+    vi.setSystemTime(at(12));
+    await worker.message({ type: 'reminder-due' });
+    expect(worker.shown.map(s => s.title)).toEqual(['Time to log r1', 'Time to log r2']);
+  });
+
+  it('snoozes without opening the app and hands the snooze back with the next queue', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const worker = loadWorker();
+
+    vi.setSystemTime(at(8));
+    await worker.message({ type: 'reminder-schedule', queue: [queued('r1', at(9)), queued('r1', at(9, 15))], snoozeMinutes: 30 });
+    vi.setSystemTime(at(9));
+    await worker.message({ type: 'reminder-due' });
+
+    await worker.click(worker.shown[0].options.data, 'snooze');
+    expect(worker.opened).toEqual([]);
+
+    // The app posts a queue built before it knew of the snooze
+    vi.setSystemTime(at(9, 10));
+    const tab = fakeWindow();
+    await worker.message({ type: 'reminder-schedule', queue: [queued('r1', at(9, 15))], snoozeMinutes: 30 }, tab);
+    expect(tab.messages).toEqual([{ type: 'reminder-snoozed', snoozes: [{ reminderId: 'r1', until: at(9, 30) }] }]);
+
+    vi.setSystemTime(at(9, 20));
+    await worker.message({ type: 'reminder-due' });
+    expect(worker.shown).toHaveLength(1);
+
+    vi.setSystemTime(at(9, 30));
+    await worker.message({ type: 'reminder-due' });
+    expect(worker.shown).toHaveLength(2);
+  });
+
+  it('passes snoozes and taps to an open tab, and opens the app for a tap otherwise', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const tab = fakeWindow();
+    const worker = loadWorker([tab]);
+    const data = { reminderId: 'r1', trackerId: 'tracker-1', title: 'Time to log r1', body: '' };
+
+    vi.setSystemTime(at(9));
+    await worker.click(data, 'snooze');
+    await worker.click(data);
+    expect(tab.messages).toEqual([
+      { type: 'reminder-snoozed', snoozes: [{ reminderId: 'r1', until: at(9, 30) }] },
+      { type: 'reminder-open', trackerId: 'tracker-1' },
+    ]);
+
+    const closed = loadWorker();
+    await closed.click(data);
+    expect(closed.opened).toEqual(['/?log=tracker-1']);
+  });
+});
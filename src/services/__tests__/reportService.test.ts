@@ -0,0 +1,90 @@
+/**
+ * Unit tests for reportService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildReportData, intensitySeverity } from '../reportService';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+
+const painTracker: Tracker = {
+  id: 'tracker-pain',
+  user_id: 'user-1',
+  name: 'Chronic Pain',
+  type: 'preset',
+  preset_id: 'chronic_pain',
+  icon: 'activity',
+  color: '#ef4444',
+  is_default: true,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  generated_config: null,
+};
+
+const moodTracker: Tracker = { ...painTracker, id: 'tracker-mood', name: 'Mood', preset_id: 'mood' };
+
+const entry = (id: string, day: number, hour: number, intensity: number, overrides: Partial<PainEntry> = {}): PainEntry => ({
+  id,
+  user_id: 'user-1',
+  tracker_id: 'tracker-pain',
+  timestamp: new Date(2025, 0, day, hour).getTime(),
+  intensity,
+  locations: [],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+  ...overrides,
+});
+
+const entries = [
+  entry('e1', 1, 9, 4, { locations: ['lower-back'], triggers: ['Stress'] }),
+  entry('e2', 1, 18, 8, { locations: ['lower-back', 'hips'], triggers: ['Stress', 'Weather'], notes: 'Could not sleep' }),
+  entry('e3', 3, 12, 2, { notes: 'Good day' }),
+  entry('e4', 10, 12, 9, { notes: 'Outside the range' }),
+];
+
+const range = { from: new Date(2025, 0, 1), to: new Date(2025, 0, 5) };
+
+describe('reportService', () => {
+  it('summarizes the entries in range with one point per day', () => {
+    const report = buildReportData(painTracker, entries, range);
+
+    expect(report.entries.map(e => e.id)).toEqual(['e1', 'e2', 'e3']);
+    expect(report.summary).toEqual({ entryCount: 3, daysLogged: 2, totalDays: 5, average: 4.7, min: 2, max: 8 });
+    expect(report.daily).toHaveLength(5);
+    expect(report.daily[0]).toEqual({ date: '2025-01-01', count: 2, average: 6, min: 4, max: 8 });
+    expect(report.daily[1].average).toBeNull();
+    expect(report.distribution.find(d => d.intensity === 8)?.count).toBe(1);
+  });
+
+  it('ranks locations and triggers by frequency using tracker labels', () => {
+    const report = buildReportData(painTracker, entries, range);
+
+    expect(report.topLocations[0]).toEqual({ label: 'Lower Back', count: 2, share: 2 / 3 });
+    expect(report.topTriggers.map(t => t.label)).toEqual(['Stress', 'Weather']);
+    expect(report.config.intensityLabel).toBe('Pain Intensity');
+  });
+
+  it('picks notable notes from the bad end of the tracker scale', () => {
+    const noted = Array.from({ length: 10 }, (_, i) => entry(`n${i + 1}`, 2, i + 8, i + 1, { notes: `Note ${i + 1}` }));
+
+    const painNotes = buildReportData(painTracker, noted, range).notableNotes;
+    expect(painNotes.map(e => e.intensity)).toEqual([3, 4, 5, 6, 7, 8, 9, 10]);
+
+    const moodNotes = buildReportData(moodTracker, noted, range).notableNotes;
+    expect(moodNotes.map(e => e.intensity)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(intensitySeverity(2, 'low_bad')).toBeGreaterThan(intensitySeverity(8, 'low_bad'));
+  });
+
+  it('groups a 0-100 scale into bands for the distribution', () => {
+    const vasTracker: Tracker = { ...painTracker, scale: { min: 0, max: 100, step: 1, bands: [20, 40, 60, 80] } };
+    const vasEntries = [5, 20, 21, 55, 100].map((v, i) => entry(`v${i}`, 2, i + 8, v));
+
+    const report = buildReportData(vasTracker, vasEntries, range);
+
+    expect(report.distribution.map(d => [d.label, d.count])).toEqual([
+      ['0–20', 2], ['21–40', 1], ['41–60', 1], ['61–80', 0], ['81–100', 1],
+    ]);
+    expect(report.config.intensityMaxLabel).toBe('100 - Extreme');
+  });
+});
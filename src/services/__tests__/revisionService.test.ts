@@ -0,0 +1,99 @@
+/**
+ * Unit tests for revisionService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffEntries, loadRevisions, restoreRevision, revisionChanges } from '../revisionService';
+import { applySelectOptions, type Row } from '@/adapters/local/localQuery';
+import type { DbPort } from '@/ports/DbPort';
+import type { PainEntry } from '@/types/pain-entry';
+import type { EntryRevision } from '@/types/entry-revision';
+
+const entry = (overrides: Partial<PainEntry> = {}): PainEntry => ({
+  id: 'entry-1',
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  timestamp: 1000,
+  intensity: 5,
+  locations: ['head'],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+  ...overrides,
+});
+
+const revision = (id: string, data: PainEntry, changedAt: string, operation: EntryRevision['operation'] = 'update'): EntryRevision => ({
+  id,
+  entry_id: data.id,
+  user_id: data.user_id,
+  operation,
+  data,
+  changed_at: changedAt,
+});
+
+/** Reads from the given rows and records writes */
+function fakeDb(rows: Row[]) {
+  const writes: unknown[][] = [];
+  const db = {
+    select: async (_table: string, options = {}) => ({ data: applySelectOptions(rows, options), error: null }),
+    insert: async (table: string, values: Row) => {
+      writes.push(['insert', table, values]);
+      return { data: values, error: null };
+    },
+    update: async (table: string, where: Row, values: Row) => {
+      writes.push(['update', table, where, values]);
+      return { data: values, error: null };
+    },
+  } as unknown as DbPort;
+  return { db, writes };
+}
+
+describe('revisionService', () => {
+  it('lists changed fields, treating empty values alike', () => {
+    const before = entry({ intensity: 5, triggers: [], fields: { sleep: 6, mood: 'ok' } });
+    const after = entry({ intensity: 7, triggers: [], ended_at: null, fields: { mood: 'ok', sleep: 6 }, notes: 'worse' });
+
+    expect(diffEntries(before, after)).toEqual([
+      { field: 'intensity', label: 'Intensity', before: 5, after: 7 },
+      { field: 'notes', label: 'Notes', before: '', after: 'worse' },
+    ]);
+    expect(diffEntries(before, null).map(c => c.field)).toEqual(['intensity', 'timestamp', 'locations', 'fields']);
+  });
+
+  it('compares each revision with the version that replaced it', () => {
+    const first = entry({ intensity: 3 });
+    const second = entry({ intensity: 3, locations: ['neck'] });
+    const current = entry({ intensity: 6, locations: ['neck'] });
+    const revisions = [revision('r2', second, '2025-06-02T10:00:00Z'), revision('r1', first, '2025-06-01T10:00:00Z')];
+
+    expect(revisionChanges(revisions, current).map(r => [r.revision.id, r.changes.map(c => c.field)])).toEqual([
+      ['r2', ['intensity']],
+      ['r1', ['locations']],
+    ]);
+  });
+
+  it('loads an entry history newest first', async () => {
+    const { db } = fakeDb([
+      revision('r1', entry(), '2025-06-01T10:00:00Z') as unknown as Row,
+      revision('r3', entry({ id: 'entry-2' }), '2025-06-03T10:00:00Z') as unknown as Row,
+      revision('r2', entry(), '2025-06-02T10:00:00Z') as unknown as Row,
+    ]);
+
+    const { data } = await loadRevisions(db, 'entry-1');
+    expect(data?.map(r => r.id)).toEqual(['r2', 'r1']);
+  });
+
+  it('restores every entry field in place, or re-inserts a deleted entry', async () => {
+    const old = entry({ intensity: 3, notes: 'before', updated_at: '2025-06-01T10:00:00Z' });
+    const current = entry({ intensity: 8, notes: 'after', relief: 'a_lot' });
+    const { db, writes } = fakeDb([]);
+
+    const { data } = await restoreRevision(db, revision('r1', old, '2025-06-02T10:00:00Z'), current);
+    expect(data).toMatchObject({ id: 'entry-1', intensity: 3, notes: 'before', relief: null });
+    expect(writes[0]).toMatchObject(['update', 'pain_entries', { id: 'entry-1' }, { intensity: 3, relief: null }]);
+
+    await restoreRevision(db, revision('r2', old, '2025-06-02T10:00:00Z', 'delete'), null);
+    expect(writes[1][0]).toBe('insert');
+    expect(writes[1][2]).not.toHaveProperty('updated_at');
+  });
+});
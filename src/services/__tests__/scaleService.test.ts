@@ -0,0 +1,69 @@
+/**
+ * Unit tests for scaleService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evenBands,
+  isOnScale,
+  normalizeIntensity,
+  parseScale,
+  scaleMidpoint,
+  scaleTicks,
+  scaleValues,
+} from '../scaleService';
+import { DEFAULT_SCALE, SCALE_PRESETS, type ScaleDefinition } from '@/types/scale';
+
+const vas = SCALE_PRESETS.find(p => p.id === 'vas_0_100')?.scale as ScaleDefinition;
+const likert = SCALE_PRESETS.find(p => p.id === 'likert_1_5')?.scale as ScaleDefinition;
+
+describe('scaleService', () => {
+  it('splits a range into even fifths that match the presets', () => {
+    for (const { scale } of SCALE_PRESETS) {
+      expect(evenBands(scale.min, scale.max, scale.step)).toEqual(scale.bands);
+    }
+  });
+
+  it('accepts well-formed scales and fills in the step and bands', () => {
+    expect(parseScale({ min: 0, max: 10 })).toEqual({
+      scale: { min: 0, max: 10, step: 1, bands: [2, 4, 6, 8] },
+      error: null,
+    });
+    expect(parseScale({ min: 0, max: 100, step: 5, bands: [10, 30, 50, 70] }).scale?.bands).toEqual([10, 30, 50, 70]);
+    expect(parseScale({ ...likert, faces: [' 😀', '🙂', '😐', '😟', '😣'] }).scale?.faces?.[0]).toBe('😀');
+  });
+
+  it('rejects scales the app and database cannot hold', () => {
+    expect(parseScale('1-10').error).toBe('Scale is not an object');
+    expect(parseScale({ min: 0.5, max: 10 }).error).toMatch(/whole numbers/);
+    expect(parseScale({ min: 0, max: 1000 }).error).toMatch(/within 0–100/);
+    expect(parseScale({ min: 10, max: 1 }).error).toMatch(/below its maximum/);
+    expect(parseScale({ min: 0, max: 10, step: 3 }).error).toMatch(/divide/);
+    expect(parseScale({ min: 0, max: 10, bands: [6, 4, 2, 8] }).error).toMatch(/rising bounds/);
+    expect(parseScale({ min: 0, max: 10, faces: ['😀'] }).error).toMatch(/5 emoji/);
+  });
+
+  it('lists and checks the values a scale allows', () => {
+    expect(scaleValues(likert)).toEqual([1, 2, 3, 4, 5]);
+    expect(scaleValues({ ...vas, step: 25 })).toEqual([0, 25, 50, 75, 100]);
+    expect(isOnScale(5, likert)).toBe(true);
+    expect(isOnScale(0, likert)).toBe(false);
+    expect(isOnScale(2.5, likert)).toBe(false);
+    expect(isOnScale(30, { ...vas, step: 25 })).toBe(false);
+  });
+
+  it('starts ratings in the middle and spreads axis ticks across the range', () => {
+    expect(scaleMidpoint(DEFAULT_SCALE)).toBe(5);
+    expect(scaleMidpoint(likert)).toBe(3);
+    expect(scaleMidpoint(vas)).toBe(50);
+    expect(scaleTicks(DEFAULT_SCALE)).toEqual([1, 4, 7, 10]);
+    expect(scaleTicks(vas, 3)).toEqual([0, 50, 100]);
+  });
+
+  it('puts different scales on a common 0-100 footing', () => {
+    expect(normalizeIntensity(10, DEFAULT_SCALE)).toBe(100);
+    expect(normalizeIntensity(1, DEFAULT_SCALE)).toBe(0);
+    expect(normalizeIntensity(3, likert)).toBe(50);
+    expect(normalizeIntensity(50, vas)).toBe(50);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for trashService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { daysUntilPurge, loadTrashedEntries, purgeTrash } from '../trashService';
+import { timelinePageQuery } from '../entryTimelineService';
+import { applySelectOptions, matchesWhere, type Row } from '@/adapters/local/localQuery';
+import type { DbPort, WhereClause } from '@/ports/DbPort';
+import type { TrackerPort } from '@/ports/TrackerPort';
+import type { PainEntry } from '@/types/pain-entry';
+import type { Tracker } from '@/types/tracker';
+
+const NOW = Date.parse('2025-07-01T12:00:00Z');
+
+const entry = (id: string, overrides: Partial<PainEntry> = {}): Row => ({
+  id,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  timestamp: 1000,
+  intensity: 5,
+  locations: [],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+  deleted_at: null,
+  ...overrides,
+});
+
+/** Reads from and deletes out of the given rows */
+function fakeDb(rows: Row[]) {
+  const db = {
+    select: async (_table: string, options = {}) => ({ data: applySelectOptions(rows, options), error: null }),
+    delete: async (_table: string, where: WhereClause) => {
+      for (let i = rows.length - 1; i >= 0; i--) {
+        if (matchesWhere(rows[i], where)) rows.splice(i, 1);
+      }
+      return { data: null, error: null };
+    },
+  } as unknown as DbPort;
+  return { db, rows };
+}
+
+/** Hands out the given trashed trackers and records which were deleted */
+function fakeTrackers(trashed: Partial<Tracker>[]) {
+  const deleted: string[] = [];
+  const port = {
+    getTrashedTrackers: async () => ({ data: trashed, error: null }),
+    deleteTracker: async (id: string) => {
+      deleted.push(id);
+      return { error: null };
+    },
+  } as unknown as TrackerPort;
+  return { port, deleted };
+}
+
+describe('trashService', () => {
+  it('counts the days left before a trashed row is purged', () => {
+    expect(daysUntilPurge('2025-07-01T08:00:00Z', NOW)).toBe(30);
+    expect(daysUntilPurge('2025-06-02T08:00:00Z', NOW)).toBe(1);
+    expect(daysUntilPurge('2025-05-01T08:00:00Z', NOW)).toBe(0);
+  });
+
+  it('purges only what has been in the trash past the retention period', async () => {
+    const { db, rows } = fakeDb([
+      entry('kept'),
+      entry('recent', { deleted_at: '2025-06-20T10:00:00.000Z' }),
+      entry('old', { deleted_at: '2025-05-20T10:00:00.000Z' }),
+      entry('other-user', { user_id: 'user-2', deleted_at: '2025-05-20T10:00:00.000Z' }),
+    ]);
+    const { port, deleted } = fakeTrackers([
+      { id: 'tracker-recent', deleted_at: '2025-06-20T10:00:00.000Z' },
+      { id: 'tracker-old', deleted_at: '2025-05-20T10:00:00.000Z' },
+    ]);
+
+    const { error } = await purgeTrash(db, port, 'user-1', NOW);
+
+    expect(error).toBeNull();
+    expect(rows.map(r => r.id)).toEqual(['kept', 'recent', 'other-user']);
+    expect(deleted).toEqual(['tracker-old']);
+  });
+
+  it('lists trashed entries most recently trashed first', async () => {
+    const { db } = fakeDb([
+      entry('a', { deleted_at: '2025-06-10T10:00:00.000Z' }),
+      entry('b'),
+      entry('c', { deleted_at: '2025-06-20T10:00:00.000Z' }),
+    ]);
+
+    const { data } = await loadTrashedEntries(db, 'user-1');
+    expect(data?.map(e => e.id)).toEqual(['c', 'a']);
+  });
+
+  it('leaves trashed entries out of the timeline', () => {
+    const rows = [entry('a', { timestamp: 3 }), entry('b', { timestamp: 2, deleted_at: '2025-06-20T10:00:00.000Z' }), entry('c', { timestamp: 1 })];
+
+    const page = applySelectOptions<PainEntry>(rows, timelinePageQuery('tracker-1'));
+    expect(page.map(e => e.id)).toEqual(['a', 'c']);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for triggerAnalysisService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeTriggers, compareGroups, formatDifference } from '../triggerAnalysisService';
+import type { PainEntry } from '@/types/pain-entry';
+
+const HOUR = 60 * 60 * 1000;
+const start = new Date(2025, 0, 1, 8).getTime();
+
+const entry = (i: number, hoursAfterStart: number, intensity: number, overrides: Partial<PainEntry> = {}): PainEntry => ({
+  id: `e${i}`,
+  user_id: 'user-1',
+  tracker_id: 'tracker-1',
+  timestamp: start + hoursAfterStart * HOUR,
+  intensity,
+  locations: [],
+  notes: '',
+  triggers: [],
+  hashtags: [],
+  ...overrides,
+});
+
+/**
+ * Ten days, two entries a day. 'Stress' comes with high intensity; every
+ * other evening has 'Sleep Issues' and the next morning is worse.
+ */
+function buildEntries(): PainEntry[] {
+  const entries: PainEntry[] = [];
+  for (let day = 0; day < 10; day++) {
+    const poorSleep = day % 2 === 0;
+    const afterPoorSleep = day % 2 === 1;
+    entries.push(entry(day * 2, day * 24, afterPoorSleep ? 6 : 3, {
+      triggers: day < 6 && day % 3 === 0 ? ['Stress'] : [],
+    }));
+    entries.push(entry(day * 2 + 1, day * 24 + 12, 4, {
+      triggers: poorSleep ? ['Sleep Issues'] : [],
+      hashtags: day < 2 ? ['rainy'] : [],
+    }));
+  }
+  // Make stressed mornings clearly worse
+  return entries.map(e => (e.triggers.includes('Stress') ? { ...e, intensity: e.intensity + 4 } : e));
+}
+
+describe('triggerAnalysisService', () => {
+  it('computes means, lift and a confidence interval for two groups', () => {
+    const effect = compareGroups('trigger', 'Stress', [7, 8, 9, 8, 8], [3, 4, 3, 4, 3, 4]);
+
+    expect(effect.meanWith).toBe(8);
+    expect(effect.meanWithout).toBe(3.5);
+    expect(effect.difference).toBe(4.5);
+    expect(effect.lift).toBe(2.29);
+    expect(effect.ciLow).toBeGreaterThan(0);
+    expect(effect.ciHigh).toBeGreaterThan(effect.ciLow);
+    expect(effect.significant).toBe(true);
+  });
+
+  it('holds back triggers below the minimum sample size', () => {
+    const analysis = analyzeTriggers(buildEntries(), { scale: 'high_bad' });
+
+    expect(analysis.sameEntry.map(e => e.name)).toEqual(['Sleep Issues']);
+    expect(analysis.insufficient).toEqual([
+      { kind: 'hashtag', name: 'rainy', withCount: 2 },
+      { kind: 'trigger', name: 'Stress', withCount: 2 },
+    ]);
+
+    const withStress = analyzeTriggers(buildEntries(), { scale: 'high_bad', minSample: 2 });
+    expect(withStress.sameEntry[0]).toMatchObject({ name: 'Stress', significant: true });
+  });
+
+  it('finds effects in the hours after a trigger', () => {
+    // Sleep Issues is logged in the evening; only the next morning falls within 18h
+    const analysis = analyzeTriggers(buildEntries(), { scale: 'high_bad', lagHours: 18 });
+    const sleep = analysis.lagged.find(e => e.name === 'Sleep Issues');
+
+    expect(sleep).toMatchObject({ withCount: 5, significant: true });
+    expect(sleep!.difference).toBeGreaterThan(1);
+  });
+
+  it('ranks by the bad end of the scale', () => {
+    const entries = buildEntries();
+    const highBad = analyzeTriggers(entries, { scale: 'high_bad', minSample: 2 });
+    const lowBad = analyzeTriggers(entries, { scale: 'low_bad', minSample: 2 });
+
+    // Stress raises the level: concerning for pain, reassuring for mood
+    expect(highBad.sameEntry[0].name).toBe('Stress');
+    expect(lowBad.sameEntry[lowBad.sameEntry.length - 1].name).toBe('Stress');
+  });
+
+  it('formats signed differences', () => {
+    expect(formatDifference(1.83)).toBe('+1.8');
+    expect(formatDifference(-0.44)).toBe('−0.4');
+    expect(formatDifference(0.01)).toBe('±0');
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Assessment Service
+ *
+ * Scores questionnaire answers against their definitions (score, severity
+ * band, subscales, safety alerts), works out when scheduled assessments are
+ * due, and stores results and schedules per tracker.
+ */
+
+import type { DbPort, DbResult } from '@/ports/DbPort';
+import type { Tracker } from '@/types/tracker';
+import {
+  ASSESSMENTS,
+  type AssessmentAnswers,
+  type AssessmentDefinition,
+  type AssessmentId,
+  type AssessmentResult,
+  type AssessmentSchedule,
+  type AssessmentScoring,
+} from '@/types/assessment';
+
+export interface AssessmentScore {
+  score: number;
+  band: string;
+  subscales: Record<string, number>;
+}
+
+export interface ScorePoint {
+  completed_at: number;
+  score: number;
+  band: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function getAssessment(id: string): AssessmentDefinition | undefined {
+  return ASSESSMENTS.find(a => a.id === id);
+}
+
+/**
+ * Assessments linked to the tracker's preset; every assessment for trackers
+ * without any (custom trackers)
+ */
+export function assessmentsForTracker(tracker: Pick<Tracker, 'preset_id'>): AssessmentDefinition[] {
+  const linked = ASSESSMENTS.filter(a => tracker.preset_id && a.presetIds.includes(tracker.preset_id));
+  return linked.length > 0 ? linked : ASSESSMENTS;
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+/**
+ * One score from the answers, or null with too few of its questions answered
+ */
+function scorePart(
+  definition: AssessmentDefinition,
+  scoring: AssessmentScoring,
+  answers: AssessmentAnswers
+): number | null {
+  const questions = scoring.questionIds
+    ? definition.questions.filter(q => scoring.questionIds?.includes(q.id))
+    : definition.questions;
+  const answered = questions.filter(q => Number.isFinite(answers[q.id]));
+  if (answered.length === 0 || answered.length < (scoring.minAnswered ?? questions.length)) return null;
+
+  const total = answered.reduce((sum, q) => sum + answers[q.id], 0);
+  switch (scoring.method) {
+    case 'sum':
+      return total;
+    case 'mean':
+      return round1(total / answered.length);
+    case 'percent': {
+      const possible = answered.reduce(
+        (sum, q) => sum + (q.type === 'scale' ? q.max : Math.max(...q.options.map(o => o.value))),
+        0
+      );
+      return Math.round((total / possible) * 100);
+    }
+  }
+}
+
+/**
+ * The band a score falls in: the last one starting at or below it
+ */
+export function severityBand(definition: AssessmentDefinition, score: number): string {
+  const band = [...definition.bands].reverse().find(b => score >= b.min) ?? definition.bands[0];
+  return band.label;
+}
+
+/**
+ * Score, band and subscales, or null until enough questions are answered
+ */
+export function scoreAssessment(definition: AssessmentDefinition, answers: AssessmentAnswers): AssessmentScore | null {
+  const score = scorePart(definition, definition.scoring, answers);
+  if (score === null) return null;
+
+  const subscales: Record<string, number> = {};
+  for (const subscale of definition.subscales ?? []) {
+    const value = scorePart(definition, subscale, answers);
+    if (value !== null) subscales[subscale.id] = value;
+  }
+
+  return { score, band: severityBand(definition, score), subscales };
+}
+
+/**
+ * Messages for answers that need attention (e.g. PHQ-9 item 9)
+ */
+export function assessmentAlerts(definition: AssessmentDefinition, answers: AssessmentAnswers): string[] {
+  return (definition.alerts ?? [])
+    .filter(alert => (answers[alert.questionId] ?? -1) >= alert.minValue)
+    .map(alert => alert.message);
+}
+
+/**
+ * Scores for one assessment, oldest first, for trend charts
+ */
+export function scoreTrend(results: AssessmentResult[], assessmentId: AssessmentId): ScorePoint[] {
+  return results
+    .filter(r => r.assessment_id === assessmentId)
+    .sort((a, b) => a.completed_at - b.completed_at)
+    .map(({ completed_at, score, band }) => ({ completed_at, score, band }));
+}
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+/**
+ * When a scheduled assessment is next due: an interval after its latest
+ * result, or its start when it hasn't been done yet
+ */
+export function nextDueAt(schedule: AssessmentSchedule, results: AssessmentResult[]): number {
+  const latest = Math.max(
+    -Infinity,
+    ...results.filter(r => r.assessment_id === schedule.assessment_id).map(r => r.completed_at)
+  );
+  return Number.isFinite(latest) ? latest + schedule.interval_days * DAY : schedule.starts_at;
+}
+
+export function isAssessmentDue(
+  schedule: AssessmentSchedule,
+  results: AssessmentResult[],
+  now: number = Date.now()
+): boolean {
+  return nextDueAt(schedule, results) <= now;
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+// NUMERIC columns come back from Postgres as strings
+const toResult = (row: AssessmentResult): AssessmentResult => ({ ...row, score: Number(row.score) });
+
+/**
+ * A tracker's results, oldest first
+ */
+export async function loadResults(db: DbPort, trackerId: string): Promise<DbResult<AssessmentResult[]>> {
+  const result = await db.select<AssessmentResult>('assessment_results', {
+    where: { tracker_id: trackerId },
+    orderBy: { column: 'completed_at', ascending: true },
+  });
+  return { data: result.data?.map(toResult) ?? null, error: result.error };
+}
+
+/**
+ * Score and store a completed assessment
+ */
+export async function saveResult(
+  db: DbPort,
+  userId: string,
+  trackerId: string,
+  definition: AssessmentDefinition,
+  answers: AssessmentAnswers,
+  completedAt: number = Date.now()
+): Promise<DbResult<AssessmentResult>> {
+  const scored = scoreAssessment(definition, answers);
+  if (!scored) {
+    return { data: null, error: new Error(`Not enough ${definition.shortName} questions answered to score it`) };
+  }
+  const result = await db.insert<AssessmentResult>('assessment_results', {
+    user_id: userId,
+    tracker_id: trackerId,
+    assessment_id: definition.id,
+    answers,
+    ...scored,
+    completed_at: completedAt,
+  });
+  return { data: result.data && toResult(result.data), error: result.error };
+}
+
+export async function deleteResult(db: DbPort, id: string): Promise<{ error: Error | null }> {
+  return db.delete('assessment_results', { id });
+}
+
+export async function loadSchedules(db: DbPort, trackerId: string): Promise<DbResult<AssessmentSchedule[]>> {
+  return db.select<AssessmentSchedule>('assessment_schedules', { where: { tracker_id: trackerId } });
+}
+
+/**
+ * Repeat an assessment every so many days (due now if never done), change
+ * the interval, or stop with null
+ */
+export async function setSchedule(
+  db: DbPort,
+  userId: string,
+  trackerId: string,
+  assessmentId: AssessmentId,
+  intervalDays: number | null,
+  existing?: AssessmentSchedule | null
+): Promise<DbResult<AssessmentSchedule | null>> {
+  if (intervalDays === null) {
+    if (!existing) return { data: null, error: null };
+    const { error } = await db.delete('assessment_schedules', { id: existing.id });
+    return { data: null, error };
+  }
+  if (existing) {
+    return db.update<AssessmentSchedule>('assessment_schedules', { id: existing.id }, { interval_days: intervalDays });
+  }
+  return db.insert<AssessmentSchedule>('assessment_schedules', {
+    user_id: userId,
+    tracker_id: trackerId,
+    assessment_id: assessmentId,
+    interval_days: intervalDays,
+    starts_at: Date.now(),
+  });
+}
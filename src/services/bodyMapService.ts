@@ -0,0 +1,77 @@
+/**
+ * Body Map Service
+ *
+ * Selection rules for the body map picker, and per-region frequency and
+ * average intensity for its heatmap. Entries logged before sides existed
+ * ("knees") light up both sides.
+ */
+
+import type { BodyLocation, PainEntry } from '@/types/pain-entry';
+import { SIDED_LOCATIONS, parseBodyLocation, type BodySide } from '@/types/body-map';
+
+export interface BodyRegionHeat {
+  /** Entries touching the region */
+  count: number;
+  /** Mean intensity of those entries, to one decimal */
+  average: number;
+}
+
+const SIDES: BodySide[] = ['left', 'right'];
+
+/**
+ * Whether a region's value is selected, directly or through its
+ * side-less form
+ */
+export function isBodyLocationSelected(selected: string[], value: string): boolean {
+  const { location, side } = parseBodyLocation(value);
+  return selected.includes(value) || (side !== null && selected.includes(location));
+}
+
+/**
+ * Toggle a region. Tapping one side of a side-less selection ("knees")
+ * deselects just that side, leaving the other one selected.
+ */
+export function toggleBodyLocation(selected: string[], value: string): string[] {
+  const { location, side } = parseBodyLocation(value);
+  if (side !== null && selected.includes(location)) {
+    const others = SIDES.filter(s => s !== side).map(s => `${location}:${s}`);
+    return [...selected.filter(v => v !== location), ...others.filter(v => !selected.includes(v))];
+  }
+  return selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value];
+}
+
+/**
+ * Region values an entry touches: side-less paired locations count for
+ * both sides
+ */
+function regionValues(entry: PainEntry): Set<string> {
+  const values = new Set<string>();
+  for (const value of entry.locations) {
+    const { location, side } = parseBodyLocation(value);
+    if (side === null && SIDED_LOCATIONS.includes(location as BodyLocation)) {
+      for (const s of SIDES) values.add(`${location}:${s}`);
+    } else {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Entry count and average intensity per region value
+ */
+export function bodyMapHeat(entries: PainEntry[]): Map<string, BodyRegionHeat> {
+  const totals = new Map<string, { count: number; sum: number }>();
+  for (const entry of entries) {
+    for (const value of regionValues(entry)) {
+      const total = totals.get(value) ?? { count: 0, sum: 0 };
+      totals.set(value, { count: total.count + 1, sum: total.sum + entry.intensity });
+    }
+  }
+
+  const heat = new Map<string, BodyRegionHeat>();
+  for (const [value, { count, sum }] of totals) {
+    heat.set(value, { count, average: Math.round((sum / count) * 10) / 10 });
+  }
+  return heat;
+}
@@ -0,0 +1,164 @@
+/**
+ * Check-in Service
+ *
+ * The daily check-in steps through every tracker the user has opted in,
+ * asking only for intensity, categories, triggers and any custom fields the
+ * tracker requires. Answers can start from yesterday's entry, are checked
+ * like the full entry form, and everything logged is saved as one batch
+ * insert.
+ */
+
+import { endOfDay, startOfDay, subDays } from 'date-fns';
+import type { DbPort, DbResult } from '@/ports/DbPort';
+import type { Tracker } from '@/types/tracker';
+import { BODY_LOCATIONS, type PainEntry } from '@/types/pain-entry';
+import type { TrackerConfig } from '@/types/tracker-config';
+import type { CustomFieldDefinition } from '@/types/custom-field';
+import { validateFieldValues } from './customFieldService';
+import { isOnScale, scaleMidpoint } from './scaleService';
+import { NOT_TRASHED } from './trashService';
+
+export interface CheckInAnswer {
+  intensity: number;
+  locations: string[];
+  triggers: string[];
+  /** Custom field values by field key, loosely typed until the entry is built */
+  fields: Record<string, unknown>;
+}
+
+/** Each tracker's answer by tracker id; null when it was skipped */
+export type CheckInAnswers = Record<string, CheckInAnswer | null>;
+
+export function checkInTrackers(trackers: Tracker[]): Tracker[] {
+  return trackers.filter(t => t.check_in);
+}
+
+/**
+ * The custom fields a check-in step asks for: only the required ones
+ */
+export function requiredFields(tracker: Pick<Tracker, 'fields'>): CustomFieldDefinition[] {
+  return (tracker.fields ?? []).filter(field => field.required);
+}
+
+/**
+ * A blank answer in the middle of the tracker's scale
+ */
+export function blankAnswer(config: Pick<TrackerConfig, 'scale'>): CheckInAnswer {
+  return { intensity: scaleMidpoint(config.scale), locations: [], triggers: [], fields: {} };
+}
+
+/**
+ * An answer repeating an earlier entry
+ */
+export function answerFromEntry(entry: Pick<PainEntry, 'intensity' | 'locations' | 'triggers' | 'fields'>): CheckInAnswer {
+  return {
+    intensity: entry.intensity,
+    locations: [...entry.locations],
+    triggers: [...entry.triggers],
+    fields: { ...entry.fields },
+  };
+}
+
+/**
+ * Category choices for a compact step. Body map trackers get the coarse
+ * regions; values already chosen (e.g. a side from yesterday) stay listed.
+ */
+export function locationOptions(
+  config: Pick<TrackerConfig, 'locations' | 'bodyMap'>,
+  selected: string[]
+): { value: string; label: string }[] {
+  const options = config.bodyMap ? BODY_LOCATIONS : config.locations;
+  const extra = selected
+    .filter(value => !options.some(o => o.value === value))
+    .map(value => ({ value, label: config.locations.find(l => l.value === value)?.label ?? value }));
+  return [...options, ...extra];
+}
+
+/**
+ * Problems with an answer, empty when it can be saved. Custom fields get
+ * the same check as in the entry form.
+ */
+export function validateAnswer(
+  config: Pick<TrackerConfig, 'scale' | 'locations' | 'locationLabel'>,
+  answer: CheckInAnswer,
+  fields: CustomFieldDefinition[] = []
+): string[] {
+  const errors: string[] = [];
+  if (!isOnScale(answer.intensity, config.scale)) errors.push(`Pick a value from ${config.scale.min} to ${config.scale.max}`);
+  if (config.locations.length > 0 && answer.locations.length === 0) {
+    errors.push(`Choose at least one from ${config.locationLabel.toLowerCase()}`);
+  }
+
+  const fieldErrors = validateFieldValues(fields, answer.fields).errors;
+  for (const field of fields) {
+    if (fieldErrors[field.key]) errors.push(`${field.label}: ${fieldErrors[field.key]}`);
+  }
+  return errors;
+}
+
+// =============================================================================
+// Entries
+// =============================================================================
+
+/**
+ * Each tracker's latest entry from the day before `now`
+ */
+export async function loadYesterdayEntries(
+  db: DbPort,
+  trackerIds: string[],
+  now: number = Date.now()
+): Promise<DbResult<Record<string, PainEntry>>> {
+  if (trackerIds.length === 0) return { data: {}, error: null };
+
+  const yesterday = subDays(now, 1);
+  const { data, error } = await db.select<PainEntry>('pain_entries', {
+    where: {
+      tracker_id: { in: trackerIds },
+      ...NOT_TRASHED,
+      timestamp: { between: [startOfDay(yesterday).getTime(), endOfDay(yesterday).getTime()] },
+    },
+    orderBy: { column: 'timestamp', ascending: true },
+  });
+  if (error) return { data: null, error };
+
+  const latest: Record<string, PainEntry> = {};
+  for (const entry of data ?? []) latest[entry.tracker_id] = entry;
+  return { data: latest, error: null };
+}
+
+/**
+ * One entry per answered tracker, in check-in order, all at the same moment.
+ * Custom field values are cleaned against the tracker's current fields.
+ */
+export function buildCheckInEntries(
+  userId: string,
+  trackers: Tracker[],
+  answers: CheckInAnswers,
+  timestamp: number = Date.now()
+): PainEntry[] {
+  return trackers.flatMap(tracker => {
+    const answer = answers[tracker.id];
+    if (!answer) return [];
+    return [{
+      id: `${timestamp}-${Math.random()}`,
+      user_id: userId,
+      tracker_id: tracker.id,
+      timestamp,
+      intensity: answer.intensity,
+      locations: answer.locations,
+      triggers: answer.triggers,
+      notes: '',
+      hashtags: [],
+      fields: validateFieldValues(tracker.fields ?? [], answer.fields).values,
+    }];
+  });
+}
+
+/**
+ * Save a check-in's entries in a single insert
+ */
+export async function saveCheckIn(db: DbPort, entries: PainEntry[]): Promise<{ error: Error | null }> {
+  if (entries.length === 0) return { error: null };
+  const { error } = await db.insert<PainEntry>('pain_entries', entries);
+  return { error };
+}
@@ -6,8 +6,10 @@
  */
 
 import { lookupWord } from './dictionaryService';
-import { supabaseClient } from '@/adapters/supabase/supabaseClient';
+import { supabaseClient, isSupabaseConfigured } from '@/adapters/supabase/supabaseClient';
 import type { GeneratedTrackerConfig } from '@/types/generated-config';
+import { parseFieldDefinitions } from './customFieldService';
+import { parseScale } from './scaleService';
 
 export interface ConfigGenerationResult {
   success: boolean;
@@ -27,6 +29,10 @@ export async function generateTrackerConfig(
   trackerName: string,
   userDescription?: string
 ): Promise<ConfigGenerationResult> {
+  if (!isSupabaseConfigured) {
+    return { success: false, error: 'AI configuration is not available in device-only mode' };
+  }
+
   try {
     let definition: string | undefined;
     
@@ -63,9 +69,22 @@ export async function generateTrackerConfig(
       throw new Error('No configuration returned from AI');
     }
     
+    // Proposed fields are untrusted model output; keep only well-formed ones
+    const config = data.config as GeneratedTrackerConfig;
+    const { fields, errors } = parseFieldDefinitions(config.fields);
+    if (errors.length > 0) {
+      console.warn('Dropped invalid proposed fields:', errors);
+    }
+
+    // A proposed scale is dropped rather than fixed up; the tracker falls back to 1-10
+    const { scale, error: scaleError } = config.scale === undefined ? { scale: null, error: null } : parseScale(config.scale);
+    if (scaleError) {
+      console.warn('Dropped invalid proposed scale:', scaleError);
+    }
+
     return {
       success: true,
-      config: data.config as GeneratedTrackerConfig,
+      config: { ...config, fields, scale: scale ?? undefined },
     };
   } catch (error) {
     console.error('Config generation failed:', error);
@@ -101,7 +120,7 @@ export function getGenericConfig(trackerName: string): GeneratedTrackerConfig {
       'Keep a personal record',
     ],
     entryTitle: `${trackerName} Entry`,
-    deleteConfirmMessage: `Are you sure you want to delete this ${trackerName.toLowerCase()} entry? This action cannot be undone.`,
+    deleteConfirmMessage: `Move this ${trackerName.toLowerCase()} entry to the trash? You can restore it for 30 days.`,
     locations: [
       { value: 'general', label: 'General' },
       { value: 'mild', label: 'Mild' },
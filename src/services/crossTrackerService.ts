@@ -0,0 +1,198 @@
+/**
+ * Cross-Tracker Service
+ *
+ * Lines two trackers up day by day and measures how closely they move
+ * together, including with one tracker shifted 1-3 days behind the other
+ * ("does poor sleep predict next-day pain?"). Wording accounts for each
+ * tracker's scale direction so "worse" means the same thing on both sides,
+ * and values can be put on a common 0-100 footing when the ranges differ.
+ */
+
+import { addDays, eachDayOfInterval, format, startOfDay } from 'date-fns';
+import type { PainEntry } from '@/types/pain-entry';
+import type { IntensityScale } from '@/types/generated-config';
+import type { ScaleDefinition } from '@/types/scale';
+import { normalizeIntensity } from './scaleService';
+
+export interface DailyPair {
+  /** Local calendar day, yyyy-MM-dd */
+  date: string;
+  a: number | null;
+  b: number | null;
+}
+
+export interface LagCorrelation {
+  /** B is compared this many days after A */
+  lag: number;
+  /** Pearson coefficient, null with too few days or no variation */
+  r: number | null;
+  /** Days where both sides have a value */
+  n: number;
+}
+
+export interface TrackerSide {
+  name: string;
+  intensityLabel: string;
+  intensityScale: IntensityScale;
+}
+
+export type CorrelationStrength = 'none' | 'weak' | 'moderate' | 'strong';
+
+export interface CorrelationDescription {
+  strength: CorrelationStrength;
+  /** Plain statement in raw terms: "Higher X goes with lower Y the next day" */
+  summary: string;
+  /** What it means for wellbeing, when both scales have a bad end */
+  judgment: string | null;
+}
+
+export const MAX_LAG_DAYS = 3;
+/** Overlapping days needed before a coefficient is reported */
+export const MIN_OVERLAP_DAYS = 7;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const dayKey = (timestamp: number | Date) => format(timestamp, 'yyyy-MM-dd');
+
+/**
+ * Entries with intensities as a percentage of their tracker's scale
+ */
+export function toCommonScale(entries: PainEntry[], scale: ScaleDefinition): PainEntry[] {
+  return entries.map(entry => ({ ...entry, intensity: normalizeIntensity(entry.intensity, scale) }));
+}
+
+/**
+ * Average intensity per local calendar day
+ */
+export function dailyAverages(entries: PainEntry[]): Map<string, number> {
+  const sums = new Map<string, { total: number; count: number }>();
+  for (const entry of entries) {
+    const key = dayKey(entry.timestamp);
+    const bucket = sums.get(key) ?? { total: 0, count: 0 };
+    bucket.total += entry.intensity;
+    bucket.count += 1;
+    sums.set(key, bucket);
+  }
+  return new Map([...sums].map(([key, { total, count }]) => [key, round2(total / count)]));
+}
+
+/**
+ * One row per day across both trackers' combined date span
+ */
+export function alignDaily(aEntries: PainEntry[], bEntries: PainEntry[]): DailyPair[] {
+  const timestamps = [...aEntries, ...bEntries].map(e => e.timestamp);
+  if (timestamps.length === 0) return [];
+
+  const a = dailyAverages(aEntries);
+  const b = dailyAverages(bEntries);
+  return eachDayOfInterval({
+    start: startOfDay(Math.min(...timestamps)),
+    end: startOfDay(Math.max(...timestamps)),
+  }).map(day => {
+    const date = dayKey(day);
+    return { date, a: a.get(date) ?? null, b: b.get(date) ?? null };
+  });
+}
+
+/**
+ * Pearson correlation coefficient, or null when it is undefined
+ */
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2 || n !== ys.length) return null;
+
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Correlate A's daily average with B's daily average `lag` days later, for lags 0..maxLag
+ */
+export function laggedCorrelations(
+  aEntries: PainEntry[],
+  bEntries: PainEntry[],
+  maxLag: number = MAX_LAG_DAYS
+): LagCorrelation[] {
+  const a = dailyAverages(aEntries);
+  const b = dailyAverages(bEntries);
+
+  return Array.from({ length: maxLag + 1 }, (_, lag) => {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const [date, value] of a) {
+      const later = b.get(dayKey(addDays(new Date(`${date}T00:00:00`), lag)));
+      if (later !== undefined) {
+        xs.push(value);
+        ys.push(later);
+      }
+    }
+    const r = xs.length >= MIN_OVERLAP_DAYS ? pearson(xs, ys) : null;
+    return { lag, r: r === null ? null : round2(r), n: xs.length };
+  });
+}
+
+export function correlationStrength(r: number): CorrelationStrength {
+  const size = Math.abs(r);
+  if (size < 0.1) return 'none';
+  if (size < 0.3) return 'weak';
+  if (size < 0.5) return 'moderate';
+  return 'strong';
+}
+
+/** +1 when higher is worse, -1 when lower is worse, 0 for neutral scales */
+function badDirection(scale: IntensityScale): number {
+  if (scale === 'high_bad') return 1;
+  if (scale === 'low_bad') return -1;
+  return 0;
+}
+
+function lagPhrase(lag: number): string {
+  if (lag === 0) return 'on the same day';
+  if (lag === 1) return 'the next day';
+  return `${lag} days later`;
+}
+
+/**
+ * Describe a coefficient in words, e.g. "Lower Sleep Quality goes with higher
+ * Pain Intensity the next day" plus "worse Sleep tends to come before worse Chronic Pain"
+ */
+export function describeCorrelation(
+  r: number,
+  lag: number,
+  a: TrackerSide,
+  b: TrackerSide
+): CorrelationDescription {
+  const strength = correlationStrength(r);
+  if (strength === 'none') {
+    return {
+      strength,
+      summary: `No clear link between ${a.intensityLabel} and ${b.intensityLabel} ${lagPhrase(lag)}`,
+      judgment: null,
+    };
+  }
+
+  const summary = `Higher ${a.intensityLabel} goes with ${r > 0 ? 'higher' : 'lower'} ${b.intensityLabel} ${lagPhrase(lag)}`;
+
+  const direction = badDirection(a.intensityScale) * badDirection(b.intensityScale);
+  if (direction === 0) {
+    return { strength, summary, judgment: null };
+  }
+
+  const outcome = r * direction > 0 ? 'worse' : 'better';
+  const relation = lag === 0 ? 'goes with' : 'tends to come before';
+  return {
+    strength,
+    summary,
+    judgment: `Worse ${a.name} ${relation} ${outcome} ${b.name}`,
+  };
+}
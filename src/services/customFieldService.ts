@@ -0,0 +1,242 @@
+/**
+ * Custom Field Service
+ *
+ * Checks per-tracker field definitions (including ones proposed by
+ * generate-tracker-config) and the values entries store for them.
+ */
+
+import type {
+  CustomFieldDefinition,
+  CustomFieldValue,
+  CustomFieldValues,
+} from '@/types/custom-field';
+
+export const MAX_CUSTOM_FIELDS = 8;
+const MAX_OPTIONS = 20;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// =============================================================================
+// Definitions
+// =============================================================================
+
+/**
+ * Field key from a label, e.g. "Hours slept" → "hours_slept"
+ */
+export function toFieldKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+function parseOptions(raw: unknown): { value: string; label: string }[] {
+  if (!Array.isArray(raw)) return [];
+  const options: { value: string; label: string }[] = [];
+  for (const item of raw) {
+    const label = typeof item === 'string' ? item.trim() : optionalString(isRecord(item) ? item.label : undefined);
+    if (!label) continue;
+    const value = (isRecord(item) && optionalString(item.value)) || toFieldKey(label);
+    if (value && !options.some(o => o.value === value)) options.push({ value, label });
+  }
+  return options.slice(0, MAX_OPTIONS);
+}
+
+function parseDefinition(raw: unknown): CustomFieldDefinition | string {
+  if (!isRecord(raw)) return 'Field is not an object';
+
+  const label = optionalString(raw.label);
+  if (!label) return 'Field is missing a label';
+
+  const key = toFieldKey(optionalString(raw.key) ?? label);
+  if (!key) return `"${label}" has no usable key`;
+
+  const base = {
+    key,
+    label,
+    ...(raw.required === true && { required: true }),
+    ...(optionalString(raw.description) && { description: optionalString(raw.description) }),
+  };
+
+  switch (raw.type) {
+    case 'number': {
+      const min = optionalNumber(raw.min);
+      const max = optionalNumber(raw.max);
+      const step = optionalNumber(raw.step);
+      if (min !== undefined && max !== undefined && min > max) {
+        return `"${label}" has a minimum above its maximum`;
+      }
+      return {
+        ...base,
+        type: 'number',
+        ...(optionalString(raw.unit) && { unit: optionalString(raw.unit) }),
+        ...(min !== undefined && { min }),
+        ...(max !== undefined && { max }),
+        ...(step !== undefined && step > 0 && { step }),
+      };
+    }
+    case 'single_select':
+    case 'multi_select': {
+      const options = parseOptions(raw.options);
+      if (options.length < 2) return `"${label}" needs at least two options`;
+      return { ...base, type: raw.type, options };
+    }
+    case 'text': {
+      const maxLength = optionalNumber(raw.maxLength);
+      return {
+        ...base,
+        type: 'text',
+        ...(maxLength !== undefined && maxLength > 0 && { maxLength: Math.floor(maxLength) }),
+      };
+    }
+    case 'boolean':
+    case 'duration':
+    case 'time':
+      return { ...base, type: raw.type };
+    default:
+      return `"${label}" has unknown type "${String(raw.type)}"`;
+  }
+}
+
+/**
+ * Keep the valid field definitions from untrusted input (AI output, imports).
+ * Invalid or duplicate fields are dropped and reported.
+ */
+export function parseFieldDefinitions(raw: unknown): { fields: CustomFieldDefinition[]; errors: string[] } {
+  if (raw === undefined || raw === null) return { fields: [], errors: [] };
+  if (!Array.isArray(raw)) return { fields: [], errors: ['Fields must be a list'] };
+
+  const fields: CustomFieldDefinition[] = [];
+  const errors: string[] = [];
+
+  for (const item of raw) {
+    const parsed = parseDefinition(item);
+    if (typeof parsed === 'string') {
+      errors.push(parsed);
+    } else if (fields.some(f => f.key === parsed.key)) {
+      errors.push(`"${parsed.label}" duplicates the key "${parsed.key}"`);
+    } else if (fields.length >= MAX_CUSTOM_FIELDS) {
+      errors.push(`Only ${MAX_CUSTOM_FIELDS} fields are allowed; "${parsed.label}" was dropped`);
+    } else {
+      fields.push(parsed);
+    }
+  }
+
+  return { fields, errors };
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+type CheckedValue = { value: CustomFieldValue } | { error: string };
+
+function checkValue(field: CustomFieldDefinition, value: unknown): CheckedValue {
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return { error: 'Enter a number' };
+      if (field.min !== undefined && number < field.min) return { error: `Must be at least ${field.min}` };
+      if (field.max !== undefined && number > field.max) return { error: `Must be at most ${field.max}` };
+      return { value: number };
+    }
+    case 'duration': {
+      const minutes = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes < 0) {
+        return { error: 'Enter a duration' };
+      }
+      return { value: Math.round(minutes) };
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? { value } : { error: 'Choose yes or no' };
+    case 'time':
+      return typeof value === 'string' && TIME_PATTERN.test(value) ? { value } : { error: 'Enter a time as HH:mm' };
+    case 'text': {
+      if (typeof value !== 'string') return { error: 'Enter text' };
+      const text = value.trim();
+      if (field.maxLength !== undefined && text.length > field.maxLength) {
+        return { error: `Keep it under ${field.maxLength} characters` };
+      }
+      return { value: text };
+    }
+    case 'single_select':
+      return typeof value === 'string' && field.options.some(o => o.value === value)
+        ? { value }
+        : { error: 'Pick an option' };
+    case 'multi_select': {
+      if (!Array.isArray(value)) return { error: 'Pick options' };
+      // Stored in option order so equal selections compare equal
+      const selected = field.options.map(o => o.value).filter(option => value.includes(option));
+      return selected.length === new Set(value).size ? { value: selected } : { error: 'Pick from the listed options' };
+    }
+  }
+}
+
+/**
+ * Check entry values against a tracker's fields. Returns the cleaned values
+ * (unset and unknown fields left out) and an error message per field key.
+ */
+export function validateFieldValues(
+  definitions: CustomFieldDefinition[],
+  values: Record<string, unknown>
+): { values: CustomFieldValues; errors: Record<string, string> } {
+  const cleaned: CustomFieldValues = {};
+  const errors: Record<string, string> = {};
+
+  for (const field of definitions) {
+    const value = values[field.key];
+    if (isEmpty(typeof value === 'string' ? value.trim() : value)) {
+      if (field.required) errors[field.key] = 'Required';
+      continue;
+    }
+
+    const checked = checkValue(field, value);
+    if ('error' in checked) {
+      errors[field.key] = checked.error;
+    } else {
+      cleaned[field.key] = checked.value;
+    }
+  }
+
+  return { values: cleaned, errors };
+}
+
+/**
+ * Display text for a stored value, e.g. "128 mmHg", "Yes", "7h 30m"
+ */
+export function formatFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined) return '';
+
+  switch (field.type) {
+    case 'number':
+      return field.unit ? `${value} ${field.unit}` : String(value);
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'duration': {
+      const minutes = Number(value);
+      const hours = Math.floor(minutes / 60);
+      if (hours === 0) return `${minutes}m`;
+      return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+    }
+    case 'single_select':
+      return field.options.find(o => o.value === value)?.label ?? String(value);
+    case 'multi_select':
+      return (Array.isArray(value) ? value : [value])
+        .map(v => field.options.find(o => o.value === v)?.label ?? String(v))
+        .join(', ');
+    default:
+      return String(value);
+  }
+}
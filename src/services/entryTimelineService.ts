@@ -0,0 +1,144 @@
+/**
+ * Entry Timeline Service
+ *
+ * Cursor pagination over a tracker's entries, newest first, plus the cache
+ * operations that keep loaded pages consistent after inserts, edits and
+ * deletes. Pages are keyed on (timestamp, id) so entries sharing a
+ * timestamp are never skipped or repeated.
+ */
+
+import { endOfDay, format, startOfDay } from 'date-fns';
+import type { SelectOptions } from '@/ports/DbPort';
+import type { PainEntry } from '@/types/pain-entry';
+import { NOT_TRASHED } from './trashService';
+
+export const TIMELINE_PAGE_SIZE = 50;
+
+/** Position of the last loaded entry; the next page starts after it */
+export interface TimelineCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface TimelineState {
+  entries: PainEntry[];
+  /** More (older) entries exist beyond the last loaded one */
+  hasMore: boolean;
+  /** Set after "jump to date": only entries on or before this day are loaded */
+  anchor: number | null;
+}
+
+export type TimelineRow =
+  | { type: 'day'; key: string; date: number; count: number }
+  | { type: 'entry'; key: string; entry: PainEntry };
+
+export const EMPTY_TIMELINE: TimelineState = { entries: [], hasMore: false, anchor: null };
+
+/**
+ * Newest first; ties broken by id, descending, to match the page query.
+ * Ids are compared code unit by code unit rather than by locale, so entries
+ * merged in memory keep the order the backend returns them in. Not every id
+ * is a UUID: the entry form makes "<time>-<random>" ids.
+ */
+export function compareTimeline(a: PainEntry, b: PainEntry): number {
+  if (a.timestamp !== b.timestamp) return b.timestamp - a.timestamp;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? 1 : -1;
+}
+
+export function cursorOf(entries: PainEntry[]): TimelineCursor | null {
+  const last = entries[entries.length - 1];
+  return last ? { timestamp: last.timestamp, id: last.id } : null;
+}
+
+/**
+ * Select options for one page of a tracker's timeline.
+ * `after` continues from a cursor; `anchor` starts at the end of that day.
+ */
+export function timelinePageQuery(
+  trackerId: string,
+  { after, anchor }: { after?: TimelineCursor | null; anchor?: number | null } = {},
+  pageSize: number = TIMELINE_PAGE_SIZE
+): SelectOptions {
+  return {
+    where: {
+      tracker_id: trackerId,
+      ...NOT_TRASHED,
+      ...(anchor !== null && anchor !== undefined ? { timestamp: { lte: endOfDay(anchor).getTime() } } : {}),
+    },
+    ...(after
+      ? {
+          or: [
+            { timestamp: { lt: after.timestamp } },
+            { timestamp: after.timestamp, id: { lt: after.id } },
+          ],
+        }
+      : {}),
+    orderBy: [
+      { column: 'timestamp', ascending: false },
+      { column: 'id', ascending: false },
+    ],
+    limit: pageSize,
+  };
+}
+
+/**
+ * Append a fetched page, dropping anything already loaded
+ */
+export function appendPage(
+  state: TimelineState,
+  page: PainEntry[],
+  pageSize: number = TIMELINE_PAGE_SIZE
+): TimelineState {
+  const known = new Set(state.entries.map(e => e.id));
+  return {
+    ...state,
+    entries: [...state.entries, ...page.filter(e => !known.has(e.id))].sort(compareTimeline),
+    hasMore: page.length >= pageSize,
+  };
+}
+
+/**
+ * Whether an entry falls inside the loaded window: not newer than the
+ * anchor, and not older than the last loaded entry while more pages remain
+ * (it will arrive with those pages instead).
+ */
+function withinLoadedRange(state: TimelineState, entry: PainEntry): boolean {
+  if (state.anchor !== null && entry.timestamp > endOfDay(state.anchor).getTime()) return false;
+  const last = state.entries[state.entries.length - 1];
+  if (state.hasMore && last && compareTimeline(entry, last) > 0) return false;
+  return true;
+}
+
+/**
+ * Add or replace an entry, keeping order. Handles timestamps that moved.
+ */
+export function upsertTimelineEntry(state: TimelineState, entry: PainEntry): TimelineState {
+  const others = state.entries.filter(e => e.id !== entry.id);
+  const entries = withinLoadedRange(state, entry) ? [...others, entry].sort(compareTimeline) : others;
+  return { ...state, entries };
+}
+
+export function removeTimelineEntry(state: TimelineState, id: string): TimelineState {
+  return { ...state, entries: state.entries.filter(e => e.id !== id) };
+}
+
+/**
+ * Flatten entries into day headers and entry rows for the list
+ */
+export function groupTimelineByDay(entries: PainEntry[]): TimelineRow[] {
+  const rows: TimelineRow[] = [];
+  let header: Extract<TimelineRow, { type: 'day' }> | null = null;
+
+  for (const entry of entries) {
+    const day = startOfDay(entry.timestamp).getTime();
+    if (!header || header.date !== day) {
+      header = { type: 'day', key: `day-${format(day, 'yyyy-MM-dd')}`, date: day, count: 0 };
+      rows.push(header);
+    }
+    header.count++;
+    rows.push({ type: 'entry', key: entry.id, entry });
+  }
+
+  return rows;
+}
@@ -0,0 +1,386 @@
+/**
+ * Export Service
+ *
+ * Serializes a user's trackers and entries for backup and sharing:
+ * - JSON backup (versioned, round-trips losslessly through the importer)
+ * - CSV (one row per entry with every entry column, array columns joined)
+ * - FHIR R4 Bundle of Observations (for clinical systems)
+ * Backups and FHIR bundles also carry assessment scores.
+ */
+
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import type { CustomFieldValue } from '@/types/custom-field';
+import { getTrackerConfig } from '@/types/tracker-config';
+import type { AssessmentId, AssessmentResult } from '@/types/assessment';
+import { getAssessment } from './assessmentService';
+
+export const BACKUP_FORMAT = 'baseline-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BaselineBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  trackers: Tracker[];
+  entries: PainEntry[];
+  /** Absent in backups made before assessments existed */
+  assessments?: AssessmentResult[];
+}
+
+export type ExportFormat = 'json' | 'csv' | 'fhir';
+
+// =============================================================================
+// JSON backup
+// =============================================================================
+
+/**
+ * Build a versioned backup. Rows are copied as-is (including generated_config)
+ * so restoring a backup gives back exactly what was exported.
+ */
+export function buildBackup(
+  trackers: Tracker[],
+  entries: PainEntry[],
+  exportedAt: Date = new Date(),
+  assessments: AssessmentResult[] = []
+): BaselineBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: exportedAt.toISOString(),
+    trackers,
+    entries,
+    assessments,
+  };
+}
+
+export function backupToJson(backup: BaselineBackup): string {
+  return JSON.stringify(backup, null, 2);
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+export const CSV_COLUMNS = [
+  'entry_id',
+  'tracker_id',
+  'tracker_name',
+  'date',
+  'timestamp',
+  'ended_at',
+  'ongoing',
+  'intensity',
+  'intensity_label',
+  'locations',
+  'location_labels',
+  'triggers',
+  'hashtags',
+  'notes',
+  'interventions',
+  'follow_up_at',
+  'relief',
+  'relief_intensity',
+  'followed_up_at',
+] as const;
+
+/** Separator used when joining array columns into one CSV cell */
+export const CSV_ARRAY_SEPARATOR = '; ';
+
+/** Custom field values go in one column each, headed "field:<key>" */
+export const CSV_FIELD_PREFIX = 'field:';
+
+/**
+ * Quote a CSV cell if it contains a delimiter, quote or newline (RFC 4180)
+ */
+export function escapeCsvCell(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+const isoOrBlank = (time: number | null | undefined) => (typeof time === 'number' ? new Date(time).toISOString() : '');
+
+function fieldCell(value: CustomFieldValue | undefined): string {
+  if (value === undefined) return '';
+  return Array.isArray(value) ? value.join(CSV_ARRAY_SEPARATOR) : String(value);
+}
+
+/**
+ * Custom field keys across the trackers, in form order, then any keys
+ * entries still hold for fields that have since been removed
+ */
+function csvFieldKeys(trackers: Tracker[], entries: PainEntry[]): string[] {
+  const keys = new Set(trackers.flatMap(t => (t.fields ?? []).map(field => field.key)));
+  for (const entry of entries) {
+    for (const key of Object.keys(entry.fields ?? {})) keys.add(key);
+  }
+  return [...keys];
+}
+
+export function entriesToCsv(trackers: Tracker[], entries: PainEntry[]): string {
+  const trackersById = new Map(trackers.map(t => [t.id, t]));
+  const fieldKeys = csvFieldKeys(trackers, entries);
+  const lines = [[...CSV_COLUMNS, ...fieldKeys.map(key => `${CSV_FIELD_PREFIX}${key}`)].map(escapeCsvCell).join(',')];
+
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  for (const entry of sorted) {
+    const tracker = trackersById.get(entry.tracker_id);
+    const config = getTrackerConfig(tracker?.preset_id, tracker?.generated_config, tracker?.scale);
+    const cells = [
+      entry.id,
+      entry.tracker_id,
+      tracker?.name ?? '',
+      new Date(entry.timestamp).toISOString(),
+      String(entry.timestamp),
+      isoOrBlank(entry.ended_at),
+      entry.ongoing ? 'true' : 'false',
+      String(entry.intensity),
+      config.getIntensityLabel(entry.intensity),
+      entry.locations.join(CSV_ARRAY_SEPARATOR),
+      // Body map regions read as "Left knee"; categories by their label
+      entry.locations.map(value => config.locations.find(l => l.value === value)?.label ?? value).join(CSV_ARRAY_SEPARATOR),
+      entry.triggers.join(CSV_ARRAY_SEPARATOR),
+      (entry.hashtags ?? []).join(CSV_ARRAY_SEPARATOR),
+      entry.notes ?? '',
+      (entry.interventions ?? []).join(CSV_ARRAY_SEPARATOR),
+      isoOrBlank(entry.follow_up_at),
+      entry.relief ?? '',
+      entry.relief_intensity === null || entry.relief_intensity === undefined ? '' : String(entry.relief_intensity),
+      isoOrBlank(entry.followed_up_at),
+      ...fieldKeys.map(key => fieldCell(entry.fields?.[key])),
+    ];
+    lines.push(cells.map(escapeCsvCell).join(','));
+  }
+
+  return lines.join('\r\n');
+}
+
+// =============================================================================
+// FHIR R4
+// =============================================================================
+
+/** LOINC 72514-3: Pain severity - 0-10 verbal numeric rating [Score] - Reported */
+const LOINC_PAIN_SEVERITY = {
+  system: 'http://loinc.org',
+  code: '72514-3',
+  display: 'Pain severity - 0-10 verbal numeric rating [Score] - Reported',
+};
+
+const BASELINE_SYSTEM = 'https://baseline.app/fhir';
+
+/** LOINC totals for the assessments that have one */
+const LOINC_ASSESSMENT_SCORES: Partial<Record<AssessmentId, FhirCoding>> = {
+  phq9: { system: 'http://loinc.org', code: '44261-6', display: 'Patient Health Questionnaire 9 item (PHQ-9) total score [Reported]' },
+  gad7: { system: 'http://loinc.org', code: '70274-6', display: 'Generalized anxiety disorder 7 item (GAD-7) total score [Reported.PHQ]' },
+};
+
+interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id: string;
+  identifier: { system: string; value: string }[];
+  status: 'final';
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: { reference: string };
+  /** A single moment, or the start and end of an episode */
+  effectiveDateTime?: string;
+  effectivePeriod?: { start: string; end: string };
+  valueInteger?: number;
+  /** Mean and percentage assessment scores */
+  valueDecimal?: number;
+  interpretation?: FhirCodeableConcept[];
+  component?: { code: FhirCodeableConcept; valueString: string }[];
+  note?: { text: string }[];
+  meta?: { tag: FhirCoding[] };
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirObservation }[];
+}
+
+function entryToObservation(entry: PainEntry, tracker: Tracker | undefined): FhirObservation {
+  const config = getTrackerConfig(tracker?.preset_id, tracker?.generated_config, tracker?.scale);
+  // The LOINC code is for a 10-point rating; other scales keep the tracker's own code
+  const isPain = tracker?.preset_id === 'chronic_pain' && config.scale.max === 10;
+  const trackerName = tracker?.name ?? 'Tracker';
+
+  const components: FhirObservation['component'] = [
+    ...entry.locations.map(location => ({
+      code: { text: config.locationLabel },
+      valueString: config.locations.find(l => l.value === location)?.label ?? location,
+    })),
+    ...entry.triggers.map(trigger => ({
+      code: { text: config.triggersLabel },
+      valueString: trigger,
+    })),
+  ];
+
+  const observation: FhirObservation = {
+    resourceType: 'Observation',
+    id: entry.id,
+    identifier: [{ system: `${BASELINE_SYSTEM}/entry`, value: entry.id }],
+    status: 'final',
+    category: [{
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+        code: 'survey',
+        display: 'Survey',
+      }],
+    }],
+    code: isPain
+      ? { coding: [LOINC_PAIN_SEVERITY], text: config.intensityLabel }
+      : {
+          coding: [{ system: `${BASELINE_SYSTEM}/tracker`, code: entry.tracker_id, display: trackerName }],
+          text: `${trackerName} - ${config.intensityLabel}`,
+        },
+    subject: { reference: `Patient/${entry.user_id}` },
+    ...(typeof entry.ended_at === 'number'
+      ? { effectivePeriod: { start: new Date(entry.timestamp).toISOString(), end: new Date(entry.ended_at).toISOString() } }
+      : { effectiveDateTime: new Date(entry.timestamp).toISOString() }),
+    valueInteger: entry.intensity,
+    interpretation: [{ text: config.getIntensityLabel(entry.intensity) }],
+  };
+
+  if (components.length > 0) observation.component = components;
+  if (entry.notes) observation.note = [{ text: entry.notes }];
+  if (entry.hashtags?.length) {
+    observation.meta = {
+      tag: entry.hashtags.map(tag => ({ system: `${BASELINE_SYSTEM}/hashtag`, code: tag })),
+    };
+  }
+
+  return observation;
+}
+
+function assessmentToObservation(result: AssessmentResult): FhirObservation {
+  const definition = getAssessment(result.assessment_id);
+  const name = definition?.name ?? result.assessment_id;
+  const subscales = (definition?.subscales ?? []).filter(s => result.subscales[s.id] !== undefined);
+
+  const observation: FhirObservation = {
+    resourceType: 'Observation',
+    id: result.id,
+    identifier: [{ system: `${BASELINE_SYSTEM}/assessment`, value: result.id }],
+    status: 'final',
+    category: [{
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+        code: 'survey',
+        display: 'Survey',
+      }],
+    }],
+    code: {
+      coding: [
+        LOINC_ASSESSMENT_SCORES[result.assessment_id]
+          ?? { system: `${BASELINE_SYSTEM}/assessment`, code: result.assessment_id, display: name },
+      ],
+      text: definition ? `${name} - ${definition.scoreLabel}` : name,
+    },
+    subject: { reference: `Patient/${result.user_id}` },
+    effectiveDateTime: new Date(result.completed_at).toISOString(),
+    ...(Number.isInteger(result.score) ? { valueInteger: result.score } : { valueDecimal: result.score }),
+    interpretation: [{ text: result.band }],
+  };
+
+  if (subscales.length > 0) {
+    observation.component = subscales.map(s => ({
+      code: { text: s.label },
+      valueString: String(result.subscales[s.id]),
+    }));
+  }
+
+  return observation;
+}
+
+export function entriesToFhirBundle(
+  trackers: Tracker[],
+  entries: PainEntry[],
+  exportedAt: Date = new Date(),
+  assessments: AssessmentResult[] = []
+): FhirBundle {
+  const trackersById = new Map(trackers.map(t => [t.id, t]));
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: exportedAt.toISOString(),
+    entry: [
+      ...entries.map(entry => ({
+        fullUrl: `urn:uuid:${entry.id}`,
+        resource: entryToObservation(entry, trackersById.get(entry.tracker_id)),
+      })),
+      ...assessments.map(result => ({
+        fullUrl: `urn:uuid:${result.id}`,
+        resource: assessmentToObservation(result),
+      })),
+    ],
+  };
+}
+
+// =============================================================================
+// Download helpers
+// =============================================================================
+
+/**
+ * Serialize data in the requested format with a matching file name and MIME type
+ */
+export function buildExportFile(
+  format: ExportFormat,
+  trackers: Tracker[],
+  entries: PainEntry[],
+  exportedAt: Date = new Date(),
+  assessments: AssessmentResult[] = []
+): { filename: string; content: string; mimeType: string } {
+  const stamp = exportedAt.toISOString().slice(0, 10);
+
+  switch (format) {
+    case 'json':
+      return {
+        filename: `baseline-backup-${stamp}.json`,
+        content: backupToJson(buildBackup(trackers, entries, exportedAt, assessments)),
+        mimeType: 'application/json',
+      };
+    case 'csv':
+      return {
+        filename: `baseline-entries-${stamp}.csv`,
+        content: entriesToCsv(trackers, entries),
+        mimeType: 'text/csv',
+      };
+    case 'fhir':
+      return {
+        filename: `baseline-fhir-${stamp}.json`,
+        content: JSON.stringify(entriesToFhirBundle(trackers, entries, exportedAt, assessments), null, 2),
+        mimeType: 'application/fhir+json',
+      };
+  }
+}
+
+/**
+ * Trigger a browser download for generated content
+ */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,327 @@
+/**
+ * Flare Service
+ *
+ * Detects flares (sustained runs of entries well above the user's rolling
+ * baseline) and keeps them as flare_episodes records. Detection only ever
+ * adds or adjusts unreviewed episodes; anything the user confirmed,
+ * dismissed, merged or split is left as they decided.
+ */
+
+import { differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { DbPort, DbResult } from '@/ports/DbPort';
+import type { PainEntry } from '@/types/pain-entry';
+import type { Tracker } from '@/types/tracker';
+import type { FlareEpisode, FlareStatus } from '@/types/flare';
+import type { IntensityScale } from '@/types/generated-config';
+import { DEFAULT_SCALE, type ScaleDefinition } from '@/types/scale';
+import { getTrackerConfig } from '@/types/tracker-config';
+
+/** Start, end and summary numbers of a run of entries */
+export type FlareStats = Pick<
+  FlareEpisode,
+  'started_at' | 'ended_at' | 'peak_intensity' | 'average_intensity' | 'entry_count'
+>;
+
+export interface FlareDetectionOptions {
+  scale: IntensityScale;
+  /** The tracker's rating range (default 1-10) */
+  range?: ScaleDefinition;
+  /** Days of prior entries the baseline is taken from (default 30) */
+  baselineDays?: number;
+  /** Prior entries needed before a baseline exists (default 5) */
+  minBaselineEntries?: number;
+  /** How far above baseline counts as elevated, in points of a 1-10 scale (default 2) */
+  threshold?: number;
+  /** A run qualifies with this many entries... (default 3) */
+  minEntries?: number;
+  /** ...or when it spans this many calendar days (default 2) */
+  minDays?: number;
+  /** A longer silence between entries ends the run (default 72) */
+  maxGapHours?: number;
+}
+
+export const FLARE_HASHTAG = 'flareup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Severity on a "higher is worse" axis, in points from the good end of the
+ * range stretched to the 9 points of a 1-10 scale. Neutral scales are read
+ * as high_bad, since a flare is always about getting worse.
+ */
+function flareSeverity(intensity: number, scale: IntensityScale, range: ScaleDefinition = DEFAULT_SCALE): number {
+  const points = scale === 'low_bad' ? range.max - intensity : intensity - range.min;
+  return (points * 9) / (range.max - range.min);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const overlaps = (a: FlareStats, b: FlareStats) =>
+  a.started_at <= b.ended_at && b.started_at <= a.ended_at;
+
+/**
+ * Summary numbers for a set of entries. The peak is the worst value on the
+ * tracker's scale (the lowest mood, the highest pain).
+ */
+export function summarizeEntries(entries: PainEntry[], scale: IntensityScale): FlareStats {
+  const timestamps = entries.map(e => e.timestamp);
+  const worst = entries.reduce((a, b) => (flareSeverity(b.intensity, scale) > flareSeverity(a.intensity, scale) ? b : a));
+  return {
+    started_at: Math.min(...timestamps),
+    ended_at: Math.max(...timestamps),
+    peak_intensity: worst.intensity,
+    average_intensity: round2(entries.reduce((sum, e) => sum + e.intensity, 0) / entries.length),
+    entry_count: entries.length,
+  };
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Find flares: runs of consecutive elevated entries that last long enough.
+ * An entry is elevated when it is `threshold` above the median of the prior
+ * `baselineDays`, or when the user tagged it #flareup.
+ */
+export function detectFlares(entries: PainEntry[], options: FlareDetectionOptions): FlareStats[] {
+  const {
+    scale,
+    range = DEFAULT_SCALE,
+    baselineDays = 30,
+    minBaselineEntries = 5,
+    threshold = 2,
+    minEntries = 3,
+    minDays = 2,
+    maxGapHours = 72,
+  } = options;
+
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  const flares: FlareStats[] = [];
+  let run: PainEntry[] = [];
+
+  const closeRun = () => {
+    if (run.length === 0) return;
+    const days = differenceInCalendarDays(run[run.length - 1].timestamp, run[0].timestamp) + 1;
+    if (run.length >= minEntries || days >= minDays) {
+      flares.push(summarizeEntries(run, scale));
+    }
+    run = [];
+  };
+
+  sorted.forEach((entry, i) => {
+    const windowStart = entry.timestamp - baselineDays * DAY_MS;
+    const prior = sorted
+      .slice(0, i)
+      .filter(e => e.timestamp >= windowStart)
+      .map(e => flareSeverity(e.intensity, scale, range));
+
+    const tagged = (entry.hashtags ?? []).includes(FLARE_HASHTAG);
+    const aboveBaseline = prior.length >= minBaselineEntries
+      && flareSeverity(entry.intensity, scale, range) - median(prior) >= threshold;
+
+    const previous = run[run.length - 1];
+    if (previous && entry.timestamp - previous.timestamp > maxGapHours * HOUR_MS) {
+      closeRun();
+    }
+
+    if (tagged || aboveBaseline) {
+      run.push(entry);
+    } else {
+      closeRun();
+    }
+  });
+  closeRun();
+
+  return flares;
+}
+
+export interface FlareChanges {
+  inserts: FlareStats[];
+  updates: { id: string; stats: FlareStats }[];
+  deletes: string[];
+}
+
+/**
+ * Work out how stored episodes change after a fresh detection.
+ * Unreviewed episodes follow the detection (grow, shrink, disappear);
+ * a detection overlapping a reviewed episode is ignored.
+ */
+export function reconcileFlares(detected: FlareStats[], stored: FlareEpisode[]): FlareChanges {
+  const changes: FlareChanges = { inserts: [], updates: [], deletes: [] };
+  const matched = new Set<string>();
+
+  for (const flare of detected) {
+    const overlapping = stored.filter(episode => overlaps(episode, flare));
+    if (overlapping.length === 0) {
+      changes.inserts.push(flare);
+      continue;
+    }
+    if (overlapping.some(episode => episode.status !== 'detected')) {
+      overlapping.forEach(episode => matched.add(episode.id));
+      continue;
+    }
+
+    const [keep, ...absorbed] = overlapping;
+    matched.add(keep.id);
+    const unchanged = (Object.keys(flare) as (keyof FlareStats)[]).every(key => Number(keep[key]) === flare[key]);
+    if (!unchanged) changes.updates.push({ id: keep.id, stats: flare });
+    for (const episode of absorbed) {
+      matched.add(episode.id);
+      changes.deletes.push(episode.id);
+    }
+  }
+
+  for (const episode of stored) {
+    if (episode.status === 'detected' && !matched.has(episode.id)) {
+      changes.deletes.push(episode.id);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Whole days since the most recent flare ended (0 while one is under way today).
+ * Null when there has never been a flare.
+ */
+export function daysSinceLastFlare(episodes: FlareEpisode[], now: Date = new Date()): number | null {
+  const active = episodes.filter(e => e.status !== 'dismissed');
+  if (active.length === 0) return null;
+  const lastEnd = Math.max(...active.map(e => e.ended_at));
+  return Math.max(0, differenceInCalendarDays(startOfDay(now), startOfDay(lastEnd)));
+}
+
+/**
+ * Entries that fall inside an episode
+ */
+export function entriesInFlare(episode: FlareStats, entries: PainEntry[]): PainEntry[] {
+  return entries
+    .filter(e => e.timestamp >= episode.started_at && e.timestamp <= episode.ended_at)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export async function loadFlareEpisodes(db: DbPort, trackerId: string): Promise<DbResult<FlareEpisode[]>> {
+  const result = await db.select<FlareEpisode>('flare_episodes', {
+    where: { tracker_id: trackerId },
+    orderBy: { column: 'started_at', ascending: true },
+  });
+  // NUMERIC columns come back from Postgres as strings
+  return {
+    data: result.data?.map(e => ({ ...e, average_intensity: Number(e.average_intensity) })) ?? null,
+    error: result.error,
+  };
+}
+
+/**
+ * Re-run detection for a tracker and save the differences. Returns all episodes.
+ */
+export async function refreshFlares(
+  db: DbPort,
+  tracker: Tracker,
+  entries: PainEntry[],
+  userId: string
+): Promise<DbResult<FlareEpisode[]>> {
+  const stored = await loadFlareEpisodes(db, tracker.id);
+  if (stored.error) return stored;
+
+  const config = getTrackerConfig(tracker.preset_id, tracker.generated_config, tracker.scale);
+  const detected = detectFlares(entries, { scale: config.intensityScale, range: config.scale });
+  const changes = reconcileFlares(detected, stored.data ?? []);
+  if (changes.inserts.length + changes.updates.length + changes.deletes.length === 0) {
+    return stored;
+  }
+
+  if (changes.inserts.length > 0) {
+    const { error } = await db.insert<FlareEpisode>(
+      'flare_episodes',
+      changes.inserts.map(stats => ({ ...stats, user_id: userId, tracker_id: tracker.id, status: 'detected' as const }))
+    );
+    if (error) return { data: null, error };
+  }
+  for (const { id, stats } of changes.updates) {
+    const { error } = await db.update<FlareEpisode>('flare_episodes', { id }, stats);
+    if (error) return { data: null, error };
+  }
+  for (const id of changes.deletes) {
+    const { error } = await db.delete('flare_episodes', { id });
+    if (error) return { data: null, error };
+  }
+
+  return loadFlareEpisodes(db, tracker.id);
+}
+
+export async function setFlareStatus(db: DbPort, id: string, status: FlareStatus): Promise<{ error: Error | null }> {
+  const { error } = await db.update<FlareEpisode>('flare_episodes', { id }, { status });
+  return { error };
+}
+
+/**
+ * Join two episodes into one confirmed episode covering both
+ */
+export async function mergeFlares(
+  db: DbPort,
+  first: FlareEpisode,
+  second: FlareEpisode,
+  entries: PainEntry[],
+  scale: IntensityScale
+): Promise<{ error: Error | null }> {
+  const span = {
+    started_at: Math.min(first.started_at, second.started_at),
+    ended_at: Math.max(first.ended_at, second.ended_at),
+  } as FlareStats;
+  const covered = entriesInFlare(span, entries);
+  if (covered.length === 0) return { error: new Error('No entries in these flares') };
+
+  const { error } = await db.update<FlareEpisode>('flare_episodes', { id: first.id }, {
+    ...summarizeEntries(covered, scale),
+    status: 'confirmed',
+  });
+  if (error) return { error };
+
+  return db.delete('flare_episodes', { id: second.id });
+}
+
+/**
+ * Split an episode in two: entries before `splitAt` stay, the rest start a new episode.
+ * Both halves are confirmed.
+ */
+export async function splitFlare(
+  db: DbPort,
+  episode: FlareEpisode,
+  entries: PainEntry[],
+  splitAt: number,
+  scale: IntensityScale
+): Promise<{ error: Error | null }> {
+  const covered = entriesInFlare(episode, entries);
+  const before = covered.filter(e => e.timestamp < splitAt);
+  const after = covered.filter(e => e.timestamp >= splitAt);
+  if (before.length === 0 || after.length === 0) {
+    return { error: new Error('Both parts of a split need at least one entry') };
+  }
+
+  const { error } = await db.update<FlareEpisode>('flare_episodes', { id: episode.id }, {
+    ...summarizeEntries(before, scale),
+    status: 'confirmed',
+  });
+  if (error) return { error };
+
+  const inserted = await db.insert<FlareEpisode>('flare_episodes', {
+    ...summarizeEntries(after, scale),
+    user_id: episode.user_id,
+    tracker_id: episode.tracker_id,
+    status: 'confirmed',
+  });
+  return { error: inserted.error };
+}
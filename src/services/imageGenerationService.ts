@@ -4,7 +4,7 @@
  * Handles AI-powered image generation for tracker icons using Gemini.
  */
 
-import { supabaseClient } from '@/adapters/supabase/supabaseClient';
+import { supabaseClient, isSupabaseConfigured } from '@/adapters/supabase/supabaseClient';
 
 export interface ImageGenerationResult {
   success: boolean;
@@ -25,6 +25,10 @@ export async function generateTrackerImage(
   trackerName: string,
   trackerId: string
 ): Promise<ImageGenerationResult> {
+  if (!isSupabaseConfigured) {
+    return { success: false, error: 'Image generation is not available in device-only mode' };
+  }
+
   try {
     console.log(`Generating image for tracker: ${trackerName} (ID: ${trackerId})`);
     
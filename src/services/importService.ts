@@ -0,0 +1,482 @@
+/**
+ * Import Service
+ *
+ * Brings history in from the app's own JSON backups and from CSV exports of
+ * other diary apps. Every source is turned into raw records, then validated
+ * against the target tracker into a dry-run preview before anything is saved.
+ */
+
+import type { Tracker } from '@/types/tracker';
+import { RELIEF_RATINGS, type PainEntry, type ReliefRating } from '@/types/pain-entry';
+import { getTrackerConfig, type TrackerConfig } from '@/types/tracker-config';
+import type { DbPort } from '@/ports/DbPort';
+import type { CustomFieldDefinition } from '@/types/custom-field';
+import { BACKUP_FORMAT, BACKUP_VERSION, CSV_FIELD_PREFIX, type BaselineBackup } from './exportService';
+import { validateFieldValues } from './customFieldService';
+import { isOnScale } from './scaleService';
+
+/** Entry fields a CSV column can be mapped onto */
+export type ImportField =
+  | 'timestamp'
+  | 'ended_at'
+  | 'ongoing'
+  | 'intensity'
+  | 'locations'
+  | 'triggers'
+  | 'hashtags'
+  | 'notes'
+  | 'interventions'
+  | 'relief'
+  | 'relief_intensity'
+  | 'followed_up_at';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'timestamp', label: 'Date / time', required: true },
+  { field: 'ended_at', label: 'End date / time', required: false },
+  { field: 'ongoing', label: 'Ongoing', required: false },
+  { field: 'intensity', label: 'Intensity', required: true },
+  { field: 'locations', label: 'Locations', required: false },
+  { field: 'triggers', label: 'Triggers', required: false },
+  { field: 'hashtags', label: 'Hashtags', required: false },
+  { field: 'notes', label: 'Notes', required: false },
+  { field: 'interventions', label: 'Interventions', required: false },
+  { field: 'relief', label: 'Relief', required: false },
+  { field: 'relief_intensity', label: 'Intensity at follow-up', required: false },
+  { field: 'followed_up_at', label: 'Follow-up date / time', required: false },
+];
+
+/**
+ * CSV column index per field (unmapped fields are left out). Custom field
+ * columns are found by their "field:<key>" header instead.
+ */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/**
+ * A source row before validation. Values are whatever the source held.
+ */
+export interface RawImportRecord {
+  /** 1-based line/row number in the source, for error messages */
+  line: number;
+  timestamp: unknown;
+  ended_at?: unknown;
+  /** Rows with an end are never ongoing */
+  ongoing?: unknown;
+  intensity: unknown;
+  locations?: unknown;
+  triggers?: unknown;
+  hashtags?: unknown;
+  notes?: unknown;
+  /** Custom field values by field key */
+  fields?: unknown;
+  /** Interventions and their follow-up answer */
+  interventions?: unknown;
+  relief?: unknown;
+  relief_intensity?: unknown;
+  followed_up_at?: unknown;
+}
+
+export type ImportRowStatus = 'ready' | 'duplicate' | 'invalid';
+
+export interface ImportPreviewRow {
+  line: number;
+  status: ImportRowStatus;
+  entry: PainEntry | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  ready: number;
+  duplicates: number;
+  invalid: number;
+}
+
+const IMPORT_BATCH_SIZE = 200;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted cells, "" escapes,
+ * embedded newlines). Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(c => c.trim() !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  if (row.some(c => c.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+  timestamp: ['timestamp', 'date', 'datetime', 'date_time', 'time', 'recorded', 'logged', 'created'],
+  ended_at: ['ended_at', 'end', 'ended', 'end_time', 'end_date', 'until', 'finished'],
+  ongoing: ['ongoing', 'in_progress', 'still_going'],
+  intensity: ['intensity', 'level', 'pain', 'score', 'rating', 'severity', 'mood', 'value'],
+  locations: ['locations', 'location', 'body', 'area', 'site', 'category', 'categories'],
+  triggers: ['triggers', 'trigger', 'factors', 'factor', 'causes', 'cause'],
+  hashtags: ['hashtags', 'hashtag', 'tags', 'tag'],
+  notes: ['notes', 'note', 'comment', 'comments', 'description', 'journal'],
+  interventions: ['interventions', 'intervention', 'treatments', 'treatment', 'remedies', 'remedy'],
+  relief: ['relief', 'helped'],
+  relief_intensity: ['relief_intensity', 'intensity_after', 'level_after'],
+  followed_up_at: ['followed_up_at', 'followed_up', 'follow_up_answered'],
+};
+
+/**
+ * Guess a column mapping from CSV headers (case-insensitive, first match wins)
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const { field } of IMPORT_FIELDS) {
+    for (const synonym of HEADER_SYNONYMS[field]) {
+      const index = normalized.findIndex((h, i) => !used.has(i) && (h === synonym || h.startsWith(`${synonym}_`)));
+      if (index !== -1) {
+        mapping[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Turn CSV rows (header first) into raw records using a column mapping.
+ * Cells stay text; "field:<key>" columns become the record's custom fields.
+ */
+export function csvToRecords(rows: string[][], mapping: ColumnMapping): RawImportRecord[] {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? undefined : row[index];
+  };
+  const fieldColumns = rows[0]
+    .map((header, index) => ({ key: header.trim().slice(CSV_FIELD_PREFIX.length), index, header: header.trim() }))
+    .filter(({ header, key }) => header.startsWith(CSV_FIELD_PREFIX) && key !== '');
+
+  return rows.slice(1).map((row, i) => ({
+    line: i + 2, // header is line 1
+    timestamp: cell(row, 'timestamp'),
+    ended_at: cell(row, 'ended_at'),
+    ongoing: cell(row, 'ongoing'),
+    intensity: cell(row, 'intensity'),
+    locations: cell(row, 'locations'),
+    triggers: cell(row, 'triggers'),
+    hashtags: cell(row, 'hashtags'),
+    notes: cell(row, 'notes'),
+    fields: Object.fromEntries(
+      fieldColumns.filter(({ index }) => (row[index] ?? '') !== '').map(({ key, index }) => [key, row[index]])
+    ),
+    interventions: cell(row, 'interventions'),
+    relief: cell(row, 'relief'),
+    relief_intensity: cell(row, 'relief_intensity'),
+    followed_up_at: cell(row, 'followed_up_at'),
+  }));
+}
+
+/**
+ * Parse and check a JSON backup created by the export service
+ */
+export function parseBackup(text: string): BaselineBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const backup = parsed as Partial<BaselineBackup>;
+  if (backup?.format !== BACKUP_FORMAT) {
+    throw new Error('Not a Baseline backup file');
+  }
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+  if (!Array.isArray(backup.trackers) || !Array.isArray(backup.entries)) {
+    throw new Error('Backup is missing trackers or entries');
+  }
+  return backup as BaselineBackup;
+}
+
+/**
+ * Raw records for the entries of one tracker in a backup
+ */
+export function backupToRecords(backup: BaselineBackup, sourceTrackerId: string): RawImportRecord[] {
+  return backup.entries
+    .filter(entry => entry.tracker_id === sourceTrackerId)
+    .map((entry, i) => ({
+      line: i + 1,
+      timestamp: entry.timestamp,
+      ended_at: entry.ended_at,
+      ongoing: entry.ongoing,
+      intensity: entry.intensity,
+      locations: entry.locations,
+      triggers: entry.triggers,
+      hashtags: entry.hashtags,
+      notes: entry.notes,
+      fields: entry.fields,
+      interventions: entry.interventions,
+      relief: entry.relief,
+      relief_intensity: entry.relief_intensity,
+      followed_up_at: entry.followed_up_at,
+    }));
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Parse a date cell: epoch milliseconds, epoch seconds, or any Date-parsable string
+ */
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseTimestamp(Number(trimmed));
+  }
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Split a list cell on ; , or | (arrays pass through)
+ */
+export function splitList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).map(v => v.trim()).filter(Boolean);
+  if (typeof value !== 'string') return [];
+  return value.split(/[;,|]/).map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Read a yes/no cell; anything else is null
+ */
+function parseFlag(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return null;
+  if (/^(true|yes|y|1)$/i.test(value.trim())) return true;
+  if (/^(false|no|n|0)$/i.test(value.trim())) return false;
+  return null;
+}
+
+/**
+ * Custom field values from CSV arrive as text; turn yes/no and list cells
+ * into the booleans and arrays the field check expects
+ */
+function fromFieldCell(field: CustomFieldDefinition, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  if (field.type === 'boolean') return parseFlag(value) ?? value;
+  if (field.type === 'multi_select') return splitList(value);
+  return value;
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+/**
+ * Match a location string against the tracker's locations by value or label
+ */
+export function resolveLocation(raw: string, locations: TrackerConfig['locations']): string | null {
+  const key = normalizeKey(raw);
+  const match = locations.find(l => normalizeKey(l.value) === key || normalizeKey(l.label) === key);
+  return match?.value ?? null;
+}
+
+/**
+ * Match a trigger case-insensitively against the tracker's triggers,
+ * keeping the tracker's spelling. Unknown triggers are kept as written.
+ */
+function resolveTrigger(raw: string, triggers: string[]): string {
+  return triggers.find(t => t.toLowerCase() === raw.trim().toLowerCase()) ?? raw.trim();
+}
+
+export const dedupeKey = (timestamp: number, intensity: number) => `${timestamp}|${intensity}`;
+
+interface PreviewContext {
+  tracker: Tracker;
+  userId: string;
+  existingEntries: PainEntry[];
+}
+
+/**
+ * Validate raw records against the target tracker without saving anything.
+ * Rows matching an existing entry (or an earlier row) on timestamp+intensity
+ * are marked duplicate.
+ */
+export function buildImportPreview(records: RawImportRecord[], ctx: PreviewContext): ImportPreview {
+  const config = getTrackerConfig(ctx.tracker.preset_id, ctx.tracker.generated_config, ctx.tracker.scale);
+  const seen = new Set(ctx.existingEntries.map(e => dedupeKey(e.timestamp, e.intensity)));
+
+  const rows = records.map((record): ImportPreviewRow => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const timestamp = parseTimestamp(record.timestamp);
+    if (timestamp === null) {
+      errors.push(`Unrecognised date "${String(record.timestamp ?? '')}"`);
+    }
+
+    const hasEnd = record.ended_at !== undefined && record.ended_at !== null && record.ended_at !== '';
+    const endedAt = hasEnd ? parseTimestamp(record.ended_at) : null;
+    if (hasEnd && endedAt === null) {
+      errors.push(`Unrecognised end date "${String(record.ended_at)}"`);
+    } else if (endedAt !== null && timestamp !== null && endedAt < timestamp) {
+      errors.push('End date is before the start');
+    }
+    const ongoing = parseFlag(record.ongoing) === true && endedAt === null;
+
+    const intensity = Number(typeof record.intensity === 'string' ? record.intensity.trim() : record.intensity);
+    if (record.intensity === undefined || record.intensity === '' || !Number.isFinite(intensity)) {
+      errors.push(`Intensity "${String(record.intensity ?? '')}" is not a number`);
+    } else if (!isOnScale(intensity, config.scale)) {
+      const { min, max, step } = config.scale;
+      errors.push(`Intensity ${intensity} must be a whole number from ${min} to ${max}${step > 1 ? ` in steps of ${step}` : ''}`);
+    }
+
+    const locations: string[] = [];
+    for (const raw of splitList(record.locations)) {
+      const resolved = resolveLocation(raw, config.locations);
+      if (resolved) {
+        if (!locations.includes(resolved)) locations.push(resolved);
+      } else {
+        warnings.push(`"${raw}" is not a ${config.locationLabel.toLowerCase()} option and was skipped`);
+      }
+    }
+
+    const rawFields = typeof record.fields === 'object' && record.fields !== null
+      ? record.fields as Record<string, unknown>
+      : {};
+    const { values: fields, errors: fieldErrors } = validateFieldValues(
+      ctx.tracker.fields ?? [],
+      Object.fromEntries((ctx.tracker.fields ?? []).map(field => [field.key, fromFieldCell(field, rawFields[field.key])]))
+    );
+    // Older rows may lack fields added since; only flag values that don't fit
+    for (const [key, message] of Object.entries(fieldErrors)) {
+      if (rawFields[key] !== undefined) warnings.push(`${key}: ${message}; the value was skipped`);
+    }
+
+    // A follow-up answer only comes across whole; pending follow-ups are dropped
+    const reliefIntensity = record.relief_intensity === '' ? NaN : Number(record.relief_intensity);
+    const followedUpAt = typeof record.followed_up_at === 'number'
+      ? record.followed_up_at
+      : parseTimestamp(record.followed_up_at);
+    const answered = RELIEF_RATINGS.some(r => r.value === record.relief)
+      && isOnScale(reliefIntensity, config.scale)
+      && followedUpAt !== null;
+    if (record.relief != null && record.relief !== '' && !answered) {
+      warnings.push('The follow-up answer is incomplete and was skipped');
+    }
+
+    if (errors.length > 0 || timestamp === null) {
+      return { line: record.line, status: 'invalid', entry: null, errors, warnings };
+    }
+
+    const entry: PainEntry = {
+      id: crypto.randomUUID(),
+      user_id: ctx.userId,
+      tracker_id: ctx.tracker.id,
+      timestamp,
+      ended_at: endedAt,
+      ongoing,
+      intensity,
+      locations,
+      triggers: [...new Set(splitList(record.triggers).map(t => resolveTrigger(t, config.triggers)))],
+      hashtags: [...new Set(splitList(record.hashtags).map(tag => tag.replace(/^#/, '').toLowerCase()))],
+      notes: typeof record.notes === 'string' ? record.notes : '',
+      fields,
+      interventions: [...new Set(splitList(record.interventions))],
+      relief: answered ? record.relief as ReliefRating : null,
+      relief_intensity: answered ? reliefIntensity : null,
+      followed_up_at: answered ? followedUpAt : null,
+    };
+
+    const key = dedupeKey(entry.timestamp, entry.intensity);
+    if (seen.has(key)) {
+      return { line: record.line, status: 'duplicate', entry, errors, warnings };
+    }
+    seen.add(key);
+
+    return { line: record.line, status: 'ready', entry, errors, warnings };
+  });
+
+  return {
+    rows,
+    ready: rows.filter(r => r.status === 'ready').length,
+    duplicates: rows.filter(r => r.status === 'duplicate').length,
+    invalid: rows.filter(r => r.status === 'invalid').length,
+  };
+}
+
+// =============================================================================
+// Commit
+// =============================================================================
+
+/**
+ * Insert the preview's ready rows in batches. Returns how many were saved.
+ */
+export async function commitImport(
+  db: DbPort,
+  preview: ImportPreview
+): Promise<{ imported: number; error: Error | null }> {
+  const entries = preview.rows
+    .filter(row => row.status === 'ready' && row.entry)
+    .map(row => row.entry as PainEntry);
+
+  let imported = 0;
+  for (let i = 0; i < entries.length; i += IMPORT_BATCH_SIZE) {
+    const batch = entries.slice(i, i + IMPORT_BATCH_SIZE);
+    const { error } = await db.insert<PainEntry>('pain_entries', batch);
+    if (error) {
+      return { imported, error };
+    }
+    imported += batch.length;
+  }
+
+  return { imported, error: null };
+}
@@ -0,0 +1,197 @@
+/**
+ * Insights Service
+ *
+ * Turns a tracker's (already filtered) entries into the series behind the
+ * Insights tab: daily trend with a rolling average, a calendar heatmap of
+ * daily maxima, a weekday × hour grid, location/trigger frequencies, and
+ * episode durations.
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  max as maxDate,
+  startOfDay,
+  startOfWeek,
+  subWeeks,
+} from 'date-fns';
+import type { PainEntry } from '@/types/pain-entry';
+import { getEntryDuration } from '@/lib/pain-utils';
+
+export interface TrendPoint {
+  /** Local calendar day, yyyy-MM-dd */
+  date: string;
+  /** Average of that day's entries */
+  average: number | null;
+  /** Average of all entries in the trailing window ending that day */
+  rollingAverage: number | null;
+}
+
+export interface HeatmapCell {
+  date: string;
+  max: number | null;
+}
+
+export interface WeekdayHourCell {
+  /** 0 = Sunday */
+  weekday: number;
+  hour: number;
+  count: number;
+  average: number | null;
+}
+
+export interface FrequencyBar {
+  key: string;
+  label: string;
+  count: number;
+  /** Average intensity of entries mentioning this item */
+  average: number;
+}
+
+export interface DurationSummary {
+  /** Entries with a duration (ended or still going) */
+  episodes: number;
+  ongoing: number;
+  /** Mean and longest of the ended episodes, null when none have ended */
+  averageMs: number | null;
+  longestMs: number | null;
+}
+
+export const ROLLING_WINDOW_DAYS = 7;
+export const HEATMAP_MAX_WEEKS = 53;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const dayKey = (timestamp: number | Date) => format(timestamp, 'yyyy-MM-dd');
+
+function groupByDay(entries: PainEntry[]): Map<string, number[]> {
+  const byDay = new Map<string, number[]>();
+  for (const entry of entries) {
+    const key = dayKey(entry.timestamp);
+    byDay.set(key, [...(byDay.get(key) ?? []), entry.intensity]);
+  }
+  return byDay;
+}
+
+/**
+ * One point per calendar day from the first to the last entry, with the
+ * daily average and a trailing rolling average (days without entries are skipped
+ * in the average, not counted as zero)
+ */
+export function buildTrendSeries(entries: PainEntry[], windowDays: number = ROLLING_WINDOW_DAYS): TrendPoint[] {
+  if (entries.length === 0) return [];
+
+  const timestamps = entries.map(e => e.timestamp);
+  const days = eachDayOfInterval({
+    start: startOfDay(Math.min(...timestamps)),
+    end: startOfDay(Math.max(...timestamps)),
+  });
+  const byDay = groupByDay(entries);
+  const dailyValues = days.map(day => byDay.get(dayKey(day)) ?? []);
+
+  return days.map((day, i) => {
+    const today = dailyValues[i];
+    const window = dailyValues.slice(Math.max(0, i - windowDays + 1), i + 1).flat();
+    return {
+      date: dayKey(day),
+      average: today.length ? round1(mean(today)) : null,
+      rollingAverage: window.length ? round1(mean(window)) : null,
+    };
+  });
+}
+
+/**
+ * Calendar weeks (Sunday first) covering the entries, newest week last.
+ * Each week has seven cells holding that day's highest intensity.
+ */
+export function buildCalendarHeatmap(entries: PainEntry[], maxWeeks: number = HEATMAP_MAX_WEEKS): HeatmapCell[][] {
+  if (entries.length === 0) return [];
+
+  const timestamps = entries.map(e => e.timestamp);
+  const last = endOfWeek(Math.max(...timestamps));
+  const earliestAllowed = startOfWeek(subWeeks(last, maxWeeks - 1));
+  const first = maxDate([startOfWeek(Math.min(...timestamps)), earliestAllowed]);
+
+  const maxByDay = new Map<string, number>();
+  for (const [key, values] of groupByDay(entries)) {
+    maxByDay.set(key, Math.max(...values));
+  }
+
+  const weekCount = Math.ceil((differenceInCalendarDays(last, first) + 1) / 7);
+  return Array.from({ length: weekCount }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const date = dayKey(addDays(first, week * 7 + weekday));
+      return { date, max: maxByDay.get(date) ?? null };
+    })
+  );
+}
+
+/**
+ * 7 × 24 grid of entry count and average intensity by local weekday and hour
+ */
+export function buildWeekdayHourGrid(entries: PainEntry[]): WeekdayHourCell[][] {
+  const buckets = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => [] as number[]));
+  for (const entry of entries) {
+    const date = new Date(entry.timestamp);
+    buckets[date.getDay()][date.getHours()].push(entry.intensity);
+  }
+
+  return buckets.map((hours, weekday) =>
+    hours.map((values, hour) => ({
+      weekday,
+      hour,
+      count: values.length,
+      average: values.length ? round1(mean(values)) : null,
+    }))
+  );
+}
+
+/**
+ * Most frequent values of a list field, with the average intensity when present
+ */
+export function buildFrequencyBars(
+  entries: PainEntry[],
+  field: 'locations' | 'triggers',
+  labelFor: (value: string) => string = value => value,
+  limit: number = 10
+): FrequencyBar[] {
+  const byValue = new Map<string, number[]>();
+  for (const entry of entries) {
+    for (const value of new Set(entry[field])) {
+      byValue.set(value, [...(byValue.get(value) ?? []), entry.intensity]);
+    }
+  }
+
+  return [...byValue.entries()]
+    .map(([key, values]) => ({ key, label: labelFor(key), count: values.length, average: round1(mean(values)) }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, limit);
+}
+
+/**
+ * Duration stats across ranged entries; single-moment entries are left out
+ * and ongoing episodes only counted, since their length isn't known yet
+ */
+export function summarizeDurations(entries: PainEntry[], now: number = Date.now()): DurationSummary {
+  const ended: number[] = [];
+  let episodes = 0;
+  let ongoing = 0;
+
+  for (const entry of entries) {
+    const duration = getEntryDuration(entry, now);
+    if (duration === null) continue;
+    episodes++;
+    if (entry.ongoing) ongoing++;
+    else ended.push(duration);
+  }
+
+  return {
+    episodes,
+    ongoing,
+    averageMs: ended.length ? Math.round(mean(ended)) : null,
+    longestMs: ended.length ? Math.max(...ended) : null,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Intervention Service
+ *
+ * Follow-up timing for entries that record interventions ("how is it
+ * now?"), and per-intervention effectiveness from the answers.
+ */
+
+import type { PainEntry, ReliefRating } from '@/types/pain-entry';
+
+export interface InterventionStats {
+  intervention: string;
+  /** Entries that used it */
+  uses: number;
+  /** Of those, entries with a follow-up answer */
+  rated: number;
+  /** Mean of intensity minus follow-up intensity; null without ratings */
+  averageDrop: number | null;
+  /** Share of rated uses with any relief (0-1); null without ratings */
+  helpedRate: number | null;
+}
+
+export const FOLLOW_UP_DELAYS: { minutes: number; label: string }[] = [
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+  { minutes: 240, label: '4 hours' },
+];
+
+export const DEFAULT_FOLLOW_UP_MINUTES = 60;
+
+/** KV key remembering the last delay chosen in the form */
+export const FOLLOW_UP_DELAY_KEY = 'followUpDelayMinutes';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * The follow-up is due and not answered yet
+ */
+export function isFollowUpDue(entry: PainEntry, now: number = Date.now()): boolean {
+  return entry.follow_up_at != null && entry.followed_up_at == null && now >= entry.follow_up_at;
+}
+
+/**
+ * Changes that record a follow-up answer on an entry
+ */
+export function followUpAnswer(
+  relief: ReliefRating,
+  reliefIntensity: number,
+  now: number = Date.now()
+): Pick<PainEntry, 'relief' | 'relief_intensity' | 'followed_up_at'> {
+  return { relief, relief_intensity: reliefIntensity, followed_up_at: now };
+}
+
+/**
+ * Effectiveness of each intervention across entries, most used first
+ */
+export function interventionEffectiveness(entries: PainEntry[]): InterventionStats[] {
+  const byIntervention = new Map<string, PainEntry[]>();
+  for (const entry of entries) {
+    for (const intervention of new Set(entry.interventions ?? [])) {
+      byIntervention.set(intervention, [...(byIntervention.get(intervention) ?? []), entry]);
+    }
+  }
+
+  return [...byIntervention.entries()]
+    .map(([intervention, uses]) => {
+      const rated = uses.filter(e => e.relief != null);
+      const drops = rated
+        .filter(e => e.relief_intensity != null)
+        .map(e => e.intensity - (e.relief_intensity as number));
+      return {
+        intervention,
+        uses: uses.length,
+        rated: rated.length,
+        averageDrop: drops.length ? round1(mean(drops)) : null,
+        helpedRate: rated.length ? rated.filter(e => e.relief !== 'none').length / rated.length : null,
+      };
+    })
+    .sort((a, b) => b.uses - a.uses || a.intervention.localeCompare(b.intervention));
+}
@@ -0,0 +1,332 @@
+/**
+ * Medication Service
+ *
+ * Expands medication schedules into dose slots, matches taken doses to
+ * them, and derives missed doses, weekly adherence and the intensity of a
+ * tracker's entries before and after each dose.
+ */
+
+import { addDays, addWeeks, format, startOfDay, startOfWeek, subWeeks } from 'date-fns';
+import type { DbPort, DbResult } from '@/ports/DbPort';
+import type { PainEntry } from '@/types/pain-entry';
+import type { Medication, MedicationDose, MedicationSchedule } from '@/types/medication';
+
+export interface DoseSlot {
+  /** When the dose was due (ms) */
+  scheduled_for: number;
+  /** The dose that covered it, if any */
+  dose: MedicationDose | null;
+}
+
+export interface WeeklyAdherence {
+  /** First day of the week, yyyy-MM-dd */
+  weekStart: string;
+  /** Slots that were due (their window has closed, or they were taken) */
+  expected: number;
+  taken: number;
+  /** 0-100, null when nothing was due */
+  percentage: number | null;
+}
+
+export interface DoseResponse {
+  /** Doses with entries on both sides of the dose */
+  doses: number;
+  /** Mean intensity in the window before / after, averaged per dose */
+  before: number | null;
+  after: number | null;
+}
+
+/** A dose counts for a slot taken up to this long before or after it */
+export const DOSE_WINDOW_MS = 2 * 60 * 60 * 1000;
+/** How far either side of a dose entries are compared */
+export const DOSE_RESPONSE_WINDOW_MS = 4 * 60 * 60 * 1000;
+export const ADHERENCE_WEEKS = 4;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Short description such as "Daily at 08:00, 20:00" or "Mon, Thu at 09:00"
+ */
+export function describeSchedule(schedule: MedicationSchedule): string {
+  if (schedule.type === 'as_needed') return 'As needed';
+  const times = [...schedule.times].sort().join(', ');
+  if (schedule.type === 'daily') return `Daily at ${times}`;
+  const days = [...schedule.weekdays].sort().map(d => WEEKDAY_LABELS[d]).join(', ');
+  return `${days} at ${times}`;
+}
+
+// =============================================================================
+// Schedule
+// =============================================================================
+
+/**
+ * Due times of a medication between two moments (inclusive), oldest first.
+ * Nothing is due before it was started or while it is stopped.
+ */
+export function scheduledDoses(medication: Medication, from: number, to: number): number[] {
+  const { schedule } = medication;
+  if (schedule.type === 'as_needed' || !medication.active) return [];
+
+  const start = Math.max(from, medication.started_at);
+  const slots: number[] = [];
+  const times = [...schedule.times].sort();
+
+  for (let day = startOfDay(start); day.getTime() <= to; day = addDays(day, 1)) {
+    if (schedule.type === 'weekly' && !schedule.weekdays.includes(day.getDay())) continue;
+    for (const time of times) {
+      const [hours, minutes] = time.split(':').map(Number);
+      const slot = new Date(day);
+      slot.setHours(hours, minutes, 0, 0);
+      if (slot.getTime() >= start && slot.getTime() <= to) slots.push(slot.getTime());
+    }
+  }
+  return slots;
+}
+
+/**
+ * Pair slots with doses: a dose logged for a slot covers it; otherwise the
+ * closest unused dose within DOSE_WINDOW_MS does.
+ */
+export function matchDoses(slots: number[], doses: MedicationDose[]): DoseSlot[] {
+  const used = new Set<string>();
+  const matched = new Map<number, MedicationDose>();
+
+  for (const dose of doses) {
+    if (dose.scheduled_for !== null && slots.includes(dose.scheduled_for) && !matched.has(dose.scheduled_for)) {
+      matched.set(dose.scheduled_for, dose);
+      used.add(dose.id);
+    }
+  }
+
+  for (const slot of slots) {
+    if (matched.has(slot)) continue;
+    let best: MedicationDose | null = null;
+    for (const dose of doses) {
+      if (used.has(dose.id) || dose.scheduled_for !== null) continue;
+      const distance = Math.abs(dose.taken_at - slot);
+      if (distance <= DOSE_WINDOW_MS && (!best || distance < Math.abs(best.taken_at - slot))) {
+        best = dose;
+      }
+    }
+    if (best) {
+      matched.set(slot, best);
+      used.add(best.id);
+    }
+  }
+
+  return slots.map(slot => ({ scheduled_for: slot, dose: matched.get(slot) ?? null }));
+}
+
+/**
+ * The open slot a dose taken at `takenAt` covers, or null for an extra dose
+ */
+export function slotForDose(medication: Medication, doses: MedicationDose[], takenAt: number): number | null {
+  const slots = scheduledDoses(medication, takenAt - DOSE_WINDOW_MS, takenAt + DOSE_WINDOW_MS);
+  const own = doses.filter(d => d.medication_id === medication.id);
+  const open = matchDoses(slots, own).filter(s => s.dose === null);
+  if (open.length === 0) return null;
+  return open.reduce((best, s) =>
+    Math.abs(s.scheduled_for - takenAt) < Math.abs(best.scheduled_for - takenAt) ? s : best
+  ).scheduled_for;
+}
+
+/**
+ * Slots in the last `days` days whose window closed without a dose, newest first
+ */
+export function missedDoses(
+  medication: Medication,
+  doses: MedicationDose[],
+  now: number = Date.now(),
+  days: number = 7
+): number[] {
+  const closedBefore = now - DOSE_WINDOW_MS;
+  const slots = scheduledDoses(medication, startOfDay(addDays(now, -days + 1)).getTime(), closedBefore);
+  const own = doses.filter(d => d.medication_id === medication.id);
+  return matchDoses(slots, own)
+    .filter(s => s.dose === null)
+    .map(s => s.scheduled_for)
+    .reverse();
+}
+
+/**
+ * The next slot still open for a dose (due now or later), if any in the next two days
+ */
+export function nextDoseDue(medication: Medication, doses: MedicationDose[], now: number = Date.now()): number | null {
+  const slots = scheduledDoses(medication, now - DOSE_WINDOW_MS, now + 2 * 24 * 60 * 60 * 1000);
+  const own = doses.filter(d => d.medication_id === medication.id);
+  return matchDoses(slots, own).find(s => s.dose === null)?.scheduled_for ?? null;
+}
+
+/**
+ * Share of due slots that were taken, per week, oldest first (current week last)
+ */
+export function weeklyAdherence(
+  medication: Medication,
+  doses: MedicationDose[],
+  now: number = Date.now(),
+  weeks: number = ADHERENCE_WEEKS
+): WeeklyAdherence[] {
+  const own = doses.filter(d => d.medication_id === medication.id);
+  const firstWeek = subWeeks(startOfWeek(now), weeks - 1);
+
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = addWeeks(firstWeek, i);
+    const slots = scheduledDoses(medication, weekStart.getTime(), Math.min(addWeeks(weekStart, 1).getTime() - 1, now));
+    const due = matchDoses(slots, own).filter(s => s.dose !== null || s.scheduled_for < now - DOSE_WINDOW_MS);
+    const taken = due.filter(s => s.dose !== null).length;
+    return {
+      weekStart: format(weekStart, 'yyyy-MM-dd'),
+      expected: due.length,
+      taken,
+      percentage: due.length ? Math.round((taken / due.length) * 100) : null,
+    };
+  });
+}
+
+// =============================================================================
+// Dose response
+// =============================================================================
+
+/**
+ * Mean intensity of entries in the window before and after each dose.
+ * Only doses with entries on both sides count, so the two means compare
+ * the same doses.
+ */
+export function doseResponse(
+  doses: MedicationDose[],
+  entries: PainEntry[],
+  windowMs: number = DOSE_RESPONSE_WINDOW_MS
+): DoseResponse {
+  const before: number[] = [];
+  const after: number[] = [];
+
+  for (const dose of doses) {
+    const prior = entries.filter(e => e.timestamp >= dose.taken_at - windowMs && e.timestamp < dose.taken_at);
+    const later = entries.filter(e => e.timestamp > dose.taken_at && e.timestamp <= dose.taken_at + windowMs);
+    if (prior.length === 0 || later.length === 0) continue;
+    before.push(mean(prior.map(e => e.intensity)));
+    after.push(mean(later.map(e => e.intensity)));
+  }
+
+  return {
+    doses: before.length,
+    before: before.length ? round1(mean(before)) : null,
+    after: after.length ? round1(mean(after)) : null,
+  };
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+// NUMERIC columns come back from Postgres as strings
+const toMedication = (row: Medication): Medication => ({ ...row, dose: Number(row.dose) });
+const toDose = (row: MedicationDose): MedicationDose => ({ ...row, dose: Number(row.dose) });
+
+export async function loadMedications(db: DbPort, userId: string): Promise<DbResult<Medication[]>> {
+  const result = await db.select<Medication>('medications', {
+    where: { user_id: userId },
+    orderBy: [{ column: 'active', ascending: false }, { column: 'name', ascending: true }],
+  });
+  return { data: result.data?.map(toMedication) ?? null, error: result.error };
+}
+
+/**
+ * Doses taken since a moment, oldest first
+ */
+export async function loadDoses(db: DbPort, userId: string, since: number): Promise<DbResult<MedicationDose[]>> {
+  const result = await db.select<MedicationDose>('medication_doses', {
+    where: { user_id: userId, taken_at: { gte: since } },
+    orderBy: { column: 'taken_at', ascending: true },
+  });
+  return { data: result.data?.map(toDose) ?? null, error: result.error };
+}
+
+/**
+ * Log a dose at the moment it was taken, attached to the open slot it covers
+ */
+export async function logDose(
+  db: DbPort,
+  medication: Medication,
+  doses: MedicationDose[],
+  takenAt: number = Date.now()
+): Promise<DbResult<MedicationDose>> {
+  const result = await db.insert<MedicationDose>('medication_doses', {
+    user_id: medication.user_id,
+    medication_id: medication.id,
+    taken_at: takenAt,
+    scheduled_for: slotForDose(medication, doses, takenAt),
+    dose: medication.dose,
+  });
+  return { data: result.data && toDose(result.data), error: result.error };
+}
+
+export type MedicationInput = Pick<Medication, 'name' | 'dose' | 'unit' | 'schedule' | 'notes'>;
+
+/**
+ * Problems with a medication form, empty when it can be saved
+ */
+export function validateMedication(input: MedicationInput): string[] {
+  const errors: string[] = [];
+  if (!input.name.trim()) errors.push('Enter a name');
+  if (!Number.isFinite(input.dose) || input.dose <= 0) errors.push('Enter a dose above zero');
+  if (!input.unit.trim()) errors.push('Enter a unit');
+  if (input.schedule.type !== 'as_needed') {
+    if (input.schedule.times.length === 0) errors.push('Add at least one time');
+    if (input.schedule.times.some(t => !/^([01]\d|2[0-3]):[0-5]\d$/.test(t))) errors.push('Times must be HH:mm');
+  }
+  if (input.schedule.type === 'weekly' && input.schedule.weekdays.length === 0) {
+    errors.push('Pick at least one day');
+  }
+  return errors;
+}
+
+/**
+ * Create a medication (due from now on) or update an existing one
+ */
+export async function saveMedication(
+  db: DbPort,
+  userId: string,
+  input: MedicationInput,
+  existing?: Medication | null
+): Promise<DbResult<Medication>> {
+  const values = {
+    ...input,
+    name: input.name.trim(),
+    unit: input.unit.trim(),
+    schedule: input.schedule.type === 'as_needed'
+      ? input.schedule
+      : { ...input.schedule, times: [...new Set(input.schedule.times)].sort() },
+  };
+  const result = existing
+    ? await db.update<Medication>('medications', { id: existing.id }, values)
+    : await db.insert<Medication>('medications', {
+      ...values,
+      user_id: userId,
+      started_at: Date.now(),
+      active: true,
+    });
+  return { data: result.data && toMedication(result.data), error: result.error };
+}
+
+export async function setMedicationActive(db: DbPort, id: string, active: boolean): Promise<DbResult<Medication>> {
+  const result = await db.update<Medication>('medications', { id }, { active });
+  return { data: result.data && toMedication(result.data), error: result.error };
+}
+
+export async function deleteDose(db: DbPort, id: string): Promise<{ error: Error | null }> {
+  return db.delete('medication_doses', { id });
+}
+
+/**
+ * Delete a medication and its dose history
+ */
+export async function deleteMedication(db: DbPort, id: string): Promise<{ error: Error | null }> {
+  // Postgres cascades this; the local store does not
+  const doses = await db.delete('medication_doses', { medication_id: id });
+  if (doses.error) return { error: doses.error };
+  return db.delete('medications', { id });
+}
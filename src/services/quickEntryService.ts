@@ -0,0 +1,501 @@
+/**
+ * Quick Entry Service
+ *
+ * Turns one line of free text ("lower back 7 after gardening #flareup since
+ * 2pm") into the parts of an entry: intensity, locations from the tracker's
+ * list, triggers matched loosely against the tracker's triggers, hashtags and
+ * a start time. Parsing is plain string matching against `now`, so the same
+ * text always gives the same result and nothing leaves the device.
+ */
+
+import { setHours, setMinutes, startOfDay, subDays, subMinutes } from 'date-fns';
+import type { TrackerConfig } from '@/types/tracker-config';
+import { isOnScale } from './scaleService';
+
+export interface QuickEntry {
+  /** Null when the text gave no value on the tracker's scale */
+  intensity: number | null;
+  locations: string[];
+  triggers: string[];
+  hashtags: string[];
+  timestamp: number;
+  /** Whether the text said when it happened; otherwise timestamp is `now` */
+  timeGiven: boolean;
+  /** "since 2pm" or "started this morning" marks the entry as still going on */
+  ongoing: boolean;
+  notes: string;
+}
+
+type QuickEntryConfig = Pick<TrackerConfig, 'scale' | 'locations' | 'triggers' | 'bandLabels'>;
+
+interface Token {
+  raw: string;
+  word: string;
+  /** A comma or full stop followed the token */
+  breakAfter: boolean;
+  used: boolean;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+/**
+ * Words before a clock time. A bare hour after one ("at 10") is read once
+ * the intensity is known; one after an ongoing cue ("since 2") never is
+ * the intensity.
+ */
+const CLOCK_CUES = new Set(['since', 'at', 'from', 'around', 'started']);
+const ONGOING_CUES = new Set(['since', 'started']);
+const MINUTE_UNITS = new Set(['m', 'min', 'mins', 'minute', 'minutes']);
+const HOUR_UNITS = new Set(['h', 'hr', 'hrs', 'hour', 'hours']);
+
+/** Words after a number that make it an amount or a time ("slept 5 hours", "2 pm"), not an intensity */
+const UNIT_WORDS = new Set([
+  ...MINUTE_UNITS, ...HOUR_UNITS,
+  'day', 'days', 'night', 'nights', 'week', 'weeks', 'am', 'pm', 'a.m', 'p.m',
+]);
+
+/** Times of day a phrase like "this morning" stands for, as [hour, minute] */
+const DAY_PARTS: Record<string, [number, number]> = {
+  morning: [9, 0],
+  noon: [12, 0],
+  lunchtime: [12, 30],
+  afternoon: [15, 0],
+  evening: [19, 0],
+  tonight: [20, 0],
+  night: [22, 0],
+};
+
+/** Words that introduce a cause, e.g. "after gardening" */
+const TRIGGER_CUES: Record<string, string | null> = {
+  after: null,
+  because: 'of',
+  due: 'to',
+  triggered: 'by',
+  caused: 'by',
+};
+
+/** Trigger words too common to match a trigger on their own */
+const GENERIC_TRIGGER_WORDS = new Set(['issues', 'issue', 'change', 'changes', 'other', 'general']);
+
+/** Words left out of the note once everything else is picked out */
+const FILLER_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'my', 'in', 'on', 'of', 'at', 'to', 'with', 'is', 'was', 'it',
+  'pain', 'today', 'this', 'since', 'from', 'after', 'about', 'around', 'feeling', 'felt',
+]);
+
+// =============================================================================
+// Matching helpers
+// =============================================================================
+
+function tokenize(text: string): Token[] {
+  return text.split(/\s+/).flatMap(part => {
+    const core = part.replace(/^[("'[]+/, '').replace(/[)"'\].,;!?]+$/, '');
+    if (!core) return [];
+    return [{ raw: core, word: core.toLowerCase(), breakAfter: /[.,;!?]$/.test(part), used: false }];
+  });
+}
+
+function singular(word: string): string {
+  if (word === 'feet') return 'foot';
+  if (word === 'teeth') return 'tooth';
+  return word.length > 3 && /[^s]s$/.test(word) ? word.slice(0, -1) : word;
+}
+
+/** Lower-case, split on separators and singularize, so "Lower-Backs" meets "lower back" */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/[\s\-:_/]+/)
+    .filter(Boolean)
+    .map(singular)
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether a typed word is close enough to a trigger word: the same, one
+ * starting the other ("stressed"/"stress"), or a small typo away. Short words
+ * must match exactly.
+ */
+function isCloseWord(typed: string, target: string): boolean {
+  if (typed === target) return true;
+  if (Math.min(typed.length, target.length) < 4) return false;
+  if (typed.startsWith(target) || target.startsWith(typed)) return true;
+  return levenshtein(typed, target) <= (Math.max(typed.length, target.length) >= 7 ? 2 : 1);
+}
+
+/** Start indexes where `length` unused tokens in a row are not split by punctuation */
+function windows(tokens: Token[], length: number): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i + length <= tokens.length; i++) {
+    const run = tokens.slice(i, i + length);
+    if (run.some(t => t.used)) continue;
+    if (run.slice(0, -1).some(t => t.breakAfter)) continue;
+    starts.push(i);
+  }
+  return starts;
+}
+
+function use(tokens: Token[], start: number, length: number) {
+  for (let i = start; i < start + length; i++) tokens[i].used = true;
+}
+
+function parseNumber(word: string): number | null {
+  if (/^\d+$/.test(word)) return Number(word);
+  return NUMBER_WORDS[word] ?? null;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// =============================================================================
+// Parts of an entry
+// =============================================================================
+
+function takeHashtags(tokens: Token[]): string[] {
+  const hashtags: string[] = [];
+  for (const token of tokens) {
+    const tag = /^#([\p{L}\p{N}_-]+)$/u.exec(token.word)?.[1];
+    if (!tag) continue;
+    token.used = true;
+    if (!hashtags.includes(tag)) hashtags.push(tag);
+  }
+  return hashtags;
+}
+
+/**
+ * A clock time at tokens[i] ("2pm", "14:30", "2 pm"), as [hour, minute, token count]
+ */
+function readClock(tokens: Token[], i: number, cued: boolean): [number, number, number] | null {
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(tokens[i].word);
+  if (!match) return null;
+
+  let count = 1;
+  let meridiem = match[3];
+  const next = tokens[i + 1];
+  if (!meridiem && next && !next.used && /^(am|pm|a\.m|p\.m)$/.test(next.word)) {
+    meridiem = next.word.charAt(0) === 'a' ? 'am' : 'pm';
+    count = 2;
+  }
+  // A bare number is only a time after a cue such as "since" or "at", and never an amount ("20 min")
+  if (!cued && !meridiem && match[2] === undefined) return null;
+  if (!meridiem && next && (MINUTE_UNITS.has(next.word) || HOUR_UNITS.has(next.word))) return null;
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (hour > 23) {
+    return null;
+  }
+  return [hour, minute, count];
+}
+
+/** The latest moment at or before `now` showing the given clock time */
+function latestAt(now: number, hour: number, minute: number, day: Date): number {
+  const time = setMinutes(setHours(day, hour), minute).getTime();
+  return time > now ? subDays(time, 1).getTime() : time;
+}
+
+function takeTime(tokens: Token[], now: number): Pick<QuickEntry, 'timestamp' | 'timeGiven' | 'ongoing'> {
+  const today = startOfDay(now);
+  let day = today;
+  let dayGiven = false;
+  let clock: [number, number] | null = null;
+  let ongoing = false;
+  let ago: number | null = null;
+  let dayPart = false;
+
+  // "since this morning", "started yesterday", "started 20 min ago"
+  const takeOngoingCue = (i: number) => {
+    const cue = tokens[tokens[i - 1]?.word === 'this' ? i - 2 : i - 1];
+    if (cue && !cue.used && ONGOING_CUES.has(cue.word)) {
+      cue.used = true;
+      ongoing = true;
+    }
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.used) continue;
+
+    if (token.word === 'yesterday') {
+      takeOngoingCue(i);
+      token.used = true;
+      day = subDays(today, 1);
+      dayGiven = true;
+      continue;
+    }
+
+    // "last night", "this morning", or just "morning"
+    if (token.word === 'last' && tokens[i + 1]?.word === 'night') {
+      takeOngoingCue(i);
+      use(tokens, i, 2);
+      day = subDays(today, 1);
+      dayGiven = true;
+      clock = DAY_PARTS.night;
+      continue;
+    }
+    if (DAY_PARTS[token.word] && !clock) {
+      takeOngoingCue(i);
+      token.used = true;
+      if (tokens[i - 1]?.word === 'this' && !tokens[i - 1].used) tokens[i - 1].used = true;
+      clock = DAY_PARTS[token.word];
+      dayPart = true;
+      continue;
+    }
+
+    // "20 min ago", "2h ago", "an hour ago", "half an hour ago"
+    const agoAt = tokens.findIndex((t, j) => j >= i && !t.used && t.word === 'ago');
+    if (agoAt > i && agoAt - i <= 4 && ago === null) {
+      const words = tokens.slice(i, agoAt).map(t => t.word).join(' ');
+      const match = /^(\d+|an?|one|half an?)\s*([a-z]+)$/.exec(words);
+      if (match) {
+        const amount = match[1].startsWith('half') ? 0.5 : parseNumber(match[1]) ?? 1;
+        const unit = match[2];
+        const minutes = MINUTE_UNITS.has(unit) ? amount : HOUR_UNITS.has(unit) ? amount * 60 : null;
+        if (minutes !== null) {
+          takeOngoingCue(i);
+          use(tokens, i, agoAt - i + 1);
+          ago = minutes;
+          continue;
+        }
+      }
+    }
+
+    const cued = CLOCK_CUES.has(token.word);
+    const clockAt = cued ? i + 1 : i;
+    if (clockAt < tokens.length && !tokens[clockAt].used && !clock) {
+      const read = readClock(tokens, clockAt, cued);
+      if (read) {
+        use(tokens, i, clockAt - i + read[2]);
+        clock = [read[0], read[1]];
+        ongoing ||= ONGOING_CUES.has(token.word);
+      }
+    }
+  }
+
+  if (ago !== null) {
+    return { timestamp: subMinutes(now, ago).getTime(), timeGiven: true, ongoing };
+  }
+  if (clock) {
+    // "This morning" before nine still means today, so it only moves back to now
+    if (dayGiven || dayPart) {
+      const time = setMinutes(setHours(day, clock[0]), clock[1]).getTime();
+      return { timestamp: Math.min(time, now), timeGiven: true, ongoing };
+    }
+    // A bare "since 2" means whichever 2 o'clock was most recent
+    const candidates = [latestAt(now, clock[0], clock[1], today)];
+    if (clock[0] < 12) candidates.push(latestAt(now, clock[0] + 12, clock[1], today));
+    return { timestamp: Math.max(...candidates), timeGiven: true, ongoing };
+  }
+  if (dayGiven) {
+    return { timestamp: subDays(now, 1).getTime(), timeGiven: true, ongoing };
+  }
+  return { timestamp: now, timeGiven: false, ongoing: false };
+}
+
+function takeIntensity(tokens: Token[], config: QuickEntryConfig): number | null {
+  const { scale } = config;
+
+  // "7/10" or "7 out of 10"
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].used) continue;
+    const slash = /^(\d+)\/(\d+)$/.exec(tokens[i].word);
+    if (slash && Number(slash[2]) === scale.max && isOnScale(Number(slash[1]), scale)) {
+      tokens[i].used = true;
+      return Number(slash[1]);
+    }
+    const value = parseNumber(tokens[i].word);
+    if (
+      value !== null
+      && tokens[i + 1]?.word === 'out'
+      && tokens[i + 2]?.word === 'of'
+      && Number(tokens[i + 3]?.word) === scale.max
+      && isOnScale(value, scale)
+    ) {
+      use(tokens, i, 4);
+      return value;
+    }
+  }
+
+  // Otherwise a number on the scale that isn't an amount or a time: one
+  // beside "pain" or a body part first, one after "at" (likely a time) last
+  const nearWords = new Set(['pain', ...config.locations.flatMap(l => normalize(`${l.label} ${l.value}`).split(' '))]);
+  let best: { at: number; value: number; rank: number } | null = null;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.used) continue;
+    const value = parseNumber(token.word);
+    if (value === null || !isOnScale(value, scale)) continue;
+
+    const before = tokens[i - 1]?.word;
+    const after = tokens[i + 1]?.word;
+    if ((after && UNIT_WORDS.has(after)) || (before && ONGOING_CUES.has(before))) continue;
+
+    const near = [before, after].some(word => word && nearWords.has(singular(word)));
+    const rank = near ? 0 : before && CLOCK_CUES.has(before) ? 2 : 1;
+    if (!best || rank < best.rank) best = { at: i, value, rank };
+  }
+
+  if (!best) return null;
+  tokens[best.at].used = true;
+  // "pain 6": the word only said what the number is
+  for (const i of [best.at - 1, best.at + 1]) {
+    if (tokens[i]?.word === 'pain' && !tokens[i].used) tokens[i].used = true;
+  }
+  return best.value;
+}
+
+/** The middle of a band, for text that names one ("severe") instead of a number */
+function bandValue(config: QuickEntryConfig, band: number): number {
+  const { min, max, step, bands } = config.scale;
+  const low = band === 0 ? min : bands[band - 1] + step;
+  const high = band === bands.length ? max : bands[band];
+  return low + Math.floor((high - low) / 2 / step) * step;
+}
+
+function takeBand(tokens: Token[], config: QuickEntryConfig): number | null {
+  const labels = config.bandLabels.map(normalize);
+  for (const length of [2, 1]) {
+    for (const start of windows(tokens, length)) {
+      const phrase = normalize(tokens.slice(start, start + length).map(t => t.word).join(' '));
+      const band = labels.indexOf(phrase);
+      if (band !== -1) {
+        use(tokens, start, length);
+        return bandValue(config, band);
+      }
+    }
+  }
+  return null;
+}
+
+/** Longest runs of words first, so "lower back" wins over "back" */
+function takeLocations(tokens: Token[], config: QuickEntryConfig): string[] {
+  const keys = config.locations.flatMap(l => [
+    { key: normalize(l.label), value: l.value },
+    { key: normalize(l.value), value: l.value },
+  ]);
+  const found: string[] = [];
+
+  for (const length of [3, 2, 1]) {
+    for (const start of windows(tokens, length)) {
+      if (tokens.slice(start, start + length).some(t => t.used)) continue;
+      const phrase = normalize(tokens.slice(start, start + length).map(t => t.word).join(' '));
+      const match = keys.find(k => k.key === phrase);
+      if (!match) continue;
+      use(tokens, start, length);
+      if (!found.includes(match.value)) found.push(match.value);
+    }
+  }
+  return found;
+}
+
+function takeTriggers(tokens: Token[], config: QuickEntryConfig): string[] {
+  const found: string[] = [];
+  const targets = config.triggers.map(trigger => ({ trigger, words: normalize(trigger).split(' ') }));
+
+  // Whole trigger names first ("sleep issue", "stressed")
+  for (const { trigger, words } of targets) {
+    const start = windows(tokens, words.length).find(s =>
+      words.every((word, k) => isCloseWord(singular(tokens[s + k].word), word))
+    );
+    if (start === undefined) continue;
+    use(tokens, start, words.length);
+    found.push(trigger);
+  }
+
+  // Then one telling word of a longer name ("sitting" for "Prolonged Sitting")
+  for (const { trigger, words } of targets) {
+    if (found.includes(trigger) || words.length < 2) continue;
+    const telling = words.filter(w => w.length >= 5 && !GENERIC_TRIGGER_WORDS.has(w));
+    const token = tokens.find(t => !t.used && telling.some(w => isCloseWord(singular(t.word), w)));
+    if (!token) continue;
+    token.used = true;
+    found.push(trigger);
+  }
+
+  // Anything else after "after", "because of", "due to"... becomes a new trigger
+  for (let i = 0; i < tokens.length; i++) {
+    const cue = tokens[i];
+    if (cue.used || !(cue.word in TRIGGER_CUES)) continue;
+    const joiner = TRIGGER_CUES[cue.word];
+    let start = i + 1;
+    if (joiner) {
+      if (tokens[start]?.word !== joiner || cue.breakAfter) continue;
+      start++;
+    }
+
+    const words: Token[] = [];
+    for (let j = start; j < tokens.length && words.length < 3; j++) {
+      const token = tokens[j];
+      if (token.used || FILLER_WORDS.has(token.word) || parseNumber(token.word) !== null) break;
+      words.push(token);
+      if (token.breakAfter) break;
+    }
+    if (words.length === 0 && (start >= tokens.length || !tokens[start].used)) continue;
+
+    use(tokens, i, start - i);
+    for (const token of words) token.used = true;
+    const trigger = capitalize(words.map(t => t.word).join(' '));
+    if (trigger && !found.some(t => t.toLowerCase() === trigger.toLowerCase())) found.push(trigger);
+  }
+
+  return found;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse one line of text into entry parts for a tracker. Words that match
+ * nothing are kept, in order, as the note.
+ */
+export function parseQuickEntry(text: string, config: QuickEntryConfig, now: number = Date.now()): QuickEntry {
+  const tokens = tokenize(text);
+
+  const hashtags = takeHashtags(tokens);
+  // Intensity before time, so that what's left of "head 5 at 10" is a time
+  const number = takeIntensity(tokens, config);
+  const time = takeTime(tokens, now);
+  const locations = takeLocations(tokens, config);
+  const triggers = takeTriggers(tokens, config);
+  const intensity = number ?? takeBand(tokens, config);
+
+  const notes = tokens
+    .filter(t => !t.used)
+    .map(t => t.raw)
+    .join(' ');
+  const meaningful = tokens.some(t => !t.used && !FILLER_WORDS.has(t.word));
+
+  return {
+    intensity,
+    locations,
+    triggers,
+    hashtags,
+    ...time,
+    notes: meaningful ? notes : '',
+  };
+}
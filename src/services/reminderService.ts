@@ -0,0 +1,377 @@
+/**
+ * Reminder Service
+ *
+ * Works out when each tracker's reminders next fire (keeping out of quiet
+ * hours and honouring snoozes), stores reminders and reminder settings, and
+ * hands the upcoming ones to the reminder service worker, which shows them
+ * whether or not the app is open.
+ */
+
+import { addDays, format, startOfDay } from 'date-fns';
+import type { DbPort, DbResult } from '@/ports/DbPort';
+import type { Tracker } from '@/types/tracker';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  REMINDER_MESSAGES,
+  REMINDER_SYNC_TAG,
+  type Reminder,
+  type ReminderSchedule,
+  type ReminderSettings,
+} from '@/types/reminder';
+
+export interface UpcomingReminder {
+  reminder: Reminder;
+  /** When it fires (ms) */
+  at: number;
+}
+
+/** A reminder firing as the service worker shows it */
+export interface QueuedReminder {
+  reminderId: string;
+  trackerId: string;
+  title: string;
+  body: string;
+  /** When it fires (ms) */
+  at: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+/** Every schedule fires at least weekly, so the next firing is within this */
+const LOOKAHEAD_DAYS = 8;
+/** How far ahead the worker is given reminders; the app refreshes the queue on every visit */
+export const REMINDER_QUEUE_DAYS = 7;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** A day at a local "HH:mm" time (ms) */
+function atTime(day: Date, time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const at = new Date(day);
+  at.setHours(hours, minutes, 0, 0);
+  return at.getTime();
+}
+
+function describeDays(weekdays: number[]): string {
+  if (weekdays.length === 7) return 'Every day';
+  return [...weekdays].sort().map(d => WEEKDAY_LABELS[d]).join(', ');
+}
+
+/**
+ * Short description such as "Every day at 09:00, 21:00" or "Mon, Fri every 3 hours while awake"
+ */
+export function describeReminder(schedule: ReminderSchedule): string {
+  const days = describeDays(schedule.weekdays);
+  if (schedule.type === 'daily') return `${days} at ${[...schedule.times].sort().join(', ')}`;
+  const every = schedule.every_hours === 1 ? 'every hour' : `every ${schedule.every_hours} hours`;
+  return `${days} ${every} while awake`;
+}
+
+/**
+ * Problems with a reminder schedule, empty when it can be saved
+ */
+export function validateReminder(schedule: ReminderSchedule): string[] {
+  const errors: string[] = [];
+  if (schedule.weekdays.length === 0) errors.push('Pick at least one day');
+  if (schedule.type === 'daily') {
+    if (schedule.times.length === 0) errors.push('Add at least one time');
+    if (schedule.times.some(t => !TIME_PATTERN.test(t))) errors.push('Times must be HH:mm');
+  } else if (!Number.isInteger(schedule.every_hours) || schedule.every_hours < 1 || schedule.every_hours > 12) {
+    errors.push('Repeat every 1 to 12 hours');
+  }
+  return errors;
+}
+
+/**
+ * Problems with quiet hours and snooze length, empty when they can be saved
+ */
+export function validateReminderSettings(settings: Omit<ReminderSettings, 'user_id'>): string[] {
+  const errors: string[] = [];
+  if ((settings.quiet_start === null) !== (settings.quiet_end === null)) {
+    errors.push('Set both ends of quiet hours, or neither');
+  }
+  if ([settings.quiet_start, settings.quiet_end].some(t => t !== null && !TIME_PATTERN.test(t))) {
+    errors.push('Quiet hours must be HH:mm');
+  }
+  if (!Number.isInteger(settings.snooze_minutes) || settings.snooze_minutes < 1) {
+    errors.push('Snooze for at least a minute');
+  }
+  return errors;
+}
+
+// =============================================================================
+// Quiet hours
+// =============================================================================
+
+/**
+ * Whether a moment falls in quiet hours. Quiet hours may run past midnight
+ * (22:00–07:00); they start inclusive and end exclusive.
+ */
+export function isQuietTime(at: number, settings: Pick<ReminderSettings, 'quiet_start' | 'quiet_end'>): boolean {
+  const { quiet_start: start, quiet_end: end } = settings;
+  if (!start || !end || start === end) return false;
+  const time = format(at, 'HH:mm');
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+/**
+ * The moment itself, or when quiet hours end if it falls inside them
+ */
+export function afterQuietHours(at: number, settings: Pick<ReminderSettings, 'quiet_start' | 'quiet_end'>): number {
+  if (!isQuietTime(at, settings)) return at;
+  const end = atTime(new Date(at), settings.quiet_end as string);
+  return end > at ? end : atTime(addDays(new Date(at), 1), settings.quiet_end as string);
+}
+
+// =============================================================================
+// Schedule
+// =============================================================================
+
+/**
+ * Times a reminder's schedule fires after `from` and up to `to`, oldest
+ * first. Daily times in quiet hours wait until they end; interval reminders
+ * count from the end of quiet hours (or midnight without any) and skip
+ * anything that lands in them.
+ */
+export function reminderTimes(
+  schedule: ReminderSchedule,
+  settings: Pick<ReminderSettings, 'quiet_start' | 'quiet_end'>,
+  from: number,
+  to: number
+): number[] {
+  const times = new Set<number>();
+
+  // Start a day early: an interval counted from yesterday's wake-up can run past midnight
+  for (let day = addDays(startOfDay(from), -1); day.getTime() <= to; day = addDays(day, 1)) {
+    if (!schedule.weekdays.includes(day.getDay())) continue;
+
+    if (schedule.type === 'daily') {
+      for (const time of schedule.times) times.add(afterQuietHours(atTime(day, time), settings));
+      continue;
+    }
+
+    const wake = atTime(day, settings.quiet_start && settings.quiet_end ? settings.quiet_end : '00:00');
+    const step = schedule.every_hours * HOUR;
+    for (let at = wake + step; at < addDays(new Date(wake), 1).getTime(); at += step) {
+      if (!isQuietTime(at, settings)) times.add(at);
+    }
+  }
+
+  return [...times].filter(at => at > from && at <= to).sort((a, b) => a - b);
+}
+
+/**
+ * When a reminder next fires after `now`: its snooze if one is pending
+ * (nudged out of quiet hours), otherwise its schedule. Null when paused.
+ */
+export function nextReminderAt(
+  reminder: Reminder,
+  settings: Pick<ReminderSettings, 'quiet_start' | 'quiet_end'>,
+  now: number = Date.now()
+): number | null {
+  if (!reminder.enabled) return null;
+  if (reminder.snoozed_until !== null && reminder.snoozed_until > now) {
+    return afterQuietHours(reminder.snoozed_until, settings);
+  }
+  return reminderTimes(reminder.schedule, settings, now, addDays(new Date(now), LOOKAHEAD_DAYS).getTime())[0] ?? null;
+}
+
+/**
+ * The reminder that fires soonest after `now`, if any will
+ */
+export function nextReminder(
+  reminders: Reminder[],
+  settings: Pick<ReminderSettings, 'quiet_start' | 'quiet_end'>,
+  now: number = Date.now()
+): UpcomingReminder | null {
+  let next: UpcomingReminder | null = null;
+  for (const reminder of reminders) {
+    const at = nextReminderAt(reminder, settings, now);
+    if (at !== null && (!next || at < next.at)) next = { reminder, at };
+  }
+  return next;
+}
+
+/**
+ * Every firing of the reminders from `now` until `until`, oldest first, for
+ * the service worker to show. A pending snooze replaces the schedule until
+ * it fires, as in nextReminderAt. Reminders of trackers not given are left
+ * out.
+ */
+export function buildReminderQueue(
+  reminders: Reminder[],
+  trackers: Pick<Tracker, 'id' | 'name'>[],
+  settings: Pick<ReminderSettings, 'quiet_start' | 'quiet_end'>,
+  now: number = Date.now(),
+  until: number = addDays(new Date(now), REMINDER_QUEUE_DAYS).getTime()
+): QueuedReminder[] {
+  const trackersById = new Map(trackers.map(t => [t.id, t]));
+  const queue: QueuedReminder[] = [];
+
+  for (const reminder of reminders) {
+    const tracker = trackersById.get(reminder.tracker_id);
+    if (!tracker || !reminder.enabled) continue;
+
+    let times = reminderTimes(reminder.schedule, settings, now, until);
+    if (reminder.snoozed_until !== null && reminder.snoozed_until > now) {
+      const snoozedAt = afterQuietHours(reminder.snoozed_until, settings);
+      times = [snoozedAt, ...times.filter(at => at > snoozedAt)];
+    }
+
+    for (const at of times) {
+      queue.push({
+        reminderId: reminder.id,
+        trackerId: tracker.id,
+        title: `Time to log ${tracker.name}`,
+        body: 'Tap to add an entry.',
+        at,
+      });
+    }
+  }
+
+  return queue.sort((a, b) => a.at - b.at);
+}
+
+export function snoozeUntil(settings: Pick<ReminderSettings, 'snooze_minutes'>, now: number = Date.now()): number {
+  return now + settings.snooze_minutes * MINUTE;
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export async function loadReminders(db: DbPort, userId: string): Promise<DbResult<Reminder[]>> {
+  return db.select<Reminder>('reminders', {
+    where: { user_id: userId },
+    orderBy: { column: 'created_at', ascending: true },
+  });
+}
+
+/**
+ * Create a reminder for a tracker or change an existing one's schedule
+ */
+export async function saveReminder(
+  db: DbPort,
+  userId: string,
+  trackerId: string,
+  schedule: ReminderSchedule,
+  existing?: Reminder | null
+): Promise<DbResult<Reminder>> {
+  const values = {
+    schedule: {
+      ...schedule,
+      weekdays: [...new Set(schedule.weekdays)].sort(),
+      ...(schedule.type === 'daily' && { times: [...new Set(schedule.times)].sort() }),
+    },
+  };
+  if (existing) {
+    return db.update<Reminder>('reminders', { id: existing.id }, values);
+  }
+  return db.insert<Reminder>('reminders', {
+    ...values,
+    user_id: userId,
+    tracker_id: trackerId,
+    enabled: true,
+    snoozed_until: null,
+  });
+}
+
+export async function setReminderEnabled(db: DbPort, id: string, enabled: boolean): Promise<DbResult<Reminder>> {
+  return db.update<Reminder>('reminders', { id }, { enabled, snoozed_until: null });
+}
+
+/**
+ * Hold a reminder until a moment, or clear its snooze with null
+ */
+export async function snoozeReminder(db: DbPort, id: string, until: number | null): Promise<DbResult<Reminder>> {
+  return db.update<Reminder>('reminders', { id }, { snoozed_until: until });
+}
+
+export async function deleteReminder(db: DbPort, id: string): Promise<{ error: Error | null }> {
+  return db.delete('reminders', { id });
+}
+
+/**
+ * The user's reminder settings, or the defaults before they've saved any
+ */
+export async function loadReminderSettings(db: DbPort, userId: string): Promise<DbResult<ReminderSettings>> {
+  const { data, error } = await db.select<ReminderSettings>('reminder_settings', {
+    where: { user_id: userId },
+    limit: 1,
+  });
+  if (error) return { data: null, error };
+  return { data: data?.[0] ?? { ...DEFAULT_REMINDER_SETTINGS, user_id: userId }, error: null };
+}
+
+export async function saveReminderSettings(
+  db: DbPort,
+  settings: ReminderSettings
+): Promise<DbResult<ReminderSettings>> {
+  const { quiet_start, quiet_end, snooze_minutes } = settings;
+  if (settings.id) {
+    return db.update<ReminderSettings>('reminder_settings', { id: settings.id }, { quiet_start, quiet_end, snooze_minutes });
+  }
+  return db.insert<ReminderSettings>('reminder_settings', { user_id: settings.user_id, quiet_start, quiet_end, snooze_minutes });
+}
+
+// =============================================================================
+// Notifications
+// =============================================================================
+
+export const REMINDER_WORKER_URL = '/reminder-sw.js';
+
+/** How often the worker would like to wake up to show due reminders (ms) */
+const SYNC_INTERVAL = 15 * MINUTE;
+
+/** Periodic background sync is missing from the DOM typings */
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+};
+
+export function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+}
+
+/**
+ * Ask for permission to notify (once) and register the reminder worker.
+ * Resolves to the permission the browser ended up with.
+ */
+export async function enableNotifications(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return 'denied';
+  const permission = Notification.permission === 'default'
+    ? await Notification.requestPermission()
+    : Notification.permission;
+  if (permission === 'granted') await navigator.serviceWorker.register(REMINDER_WORKER_URL);
+  return permission;
+}
+
+/**
+ * Hand the reminder queue to the worker and ask the browser to wake it
+ * periodically to show them. Browsers only allow periodic sync for installed
+ * apps; elsewhere reminders are shown while a tab is open.
+ */
+export async function scheduleReminders(
+  queue: QueuedReminder[],
+  settings: Pick<ReminderSettings, 'snooze_minutes'>
+): Promise<void> {
+  const registration = await navigator.serviceWorker.getRegistration() as PeriodicSyncRegistration | undefined;
+  if (!registration?.active || Notification.permission !== 'granted') return;
+
+  registration.active.postMessage({
+    type: REMINDER_MESSAGES.schedule,
+    queue,
+    snoozeMinutes: settings.snooze_minutes,
+  });
+  await registration.periodicSync?.register(REMINDER_SYNC_TAG, { minInterval: SYNC_INTERVAL }).catch(() => {
+    // Not installed, or periodic sync refused: reminders still come while the app is open
+  });
+}
+
+/**
+ * Tell the worker a reminder is due so it shows it now
+ */
+export async function notifyReminderDue(): Promise<void> {
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: REMINDER_MESSAGES.due });
+}
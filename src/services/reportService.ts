@@ -0,0 +1,247 @@
+/**
+ * Report Service
+ *
+ * Summarizes one tracker's entries over a date range for the printable
+ * clinician report: daily series, intensity distribution, most frequent
+ * locations and triggers, the notes worth a doctor's attention, and
+ * assessment score trends.
+ */
+
+import { eachDayOfInterval, endOfDay, format, startOfDay } from 'date-fns';
+import type { Tracker } from '@/types/tracker';
+import type { PainEntry } from '@/types/pain-entry';
+import type { IntensityScale } from '@/types/generated-config';
+import { getTrackerConfig, type TrackerConfig } from '@/types/tracker-config';
+import { DEFAULT_SCALE, scaleBand, type ScaleDefinition } from '@/types/scale';
+import { scaleValues } from '@/services/scaleService';
+import { summarizeDurations, type DurationSummary } from '@/services/insightsService';
+import { ASSESSMENTS, type AssessmentDefinition, type AssessmentResult } from '@/types/assessment';
+import { scoreTrend, type ScorePoint } from '@/services/assessmentService';
+
+export interface ReportRange {
+  /** First day included (any time on that day) */
+  from: Date;
+  /** Last day included (any time on that day) */
+  to: Date;
+}
+
+export interface DailyPoint {
+  /** Local calendar day, yyyy-MM-dd */
+  date: string;
+  count: number;
+  average: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface FrequencyItem {
+  label: string;
+  count: number;
+  /** Fraction of entries in the range that mention this item */
+  share: number;
+}
+
+export interface DistributionBucket {
+  /** "7", or "21–40" for a band */
+  label: string;
+  /** The value, or the top of the band; picks the bar colour */
+  intensity: number;
+  count: number;
+}
+
+export interface ReportSummary {
+  entryCount: number;
+  daysLogged: number;
+  totalDays: number;
+  average: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface AssessmentTrend {
+  definition: AssessmentDefinition;
+  /** Scores in the range, oldest first */
+  points: ScorePoint[];
+  /** Last score minus the first; null with a single result */
+  change: number | null;
+}
+
+export interface ClinicianReportData {
+  trackerName: string;
+  config: TrackerConfig;
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  summary: ReportSummary;
+  durations: DurationSummary;
+  daily: DailyPoint[];
+  /** Entry count per value, or per band on scales with many values */
+  distribution: DistributionBucket[];
+  topLocations: FrequencyItem[];
+  topTriggers: FrequencyItem[];
+  notableNotes: PainEntry[];
+  /** All entries in range, oldest first */
+  entries: PainEntry[];
+  /** Assessments with at least one result in range */
+  assessments: AssessmentTrend[];
+}
+
+const TOP_ITEMS = 8;
+const NOTABLE_NOTES = 8;
+const MAX_DISTRIBUTION_ROWS = 11;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * How far an intensity sits toward the bad end of its scale.
+ * For neutral scales the extremes at either end are what stand out.
+ */
+export function intensitySeverity(
+  intensity: number,
+  scale: IntensityScale,
+  range: ScaleDefinition = DEFAULT_SCALE
+): number {
+  if (scale === 'high_bad') return intensity;
+  if (scale === 'low_bad') return range.min + range.max - intensity;
+  return Math.abs(intensity - (range.min + range.max) / 2);
+}
+
+/**
+ * Count entries per value on short scales; a 0-100 scale is grouped by band
+ */
+export function buildDistribution(intensities: number[], scale: ScaleDefinition): DistributionBucket[] {
+  const values = scaleValues(scale);
+  if (values.length <= MAX_DISTRIBUTION_ROWS) {
+    return values.map(value => ({
+      label: String(value),
+      intensity: value,
+      count: intensities.filter(v => v === value).length,
+    }));
+  }
+
+  return [...scale.bands, scale.max].map((top, band) => {
+    const bottom = band === 0 ? scale.min : scale.bands[band - 1] + scale.step;
+    return {
+      label: bottom === top ? String(top) : `${bottom}–${top}`,
+      intensity: top,
+      count: intensities.filter(v => scaleBand(v, scale.bands) === band).length,
+    };
+  });
+}
+
+function countFrequencies(
+  values: string[][],
+  labelFor: (value: string) => string,
+  total: number
+): FrequencyItem[] {
+  const counts = new Map<string, number>();
+  for (const list of values) {
+    for (const value of new Set(list)) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_ITEMS)
+    .map(([value, count]) => ({ label: labelFor(value), count, share: total > 0 ? count / total : 0 }));
+}
+
+/**
+ * Build everything the clinician report shows for one tracker and date range
+ */
+export function buildReportData(
+  tracker: Tracker,
+  allEntries: PainEntry[],
+  range: ReportRange,
+  generatedAt: Date = new Date(),
+  assessmentResults: AssessmentResult[] = []
+): ClinicianReportData {
+  const config = getTrackerConfig(tracker.preset_id, tracker.generated_config, tracker.scale);
+  const from = startOfDay(range.from);
+  const to = endOfDay(range.to);
+
+  const entries = allEntries
+    .filter(e => e.timestamp >= from.getTime() && e.timestamp <= to.getTime())
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const byDay = new Map<string, number[]>();
+  for (const entry of entries) {
+    const key = format(entry.timestamp, 'yyyy-MM-dd');
+    byDay.set(key, [...(byDay.get(key) ?? []), entry.intensity]);
+  }
+
+  const daily = eachDayOfInterval({ start: from, end: to }).map((day): DailyPoint => {
+    const date = format(day, 'yyyy-MM-dd');
+    const values = byDay.get(date) ?? [];
+    return {
+      date,
+      count: values.length,
+      average: values.length ? round1(values.reduce((a, b) => a + b, 0) / values.length) : null,
+      min: values.length ? Math.min(...values) : null,
+      max: values.length ? Math.max(...values) : null,
+    };
+  });
+
+  const intensities = entries.map(e => e.intensity);
+  const summary: ReportSummary = {
+    entryCount: entries.length,
+    daysLogged: byDay.size,
+    totalDays: daily.length,
+    average: intensities.length ? round1(intensities.reduce((a, b) => a + b, 0) / intensities.length) : null,
+    min: intensities.length ? Math.min(...intensities) : null,
+    max: intensities.length ? Math.max(...intensities) : null,
+  };
+
+  const distribution = buildDistribution(intensities, config.scale);
+
+  const locationLabels = new Map(config.locations.map(l => [l.value, l.label]));
+  const topLocations = countFrequencies(
+    entries.map(e => e.locations),
+    value => locationLabels.get(value) ?? value,
+    entries.length
+  );
+  const topTriggers = countFrequencies(entries.map(e => e.triggers), value => value, entries.length);
+
+  // Notes from the worst moments first, most recent on ties; shown in date order
+  const notableNotes = entries
+    .filter(e => e.notes?.trim())
+    .sort((a, b) =>
+      intensitySeverity(b.intensity, config.intensityScale, config.scale)
+      - intensitySeverity(a.intensity, config.intensityScale, config.scale)
+      || b.timestamp - a.timestamp
+    )
+    .slice(0, NOTABLE_NOTES)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const resultsInRange = assessmentResults.filter(
+    r => r.completed_at >= from.getTime() && r.completed_at <= to.getTime()
+  );
+  const assessments = ASSESSMENTS
+    .map((definition): AssessmentTrend => {
+      const points = scoreTrend(resultsInRange, definition.id);
+      return {
+        definition,
+        points,
+        change: points.length > 1 ? round1(points[points.length - 1].score - points[0].score) : null,
+      };
+    })
+    .filter(trend => trend.points.length > 0);
+
+  return {
+    trackerName: tracker.name,
+    config,
+    from,
+    to,
+    generatedAt,
+    summary,
+    durations: summarizeDurations(entries, generatedAt.getTime()),
+    daily,
+    distribution,
+    topLocations,
+    topTriggers,
+    notableNotes,
+    entries,
+    assessments,
+  };
+}
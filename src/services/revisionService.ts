@@ -0,0 +1,122 @@
+/**
+ * Revision Service
+ *
+ * Reads an entry's edit history (written by the revision trigger, or the
+ * local adapter offline), works out what each edit changed field by field,
+ * and puts an earlier version back.
+ */
+
+import type { DbPort, DbResult } from '@/ports/DbPort';
+import type { PainEntry } from '@/types/pain-entry';
+import type { EntryRevision } from '@/types/entry-revision';
+
+/** Entry columns a revision can differ in and a restore writes back, in display order */
+export const REVISION_FIELDS = [
+  { key: 'intensity', label: 'Intensity' },
+  { key: 'timestamp', label: 'Time' },
+  { key: 'ended_at', label: 'Ended' },
+  { key: 'ongoing', label: 'Ongoing' },
+  { key: 'locations', label: 'Locations' },
+  { key: 'triggers', label: 'Triggers' },
+  { key: 'hashtags', label: 'Hashtags' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'fields', label: 'Custom fields' },
+  { key: 'interventions', label: 'Interventions' },
+  { key: 'follow_up_at', label: 'Follow-up' },
+  { key: 'relief', label: 'Relief' },
+  { key: 'relief_intensity', label: 'Intensity after' },
+  { key: 'followed_up_at', label: 'Followed up' },
+] as const satisfies readonly { key: keyof PainEntry; label: string }[];
+
+export type RevisionField = (typeof REVISION_FIELDS)[number]['key'];
+
+export interface FieldChange {
+  field: RevisionField;
+  label: string;
+  before: unknown;
+  /** Undefined when the change deleted the entry */
+  after: unknown;
+}
+
+export interface RevisionChanges {
+  revision: EntryRevision;
+  changes: FieldChange[];
+}
+
+/** Empty values compare equal however they were stored (null, [], {}, '') */
+function comparable(value: unknown): string {
+  if (value === undefined || value === null || value === '') return 'null';
+  if (Array.isArray(value)) return value.length === 0 ? 'null' : JSON.stringify(value.map(comparable));
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => comparable(v) !== 'null')
+      .sort(([a], [b]) => a.localeCompare(b));
+    return entries.length === 0 ? 'null' : JSON.stringify(entries.map(([k, v]) => [k, comparable(v)]));
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The fields that differ between two versions of an entry. With no `after`
+ * (the entry was deleted) every field that had a value is listed.
+ */
+export function diffEntries(before: Partial<PainEntry>, after: Partial<PainEntry> | null): FieldChange[] {
+  return REVISION_FIELDS.flatMap(({ key, label }) => {
+    if (after === null) {
+      return comparable(before[key]) === 'null' ? [] : [{ field: key, label, before: before[key], after: undefined }];
+    }
+    return comparable(before[key]) === comparable(after[key])
+      ? []
+      : [{ field: key, label, before: before[key], after: after[key] }];
+  });
+}
+
+/**
+ * What each revision changed. Revisions are newest first; each one's data is
+ * the entry before the change, so the newest compares against `current`.
+ */
+export function revisionChanges(revisions: EntryRevision[], current: PainEntry | null): RevisionChanges[] {
+  return revisions.map((revision, i) => {
+    const after = revision.operation === 'delete'
+      ? null
+      : i === 0 ? current : revisions[i - 1].data;
+    return { revision, changes: diffEntries(revision.data, after) };
+  });
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * An entry's revisions, newest first
+ */
+export async function loadRevisions(db: DbPort, entryId: string): Promise<DbResult<EntryRevision[]>> {
+  return db.select<EntryRevision>('entry_revisions', {
+    where: { entry_id: entryId },
+    orderBy: { column: 'changed_at', ascending: false },
+  });
+}
+
+/**
+ * Put an entry back the way it was before a revision's change. The restore
+ * is itself an update, so it shows up in the history and can be undone.
+ */
+export async function restoreRevision(
+  db: DbPort,
+  revision: EntryRevision,
+  current: PainEntry | null
+): Promise<DbResult<PainEntry>> {
+  if (!current) {
+    const { updated_at: _updatedAt, deleted_at: _deletedAt, ...entry } = revision.data;
+    return db.insert<PainEntry>('pain_entries', entry);
+  }
+
+  const values: Partial<PainEntry> = {};
+  for (const { key } of REVISION_FIELDS) {
+    (values as Record<string, unknown>)[key] = revision.data[key] ?? null;
+  }
+  const { error } = await db.update<PainEntry>('pain_entries', { id: current.id }, values);
+  if (error) return { data: null, error };
+  return { data: { ...current, ...values }, error: null };
+}
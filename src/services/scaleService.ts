@@ -0,0 +1,120 @@
+/**
+ * Scale Service
+ *
+ * Checks intensity scale definitions (including ones proposed by
+ * generate-tracker-config), lists the values a scale allows, and puts values
+ * from different scales on a common 0–100 footing for comparison.
+ */
+
+import { SCALE_LIMITS, type ScaleDefinition } from '@/types/scale';
+
+const BAND_COUNT = 5;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// =============================================================================
+// Definitions
+// =============================================================================
+
+/**
+ * Four band bounds splitting the range into roughly equal fifths, on the step grid
+ */
+export function evenBands(min: number, max: number, step: number): ScaleDefinition['bands'] {
+  const bound = (k: number) => min + Math.floor(((max - min) * k) / BAND_COUNT / step) * step;
+  return [bound(1), bound(2), bound(3), bound(4)];
+}
+
+function parseDefinition(raw: unknown): ScaleDefinition | string {
+  if (!isRecord(raw)) return 'Scale is not an object';
+
+  const { min, max } = raw;
+  const step = raw.step ?? 1;
+  if (!Number.isInteger(min) || !Number.isInteger(max) || !Number.isInteger(step)) {
+    return 'Scale minimum, maximum and step must be whole numbers';
+  }
+  const [lo, hi, by] = [min as number, max as number, step as number];
+  if (lo < SCALE_LIMITS.min || hi > SCALE_LIMITS.max) {
+    return `Scale must stay within ${SCALE_LIMITS.min}–${SCALE_LIMITS.max}`;
+  }
+  if (lo >= hi) return 'Scale minimum must be below its maximum';
+  if (by < 1 || (hi - lo) % by !== 0) return `Step ${by} doesn't divide ${lo}–${hi} evenly`;
+
+  let bands = evenBands(lo, hi, by);
+  if (raw.bands !== undefined) {
+    const given = raw.bands;
+    const valid = Array.isArray(given)
+      && given.length === BAND_COUNT - 1
+      && given.every((bound, i) => typeof bound === 'number' && bound >= lo && bound <= hi && (i === 0 || bound >= given[i - 1]));
+    if (!valid) return `Bands must be ${BAND_COUNT - 1} rising bounds within ${lo}–${hi}`;
+    bands = given as ScaleDefinition['bands'];
+  }
+
+  let faces: ScaleDefinition['faces'];
+  if (raw.faces !== undefined) {
+    const given = raw.faces;
+    if (!Array.isArray(given) || given.length !== BAND_COUNT || !given.every(face => typeof face === 'string' && face.trim())) {
+      return `Faces must be ${BAND_COUNT} emoji, one per band`;
+    }
+    faces = given.map(face => (face as string).trim()) as ScaleDefinition['faces'];
+  }
+
+  return { min: lo, max: hi, step: by, bands, ...(faces && { faces }) };
+}
+
+/**
+ * Validate a scale definition from untrusted input. Bands default to even fifths.
+ */
+export function parseScale(raw: unknown): { scale: ScaleDefinition | null; error: string | null } {
+  const parsed = parseDefinition(raw);
+  return typeof parsed === 'string' ? { scale: null, error: parsed } : { scale: parsed, error: null };
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/**
+ * Every value the scale allows, lowest first
+ */
+export function scaleValues(scale: ScaleDefinition): number[] {
+  return Array.from({ length: (scale.max - scale.min) / scale.step + 1 }, (_, i) => scale.min + i * scale.step);
+}
+
+/**
+ * Evenly spread axis ticks from the minimum to the maximum, e.g. 1, 4, 7, 10
+ */
+export function scaleTicks(scale: ScaleDefinition, count: number = 4): number[] {
+  return Array.from({ length: count }, (_, i) => scale.min + Math.round(((scale.max - scale.min) * i) / (count - 1)));
+}
+
+/**
+ * Whether a value is one the scale allows
+ */
+export function isOnScale(value: number, scale: ScaleDefinition): boolean {
+  return Number.isInteger(value)
+    && value >= scale.min
+    && value <= scale.max
+    && (value - scale.min) % scale.step === 0;
+}
+
+/**
+ * Starting value for a new rating: the middle of the scale, rounded down to a step
+ */
+export function scaleMidpoint(scale: ScaleDefinition): number {
+  return scale.min + Math.floor((scale.max - scale.min) / 2 / scale.step) * scale.step;
+}
+
+/**
+ * A value as a percentage of the way from the scale's minimum to its maximum
+ */
+export function normalizeIntensity(value: number, scale: ScaleDefinition): number {
+  return ((value - scale.min) / (scale.max - scale.min)) * 100;
+}
+
+/**
+ * "7/10"-style display of a value
+ */
+export function formatIntensity(value: number, scale: ScaleDefinition): string {
+  return `${value}/${scale.max}`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Tracker Stats Service
+ *
+ * Dashboard summaries for every tracker in one aggregate call
+ * (tracker_stats), instead of fetching each tracker's entries.
+ */
+
+import { startOfDay } from 'date-fns';
+import type { DbPort, DbResult } from '@/ports/DbPort';
+
+export interface TrackerStats {
+  entryCount: number;
+  lastEntryDate: number | null;
+  /** Mean intensity over the last 7 days, null without entries */
+  averageLast7Days: number | null;
+  /** Daily average intensity for the last 14 days, oldest first; null on days without entries */
+  sparkline: (number | null)[];
+}
+
+/** Row shape returned by tracker_stats (BIGINT/NUMERIC may arrive as strings) */
+interface TrackerStatsRow {
+  tracker_id: string;
+  entry_count: number | string;
+  last_timestamp: number | string | null;
+  average_7d: number | string | null;
+  sparkline: (number | string | null)[] | null;
+}
+
+export const SPARKLINE_DAYS = 14;
+
+const toNumber = (value: number | string | null | undefined): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+export function toTrackerStats(row: TrackerStatsRow): TrackerStats {
+  const sparkline = (row.sparkline ?? []).map(toNumber);
+  return {
+    entryCount: Number(row.entry_count),
+    lastEntryDate: toNumber(row.last_timestamp),
+    averageLast7Days: toNumber(row.average_7d),
+    sparkline: sparkline.length === SPARKLINE_DAYS ? sparkline : Array(SPARKLINE_DAYS).fill(null),
+  };
+}
+
+/**
+ * Stats for all of a user's trackers, keyed by tracker id
+ */
+export async function loadTrackerStats(
+  db: DbPort,
+  userId: string,
+  now: Date = new Date()
+): Promise<DbResult<Record<string, TrackerStats>>> {
+  const { data, error } = await db.rpc<TrackerStatsRow[]>('tracker_stats', {
+    p_user_id: userId,
+    p_now: now.getTime(),
+    p_today_start: startOfDay(now).getTime(),
+  });
+  if (error) return { data: null, error };
+
+  const stats: Record<string, TrackerStats> = {};
+  for (const row of data ?? []) {
+    stats[row.tracker_id] = toTrackerStats(row);
+  }
+  return { data: stats, error: null };
+}
@@ -0,0 +1,100 @@
+/**
+ * Trash Service
+ *
+ * Deleting an entry or tracker moves it to the trash by setting deleted_at.
+ * Trashed rows are left out of every query through NOT_TRASHED, can be
+ * restored or deleted for good from the trash, and are purged automatically
+ * once they have been there for TRASH_RETENTION_DAYS. Entries deleted for
+ * good leave no edit history behind.
+ */
+
+import { addDays, differenceInCalendarDays, subDays } from 'date-fns';
+import type { DbPort, DbResult, WhereClause } from '@/ports/DbPort';
+import type { TrackerPort } from '@/ports/TrackerPort';
+import type { PainEntry } from '@/types/pain-entry';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+/** Add to a where clause to leave out trashed rows */
+export const NOT_TRASHED: WhereClause = { deleted_at: { isNull: true } };
+
+/**
+ * Days left before something trashed at `deletedAt` is purged, never below 0
+ */
+export function daysUntilPurge(deletedAt: string, now: number = Date.now()): number {
+  const purgeAt = addDays(Date.parse(deletedAt), TRASH_RETENTION_DAYS);
+  return Math.max(0, differenceInCalendarDays(purgeAt, now));
+}
+
+/** Anything trashed before this moment is due to be purged */
+export function purgeCutoff(now: number = Date.now()): string {
+  return subDays(now, TRASH_RETENTION_DAYS).toISOString();
+}
+
+// =============================================================================
+// Entries
+// =============================================================================
+
+/**
+ * Move an entry to the trash
+ */
+export async function trashEntry(db: DbPort, id: string, now: number = Date.now()): Promise<DbResult<PainEntry>> {
+  return db.update<PainEntry>('pain_entries', { id }, { deleted_at: new Date(now).toISOString() });
+}
+
+/**
+ * Take an entry back out of the trash
+ */
+export async function restoreEntry(db: DbPort, id: string): Promise<DbResult<PainEntry>> {
+  return db.update<PainEntry>('pain_entries', { id }, { deleted_at: null });
+}
+
+/**
+ * The user's trashed entries, most recently trashed first
+ */
+export async function loadTrashedEntries(db: DbPort, userId: string): Promise<DbResult<PainEntry[]>> {
+  return db.select<PainEntry>('pain_entries', {
+    where: { user_id: userId, deleted_at: { isNull: false } },
+    orderBy: { column: 'deleted_at', ascending: false },
+  });
+}
+
+/**
+ * Delete a trashed entry for good. Its edit history goes with it (the
+ * revision trigger, or the local adapter, clears entry_revisions).
+ */
+export async function deleteEntryForever(db: DbPort, id: string): Promise<{ error: Error | null }> {
+  const { error } = await db.delete('pain_entries', { id });
+  return { error };
+}
+
+// =============================================================================
+// Purge
+// =============================================================================
+
+/**
+ * Delete everything that has been in the trash longer than the retention
+ * period: entries directly, trackers through the port so their entries and
+ * other rows go with them
+ */
+export async function purgeTrash(
+  db: DbPort,
+  trackers: TrackerPort,
+  userId: string,
+  now: number = Date.now()
+): Promise<{ error: Error | null }> {
+  const cutoff = purgeCutoff(now);
+
+  const entries = await db.delete('pain_entries', { user_id: userId, deleted_at: { lt: cutoff } });
+  if (entries.error) return { error: entries.error };
+
+  const trashed = await trackers.getTrashedTrackers();
+  if (trashed.error) return { error: trashed.error };
+
+  for (const tracker of trashed.data ?? []) {
+    if (!tracker.deleted_at || Date.parse(tracker.deleted_at) >= Date.parse(cutoff)) continue;
+    const { error } = await trackers.deleteTracker(tracker.id);
+    if (error) return { error };
+  }
+  return { error: null };
+}
@@ -0,0 +1,214 @@
+/**
+ * Trigger Analysis Service
+ *
+ * Compares intensity on entries with and without each trigger or hashtag,
+ * both on the same entry and over the 24 hours that follow it. Differences
+ * come with a 95% confidence interval and are only reported once both groups
+ * have enough entries to say anything.
+ */
+
+import type { PainEntry } from '@/types/pain-entry';
+import type { IntensityScale } from '@/types/generated-config';
+
+export type TriggerKind = 'trigger' | 'hashtag';
+
+export interface TriggerEffect {
+  kind: TriggerKind;
+  name: string;
+  withCount: number;
+  withoutCount: number;
+  meanWith: number;
+  meanWithout: number;
+  /** meanWith - meanWithout */
+  difference: number;
+  /** meanWith / meanWithout */
+  lift: number;
+  /** 95% confidence interval for the difference */
+  ciLow: number;
+  ciHigh: number;
+  /** The interval excludes zero */
+  significant: boolean;
+}
+
+export interface InsufficientTrigger {
+  kind: TriggerKind;
+  name: string;
+  withCount: number;
+}
+
+export interface TriggerAnalysis {
+  /** Intensity on the entries that carry the trigger */
+  sameEntry: TriggerEffect[];
+  /** Intensity on entries logged within the lag window after it */
+  lagged: TriggerEffect[];
+  /** Triggers seen too rarely to compare yet */
+  insufficient: InsufficientTrigger[];
+}
+
+export interface TriggerAnalysisOptions {
+  scale: IntensityScale;
+  /** Entries needed on each side of a comparison (default 5) */
+  minSample?: number;
+  /** Follow-up window for the lagged comparison (default 24) */
+  lagHours?: number;
+}
+
+export const MIN_SAMPLE = 5;
+export const LAG_HOURS = 24;
+
+/** Normal approximation; with small samples the interval is optimistic, hence the minimum */
+const Z_95 = 1.96;
+const HOUR_MS = 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function sampleVariance(values: number[], valuesMean: number): number {
+  if (values.length < 2) return 0;
+  return values.reduce((sum, v) => sum + (v - valuesMean) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Welch-style comparison of two groups of intensities
+ */
+export function compareGroups(
+  kind: TriggerKind,
+  name: string,
+  withValues: number[],
+  withoutValues: number[]
+): TriggerEffect {
+  const meanWith = mean(withValues);
+  const meanWithout = mean(withoutValues);
+  const difference = meanWith - meanWithout;
+  const standardError = Math.sqrt(
+    sampleVariance(withValues, meanWith) / withValues.length +
+    sampleVariance(withoutValues, meanWithout) / withoutValues.length
+  );
+  const ciLow = difference - Z_95 * standardError;
+  const ciHigh = difference + Z_95 * standardError;
+
+  return {
+    kind,
+    name,
+    withCount: withValues.length,
+    withoutCount: withoutValues.length,
+    meanWith: round2(meanWith),
+    meanWithout: round2(meanWithout),
+    difference: round2(difference),
+    lift: meanWithout === 0 ? 0 : round2(meanWith / meanWithout),
+    ciLow: round2(ciLow),
+    ciHigh: round2(ciHigh),
+    significant: ciLow > 0 || ciHigh < 0,
+  };
+}
+
+/**
+ * How strongly an effect points toward the bad end of the scale.
+ * Neutral trackers rank by size of the difference in either direction.
+ */
+export function effectSeverity(difference: number, scale: IntensityScale): number {
+  if (scale === 'high_bad') return difference;
+  if (scale === 'low_bad') return -difference;
+  return Math.abs(difference);
+}
+
+/**
+ * Significant effects toward the bad end first, then everything else by severity
+ */
+function rankEffects(effects: TriggerEffect[], scale: IntensityScale): TriggerEffect[] {
+  const concerning = (effect: TriggerEffect) =>
+    Number(effect.significant && effectSeverity(effect.difference, scale) > 0);
+
+  return [...effects].sort((a, b) =>
+    concerning(b) - concerning(a)
+    || effectSeverity(b.difference, scale) - effectSeverity(a.difference, scale)
+    || b.withCount - a.withCount
+  );
+}
+
+function namesOf(entry: PainEntry, kind: TriggerKind): string[] {
+  return kind === 'trigger' ? entry.triggers : (entry.hashtags ?? []);
+}
+
+/**
+ * True when some timestamp in the sorted list falls in [time - windowMs, time)
+ */
+function followsWithin(sortedTimes: number[], time: number, windowMs: number): boolean {
+  let low = 0;
+  let high = sortedTimes.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sortedTimes[mid] < time) low = mid + 1;
+    else high = mid;
+  }
+  // low is the first occurrence at or after `time`; check the one before it
+  return low > 0 && sortedTimes[low - 1] >= time - windowMs;
+}
+
+/**
+ * Rank triggers and hashtags by how much they move intensity
+ */
+export function analyzeTriggers(entries: PainEntry[], options: TriggerAnalysisOptions): TriggerAnalysis {
+  const minSample = options.minSample ?? MIN_SAMPLE;
+  const windowMs = (options.lagHours ?? LAG_HOURS) * HOUR_MS;
+
+  const sameEntry: TriggerEffect[] = [];
+  const lagged: TriggerEffect[] = [];
+  const insufficient: InsufficientTrigger[] = [];
+
+  for (const kind of ['trigger', 'hashtag'] as const) {
+    const occurrences = new Map<string, number[]>();
+    for (const entry of entries) {
+      for (const name of new Set(namesOf(entry, kind))) {
+        occurrences.set(name, [...(occurrences.get(name) ?? []), entry.timestamp]);
+      }
+    }
+
+    for (const [name, times] of occurrences) {
+      const sortedTimes = [...times].sort((a, b) => a - b);
+      const withValues: number[] = [];
+      const withoutValues: number[] = [];
+      const afterValues: number[] = [];
+      const notAfterValues: number[] = [];
+
+      for (const entry of entries) {
+        const hasIt = namesOf(entry, kind).includes(name);
+        (hasIt ? withValues : withoutValues).push(entry.intensity);
+
+        // Lagged: only entries that don't carry it themselves, so the same-entry effect doesn't leak in
+        if (!hasIt) {
+          const after = followsWithin(sortedTimes, entry.timestamp, windowMs);
+          (after ? afterValues : notAfterValues).push(entry.intensity);
+        }
+      }
+
+      if (withValues.length < minSample || withoutValues.length < minSample) {
+        insufficient.push({ kind, name, withCount: withValues.length });
+        continue;
+      }
+      sameEntry.push(compareGroups(kind, name, withValues, withoutValues));
+
+      if (afterValues.length >= minSample && notAfterValues.length >= minSample) {
+        lagged.push(compareGroups(kind, name, afterValues, notAfterValues));
+      }
+    }
+  }
+
+  return {
+    sameEntry: rankEffects(sameEntry, options.scale),
+    lagged: rankEffects(lagged, options.scale),
+    insufficient: insufficient.sort((a, b) => b.withCount - a.withCount || a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Signed difference for display, e.g. "+1.8" or "−0.4"
+ */
+export function formatDifference(difference: number): string {
+  const rounded = Math.round(difference * 10) / 10;
+  if (rounded === 0) return '±0';
+  return rounded > 0 ? `+${rounded}` : `−${Math.abs(rounded)}`;
+}
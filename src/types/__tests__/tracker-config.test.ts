@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { createIntensityLabelFn, createIntensityColorFn } from '../tracker-config'
+import { createIntensityLabelFn, createIntensityColorFn, getTrackerConfig } from '../tracker-config'
+import { DEFAULT_SCALE, SCALE_PRESETS } from '../scale'
 
 describe('Intensity helpers', () => {
   it('createIntensityLabelFn returns correct labels for thresholds', () => {
@@ -26,4 +27,34 @@ describe('Intensity helpers', () => {
     expect(fn(8)).toBe('c3')
     expect(fn(10)).toBe('c4')
   })
-})
\ No newline at end of file
+})
+
+describe('Tracker scales', () => {
+  it('keeps the classic 1-10 without a scale', () => {
+    const config = getTrackerConfig('chronic_pain')
+
+    expect(config.scale).toEqual(DEFAULT_SCALE)
+    expect(config.intensityMinLabel).toBe('1 - Minimal')
+    expect(config.getIntensityLabel(7)).toBe('Severe')
+    expect(config.getIntensityFace(7)).toBeNull()
+  })
+
+  it('fits labels, colours and range labels to the tracker scale', () => {
+    const vas = SCALE_PRESETS.find(p => p.id === 'vas_0_100')!.scale
+    const config = getTrackerConfig('chronic_pain', null, vas)
+
+    expect(config.intensityMinLabel).toBe('0 - Minimal')
+    expect(config.intensityMaxLabel).toBe('100 - Extreme')
+    expect(config.getIntensityLabel(35)).toBe('Mild')
+    expect(config.getIntensityLabel(81)).toBe('Extreme')
+    expect(config.getIntensityColor(81)).toBe(config.bandColors[4])
+  })
+
+  it('shows faces best-feeling first, flipped where low is bad', () => {
+    const faces = SCALE_PRESETS.find(p => p.id === 'faces_1_5')!.scale
+
+    expect(getTrackerConfig('chronic_pain', null, faces).getIntensityFace(1)).toBe('😀')
+    expect(getTrackerConfig('mood', null, faces).getIntensityFace(1)).toBe('😣')
+    expect(getTrackerConfig('mood', null, faces).getIntensityFace(5)).toBe('😀')
+  })
+})
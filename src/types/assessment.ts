@@ -0,0 +1,359 @@
+/**
+ * Assessment Types
+ *
+ * Standardized clinical questionnaires defined as data: questions, how
+ * answers combine into a score, and the severity bands for that score.
+ * Results are stored per tracker; schedules ask for a repeat every few days.
+ */
+
+import type { TrackerPresetId } from './tracker';
+
+export type AssessmentId = 'bpi' | 'phq9' | 'gad7' | 'odi';
+
+export interface AssessmentOption {
+  value: number;
+  label: string;
+}
+
+export type AssessmentQuestion =
+  | { id: string; type: 'choice'; text: string; options: AssessmentOption[] }
+  | { id: string; type: 'scale'; text: string; min: number; max: number; minLabel: string; maxLabel: string };
+
+/**
+ * How answers combine: a plain sum, the mean, or the sum as a percentage
+ * of the most it could be given the questions answered.
+ */
+export type ScoringMethod = 'sum' | 'mean' | 'percent';
+
+export interface AssessmentScoring {
+  method: ScoringMethod;
+  /** Questions in the score; all of them when omitted */
+  questionIds?: string[];
+  /** Answers needed for a valid score; all of its questions when omitted */
+  minAnswered?: number;
+}
+
+export interface AssessmentSubscale extends AssessmentScoring {
+  id: string;
+  label: string;
+}
+
+/** Score range (inclusive) and what it means */
+export interface SeverityBand {
+  min: number;
+  max: number;
+  label: string;
+}
+
+/** A message shown when a question is answered at or above a value */
+export interface AssessmentAlert {
+  questionId: string;
+  minValue: number;
+  message: string;
+}
+
+export interface AssessmentDefinition {
+  id: AssessmentId;
+  name: string;
+  shortName: string;
+  /** Shown before the first question */
+  instructions: string;
+  /** Presets this assessment belongs with */
+  presetIds: TrackerPresetId[];
+  questions: AssessmentQuestion[];
+  scoring: AssessmentScoring;
+  /** Label and unit for the score, e.g. "Total score", "% disability" */
+  scoreLabel: string;
+  maxScore: number;
+  bands: SeverityBand[];
+  subscales?: AssessmentSubscale[];
+  alerts?: AssessmentAlert[];
+}
+
+/** Answers keyed by question id */
+export type AssessmentAnswers = Record<string, number>;
+
+export interface AssessmentResult {
+  id: string;
+  user_id: string;
+  tracker_id: string;
+  assessment_id: AssessmentId;
+  answers: AssessmentAnswers;
+  score: number;
+  band: string;
+  /** Subscale scores keyed by subscale id */
+  subscales: Record<string, number>;
+  /** When it was completed (ms) */
+  completed_at: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AssessmentSchedule {
+  id: string;
+  user_id: string;
+  tracker_id: string;
+  assessment_id: AssessmentId;
+  /** Repeat this many days after the last result */
+  interval_days: number;
+  /** First due date when there are no results yet (ms) */
+  starts_at: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// =============================================================================
+// Definitions
+// =============================================================================
+
+const FREQUENCY_OPTIONS: AssessmentOption[] = [
+  { value: 0, label: 'Not at all' },
+  { value: 1, label: 'Several days' },
+  { value: 2, label: 'More than half the days' },
+  { value: 3, label: 'Nearly every day' },
+];
+
+const frequencyQuestions = (prefix: string, texts: string[]): AssessmentQuestion[] =>
+  texts.map((text, i) => ({ id: `${prefix}${i + 1}`, type: 'choice', text, options: FREQUENCY_OPTIONS }));
+
+const BPI_SEVERITY = ['worst', 'least', 'average', 'now'];
+const BPI_INTERFERENCE: [string, string][] = [
+  ['activity', 'General activity'],
+  ['mood', 'Mood'],
+  ['walking', 'Walking ability'],
+  ['work', 'Normal work (both outside the home and housework)'],
+  ['relations', 'Relations with other people'],
+  ['sleep', 'Sleep'],
+  ['enjoyment', 'Enjoyment of life'],
+];
+
+const BPI: AssessmentDefinition = {
+  id: 'bpi',
+  name: 'Brief Pain Inventory (short form)',
+  shortName: 'BPI',
+  instructions: 'Rate your pain and how much it has got in the way of your life over the last 24 hours, from 0 to 10.',
+  presetIds: ['chronic_pain'],
+  questions: [
+    ...[
+      'Your pain at its worst in the last 24 hours',
+      'Your pain at its least in the last 24 hours',
+      'Your pain on average',
+      'How much pain you have right now',
+    ].map((text, i): AssessmentQuestion => ({
+      id: BPI_SEVERITY[i],
+      type: 'scale',
+      text,
+      min: 0,
+      max: 10,
+      minLabel: 'No pain',
+      maxLabel: 'Pain as bad as you can imagine',
+    })),
+    ...BPI_INTERFERENCE.map(([id, area]): AssessmentQuestion => ({
+      id,
+      type: 'scale',
+      text: `In the last 24 hours, how much has pain interfered with: ${area}`,
+      min: 0,
+      max: 10,
+      minLabel: 'Does not interfere',
+      maxLabel: 'Completely interferes',
+    })),
+  ],
+  scoring: { method: 'mean', questionIds: BPI_SEVERITY },
+  scoreLabel: 'Pain severity (0-10)',
+  maxScore: 10,
+  bands: [
+    { min: 0, max: 0, label: 'No pain' },
+    { min: 0.1, max: 4.9, label: 'Mild' },
+    { min: 5, max: 6.9, label: 'Moderate' },
+    { min: 7, max: 10, label: 'Severe' },
+  ],
+  subscales: [
+    {
+      id: 'interference',
+      label: 'Pain interference (0-10)',
+      method: 'mean',
+      questionIds: BPI_INTERFERENCE.map(([id]) => id),
+      // The usual rule: more than half of the seven items answered
+      minAnswered: 4,
+    },
+  ],
+};
+
+const PHQ9: AssessmentDefinition = {
+  id: 'phq9',
+  name: 'Patient Health Questionnaire (PHQ-9)',
+  shortName: 'PHQ-9',
+  instructions: 'Over the last 2 weeks, how often have you been bothered by any of the following problems?',
+  presetIds: ['mood'],
+  questions: frequencyQuestions('q', [
+    'Little interest or pleasure in doing things',
+    'Feeling down, depressed, or hopeless',
+    'Trouble falling or staying asleep, or sleeping too much',
+    'Feeling tired or having little energy',
+    'Poor appetite or overeating',
+    'Feeling bad about yourself, or that you are a failure or have let yourself or your family down',
+    'Trouble concentrating on things, such as reading the newspaper or watching television',
+    'Moving or speaking so slowly that other people could have noticed, or the opposite: being so fidgety or restless that you have been moving around a lot more than usual',
+    'Thoughts that you would be better off dead, or of hurting yourself in some way',
+  ]),
+  scoring: { method: 'sum' },
+  scoreLabel: 'Total score (0-27)',
+  maxScore: 27,
+  bands: [
+    { min: 0, max: 4, label: 'Minimal' },
+    { min: 5, max: 9, label: 'Mild' },
+    { min: 10, max: 14, label: 'Moderate' },
+    { min: 15, max: 19, label: 'Moderately severe' },
+    { min: 20, max: 27, label: 'Severe' },
+  ],
+  alerts: [
+    {
+      questionId: 'q9',
+      minValue: 1,
+      message: 'You mentioned thoughts of being better off dead or hurting yourself. Please talk to your doctor, or contact a crisis line or emergency services if you are in danger now.',
+    },
+  ],
+};
+
+const GAD7: AssessmentDefinition = {
+  id: 'gad7',
+  name: 'Generalized Anxiety Disorder (GAD-7)',
+  shortName: 'GAD-7',
+  instructions: 'Over the last 2 weeks, how often have you been bothered by the following problems?',
+  presetIds: ['mood'],
+  questions: frequencyQuestions('q', [
+    'Feeling nervous, anxious, or on edge',
+    'Not being able to stop or control worrying',
+    'Worrying too much about different things',
+    'Trouble relaxing',
+    'Being so restless that it is hard to sit still',
+    'Becoming easily annoyed or irritable',
+    'Feeling afraid, as if something awful might happen',
+  ]),
+  scoring: { method: 'sum' },
+  scoreLabel: 'Total score (0-21)',
+  maxScore: 21,
+  bands: [
+    { min: 0, max: 4, label: 'Minimal' },
+    { min: 5, max: 9, label: 'Mild' },
+    { min: 10, max: 14, label: 'Moderate' },
+    { min: 15, max: 21, label: 'Severe' },
+  ],
+};
+
+const odiSection = (id: string, text: string, statements: string[]): AssessmentQuestion => ({
+  id,
+  type: 'choice',
+  text,
+  options: statements.map((label, value) => ({ value, label })),
+});
+
+const ODI: AssessmentDefinition = {
+  id: 'odi',
+  name: 'Oswestry Disability Index',
+  shortName: 'ODI',
+  instructions: 'How is your back (or leg) trouble affecting your everyday life? In each section, pick the one statement that best describes you today. Skip a section that doesn\'t apply.',
+  presetIds: ['chronic_pain'],
+  questions: [
+    odiSection('pain', 'Pain intensity', [
+      'I have no pain at the moment',
+      'The pain is very mild at the moment',
+      'The pain is moderate at the moment',
+      'The pain is fairly severe at the moment',
+      'The pain is very severe at the moment',
+      'The pain is the worst imaginable at the moment',
+    ]),
+    odiSection('care', 'Personal care (washing, dressing)', [
+      'I can look after myself normally without causing extra pain',
+      'I can look after myself normally but it causes extra pain',
+      'It is painful to look after myself and I am slow and careful',
+      'I need some help but manage most of my personal care',
+      'I need help every day in most aspects of self-care',
+      'I do not get dressed, wash with difficulty and stay in bed',
+    ]),
+    odiSection('lifting', 'Lifting', [
+      'I can lift heavy weights without extra pain',
+      'I can lift heavy weights but it gives extra pain',
+      'Pain stops me lifting heavy weights off the floor, but I can manage if they are conveniently placed',
+      'Pain stops me lifting heavy weights, but I can manage light to medium weights if they are conveniently placed',
+      'I can lift very light weights',
+      'I cannot lift or carry anything at all',
+    ]),
+    odiSection('walking', 'Walking', [
+      'Pain does not prevent me walking any distance',
+      'Pain prevents me walking more than 1 mile',
+      'Pain prevents me walking more than 1/4 of a mile',
+      'Pain prevents me walking more than 100 yards',
+      'I can only walk using a stick or crutches',
+      'I am in bed most of the time',
+    ]),
+    odiSection('sitting', 'Sitting', [
+      'I can sit in any chair as long as I like',
+      'I can only sit in my favourite chair as long as I like',
+      'Pain prevents me sitting more than 1 hour',
+      'Pain prevents me sitting more than 30 minutes',
+      'Pain prevents me sitting more than 10 minutes',
+      'Pain prevents me from sitting at all',
+    ]),
+    odiSection('standing', 'Standing', [
+      'I can stand as long as I want without extra pain',
+      'I can stand as long as I want but it gives me extra pain',
+      'Pain prevents me from standing for more than 1 hour',
+      'Pain prevents me from standing for more than 30 minutes',
+      'Pain prevents me from standing for more than 10 minutes',
+      'Pain prevents me from standing at all',
+    ]),
+    odiSection('sleeping', 'Sleeping', [
+      'My sleep is never disturbed by pain',
+      'My sleep is occasionally disturbed by pain',
+      'Because of pain I have less than 6 hours sleep',
+      'Because of pain I have less than 4 hours sleep',
+      'Because of pain I have less than 2 hours sleep',
+      'Pain prevents me from sleeping at all',
+    ]),
+    odiSection('sex', 'Sex life (if applicable)', [
+      'My sex life is normal and causes no extra pain',
+      'My sex life is normal but causes some extra pain',
+      'My sex life is nearly normal but is very painful',
+      'My sex life is severely restricted by pain',
+      'My sex life is nearly absent because of pain',
+      'Pain prevents any sex life at all',
+    ]),
+    odiSection('social', 'Social life', [
+      'My social life is normal and gives me no extra pain',
+      'My social life is normal but increases the degree of pain',
+      'Pain has no significant effect on my social life apart from limiting my more energetic interests',
+      'Pain has restricted my social life and I do not go out as often',
+      'Pain has restricted my social life to my home',
+      'I have no social life because of pain',
+    ]),
+    odiSection('travelling', 'Travelling', [
+      'I can travel anywhere without pain',
+      'I can travel anywhere but it gives me extra pain',
+      'Pain is bad but I manage journeys over two hours',
+      'Pain restricts me to journeys of less than one hour',
+      'Pain restricts me to short necessary journeys under 30 minutes',
+      'Pain prevents me from travelling except to receive treatment',
+    ]),
+  ],
+  // Skipped sections come out of the maximum rather than counting as zero
+  scoring: { method: 'percent', minAnswered: 8 },
+  scoreLabel: '% disability',
+  maxScore: 100,
+  bands: [
+    { min: 0, max: 20, label: 'Minimal disability' },
+    { min: 21, max: 40, label: 'Moderate disability' },
+    { min: 41, max: 60, label: 'Severe disability' },
+    { min: 61, max: 80, label: 'Crippling back pain' },
+    { min: 81, max: 100, label: 'Bed-bound' },
+  ],
+};
+
+export const ASSESSMENTS: AssessmentDefinition[] = [BPI, ODI, PHQ9, GAD7];
+
+/** Repeat intervals offered when scheduling, in days */
+export const ASSESSMENT_INTERVALS: { days: number; label: string }[] = [
+  { days: 7, label: 'Every week' },
+  { days: 14, label: 'Every 2 weeks' },
+  { days: 28, label: 'Every 4 weeks' },
+];
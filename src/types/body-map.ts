@@ -0,0 +1,61 @@
+/**
+ * Body Map Types
+ *
+ * Location values for the body map picker. Paired body parts carry a side
+ * as "<location>:<side>" (e.g. "knees:left"); a bare location such as
+ * "knees" is still valid and means the side wasn't given, which is how
+ * every entry logged before the map reads.
+ */
+
+import { BODY_LOCATIONS, type BodyLocation } from './pain-entry';
+
+export type BodySide = 'left' | 'right';
+export type BodyView = 'front' | 'back';
+
+/** Locations drawn once per side */
+export const SIDED_LOCATIONS: BodyLocation[] = ['shoulders', 'arms', 'hands', 'hips', 'legs', 'knees', 'feet'];
+
+/** Singular names for "Left knee" style labels */
+const SINGULAR_LABELS: Partial<Record<BodyLocation, string>> = {
+  shoulders: 'shoulder',
+  arms: 'arm',
+  hands: 'hand',
+  hips: 'hip',
+  legs: 'leg',
+  knees: 'knee',
+  feet: 'foot',
+};
+
+export interface ParsedBodyLocation {
+  location: string;
+  side: BodySide | null;
+}
+
+export function bodyLocationValue(location: BodyLocation, side: BodySide | null): string {
+  return side ? `${location}:${side}` : location;
+}
+
+export function parseBodyLocation(value: string): ParsedBodyLocation {
+  const [location, side] = value.split(':');
+  return { location, side: side === 'left' || side === 'right' ? side : null };
+}
+
+/**
+ * The value plus its sided forms, for matching entries by coarse location
+ */
+export function locationVariants(value: string): string[] {
+  const { location, side } = parseBodyLocation(value);
+  if (side || !SIDED_LOCATIONS.includes(location as BodyLocation)) return [value];
+  return [location, `${location}:left`, `${location}:right`];
+}
+
+/** Options for the sided values, e.g. { value: 'knees:left', label: 'Left knee' } */
+export const SIDED_BODY_LOCATIONS: { value: string; label: string }[] = SIDED_LOCATIONS.flatMap(location =>
+  (['left', 'right'] as const).map(side => ({
+    value: bodyLocationValue(location, side),
+    label: `${side === 'left' ? 'Left' : 'Right'} ${SINGULAR_LABELS[location]}`,
+  }))
+);
+
+/** Every value the body map can produce or read: coarse locations first */
+export const BODY_MAP_LOCATIONS: { value: string; label: string }[] = [...BODY_LOCATIONS, ...SIDED_BODY_LOCATIONS];
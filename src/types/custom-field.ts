@@ -0,0 +1,73 @@
+/**
+ * Custom Field Types
+ *
+ * Per-tracker fields beyond intensity/locations/triggers, e.g. systolic
+ * pressure for Blood Pressure or hours slept for Sleep.
+ */
+
+export type CustomFieldType =
+  | 'number'
+  | 'boolean'
+  | 'single_select'
+  | 'multi_select'
+  | 'duration'
+  | 'time'
+  | 'text';
+
+interface CustomFieldBase {
+  /** Stable key in PainEntry.fields (lowercase_snake) */
+  key: string;
+  label: string;
+  required?: boolean;
+  /** Short hint shown under the input */
+  description?: string;
+}
+
+export interface NumberFieldDefinition extends CustomFieldBase {
+  type: 'number';
+  unit?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface BooleanFieldDefinition extends CustomFieldBase {
+  type: 'boolean';
+}
+
+export interface SelectFieldDefinition extends CustomFieldBase {
+  type: 'single_select' | 'multi_select';
+  options: { value: string; label: string }[];
+}
+
+/** Stored as whole minutes */
+export interface DurationFieldDefinition extends CustomFieldBase {
+  type: 'duration';
+}
+
+/** Time of day, stored as "HH:mm" */
+export interface TimeFieldDefinition extends CustomFieldBase {
+  type: 'time';
+}
+
+export interface TextFieldDefinition extends CustomFieldBase {
+  type: 'text';
+  maxLength?: number;
+}
+
+export type CustomFieldDefinition =
+  | NumberFieldDefinition
+  | BooleanFieldDefinition
+  | SelectFieldDefinition
+  | DurationFieldDefinition
+  | TimeFieldDefinition
+  | TextFieldDefinition;
+
+/**
+ * A stored value: number (number, duration), boolean, string (single_select,
+ * time, text) or string[] (multi_select)
+ */
+export type CustomFieldValue = number | boolean | string | string[];
+
+/** Values of one entry keyed by field key; unset fields are left out */
+export type CustomFieldValues = Record<string, CustomFieldValue>;
@@ -0,0 +1,22 @@
+/**
+ * Entry Revision Types
+ *
+ * Every update or delete of an entry keeps a copy of the entry as it was
+ * before, written by a database trigger (and by the local adapter when
+ * offline), so edits to medical records can be reviewed and undone.
+ */
+
+import type { PainEntry } from './pain-entry';
+
+export type RevisionOperation = 'update' | 'delete';
+
+export interface EntryRevision {
+  id: string;
+  entry_id: string;
+  user_id: string;
+  operation: RevisionOperation;
+  /** The whole entry as it was before the change */
+  data: PainEntry;
+  /** When the change was made */
+  changed_at: string;
+}
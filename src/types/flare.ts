@@ -0,0 +1,30 @@
+/**
+ * Flare Types
+ *
+ * A flare is a stretch of entries running well above the user's own
+ * baseline. Episodes are detected automatically and then kept as records
+ * the user can confirm, dismiss, merge or split.
+ */
+
+/**
+ * - 'detected': found automatically, not reviewed yet (may still grow)
+ * - 'confirmed': accepted or edited by the user; detection leaves it alone
+ * - 'dismissed': rejected by the user; kept so it isn't detected again
+ */
+export type FlareStatus = 'detected' | 'confirmed' | 'dismissed';
+
+export interface FlareEpisode {
+  id: string;
+  user_id: string;
+  tracker_id: string;
+  /** Timestamp of the first entry in the flare (ms) */
+  started_at: number;
+  /** Timestamp of the last entry in the flare (ms) */
+  ended_at: number;
+  peak_intensity: number;
+  average_intensity: number;
+  entry_count: number;
+  status: FlareStatus;
+  created_at?: string;
+  updated_at?: string;
+}
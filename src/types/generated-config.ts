@@ -5,6 +5,9 @@
  * This enables contextual UI for any user-created tracker.
  */
 
+import type { CustomFieldDefinition } from './custom-field';
+import type { ScaleDefinition } from './scale';
+
 /**
  * Intensity scale type determines color mapping:
  * - 'high_bad': High values are concerning (pain, blood pressure, anxiety)
@@ -49,6 +52,12 @@ export interface GeneratedTrackerConfig {
   
   // Intensity scale interpretation
   intensityScale: IntensityScale;
+
+  // Extra fields proposed for this tracker, validated before saving
+  fields?: CustomFieldDefinition[];
+
+  // Rating range when 1-10 doesn't suit, validated before saving
+  scale?: ScaleDefinition;
 }
 
 /**
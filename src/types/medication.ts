@@ -0,0 +1,44 @@
+/**
+ * Medication Types
+ *
+ * Medications with a dose and schedule, and the doses actually taken.
+ * Medications belong to the user, not a tracker, so any tracker's entries
+ * can be compared before and after a dose.
+ */
+
+/**
+ * When doses are due. Times are local "HH:mm"; weekdays use 0 = Sunday.
+ */
+export type MedicationSchedule =
+  | { type: 'as_needed' }
+  | { type: 'daily'; times: string[] }
+  | { type: 'weekly'; weekdays: number[]; times: string[] };
+
+export interface Medication {
+  id: string;
+  user_id: string;
+  name: string;
+  dose: number;
+  /** e.g. "mg", "ml", "tablet" */
+  unit: string;
+  schedule: MedicationSchedule;
+  /** Doses are expected from this moment on (ms) */
+  started_at: number;
+  /** Stopped medications keep their history but expect no more doses */
+  active: boolean;
+  notes?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface MedicationDose {
+  id: string;
+  user_id: string;
+  medication_id: string;
+  /** When it was actually taken (ms) */
+  taken_at: number;
+  /** The scheduled slot this dose covers (ms); null for as-needed or extra doses */
+  scheduled_for: number | null;
+  dose: number;
+  created_at?: string;
+}
@@ -1,15 +1,47 @@
+import type { CustomFieldValues } from './custom-field'
+
 export interface PainEntry {
   id: string
   user_id: string
   tracker_id: string
+  /** When it happened, or when the episode started (ms) */
   timestamp: number
+  /** When the episode ended (ms); absent for a single moment or while ongoing */
+  ended_at?: number | null
+  /** Episode still going; closed later with "ended now" */
+  ongoing?: boolean
   intensity: number
   locations: string[]
   notes: string
   triggers: string[]
   hashtags: string[]
+  /** Values for the tracker's custom fields, keyed by field key */
+  fields?: CustomFieldValues
+  /** What was done about it, e.g. "Heat pack" */
+  interventions?: string[]
+  /** When to ask how it is now (ms); null when no follow-up is wanted */
+  follow_up_at?: number | null
+  /** Follow-up answer: how much the interventions helped */
+  relief?: ReliefRating | null
+  /** Intensity at the follow-up */
+  relief_intensity?: number | null
+  /** When the follow-up was answered (ms) */
+  followed_up_at?: number | null
+  /** When it was moved to the trash; trashed entries are purged after 30 days */
+  deleted_at?: string | null
+  created_at?: string
+  updated_at?: string
 }
 
+export type ReliefRating = 'none' | 'a_little' | 'a_lot' | 'complete'
+
+export const RELIEF_RATINGS: { value: ReliefRating; label: string }[] = [
+  { value: 'none', label: 'No relief' },
+  { value: 'a_little', label: 'A little' },
+  { value: 'a_lot', label: 'A lot' },
+  { value: 'complete', label: 'Gone' },
+]
+
 export type BodyLocation = 
   | 'head'
   | 'neck'
@@ -52,3 +84,16 @@ export const COMMON_TRIGGERS = [
   'Cold',
   'Heat',
 ]
+
+export const COMMON_INTERVENTIONS = [
+  'Heat pack',
+  'Ice pack',
+  'Stretching',
+  'Rest',
+  'Walk',
+  'Massage',
+  'Ibuprofen',
+  'Paracetamol',
+  'Breathing exercise',
+  'Hot shower',
+]
@@ -0,0 +1,69 @@
+/**
+ * Reminder Types
+ *
+ * Per-tracker reminders to log an entry, and the user's quiet hours and
+ * snooze length that apply to all of them. Both are stored per user so they
+ * follow the account to every device.
+ */
+
+/**
+ * When a reminder fires. Times are local "HH:mm"; weekdays use 0 = Sunday.
+ * Interval reminders repeat every few hours from the end of quiet hours
+ * (waking up) until they start again.
+ */
+export type ReminderSchedule =
+  | { type: 'daily'; weekdays: number[]; times: string[] }
+  | { type: 'interval'; weekdays: number[]; every_hours: number };
+
+export interface Reminder {
+  id: string;
+  user_id: string;
+  tracker_id: string;
+  schedule: ReminderSchedule;
+  /** Paused reminders keep their schedule but never fire */
+  enabled: boolean;
+  /** Fire once at this moment (ms) instead of the schedule until then */
+  snoozed_until: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ReminderSettings {
+  id?: string;
+  user_id: string;
+  /** No reminders from quiet_start until quiet_end ("HH:mm"); null for none */
+  quiet_start: string | null;
+  quiet_end: string | null;
+  snooze_minutes: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** Same defaults as the reminder_settings table */
+export const DEFAULT_REMINDER_SETTINGS: Omit<ReminderSettings, 'user_id'> = {
+  quiet_start: '22:00',
+  quiet_end: '07:00',
+  snooze_minutes: 30,
+};
+
+export const SNOOZE_OPTIONS = [10, 30, 60, 120];
+
+/**
+ * Messages between the app and the reminder service worker
+ * (public/reminder-sw.js): the app posts the reminder queue and pings the
+ * worker when one is due; the worker posts taps and the snoozes it took.
+ * The worker opens the app with REMINDER_PARAMS.open when no tab is open.
+ */
+export const REMINDER_MESSAGES = {
+  open: 'reminder-open',
+  schedule: 'reminder-schedule',
+  due: 'reminder-due',
+  snoozed: 'reminder-snoozed',
+} as const;
+
+export const REMINDER_PARAMS = {
+  open: 'log',
+} as const;
+
+/** Periodic background sync tag the worker shows due reminders on */
+export const REMINDER_SYNC_TAG = 'reminders';
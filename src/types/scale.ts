@@ -0,0 +1,83 @@
+/**
+ * Intensity Scale Types
+ *
+ * The numeric range a tracker's entries are rated on. Trackers without a
+ * scale of their own use the classic 1–10.
+ */
+
+/** Five of anything, one per band from the low end of the scale to the high end */
+export type BandTuple<T> = [T, T, T, T, T];
+
+export interface ScaleDefinition {
+  /** Whole numbers from 0 to 100 */
+  min: number;
+  max: number;
+  /** Gap between selectable values; (max - min) must be a multiple of it */
+  step: number;
+  /**
+   * Upper bounds of the first four bands (a value at or below bands[0] is
+   * band 0); anything above bands[3] is the fifth band. Labels and colours
+   * are picked per band.
+   */
+  bands: [number, number, number, number];
+  /**
+   * Emoji shown beside the number, from the best-feeling band to the worst.
+   * Trackers where low is bad show them in reverse.
+   */
+  faces?: BandTuple<string>;
+}
+
+export type ScalePresetId = 'nrs_1_10' | 'nrs_0_10' | 'likert_1_5' | 'vas_0_100' | 'faces_1_5';
+
+export interface ScalePreset {
+  id: ScalePresetId;
+  label: string;
+  description: string;
+  scale: ScaleDefinition;
+}
+
+export const SCALE_PRESETS: ScalePreset[] = [
+  {
+    id: 'nrs_1_10',
+    label: '1–10',
+    description: 'The default rating scale',
+    scale: { min: 1, max: 10, step: 1, bands: [2, 4, 6, 8] },
+  },
+  {
+    id: 'nrs_0_10',
+    label: '0–10',
+    description: 'Numeric rating with a true zero, as clinicians use for pain',
+    scale: { min: 0, max: 10, step: 1, bands: [2, 4, 6, 8] },
+  },
+  {
+    id: 'likert_1_5',
+    label: '1–5',
+    description: 'Five-point rating',
+    scale: { min: 1, max: 5, step: 1, bands: [1, 2, 3, 4] },
+  },
+  {
+    id: 'vas_0_100',
+    label: '0–100',
+    description: 'Visual analogue slider for fine-grained ratings',
+    scale: { min: 0, max: 100, step: 1, bands: [20, 40, 60, 80] },
+  },
+  {
+    id: 'faces_1_5',
+    label: 'Faces',
+    description: 'Pick the face that matches, from 1 to 5',
+    scale: { min: 1, max: 5, step: 1, bands: [1, 2, 3, 4], faces: ['😀', '🙂', '😐', '😟', '😣'] },
+  },
+];
+
+export const DEFAULT_SCALE: ScaleDefinition = SCALE_PRESETS[0].scale;
+
+/** The widest range any scale may use; matches the database constraint */
+export const SCALE_LIMITS = { min: 0, max: 100 };
+
+/**
+ * Band index (0-4) of a value
+ */
+export function scaleBand(value: number, bands: ScaleDefinition['bands']): number {
+  const index = bands.findIndex(bound => value <= bound);
+  return index === -1 ? bands.length : index;
+}
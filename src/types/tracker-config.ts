@@ -7,6 +7,8 @@
 
 import type { TrackerPresetId } from './tracker';
 import type { GeneratedTrackerConfig, IntensityScale } from './generated-config';
+import { BODY_MAP_LOCATIONS } from './body-map';
+import { DEFAULT_SCALE, scaleBand, type BandTuple, type ScaleDefinition } from './scale';
 
 // =============================================================================
 // Shared Helper Functions (DRY - Don't Repeat Yourself)
@@ -16,46 +18,41 @@ import type { GeneratedTrackerConfig, IntensityScale } from './generated-config'
  * Build intensity label function based on intensity scale
  */
 export function createIntensityLabelFn(
-  labels: [string, string, string, string, string]
+  labels: BandTuple<string>,
+  bands: ScaleDefinition['bands'] = DEFAULT_SCALE.bands
 ): (value: number) => string {
-  return (value: number) => {
-    if (value <= 2) return labels[0];
-    if (value <= 4) return labels[1];
-    if (value <= 6) return labels[2];
-    if (value <= 8) return labels[3];
-    return labels[4];
-  };
+  return (value: number) => labels[scaleBand(value, bands)];
 }
 
 /**
  * Build intensity color function based on color palette
  */
 export function createIntensityColorFn(
-  colors: [string, string, string, string, string]
+  colors: BandTuple<string>,
+  bands: ScaleDefinition['bands'] = DEFAULT_SCALE.bands
 ): (value: number) => string {
-  return (value: number) => {
-    if (value <= 2) return colors[0];
-    if (value <= 4) return colors[1];
-    if (value <= 6) return colors[2];
-    if (value <= 8) return colors[3];
-    return colors[4];
-  };
+  return (value: number) => colors[scaleBand(value, bands)];
 }
 
+/**
+ * Swap the number at the start of a "1 - Minimal" style label for the scale's own
+ */
+const relabel = (label: string, value: number) => label.replace(/^\d+(?=\s*-)/, String(value));
+
 // Common color palettes
-const HIGH_BAD_COLORS: [string, string, string, string, string] = [
+const HIGH_BAD_COLORS: BandTuple<string> = [
   '#22c55e', '#84cc16', '#eab308', '#f97316', '#ef4444'
 ]; // green to red (high = bad)
 
-const LOW_BAD_COLORS: [string, string, string, string, string] = [
+const LOW_BAD_COLORS: BandTuple<string> = [
   '#ef4444', '#f97316', '#eab308', '#84cc16', '#22c55e'
 ]; // red to green (low = bad)
 
 // Common message templates (DRY)
 const deleteConfirm = (entryType?: string) =>
   entryType
-    ? `Are you sure you want to delete this ${entryType} entry? This action cannot be undone.`
-    : 'Are you sure you want to delete this entry? This action cannot be undone.';
+    ? `Move this ${entryType} entry to the trash? You can restore it for 30 days.`
+    : 'Move this entry to the trash? You can restore it for 30 days.';
 
 // =============================================================================
 // TrackerConfig Interface
@@ -87,15 +84,29 @@ export interface TrackerConfig {
   
   // Options
   locations: { value: string; label: string }[];
+  /** Pick locations on the body map (values from body-map.ts) instead of a list */
+  bodyMap?: boolean;
   triggers: string[];
   
   // Intensity helpers
+  /** Range, step and bands entries are rated on */
+  scale: ScaleDefinition;
+  /** Which end of the scale is the worse one (drives colours and wording) */
+  intensityScale: IntensityScale;
+  /** Label and colour of each band, low end of the scale first */
+  bandLabels: BandTuple<string>;
+  bandColors: BandTuple<string>;
   getIntensityLabel: (value: number) => string;
   getIntensityColor: (value: number) => string;
+  /** Emoji for the value when the scale has faces */
+  getIntensityFace: (value: number) => string | null;
 }
 
+/** What each preset spells out; getTrackerConfig adds the scale-dependent parts */
+type TrackerConfigContent = Omit<TrackerConfig, 'scale' | 'getIntensityLabel' | 'getIntensityColor' | 'getIntensityFace'>;
+
 // Chronic Pain configuration
-const chronicPainConfig: TrackerConfig = {
+const chronicPainConfig: TrackerConfigContent = {
   intensityLabel: 'Pain Intensity',
   intensityMinLabel: '1 - Minimal',
   intensityMaxLabel: '10 - Extreme',
@@ -115,31 +126,19 @@ const chronicPainConfig: TrackerConfig = {
   ],
   entryTitle: 'Pain Entry Details',
   deleteConfirmMessage: deleteConfirm('pain'),
-  locations: [
-    { value: 'head', label: 'Head' },
-    { value: 'neck', label: 'Neck' },
-    { value: 'shoulders', label: 'Shoulders' },
-    { value: 'upper-back', label: 'Upper Back' },
-    { value: 'lower-back', label: 'Lower Back' },
-    { value: 'chest', label: 'Chest' },
-    { value: 'abdomen', label: 'Abdomen' },
-    { value: 'hips', label: 'Hips' },
-    { value: 'arms', label: 'Arms' },
-    { value: 'hands', label: 'Hands' },
-    { value: 'legs', label: 'Legs' },
-    { value: 'knees', label: 'Knees' },
-    { value: 'feet', label: 'Feet' },
-  ],
+  locations: BODY_MAP_LOCATIONS,
+  bodyMap: true,
   triggers: [
     'Stress', 'Weather', 'Physical Activity', 'Sleep Issues', 'Diet',
     'Medication Change', 'Prolonged Sitting', 'Cold', 'Heat',
   ],
-  getIntensityLabel: createIntensityLabelFn(['Minimal', 'Mild', 'Moderate', 'Severe', 'Extreme']),
-  getIntensityColor: createIntensityColorFn(HIGH_BAD_COLORS),
+  intensityScale: 'high_bad',
+  bandLabels: ['Minimal', 'Mild', 'Moderate', 'Severe', 'Extreme'],
+  bandColors: HIGH_BAD_COLORS,
 };
 
 // Mood & Mental Health configuration
-const moodConfig: TrackerConfig = {
+const moodConfig: TrackerConfigContent = {
   intensityLabel: 'Mood Level',
   intensityMinLabel: '1 - Very Low',
   intensityMaxLabel: '10 - Excellent',
@@ -174,12 +173,13 @@ const moodConfig: TrackerConfig = {
     'Work', 'Relationships', 'Sleep', 'Exercise', 'Social Media',
     'Isolation', 'Therapy', 'Meditation', 'Weather', 'News',
   ],
-  getIntensityLabel: createIntensityLabelFn(['Very Low', 'Low', 'Okay', 'Good', 'Excellent']),
-  getIntensityColor: createIntensityColorFn(LOW_BAD_COLORS),
+  intensityScale: 'low_bad',
+  bandLabels: ['Very Low', 'Low', 'Okay', 'Good', 'Excellent'],
+  bandColors: LOW_BAD_COLORS,
 };
 
 // Sleep configuration
-const sleepConfig: TrackerConfig = {
+const sleepConfig: TrackerConfigContent = {
   intensityLabel: 'Sleep Quality',
   intensityMinLabel: '1 - Terrible',
   intensityMaxLabel: '10 - Perfect',
@@ -213,12 +213,13 @@ const sleepConfig: TrackerConfig = {
     'Caffeine', 'Screen Time', 'Stress', 'Exercise', 'Late Meal',
     'Alcohol', 'Medication', 'Noise', 'Temperature', 'Anxiety',
   ],
-  getIntensityLabel: createIntensityLabelFn(['Terrible', 'Poor', 'Fair', 'Good', 'Perfect']),
-  getIntensityColor: createIntensityColorFn(LOW_BAD_COLORS),
+  intensityScale: 'low_bad',
+  bandLabels: ['Terrible', 'Poor', 'Fair', 'Good', 'Perfect'],
+  bandColors: LOW_BAD_COLORS,
 };
 
 // Menstrual Cycle configuration
-const menstrualConfig: TrackerConfig = {
+const menstrualConfig: TrackerConfigContent = {
   intensityLabel: 'Symptom Intensity',
   intensityMinLabel: '1 - Minimal',
   intensityMaxLabel: '10 - Severe',
@@ -253,12 +254,13 @@ const menstrualConfig: TrackerConfig = {
     'Stress', 'Diet', 'Exercise', 'Sleep', 'Hydration',
     'Medication', 'Hormones', 'Travel', 'Weather',
   ],
-  getIntensityLabel: createIntensityLabelFn(['Minimal', 'Mild', 'Moderate', 'Severe', 'Extreme']),
-  getIntensityColor: createIntensityColorFn(HIGH_BAD_COLORS),
+  intensityScale: 'high_bad',
+  bandLabels: ['Minimal', 'Mild', 'Moderate', 'Severe', 'Extreme'],
+  bandColors: HIGH_BAD_COLORS,
 };
 
 // Medication configuration
-const medicationConfig: TrackerConfig = {
+const medicationConfig: TrackerConfigContent = {
   intensityLabel: 'Effectiveness',
   intensityMinLabel: '1 - No Effect',
   intensityMaxLabel: '10 - Very Effective',
@@ -292,12 +294,13 @@ const medicationConfig: TrackerConfig = {
     'Nausea', 'Drowsiness', 'Headache', 'Dizziness', 'Appetite Change',
     'Mood Change', 'Skin Reaction', 'None', 'Other',
   ],
-  getIntensityLabel: createIntensityLabelFn(['No Effect', 'Slight', 'Moderate', 'Good', 'Very Effective']),
-  getIntensityColor: createIntensityColorFn(LOW_BAD_COLORS),
+  intensityScale: 'low_bad',
+  bandLabels: ['No Effect', 'Slight', 'Moderate', 'Good', 'Very Effective'],
+  bandColors: LOW_BAD_COLORS,
 };
 
 // Exercise configuration
-const exerciseConfig: TrackerConfig = {
+const exerciseConfig: TrackerConfigContent = {
   intensityLabel: 'Workout Intensity',
   intensityMinLabel: '1 - Very Light',
   intensityMaxLabel: '10 - Maximum',
@@ -333,12 +336,13 @@ const exerciseConfig: TrackerConfig = {
     'Energized', 'Tired', 'Sore', 'Accomplished', 'Struggled',
     'Personal Best', 'Recovery Day', 'Outdoor', 'Gym', 'Home',
   ],
-  getIntensityLabel: createIntensityLabelFn(['Very Light', 'Light', 'Moderate', 'Hard', 'Maximum']),
-  getIntensityColor: createIntensityColorFn(HIGH_BAD_COLORS), // higher = warmer colors for effort
+  intensityScale: 'neutral',
+  bandLabels: ['Very Light', 'Light', 'Moderate', 'Hard', 'Maximum'],
+  bandColors: HIGH_BAD_COLORS, // higher = warmer colors for effort
 };
 
 // Default/custom tracker configuration
-const defaultConfig: TrackerConfig = {
+const defaultConfig: TrackerConfigContent = {
   intensityLabel: 'Level',
   intensityMinLabel: '1 - Low',
   intensityMaxLabel: '10 - High',
@@ -365,12 +369,13 @@ const defaultConfig: TrackerConfig = {
     { value: 'neutral', label: 'Neutral' },
   ],
   triggers: ['Note', 'Important', 'Follow-up', 'Recurring'],
-  getIntensityLabel: createIntensityLabelFn(['Very Low', 'Low', 'Medium', 'High', 'Very High']),
-  getIntensityColor: createIntensityColorFn(['#6366f1', '#8b5cf6', '#a855f7', '#c026d3', '#db2777']), // purple gradient
+  intensityScale: 'neutral',
+  bandLabels: ['Very Low', 'Low', 'Medium', 'High', 'Very High'],
+  bandColors: ['#6366f1', '#8b5cf6', '#a855f7', '#c026d3', '#db2777'], // purple gradient
 };
 
 // Map preset IDs to their configurations
-const configMap: Record<TrackerPresetId, TrackerConfig> = {
+const configMap: Record<TrackerPresetId, TrackerConfigContent> = {
   chronic_pain: chronicPainConfig,
   mood: moodConfig,
   sleep: sleepConfig,
@@ -384,7 +389,7 @@ import type { GeneratedTrackerConfig, IntensityScale } from './generated-config'
 /**
  * Get intensity labels based on scale type
  */
-function getIntensityLabels(scale: IntensityScale): string[] {
+function getIntensityLabels(scale: IntensityScale): BandTuple<string> {
   if (scale === 'high_bad') {
     return ['Normal', 'Mild', 'Moderate', 'Elevated', 'High'];
   }
@@ -394,60 +399,26 @@ function getIntensityLabels(scale: IntensityScale): string[] {
   return ['Very Light', 'Light', 'Moderate', 'Intense', 'Maximum'];
 }
 
-/**
- * Build intensity label function based on scale type
- */
-function buildIntensityLabelFn(scale: IntensityScale): (value: number) => string {
-  const labels = getIntensityLabels(scale);
-  
-  return (value: number) => {
-    if (value <= 2) return labels[0];
-    if (value <= 4) return labels[1];
-    if (value <= 6) return labels[2];
-    if (value <= 8) return labels[3];
-    return labels[4];
-  };
-}
-
 /**
  * Get intensity color palette based on scale type
  */
-function getIntensityColors(scale: IntensityScale): string[] {
+function getIntensityColors(scale: IntensityScale): BandTuple<string> {
   if (scale === 'high_bad') {
     // High is bad (like pain) - green to red
-    return ['#22c55e', '#84cc16', '#eab308', '#f97316', '#ef4444'];
+    return HIGH_BAD_COLORS;
   }
   if (scale === 'low_bad') {
     // Low is bad (like mood) - red to green
-    return ['#ef4444', '#f97316', '#eab308', '#84cc16', '#22c55e'];
+    return LOW_BAD_COLORS;
   }
   // Neutral - use purple gradient
   return ['#6366f1', '#8b5cf6', '#a855f7', '#c026d3', '#db2777'];
 }
 
 /**
- * Get color from palette based on value
- */
-function getColorFromPalette(colors: string[], value: number): string {
-  if (value <= 2) return colors[0];
-  if (value <= 4) return colors[1];
-  if (value <= 6) return colors[2];
-  if (value <= 8) return colors[3];
-  return colors[4];
-}
-
-/**
- * Build intensity color function based on scale type
- */
-function buildIntensityColorFn(scale: IntensityScale): (value: number) => string {
-  const colors = getIntensityColors(scale);
-  return (value: number) => getColorFromPalette(colors, value);
-}
-
-/**
- * Build a TrackerConfig from a GeneratedTrackerConfig
+ * Build the preset-style content from a GeneratedTrackerConfig
  */
-export function buildConfigFromGenerated(generated: GeneratedTrackerConfig): TrackerConfig {
+function buildContentFromGenerated(generated: GeneratedTrackerConfig): TrackerConfigContent {
   return {
     intensityLabel: generated.intensityLabel,
     intensityMinLabel: generated.intensityMinLabel,
@@ -466,26 +437,44 @@ export function buildConfigFromGenerated(generated: GeneratedTrackerConfig): Tra
     deleteConfirmMessage: generated.deleteConfirmMessage,
     locations: generated.locations,
     triggers: generated.triggers,
-    getIntensityLabel: buildIntensityLabelFn(generated.intensityScale),
-    getIntensityColor: buildIntensityColorFn(generated.intensityScale),
+    intensityScale: generated.intensityScale,
+    bandLabels: getIntensityLabels(generated.intensityScale),
+    bandColors: getIntensityColors(generated.intensityScale),
   };
 }
 
 /**
- * Get the configuration for a tracker based on its preset_id or generated config
+ * Fit labels, colours and faces to the scale entries are rated on
+ */
+function applyScale(content: TrackerConfigContent, scale: ScaleDefinition): TrackerConfig {
+  // Faces run best-feeling first, which is the top of the scale when low is bad
+  const faces = scale.faces && content.intensityScale === 'low_bad' ? [...scale.faces].reverse() : scale.faces;
+  return {
+    ...content,
+    intensityMinLabel: relabel(content.intensityMinLabel, scale.min),
+    intensityMaxLabel: relabel(content.intensityMaxLabel, scale.max),
+    scale,
+    getIntensityLabel: createIntensityLabelFn(content.bandLabels, scale.bands),
+    getIntensityColor: createIntensityColorFn(content.bandColors, scale.bands),
+    getIntensityFace: (value: number) => faces?.[scaleBand(value, scale.bands)] ?? null,
+  };
+}
+
+/**
+ * Get the configuration for a tracker based on its preset_id or generated
+ * config, rated on its own scale (the classic 1-10 without one)
  */
 export function getTrackerConfig(
   presetId: TrackerPresetId | null | undefined,
-  generatedConfig?: GeneratedTrackerConfig | null
+  generatedConfig?: GeneratedTrackerConfig | null,
+  scale?: ScaleDefinition | null
 ): TrackerConfig {
-  // If we have a generated config, use it
+  // If we have a generated config, use it; otherwise fall back to preset or default
+  let content = defaultConfig;
   if (generatedConfig) {
-    return buildConfigFromGenerated(generatedConfig);
-  }
-  
-  // Otherwise fall back to preset or default
-  if (!presetId) {
-    return defaultConfig;
+    content = buildContentFromGenerated(generatedConfig);
+  } else if (presetId) {
+    content = configMap[presetId] ?? defaultConfig;
   }
-  return configMap[presetId] ?? defaultConfig;
+  return applyScale(content, scale ?? DEFAULT_SCALE);
 }
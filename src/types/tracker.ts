@@ -5,6 +5,8 @@
  */
 
 import type { GeneratedTrackerConfig } from './generated-config';
+import type { CustomFieldDefinition } from './custom-field';
+import type { ScaleDefinition } from './scale';
 
 /**
  * Preset tracker types that come with pre-configured fields and suggestions
@@ -38,6 +40,12 @@ export interface Tracker {
   updated_at: string;
   /** AI-generated configuration for custom trackers */
   generated_config?: GeneratedTrackerConfig | null;
+  /** Extra fields entries record, in form order */
+  fields?: CustomFieldDefinition[] | null;
+  /** Range entries are rated on; null is the classic 1-10 */
+  scale?: ScaleDefinition | null;
+  /** Included in the daily check-in */
+  check_in?: boolean;
   /** User-provided description when dictionary lookup fails */
   user_description?: string | null;
   /** AI-generated image URL for tracker icon */
@@ -46,6 +54,8 @@ export interface Tracker {
   image_generated_at?: string | null;
   /** Model used to generate the image */
   image_model_name?: string | null;
+  /** When it was moved to the trash; trashed trackers are purged after 30 days */
+  deleted_at?: string | null;
 }
 
 /**
@@ -59,6 +69,10 @@ export interface CreateTrackerInput {
   color?: string;
   is_default?: boolean;
   generated_config?: GeneratedTrackerConfig | null;
+  /** Defaults to the fields proposed in generated_config */
+  fields?: CustomFieldDefinition[] | null;
+  /** Defaults to the scale proposed in generated_config */
+  scale?: ScaleDefinition | null;
   user_description?: string | null;
 }
 
@@ -71,6 +85,9 @@ export interface UpdateTrackerInput {
   color?: string;
   is_default?: boolean;
   generated_config?: GeneratedTrackerConfig | null;
+  fields?: CustomFieldDefinition[] | null;
+  scale?: ScaleDefinition | null;
+  check_in?: boolean;
   user_description?: string | null;
 }
 
@@ -55,10 +55,12 @@ Return ONLY valid JSON (no markdown, no explanation) with this exact structure:
   "emptyStateDescription": "string - 1-2 sentences explaining the value of tracking this",
   "emptyStateBullets": ["string", "string", "string"],
   "entryTitle": "string - e.g., 'Blood Pressure Entry'",
-  "deleteConfirmMessage": "string - deletion confirmation",
+  "deleteConfirmMessage": "string - confirmation that the entry moves to the trash, where it can be restored for 30 days",
   "locations": [{"value": "string", "label": "string"}],
   "triggers": ["string"],
-  "suggestedHashtags": ["string"]
+  "suggestedHashtags": ["string"],
+  "fields": [{"key": "string", "label": "string", "type": "string", "...": "type-specific properties"}],
+  "scale": {"min": 0, "max": 10, "step": 1}
 }
 
 Guidelines:
@@ -66,6 +68,14 @@ Guidelines:
 - locations: 6-10 relevant categories/types with value (lowercase-hyphenated) and label
 - triggers: 8-12 common factors that might affect this
 - suggestedHashtags: 5-8 useful hashtags without the # symbol
+- fields: 0-4 extra measurements that don't fit the 1-10 scale (e.g., systolic/diastolic for blood pressure, hours slept for sleep); use [] when none are needed. Each has a lowercase_snake "key", a "label", optional "required": true, and a "type" of:
+  - "number" with optional "unit", "min", "max", "step"
+  - "boolean"
+  - "single_select" or "multi_select" with "options": [{"value": "string", "label": "string"}] (at least 2)
+  - "duration" (entered as hours and minutes)
+  - "time" (time of day)
+  - "text" with optional "maxLength"
+- scale: leave it out to use the usual 1-10. Include it only when a standard instrument uses another range, e.g. {"min": 0, "max": 10} for pain rated with a true zero, {"min": 1, "max": 5} for a five-point rating, or {"min": 0, "max": 100} for a visual analogue scale. Whole numbers from 0 to 100; the min/max labels must then use the same numbers
 
 For intensityScale:
 - "high_bad" if high values are concerning (pain, blood pressure, anxiety)
@@ -125,6 +135,13 @@ Make it medically/scientifically informed but accessible to regular users.`;
         throw new Error(`Missing required field: ${field}`);
       }
     }
+    // Field definitions and scales are checked in detail by the client before saving
+    if ('fields' in config && !Array.isArray(config.fields)) {
+      delete config.fields;
+    }
+    if ('scale' in config && (typeof config.scale !== 'object' || config.scale === null)) {
+      delete config.scale;
+    }
     
     return new Response(JSON.stringify({ config }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,49 @@
+-- Migration: Create flare_episodes table
+-- Flares detected from entries, reviewed by the user (confirm/dismiss/merge/split)
+
+-- =============================================================================
+-- 1. Create flare_episodes table
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS flare_episodes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tracker_id UUID NOT NULL REFERENCES trackers(id) ON DELETE CASCADE,
+  started_at BIGINT NOT NULL, -- ms since epoch, same as pain_entries.timestamp
+  ended_at BIGINT NOT NULL,
+  peak_intensity INTEGER NOT NULL CHECK (peak_intensity BETWEEN 1 AND 10),
+  average_intensity NUMERIC(4, 2) NOT NULL,
+  entry_count INTEGER NOT NULL CHECK (entry_count > 0),
+  status TEXT NOT NULL DEFAULT 'detected' CHECK (status IN ('detected', 'confirmed', 'dismissed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ended_at >= started_at)
+);
+
+-- =============================================================================
+-- 2. Enable RLS on flare_episodes
+-- =============================================================================
+ALTER TABLE flare_episodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own flare episodes" ON flare_episodes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own flare episodes" ON flare_episodes
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own flare episodes" ON flare_episodes
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own flare episodes" ON flare_episodes
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- 3. Indexes and updated_at trigger
+-- =============================================================================
+CREATE INDEX IF NOT EXISTS idx_flare_episodes_tracker_started
+  ON flare_episodes(tracker_id, started_at);
+
+DROP TRIGGER IF EXISTS set_flare_episodes_updated_at ON flare_episodes;
+CREATE TRIGGER set_flare_episodes_updated_at
+  BEFORE UPDATE ON flare_episodes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,28 @@
+-- Migration: Server-side filtering for pain_entries
+-- Lets the app push its date, location and free-text filters to the database
+
+-- =============================================================================
+-- 1. search_text computed field
+-- =============================================================================
+-- PostgREST exposes functions taking the row type as filterable columns, so
+-- the app can query `search_text=ilike.*term*` without storing a copy.
+-- Keep in sync with COMPUTED_COLUMNS in src/adapters/local/localQuery.ts.
+CREATE OR REPLACE FUNCTION search_text(pain_entries)
+RETURNS TEXT AS $$
+  SELECT concat_ws(' ',
+    NULLIF($1.notes, ''),
+    NULLIF(array_to_string($1.triggers, ' '), ''),
+    NULLIF(array_to_string($1.locations, ' '), ''),
+    (SELECT string_agg('#' || tag, ' ') FROM unnest($1.hashtags) AS tag),
+    $1.intensity::TEXT
+  );
+$$ LANGUAGE sql STABLE;
+
+-- =============================================================================
+-- 2. Indexes for the pushed-down filters
+-- =============================================================================
+CREATE INDEX IF NOT EXISTS idx_pain_entries_tracker_timestamp
+  ON pain_entries(tracker_id, timestamp DESC);
+
+CREATE INDEX IF NOT EXISTS idx_pain_entries_locations
+  ON pain_entries USING GIN (locations);
@@ -0,0 +1,43 @@
+-- Migration: tracker_stats aggregate
+-- Per-tracker summary for the dashboard cards, so the app no longer fetches
+-- every entry just to count them.
+-- Keep in sync with LOCAL_FUNCTIONS in src/adapters/local/localFunctions.ts.
+
+-- =============================================================================
+-- 1. tracker_stats(user, now, start of today)
+-- =============================================================================
+-- Timestamps are ms since epoch. p_today_start is the start of the caller's
+-- local day, so the 14 sparkline buckets follow their calendar days.
+-- SECURITY INVOKER (the default): RLS still limits rows to the caller's own.
+CREATE OR REPLACE FUNCTION tracker_stats(
+  p_user_id UUID,
+  p_now BIGINT,
+  p_today_start BIGINT
+)
+RETURNS TABLE (
+  tracker_id UUID,
+  entry_count BIGINT,
+  last_timestamp BIGINT,
+  average_7d NUMERIC,
+  sparkline NUMERIC[]
+) AS $$
+  SELECT
+    t.id,
+    COUNT(e.id),
+    MAX(e.timestamp),
+    ROUND(AVG(e.intensity) FILTER (WHERE e.timestamp > p_now - 7 * 86400000::BIGINT), 2),
+    ARRAY(
+      SELECT ROUND(AVG(d.intensity), 2)
+      FROM generate_series(0, 13) AS day
+      LEFT JOIN pain_entries d
+        ON d.tracker_id = t.id
+        AND d.timestamp >= p_today_start - (13 - day) * 86400000::BIGINT
+        AND d.timestamp < p_today_start - (12 - day) * 86400000::BIGINT
+      GROUP BY day
+      ORDER BY day
+    )
+  FROM trackers t
+  LEFT JOIN pain_entries e ON e.tracker_id = t.id
+  WHERE t.user_id = p_user_id
+  GROUP BY t.id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,12 @@
+-- Migration: Add end time to pain_entries
+-- Entries can be backdated (timestamp is the start) and cover a span of time.
+-- ended_at is NULL for a single moment, or while the episode is still going.
+
+ALTER TABLE pain_entries
+ADD COLUMN IF NOT EXISTS ended_at BIGINT, -- ms since epoch, same as timestamp
+ADD COLUMN IF NOT EXISTS ongoing BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE pain_entries
+ADD CONSTRAINT pain_entries_ended_after_start CHECK (ended_at IS NULL OR ended_at >= timestamp),
+ADD CONSTRAINT pain_entries_ongoing_has_no_end CHECK (NOT (ongoing AND ended_at IS NOT NULL));
+
@@ -0,0 +1,15 @@
+-- Migration: Per-tracker custom fields
+-- trackers.fields holds the field definitions (see src/types/custom-field.ts);
+-- pain_entries.fields holds each entry's values keyed by field key.
+
+ALTER TABLE trackers
+ADD COLUMN IF NOT EXISTS fields JSONB;
+
+ALTER TABLE trackers
+ADD CONSTRAINT trackers_fields_is_array CHECK (fields IS NULL OR jsonb_typeof(fields) = 'array');
+
+ALTER TABLE pain_entries
+ADD COLUMN IF NOT EXISTS fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE pain_entries
+ADD CONSTRAINT pain_entries_fields_is_object CHECK (jsonb_typeof(fields) = 'object');
@@ -0,0 +1,81 @@
+-- Migration: Create medications and medication_doses tables
+-- Medications with a dose and schedule, plus a log of doses actually taken.
+-- Missed doses and adherence are derived from the two (see medicationService).
+
+-- =============================================================================
+-- 1. Create medications table
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS medications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) > 0),
+  dose NUMERIC(10, 3) NOT NULL CHECK (dose > 0),
+  unit TEXT NOT NULL,
+  -- {"type": "as_needed"} | {"type": "daily", "times": ["08:00"]}
+  -- | {"type": "weekly", "weekdays": [1, 4], "times": ["08:00"]}
+  schedule JSONB NOT NULL DEFAULT '{"type": "as_needed"}'::jsonb,
+  started_at BIGINT NOT NULL, -- ms since epoch, same as pain_entries.timestamp
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (schedule->>'type' IN ('as_needed', 'daily', 'weekly'))
+);
+
+-- =============================================================================
+-- 2. Create medication_doses table
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS medication_doses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  medication_id UUID NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  taken_at BIGINT NOT NULL,
+  scheduled_for BIGINT, -- the slot this dose covers; NULL for as-needed/extra doses
+  dose NUMERIC(10, 3) NOT NULL CHECK (dose > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =============================================================================
+-- 3. Enable RLS
+-- =============================================================================
+ALTER TABLE medications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medication_doses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own medications" ON medications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own medications" ON medications
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own medications" ON medications
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own medications" ON medications
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own medication doses" ON medication_doses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own medication doses" ON medication_doses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own medication doses" ON medication_doses
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own medication doses" ON medication_doses
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- 4. Indexes and updated_at trigger
+-- =============================================================================
+CREATE INDEX IF NOT EXISTS idx_medications_user
+  ON medications(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_medication_doses_medication_taken
+  ON medication_doses(medication_id, taken_at);
+
+DROP TRIGGER IF EXISTS set_medications_updated_at ON medications;
+CREATE TRIGGER set_medications_updated_at
+  BEFORE UPDATE ON medications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,16 @@
+-- Migration: Interventions and relief follow-ups on pain_entries
+-- An entry can record what was done about it, and later how much it helped.
+-- follow_up_at is when the app asks "how is it now?"; the answer fills
+-- relief, relief_intensity and followed_up_at.
+
+ALTER TABLE pain_entries
+ADD COLUMN IF NOT EXISTS interventions TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS follow_up_at BIGINT, -- ms since epoch, same as timestamp
+ADD COLUMN IF NOT EXISTS relief TEXT,
+ADD COLUMN IF NOT EXISTS relief_intensity INTEGER,
+ADD COLUMN IF NOT EXISTS followed_up_at BIGINT;
+
+ALTER TABLE pain_entries
+ADD CONSTRAINT pain_entries_relief_valid CHECK (relief IS NULL OR relief IN ('none', 'a_little', 'a_lot', 'complete')),
+ADD CONSTRAINT pain_entries_relief_intensity_range CHECK (relief_intensity IS NULL OR relief_intensity BETWEEN 1 AND 10);
+
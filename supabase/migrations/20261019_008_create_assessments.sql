@@ -0,0 +1,85 @@
+-- Migration: Create assessment_results and assessment_schedules tables
+-- Scored clinical questionnaires (BPI, ODI, PHQ-9, GAD-7) stored per tracker,
+-- and optional schedules to repeat them. Questions, scoring and severity bands
+-- live in the app (types/assessment.ts); rows keep the answers plus the score
+-- and band as computed when completed.
+
+-- =============================================================================
+-- 1. Create assessment_results table
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS assessment_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tracker_id UUID NOT NULL REFERENCES trackers(id) ON DELETE CASCADE,
+  assessment_id TEXT NOT NULL CHECK (assessment_id IN ('bpi', 'phq9', 'gad7', 'odi')),
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb, -- {"question_id": value}
+  score NUMERIC(5, 1) NOT NULL,
+  band TEXT NOT NULL,
+  subscales JSONB NOT NULL DEFAULT '{}'::jsonb, -- {"interference": 4.3}
+  completed_at BIGINT NOT NULL, -- ms since epoch, same as pain_entries.timestamp
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =============================================================================
+-- 2. Create assessment_schedules table
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS assessment_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tracker_id UUID NOT NULL REFERENCES trackers(id) ON DELETE CASCADE,
+  assessment_id TEXT NOT NULL CHECK (assessment_id IN ('bpi', 'phq9', 'gad7', 'odi')),
+  interval_days INTEGER NOT NULL CHECK (interval_days > 0),
+  starts_at BIGINT NOT NULL, -- first due date before any result exists
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tracker_id, assessment_id)
+);
+
+-- =============================================================================
+-- 3. Enable RLS
+-- =============================================================================
+ALTER TABLE assessment_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assessment_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own assessment results" ON assessment_results
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own assessment results" ON assessment_results
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own assessment results" ON assessment_results
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own assessment results" ON assessment_results
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own assessment schedules" ON assessment_schedules
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own assessment schedules" ON assessment_schedules
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own assessment schedules" ON assessment_schedules
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own assessment schedules" ON assessment_schedules
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- 4. Indexes and updated_at triggers
+-- =============================================================================
+CREATE INDEX IF NOT EXISTS idx_assessment_results_tracker_completed
+  ON assessment_results(tracker_id, completed_at);
+
+DROP TRIGGER IF EXISTS set_assessment_results_updated_at ON assessment_results;
+CREATE TRIGGER set_assessment_results_updated_at
+  BEFORE UPDATE ON assessment_results
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS set_assessment_schedules_updated_at ON assessment_schedules;
+CREATE TRIGGER set_assessment_schedules_updated_at
+  BEFORE UPDATE ON assessment_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,79 @@
+-- Migration: Per-tracker intensity scales
+-- trackers.scale holds the scale definition (see src/types/scale.ts); NULL is
+-- the classic 1-10. Columns that held 1-10 now allow the widest range any
+-- scale may use (0-100), and a trigger checks each entry against its own
+-- tracker's scale, since a CHECK constraint can't look at another table.
+
+-- =============================================================================
+-- 1. trackers.scale
+-- =============================================================================
+ALTER TABLE trackers
+ADD COLUMN IF NOT EXISTS scale JSONB;
+
+ALTER TABLE trackers
+ADD CONSTRAINT trackers_scale_valid CHECK (
+  scale IS NULL OR (
+    jsonb_typeof(scale) = 'object'
+    AND jsonb_typeof(scale->'min') = 'number'
+    AND jsonb_typeof(scale->'max') = 'number'
+    AND jsonb_typeof(scale->'step') = 'number'
+    AND (scale->>'min')::NUMERIC >= 0
+    AND (scale->>'max')::NUMERIC <= 100
+    AND (scale->>'min')::NUMERIC < (scale->>'max')::NUMERIC
+    AND (scale->>'step')::NUMERIC >= 1
+  )
+);
+
+-- =============================================================================
+-- 2. Widen the 1-10 columns
+-- =============================================================================
+ALTER TABLE pain_entries
+DROP CONSTRAINT IF EXISTS pain_entries_intensity_check,
+DROP CONSTRAINT IF EXISTS pain_entries_relief_intensity_range;
+
+ALTER TABLE pain_entries
+ADD CONSTRAINT pain_entries_intensity_check CHECK (intensity BETWEEN 0 AND 100),
+ADD CONSTRAINT pain_entries_relief_intensity_range CHECK (relief_intensity IS NULL OR relief_intensity BETWEEN 0 AND 100);
+
+ALTER TABLE flare_episodes
+DROP CONSTRAINT IF EXISTS flare_episodes_peak_intensity_check;
+
+ALTER TABLE flare_episodes
+ADD CONSTRAINT flare_episodes_peak_intensity_check CHECK (peak_intensity BETWEEN 0 AND 100),
+ALTER COLUMN average_intensity TYPE NUMERIC(5, 2);
+
+-- =============================================================================
+-- 3. Check entries against their tracker's scale
+-- =============================================================================
+CREATE OR REPLACE FUNCTION check_entry_intensity()
+RETURNS TRIGGER AS $$
+DECLARE
+  tracker_scale JSONB;
+  scale_min INTEGER;
+  scale_max INTEGER;
+  scale_step INTEGER;
+BEGIN
+  SELECT scale INTO tracker_scale FROM trackers WHERE id = NEW.tracker_id;
+  scale_min := COALESCE((tracker_scale->>'min')::INTEGER, 1);
+  scale_max := COALESCE((tracker_scale->>'max')::INTEGER, 10);
+  scale_step := COALESCE((tracker_scale->>'step')::INTEGER, 1);
+
+  IF NEW.intensity NOT BETWEEN scale_min AND scale_max OR (NEW.intensity - scale_min) % scale_step <> 0 THEN
+    RAISE EXCEPTION 'Intensity % is not on this tracker''s % to % scale', NEW.intensity, scale_min, scale_max
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.relief_intensity IS NOT NULL
+    AND (NEW.relief_intensity NOT BETWEEN scale_min AND scale_max OR (NEW.relief_intensity - scale_min) % scale_step <> 0) THEN
+    RAISE EXCEPTION 'Relief intensity % is not on this tracker''s % to % scale', NEW.relief_intensity, scale_min, scale_max
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_pain_entries_intensity
+  BEFORE INSERT OR UPDATE OF intensity, relief_intensity, tracker_id ON pain_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION check_entry_intensity();
@@ -0,0 +1,83 @@
+-- Migration: Create reminders and reminder_settings tables
+-- Per-tracker reminders to log an entry, and each user's quiet hours and
+-- snooze length. Stored per user so reminders follow the account across
+-- devices; when they fire is worked out in the app (services/reminderService.ts).
+
+-- =============================================================================
+-- 1. Create reminders table
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tracker_id UUID NOT NULL REFERENCES trackers(id) ON DELETE CASCADE,
+  -- {"type": "daily", "weekdays": [1, 3], "times": ["09:00"]}
+  -- or {"type": "interval", "weekdays": [0, 1, 2, 3, 4, 5, 6], "every_hours": 3}
+  schedule JSONB NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  snoozed_until BIGINT, -- ms since epoch, same as pain_entries.timestamp
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (schedule->>'type' IN ('daily', 'interval'))
+);
+
+-- =============================================================================
+-- 2. Create reminder_settings table
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS reminder_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiet_start TEXT DEFAULT '22:00' CHECK (quiet_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  quiet_end TEXT DEFAULT '07:00' CHECK (quiet_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  snooze_minutes INTEGER NOT NULL DEFAULT 30 CHECK (snooze_minutes > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((quiet_start IS NULL) = (quiet_end IS NULL))
+);
+
+-- =============================================================================
+-- 3. Enable RLS
+-- =============================================================================
+ALTER TABLE reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reminder_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reminders" ON reminders
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own reminders" ON reminders
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reminders" ON reminders
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reminders" ON reminders
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own reminder settings" ON reminder_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own reminder settings" ON reminder_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reminder settings" ON reminder_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reminder settings" ON reminder_settings
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- 4. Indexes and updated_at triggers
+-- =============================================================================
+CREATE INDEX IF NOT EXISTS idx_reminders_user
+  ON reminders(user_id);
+
+DROP TRIGGER IF EXISTS set_reminders_updated_at ON reminders;
+CREATE TRIGGER set_reminders_updated_at
+  BEFORE UPDATE ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS set_reminder_settings_updated_at ON reminder_settings;
+CREATE TRIGGER set_reminder_settings_updated_at
+  BEFORE UPDATE ON reminder_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
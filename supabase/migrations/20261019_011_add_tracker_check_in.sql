@@ -0,0 +1,6 @@
+-- Migration: Daily check-in opt-in
+-- Trackers the user goes through in the daily check-in. Off by default so
+-- the check-in only asks about trackers someone chose.
+
+ALTER TABLE trackers
+ADD COLUMN IF NOT EXISTS check_in BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,65 @@
+-- Migration: Create entry_revisions table and trigger
+-- Keeps the previous version of an entry on every update and delete so
+-- changes to medical records can be reviewed and restored. Rows are written
+-- only by the trigger; users can read their own but never change them.
+-- The local adapter writes the same rows offline (adapters/local/localQuery.ts).
+
+-- =============================================================================
+-- 1. Create entry_revisions table
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS entry_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key: the history outlives a deleted entry
+  entry_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL CHECK (operation IN ('update', 'delete')),
+  -- The whole pain_entries row before the change
+  data JSONB NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =============================================================================
+-- 2. Enable RLS
+-- =============================================================================
+ALTER TABLE entry_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own entry revisions" ON entry_revisions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- 3. Record revisions
+-- =============================================================================
+-- SECURITY DEFINER because users have no insert policy on entry_revisions
+-- and cannot read auth.users; the fixed search_path keeps callers from
+-- substituting objects of their own.
+CREATE OR REPLACE FUNCTION public.record_entry_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Saving an entry unchanged only moves updated_at; nothing to keep
+  IF TG_OP = 'UPDATE' AND (to_jsonb(OLD) - 'updated_at') = (to_jsonb(NEW) - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Entries removed along with their account leave no history behind
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO public.entry_revisions (entry_id, user_id, operation, data)
+  VALUES (OLD.id, OLD.user_id, lower(TG_OP), to_jsonb(OLD));
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS record_pain_entries_revision ON pain_entries;
+CREATE TRIGGER record_pain_entries_revision
+  AFTER UPDATE OR DELETE ON pain_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_entry_revision();
+
+-- =============================================================================
+-- 4. Indexes
+-- =============================================================================
+CREATE INDEX IF NOT EXISTS idx_entry_revisions_entry
+  ON entry_revisions(entry_id, changed_at DESC);
@@ -0,0 +1,94 @@
+-- Migration: Trash for trackers and entries
+-- Deleting a tracker or entry now only sets deleted_at; the app hides
+-- trashed rows everywhere but the trash, offers undo and restore, and purges
+-- them for good 30 days later (services/trashService.ts). An entry deleted
+-- for good takes its revision history with it.
+
+-- =============================================================================
+-- 1. Add deleted_at columns
+-- =============================================================================
+ALTER TABLE trackers
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE pain_entries
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Only trashed rows are looked up by deleted_at (the trash view and purge)
+CREATE INDEX IF NOT EXISTS idx_trackers_deleted_at
+  ON trackers(user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pain_entries_deleted_at
+  ON pain_entries(user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- =============================================================================
+-- 2. Leave trashed rows out of tracker_stats
+-- =============================================================================
+-- Same as 20261019_003_tracker_stats.sql apart from the deleted_at conditions.
+-- Keep in sync with LOCAL_FUNCTIONS in src/adapters/local/localFunctions.ts.
+CREATE OR REPLACE FUNCTION tracker_stats(
+  p_user_id UUID,
+  p_now BIGINT,
+  p_today_start BIGINT
+)
+RETURNS TABLE (
+  tracker_id UUID,
+  entry_count BIGINT,
+  last_timestamp BIGINT,
+  average_7d NUMERIC,
+  sparkline NUMERIC[]
+) AS $$
+  SELECT
+    t.id,
+    COUNT(e.id),
+    MAX(e.timestamp),
+    ROUND(AVG(e.intensity) FILTER (WHERE e.timestamp > p_now - 7 * 86400000::BIGINT), 2),
+    ARRAY(
+      SELECT ROUND(AVG(d.intensity), 2)
+      FROM generate_series(0, 13) AS day
+      LEFT JOIN pain_entries d
+        ON d.tracker_id = t.id
+        AND d.deleted_at IS NULL
+        AND d.timestamp >= p_today_start - (13 - day) * 86400000::BIGINT
+        AND d.timestamp < p_today_start - (12 - day) * 86400000::BIGINT
+      GROUP BY day
+      ORDER BY day
+    )
+  FROM trackers t
+  LEFT JOIN pain_entries e ON e.tracker_id = t.id AND e.deleted_at IS NULL
+  WHERE t.user_id = p_user_id
+    AND t.deleted_at IS NULL
+  GROUP BY t.id;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================================================
+-- 3. Drop an entry's history when it is deleted for good
+-- =============================================================================
+-- Deleting now only happens from the trash (or with the tracker or account),
+-- so the snapshots in entry_revisions go too instead of outliving the entry.
+-- Same as 20261019_012_create_entry_revisions.sql apart from the DELETE
+-- branch. Keep in sync with dropRevisions in src/adapters/local/indexedDbDb.ts.
+CREATE OR REPLACE FUNCTION public.record_entry_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.entry_revisions WHERE entry_id = OLD.id::TEXT;
+    RETURN OLD;
+  END IF;
+
+  -- Saving an entry unchanged only moves updated_at; nothing to keep
+  IF (to_jsonb(OLD) - 'updated_at') = (to_jsonb(NEW) - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.entry_revisions (entry_id, user_id, operation, data)
+  VALUES (OLD.id, OLD.user_id, 'update', to_jsonb(OLD));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- History left behind by entries deleted before this migration
+DELETE FROM public.entry_revisions r
+WHERE NOT EXISTS (SELECT 1 FROM public.pain_entries e WHERE e.id::TEXT = r.entry_id);